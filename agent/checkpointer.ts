@@ -0,0 +1,186 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointTuple,
+  copyCheckpoint,
+  getCheckpointId,
+  MemorySaver,
+  PendingWrite,
+  WRITES_IDX_MAP,
+} from "@langchain/langgraph-checkpoint";
+import prisma from "@/lib/prisma";
+
+// Checkpoint store of the agent graph: Postgres through Prisma, or in memory
+// for local development (threads are lost on restart)
+export type CheckpointerKind = "prisma" | "memory";
+
+// Prisma result types (before client generation, these match the expected shape)
+interface PrismaCheckpointResult {
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  parentId: string | null;
+  type: string;
+  checkpoint: Uint8Array;
+  metadataType: string;
+  metadata: Uint8Array;
+}
+
+interface PrismaCheckpointWriteResult {
+  taskId: string;
+  idx: number;
+  channel: string;
+  type: string;
+  value: Uint8Array;
+}
+
+/**
+ * LangGraph checkpointer on the AgentCheckpoint and AgentCheckpointWrite tables
+ * Mirrors MemorySaver: checkpoint ids are uuid6, so the latest sorts last.
+ */
+export class PrismaCheckpointSaver extends BaseCheckpointSaver {
+  private async toTuple(row: PrismaCheckpointResult): Promise<CheckpointTuple> {
+    const writes: PrismaCheckpointWriteResult[] = await prisma.agentCheckpointWrite.findMany({
+      where: { threadId: row.threadId, checkpointNs: row.checkpointNs, checkpointId: row.checkpointId },
+      orderBy: [{ taskId: "asc" }, { idx: "asc" }],
+    });
+
+    return {
+      config: {
+        configurable: { thread_id: row.threadId, checkpoint_ns: row.checkpointNs, checkpoint_id: row.checkpointId },
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, row.checkpoint),
+      metadata: await this.serde.loadsTyped(row.metadataType, row.metadata),
+      parentConfig: row.parentId
+        ? { configurable: { thread_id: row.threadId, checkpoint_ns: row.checkpointNs, checkpoint_id: row.parentId } }
+        : undefined,
+      pendingWrites: await Promise.all(
+        writes.map(async (w): Promise<[string, string, unknown]> => [w.taskId, w.channel, await this.serde.loadsTyped(w.type, w.value)])
+      ),
+    };
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const checkpointId = getCheckpointId(config);
+    const row: PrismaCheckpointResult | null = await prisma.agentCheckpoint.findFirst({
+      where: {
+        threadId: config.configurable?.thread_id,
+        checkpointNs: config.configurable?.checkpoint_ns ?? "",
+        ...(checkpointId ? { checkpointId } : {}),
+      },
+      orderBy: { checkpointId: "desc" },
+    });
+
+    return row ? this.toTuple(row) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options: CheckpointListOptions = {}): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options;
+    let remaining = options.limit;
+    const rows: PrismaCheckpointResult[] = await prisma.agentCheckpoint.findMany({
+      where: {
+        ...(config.configurable?.thread_id ? { threadId: config.configurable.thread_id } : {}),
+        ...(config.configurable?.checkpoint_ns !== undefined ? { checkpointNs: config.configurable.checkpoint_ns } : {}),
+        ...(config.configurable?.checkpoint_id
+          ? { checkpointId: config.configurable.checkpoint_id }
+          : before?.configurable?.checkpoint_id
+            ? { checkpointId: { lt: before.configurable.checkpoint_id } }
+            : {}),
+      },
+      orderBy: { checkpointId: "desc" },
+    });
+
+    for (const row of rows) {
+      const tuple = await this.toTuple(row);
+      const metadata = (tuple.metadata ?? {}) as Record<string, unknown>;
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata[key] === value)) continue;
+
+      if (remaining !== undefined) {
+        if (remaining <= 0) break;
+        remaining -= 1;
+      }
+      yield tuple;
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (threadId === undefined) {
+      throw new Error(`Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.`);
+    }
+
+    const [[type, serialized], [metadataType, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata),
+    ]);
+    const data = {
+      parentId: config.configurable?.checkpoint_id ?? null,
+      type,
+      checkpoint: serialized,
+      metadataType,
+      metadata: serializedMetadata,
+    };
+
+    await prisma.agentCheckpoint.upsert({
+      where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId: checkpoint.id } },
+      create: { threadId, checkpointNs, checkpointId: checkpoint.id, ...data },
+      update: data,
+    });
+
+    return { configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: checkpoint.id } };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined) {
+      throw new Error(`Failed to put writes. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property`);
+    }
+    if (checkpointId === undefined) {
+      throw new Error(`Failed to put writes. The passed RunnableConfig is missing a required "checkpoint_id" field in its "configurable" property.`);
+    }
+
+    await Promise.all(writes.map(async ([channel, value], i) => {
+      const [type, serialized] = await this.serde.dumpsTyped(value);
+      const idx = WRITES_IDX_MAP[channel] || i;
+      const data = { channel, type, value: serialized };
+
+      // Regular writes are kept on retry; special writes (errors, interrupts) are replaced
+      await prisma.agentCheckpointWrite.upsert({
+        where: { threadId_checkpointNs_checkpointId_taskId_idx: { threadId, checkpointNs, checkpointId, taskId, idx } },
+        create: { threadId, checkpointNs, checkpointId, taskId, idx, ...data },
+        update: idx >= 0 ? {} : data,
+      });
+    }));
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.agentCheckpointWrite.deleteMany({ where: { threadId } }),
+      prisma.agentCheckpoint.deleteMany({ where: { threadId } }),
+    ]);
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var agentCheckpointer: BaseCheckpointSaver | undefined;
+}
+
+/**
+ * Checkpointer chosen by CHECKPOINTER ("prisma" or "memory"); Prisma when a
+ * DATABASE_URL is configured, otherwise memory
+ */
+export function getCheckpointer(): BaseCheckpointSaver {
+  if (!globalThis.agentCheckpointer) {
+    const kind = (process.env.CHECKPOINTER || (process.env.DATABASE_URL ? "prisma" : "memory")) as CheckpointerKind;
+    globalThis.agentCheckpointer = kind === "prisma" ? new PrismaCheckpointSaver() : new MemorySaver();
+  }
+
+  return globalThis.agentCheckpointer;
+}
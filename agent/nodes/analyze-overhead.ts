@@ -1,9 +1,66 @@
 import { complete, extractJSON } from "@/lib/llm";
-import { CostingState } from "../state";
+import { CostingState, Revision } from "../state";
 import { getPrompt, getCategoryConfig } from "../prompts/registry";
+import { diffSnapshots, revisionRole, snapshotCosts } from "../revision";
+
+/**
+ * Overhead rate and its reasoning: the reviewer's stated rate, the current rate
+ * when re-totalling after a revision upstream, otherwise estimated
+ */
+async function resolveOverhead(state: CostingState): Promise<{ overheadPercentage: number; reasoning: string }> {
+  const { category, subcategory, revision } = state;
+  const role = revisionRole(state, "overhead");
+
+  if (role === "target" && revision?.overheadPercentage !== undefined) {
+    return {
+      overheadPercentage: Math.min(1, revision.overheadPercentage),
+      reasoning: "Rate set by the reviewer.",
+    };
+  }
+  if (role === "downstream") {
+    return {
+      overheadPercentage: state.overheadPercentage,
+      reasoning: "Rate kept; totals recomputed from the revised direct costs.",
+    };
+  }
+
+  // Get category-aware prompt and config
+  let prompt = await getPrompt('overhead', {
+    state,
+    category,
+    subcategory,
+  });
+  const categoryConfig = await getCategoryConfig(category, subcategory);
+
+  if (role === "target" && revision) {
+    prompt += `\n\n**Reviewer feedback on the previous overhead rate of ${(state.overheadPercentage * 100).toFixed(1)}% (address it in this one):**\n${revision.feedback}`;
+  }
+
+  const response = await complete(prompt, { maxTokens: 500 });
+
+  let overheadData: { overheadPercentage: number; reasoning: string };
+  const parsed = extractJSON<{ overheadPercentage: number; reasoning: string }>(response, "object");
+
+  if (parsed) {
+    overheadData = parsed;
+  } else {
+    // Default to 25% overhead
+    overheadData = {
+      overheadPercentage: 0.25,
+      reasoning: "Standard manufacturing overhead rate applied",
+    };
+  }
+
+  // Ensure overhead is within reasonable bounds based on category config
+  const { min, max } = categoryConfig.overheadRange || { min: 0.15, max: 0.40 };
+  return {
+    overheadPercentage: Math.min(max, Math.max(min, overheadData.overheadPercentage)),
+    reasoning: overheadData.reasoning,
+  };
+}
 
 export async function analyzeOverhead(state: CostingState): Promise<Partial<CostingState>> {
-  const { materialCosts, laborCosts, category, subcategory } = state;
+  const { materialCosts, laborCosts, revision } = state;
 
   const materialsTotal = materialCosts?.reduce((sum, m) => sum + m.totalCost, 0) || 0;
   const laborTotal = laborCosts?.totalCost || 0;
@@ -17,35 +74,22 @@ export async function analyzeOverhead(state: CostingState): Promise<Partial<Cost
   }
 
   try {
-    // Get category-aware prompt and config
-    const prompt = await getPrompt('overhead', {
-      state,
-      category,
-      subcategory,
-    });
-    const categoryConfig = await getCategoryConfig(category, subcategory);
-
-    const response = await complete(prompt, { maxTokens: 500 });
-
-    let overheadData: { overheadPercentage: number; reasoning: string };
-    const parsed = extractJSON<{ overheadPercentage: number; reasoning: string }>(response, "object");
-
-    if (parsed) {
-      overheadData = parsed;
-    } else {
-      // Default to 25% overhead
-      overheadData = {
-        overheadPercentage: 0.25,
-        reasoning: "Standard manufacturing overhead rate applied",
-      };
-    }
-
-    // Ensure overhead is within reasonable bounds based on category config
-    const { min, max } = categoryConfig.overheadRange || { min: 0.15, max: 0.40 };
-    const overheadPercentage = Math.min(max, Math.max(min, overheadData.overheadPercentage));
+    const overheadData = await resolveOverhead(state);
+    const { overheadPercentage } = overheadData;
     const overheadTotal = Math.round(directCosts * overheadPercentage * 100) / 100;
     const totalCost = Math.round((directCosts + overheadTotal) * 100) / 100;
 
+    // Overhead is the last step of every revision: record what it changed
+    const revised: Revision[] = revision
+      ? [{
+          feedback: revision.feedback,
+          target: revision.target,
+          reasoning: revision.reasoning,
+          changes: diffSnapshots(revision.before, snapshotCosts({ ...state, overheadPercentage, overheadTotal, totalCost })),
+          revisedAt: new Date().toISOString(),
+        }]
+      : [];
+
     return {
       overheadPercentage,
       overheadTotal,
@@ -53,10 +97,12 @@ export async function analyzeOverhead(state: CostingState): Promise<Partial<Cost
       currentNode: "overhead",
       progress: 80,
       approvalStatus: "pending",
+      revision: null,
+      revisions: revised,
       messages: [
         {
           role: "assistant",
-          content: `Overhead calculated at ${(overheadPercentage * 100).toFixed(0)}% ($${overheadTotal.toFixed(2)}). ${overheadData.reasoning}\n\n**Total Estimated Cost: $${totalCost.toFixed(2)}**\n\nPlease review and approve the cost estimate to generate the final report.`,
+          content: `Overhead calculated at ${(overheadPercentage * 100).toFixed(0)}% ($${overheadTotal.toFixed(2)}). ${overheadData.reasoning}${revised.length > 0 ? `\n\nThe revision changed ${revised[0].changes.length} value(s).` : ""}\n\n**Total Estimated Cost: $${totalCost.toFixed(2)}**\n\nPlease review and approve the cost estimate to generate the final report.`,
         },
       ],
     };
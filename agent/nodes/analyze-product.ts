@@ -1,9 +1,41 @@
 import { complete, extractJSON } from "@/lib/llm";
-import { CostingState, ProductComponent } from "../state";
+import { CostingState, ProductComponent, RevisionRequest } from "../state";
 import { getPrompt } from "../prompts/registry";
+import { revisionRole } from "../revision";
+
+/**
+ * Apply a reviewer's stated component values; components not in the list are added
+ */
+function applyComponentChanges(
+  components: ProductComponent[],
+  changes: RevisionRequest["componentChanges"] = []
+): ProductComponent[] {
+  const revised = components.map((c) => ({ ...c }));
+
+  for (const change of changes) {
+    const existing = revised.find((c) => c.name.toLowerCase() === change.name.toLowerCase());
+    if (existing) {
+      Object.assign(existing, {
+        material: change.material ? String(change.material).toLowerCase() : existing.material,
+        quantity: Number(change.quantity) > 0 ? Number(change.quantity) : existing.quantity,
+        unit: change.unit ? String(change.unit).toLowerCase() : existing.unit,
+      });
+    } else if (change.material && Number(change.quantity) > 0) {
+      revised.push({
+        name: change.name,
+        material: String(change.material).toLowerCase(),
+        quantity: Number(change.quantity),
+        unit: String(change.unit || "piece").toLowerCase(),
+      });
+    }
+  }
+
+  return revised;
+}
 
 export async function analyzeProduct(state: CostingState): Promise<Partial<CostingState>> {
-  const { productDescription, category, subcategory } = state;
+  const { productDescription, category, subcategory, revision } = state;
+  const revising = revisionRole(state, "analyze") === "target";
 
   if (!productDescription) {
     return {
@@ -12,14 +44,35 @@ export async function analyzeProduct(state: CostingState): Promise<Partial<Costi
     };
   }
 
+  // The reviewer stated the values: revise the existing breakdown without re-analyzing
+  if (revising && revision?.componentChanges?.length) {
+    const components = applyComponentChanges(state.components, revision.componentChanges);
+    return {
+      components,
+      currentNode: "analyze",
+      progress: 20,
+      messages: [
+        {
+          role: "assistant",
+          content: `I've revised the components per your feedback: ${revision.componentChanges.map((c) => c.name).join(", ")}.`,
+        },
+      ],
+    };
+  }
+
   try {
     // Get category-aware prompt
-    const prompt = await getPrompt('analyze', {
+    let prompt = await getPrompt('analyze', {
       state,
       category,
       subcategory,
     });
 
+    // Re-run after review: the previous breakdown was sent back with feedback
+    if (revising && revision) {
+      prompt += `\n\n**Reviewer feedback on the previous breakdown (address it in this one):**\n${revision.feedback}\n\nPrevious components:\n${JSON.stringify(state.components)}`;
+    }
+
     const response = await complete(prompt, { maxTokens: 2000 });
 
     // Parse the JSON response
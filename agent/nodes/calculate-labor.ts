@@ -1,10 +1,18 @@
 import { complete, extractJSON } from "@/lib/llm";
-import { CostingState, LaborCosts } from "../state";
-import { findLaborRate } from "@/lib/db";
+import { CostingState, LaborCategoryCost, LaborCosts } from "../state";
+import { LabourOperation } from "@/lib/prompts/types";
+import { DEFAULT_HOURLY_RATES, resolveLabourRates } from "@/lib/cost-model";
 import { getPrompt, getCategoryConfig } from "../prompts/registry";
+import { DEFAULT_LABOR_CATEGORIES } from "../prompts/types";
+import { revisionRole } from "../revision";
+
+// Hours per labor category when the estimate has none for it
+const DEFAULT_CATEGORY_HOURS = 1;
+
+const SKILL_LEVELS: LabourOperation["skillLevel"][] = ["entry", "intermediate", "expert"];
 
 export async function calculateLaborCosts(state: CostingState): Promise<Partial<CostingState>> {
-  const { productDescription, components, materialCosts, category, subcategory } = state;
+  const { components, category, subcategory } = state;
 
   if (!components || components.length === 0) {
     return {
@@ -13,77 +21,101 @@ export async function calculateLaborCosts(state: CostingState): Promise<Partial<
     };
   }
 
+  const role = revisionRole(state, "labor");
+
   try {
-    // Get category-aware prompt and config
-    const prompt = await getPrompt('labor', {
+    // Get category config and the prompt for its labor categories
+    const categoryConfig = await getCategoryConfig(category, subcategory);
+    const laborCategories = categoryConfig.laborCategories?.length ? categoryConfig.laborCategories : DEFAULT_LABOR_CATEGORIES;
+    let prompt = await getPrompt('labor', {
       state,
       category,
       subcategory,
+      config: { ...categoryConfig, laborCategories },
     });
-    const categoryConfig = await getCategoryConfig(category, subcategory);
+
+    if (role === "target" && state.revision) {
+      prompt += `\n\n**Reviewer feedback on the previous labor estimate (address it in this one):**\n${state.revision.feedback}\n\nPrevious labor costs:\n${JSON.stringify(state.laborCosts)}`;
+    }
 
     const response = await complete(prompt, { maxTokens: 1000 });
 
-    let laborEstimates: Record<string, { hours: number; skillLevel: string }>;
-    const parsed = extractJSON<Record<string, { hours: number; skillLevel: string }>>(response, "object");
-
-    if (parsed) {
-      laborEstimates = parsed;
-    } else {
-      // Use default estimates
-      laborEstimates = {
-        manufacturing: { hours: 4, skillLevel: "intermediate" },
-        assembly: { hours: 2, skillLevel: "entry" },
-        finishing: { hours: 1, skillLevel: "intermediate" },
-        qualityControl: { hours: 0.5, skillLevel: "entry" },
-      };
-    }
+    // Categories missing from the estimate (or an unparsable one) use their defaults
+    const parsed = extractJSON<Record<string, { hours?: number | string | null; skillLevel?: string }>>(response, "object");
+    const laborEstimates = parsed ?? {};
 
-    // Calculate costs using labor rates from database
-    // Use category config labor categories if available, otherwise use defaults
-    const laborCategories = categoryConfig.laborCategories || [];
-    const hasCustomCategories = laborCategories.length > 0 && !laborCategories.find(c => c.id === 'manufacturing');
+    // Hours the reviewer stated replace the estimate for those categories
+    if (role === "target") {
+      for (const [id, hours] of Object.entries(state.revision?.laborHours ?? {})) {
+        laborEstimates[id] = { ...laborEstimates[id], hours };
+      }
+    }
 
-    // Get labor rates (await the async calls)
-    const manufacturingRate = await findLaborRate("machining", laborEstimates.manufacturing?.skillLevel as "entry" | "intermediate" | "expert" || "intermediate")
-      || await findLaborRate("woodworking", "intermediate");
-    const assemblyRate = await findLaborRate("assembly", laborEstimates.assembly?.skillLevel as "entry" | "intermediate" | "expert" || "entry");
-    const finishingRate = await findLaborRate("finishing", laborEstimates.finishing?.skillLevel as "entry" | "intermediate" | "expert" || "intermediate");
-    const qcRate = await findLaborRate("quality_control", laborEstimates.qualityControl?.skillLevel as "entry" | "intermediate" | "expert" || "entry");
+    // Each category is priced at the LaborRate for its process type and skill level
+    const defaulted = new Set<string>();
+    const labourOperations = await resolveLabourRates(laborCategories.map((c): LabourOperation => {
+      const estimate = laborEstimates[c.id];
+      // null or "" would convert to 0 hours, so treat them as missing like undefined
+      const rawHours = estimate?.hours;
+      const hours = rawHours === null || rawHours === undefined || String(rawHours).trim() === "" ? NaN : Number(rawHours);
+      const skillLevel = SKILL_LEVELS.find((s) => s === estimate?.skillLevel) ?? c.defaultSkillLevel;
+      if (!(hours >= 0)) defaulted.add(c.id);
 
-    // For custom categories (like food-beverage), map to appropriate rates
-    const prepRate = hasCustomCategories ? await findLaborRate("prep", "entry") : null;
-    const cookingRate = hasCustomCategories ? await findLaborRate("cooking", "intermediate") : null;
+      return {
+        name: c.name,
+        processType: c.processType,
+        skillLevel,
+        minutesPerUnit: (hours >= 0 ? hours : DEFAULT_CATEGORY_HOURS) * 60,
+      };
+    }));
 
-    const manufacturingHours = laborEstimates.manufacturing?.hours || laborEstimates.prep?.hours || 4;
-    const assemblyHours = laborEstimates.assembly?.hours || 2;
-    const finishingHours = laborEstimates.finishing?.hours || laborEstimates.cooking?.hours || 1;
-    const qcHours = laborEstimates.qualityControl?.hours || 0.5;
+    const categories: Record<string, LaborCategoryCost> = {};
+    laborCategories.forEach((c, i) => {
+      const op = labourOperations[i];
+      const hours = op.minutesPerUnit / 60;
+      const hourlyRate = op.hourlyRate ?? DEFAULT_HOURLY_RATES[op.skillLevel];
 
-    const manufacturingCost = manufacturingHours * (prepRate?.hourlyRate || manufacturingRate?.hourlyRate || 45);
-    const assemblyCost = assemblyHours * (assemblyRate?.hourlyRate || 25);
-    const finishingCost = finishingHours * (cookingRate?.hourlyRate || finishingRate?.hourlyRate || 35);
-    const qcCost = qcHours * (qcRate?.hourlyRate || 28);
+      categories[c.id] = {
+        name: c.name,
+        processType: c.processType,
+        skillLevel: op.skillLevel,
+        hours,
+        hourlyRate,
+        cost: Math.round(hours * hourlyRate * 100) / 100,
+        defaultHours: defaulted.has(c.id) || undefined,
+      };
+    });
 
     const laborCosts: LaborCosts = {
-      manufacturing: Math.round(manufacturingCost * 100) / 100,
-      assembly: Math.round(assemblyCost * 100) / 100,
-      finishing: Math.round(finishingCost * 100) / 100,
-      qualityControl: Math.round(qcCost * 100) / 100,
-      totalHours: Math.round((manufacturingHours + assemblyHours + finishingHours + qcHours) * 100) / 100,
-      totalCost: Math.round((manufacturingCost + assemblyCost + finishingCost + qcCost) * 100) / 100,
+      categories,
+      totalHours: Math.round(Object.values(categories).reduce((sum, l) => sum + l.hours, 0) * 100) / 100,
+      totalCost: Math.round(Object.values(categories).reduce((sum, l) => sum + l.cost, 0) * 100) / 100,
     };
 
+    const messages = [
+      {
+        role: "assistant",
+        content: `Labor costs estimated: $${laborCosts.totalCost.toFixed(2)} for ${laborCosts.totalHours} hours of work across ${laborCategories.map((c) => c.name).join(", ")}.`,
+      },
+    ];
+
+    // Default hours are a placeholder, not an estimate; say so rather than
+    // let them pass as one
+    if (defaulted.size > 0) {
+      const names = laborCategories.filter((c) => defaulted.has(c.id)).map((c) => c.name);
+      console.warn(`Labor estimate had no usable hours for ${names.join(", ")}, using ${DEFAULT_CATEGORY_HOURS} h each`);
+      messages.push({
+        role: "assistant",
+        content: `Warning: ${parsed ? "the labor estimate gave no usable hours" : "the labor estimate could not be read"}, so ${DEFAULT_CATEGORY_HOURS} hour per unit was assumed for ${names.join(", ")}. Review these hours before relying on the labor cost.`,
+      });
+    }
+
     return {
       laborCosts,
+      labourOperations,
       currentNode: "labor",
       progress: 60,
-      messages: [
-        {
-          role: "assistant",
-          content: `Labor costs estimated: $${laborCosts.totalCost.toFixed(2)} for ${laborCosts.totalHours} hours of work.`,
-        },
-      ],
+      messages,
     };
   } catch (error) {
     console.error("Error in calculateLaborCosts:", error);
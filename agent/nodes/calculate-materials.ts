@@ -1,9 +1,57 @@
 import { complete, extractJSON } from "@/lib/llm";
-import { CostingState, MaterialCostItem } from "../state";
+import { CostingState, MaterialCostItem, ProductComponent } from "../state";
 import { findMaterialPrice } from "@/lib/db";
+import {
+  applyYield,
+  ESTIMATE_PROVENANCE,
+  FALLBACK_PROVENANCE,
+  materialProvenance,
+  priceMaterialLine,
+  resolveLineYield,
+  MATERIAL_LOOKUP_CONCURRENCY,
+  REVIEWER_PROVENANCE,
+  UnitPrice,
+} from "@/lib/materials";
+import { MaterialProperties } from "@/lib/units";
+import { getCategoryConfig } from "@/lib/prompts";
+import { createFxConverter, toReportingPrice } from "@/lib/fx";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { revisionRole } from "../revision";
+
+type PriceOverride = { material: string; pricePerUnit: number; unit: string };
+
+// Material names as the reviewer, the LLM and the BOM may write them
+function sameMaterial(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Re-estimate the prices reviewer feedback is about, from the current ones
+ * Returns only the materials the feedback changes (none when it changes none
+ * or the response cannot be read)
+ */
+async function reestimatePrices(state: CostingState, feedback: string): Promise<PriceOverride[]> {
+  const response = await complete(
+    `A reviewer sent these material prices back with this feedback:
+"${feedback}"
+
+Current prices:
+${state.materialCosts.map((m) => `- ${m.material} (${m.component}): ${m.pricePerUnit} USD per ${m.priceUnit ?? m.unit}`).join("\n")}
+
+Re-estimate ONLY the materials the feedback is about, using current wholesale market prices in USD.
+Return ONLY a JSON object with material names (as listed above) as keys, or {} if the feedback changes no price.
+Example: {"steel": {"pricePerUnit": 0.70, "unit": "lb"}}`,
+    { maxTokens: 1000 }
+  );
+
+  const estimates = extractJSON<Record<string, { pricePerUnit: number; unit: string }>>(response, "object") ?? {};
+  return Object.entries(estimates)
+    .filter(([, e]) => e && Number(e.pricePerUnit) > 0)
+    .map(([material, e]) => ({ material, pricePerUnit: Number(e.pricePerUnit), unit: e.unit }));
+}
 
 export async function calculateMaterialCosts(state: CostingState): Promise<Partial<CostingState>> {
-  const { components } = state;
+  const { components, category } = state;
 
   if (!components || components.length === 0) {
     return {
@@ -15,27 +63,39 @@ export async function calculateMaterialCosts(state: CostingState): Promise<Parti
   try {
     const materialCosts: MaterialCostItem[] = [];
     const unknownMaterials: string[] = [];
+    // The agent reports in USD; convert prices stored in other currencies
+    const fx = createFxConverter();
+    // Lines are bought at their gross quantity after the category's losses
+    const config = await getCategoryConfig(category || "");
+    const priceLine = (component: ProductComponent, price: UnitPrice, properties?: MaterialProperties) =>
+      applyYield(priceMaterialLine(component, price, properties, 2), resolveLineYield(component, config), 2);
+
+    // Prices the reviewer gave when sending the estimate back take precedence;
+    // feedback without prices re-estimates the lines it is about
+    const revision = revisionRole(state, "materials") === "target" ? state.revision : undefined;
+    const reviewerPrices = revision?.materialPrices ?? [];
+    const revisedPrices = revision && reviewerPrices.length === 0
+      ? await reestimatePrices(state, revision.feedback)
+      : [];
+    const overrides = reviewerPrices.length > 0 ? reviewerPrices : revisedPrices;
+    const overrideProvenance = reviewerPrices.length > 0 ? REVIEWER_PROVENANCE : ESTIMATE_PROVENANCE;
+
+    // First pass: look up known materials using semantic search, several lines at a time
+    const lookups = await mapWithConcurrency(components, MATERIAL_LOOKUP_CONCURRENCY, async (component) => {
+      const override = overrides.find((p) => sameMaterial(p.material, component.material));
+      if (override) return { component, override };
 
-    // First pass: look up known materials using semantic search
-    for (const component of components) {
       const materialPrice = await findMaterialPrice(component.material);
+      const price = materialPrice && await toReportingPrice(materialPrice, fx);
+      return { component, materialPrice, price };
+    });
 
-      if (materialPrice) {
-        // Handle unit conversion if needed
-        const adjustedQuantity = component.quantity;
-        const adjustedPricePerUnit = materialPrice.pricePerUnit;
-
-        // If units don't match, we'll use the database unit
-        const totalCost = adjustedQuantity * adjustedPricePerUnit;
-
-        materialCosts.push({
-          component: component.name,
-          material: component.material,
-          quantity: adjustedQuantity,
-          unit: materialPrice.unit,
-          pricePerUnit: adjustedPricePerUnit,
-          totalCost: Math.round(totalCost * 100) / 100,
-        });
+    for (const { component, override, materialPrice, price } of lookups) {
+      if (override) {
+        materialCosts.push(priceLine(component, { pricePerUnit: Number(override.pricePerUnit), unit: override.unit || component.unit, provenance: overrideProvenance }));
+      } else if (materialPrice && price) {
+        // Convert the BOM quantity into the unit the price is quoted in
+        materialCosts.push(priceLine(component, { ...price, provenance: materialProvenance(materialPrice, fx.asOf) }, materialPrice));
       } else {
         unknownMaterials.push(component.material);
       }
@@ -64,58 +124,49 @@ Example: {"carbon fiber": {"pricePerUnit": 25.00, "unit": "lb"}}`,
         for (const component of unknownComponents) {
           const estimate = estimates[component.material];
           if (estimate) {
-            const totalCost = component.quantity * estimate.pricePerUnit;
-            materialCosts.push({
-              component: component.name,
-              material: component.material,
-              quantity: component.quantity,
-              unit: estimate.unit || component.unit,
-              pricePerUnit: estimate.pricePerUnit,
-              totalCost: Math.round(totalCost * 100) / 100,
-            });
+            materialCosts.push(priceLine(component, { ...estimate, provenance: ESTIMATE_PROVENANCE }));
           } else {
             // Fallback: estimate based on material type
             const fallbackPrice = 10.00; // Default fallback
-            const totalCost = component.quantity * fallbackPrice;
-            materialCosts.push({
-              component: component.name,
-              material: component.material,
-              quantity: component.quantity,
-              unit: component.unit,
-              pricePerUnit: fallbackPrice,
-              totalCost: Math.round(totalCost * 100) / 100,
-            });
+            materialCosts.push(priceLine(component, { pricePerUnit: fallbackPrice, unit: component.unit, provenance: FALLBACK_PROVENANCE }));
           }
         }
       } else {
         // Use fallback prices for unknown materials
         for (const component of unknownComponents) {
           const fallbackPrice = 10.00;
-          const totalCost = component.quantity * fallbackPrice;
-          materialCosts.push({
-            component: component.name,
-            material: component.material,
-            quantity: component.quantity,
-            unit: component.unit,
-            pricePerUnit: fallbackPrice,
-            totalCost: Math.round(totalCost * 100) / 100,
-          });
+          materialCosts.push(priceLine(component, { pricePerUnit: fallbackPrice, unit: component.unit, provenance: FALLBACK_PROVENANCE }));
         }
       }
     }
 
     const materialsTotal = materialCosts.reduce((sum, m) => sum + m.totalCost, 0);
+    const incompatible = materialCosts.filter((m) => m.unitIncompatible);
+    const unitWarning = incompatible.length > 0
+      ? ` ⚠️ ${incompatible.length} item(s) could not be priced because their units don't match the price unit: ${incompatible.map((m) => `${m.component} (${m.unit} vs ${m.priceUnit})`).join(", ")}.`
+      : "";
+
+    const messages = [
+      {
+        role: "assistant",
+        content: `Material costs calculated: $${materialsTotal.toFixed(2)} total for ${materialCosts.length} items.${unitWarning}`,
+      },
+    ];
+
+    // Say so when the feedback matched no line, rather than record an empty revision
+    const revisedLines = lookups.filter((l) => l.override).length;
+    if (revision && revisedLines === 0) {
+      messages.push({
+        role: "assistant",
+        content: `The feedback did not change any material price. To revise one, name the material and its price, e.g. "steel at $0.70/lb".`,
+      });
+    }
 
     return {
       materialCosts,
       currentNode: "materials",
       progress: 40,
-      messages: [
-        {
-          role: "assistant",
-          content: `Material costs calculated: $${materialsTotal.toFixed(2)} total for ${materialCosts.length} items.`,
-        },
-      ],
+      messages,
     };
   } catch (error) {
     console.error("Error in calculateMaterialCosts:", error);
@@ -0,0 +1,83 @@
+import { complete, extractJSON } from "@/lib/llm";
+import { CostingState, RevisionRequest, RevisionTarget } from "../state";
+import { guessRevisionTarget, REVISION_TARGETS, snapshotCosts } from "../revision";
+
+type InterpretedFeedback = Omit<RevisionRequest, "feedback" | "before">;
+
+export async function interpretFeedback(state: CostingState): Promise<Partial<CostingState>> {
+  const { userFeedback, components, materialCosts, laborCosts, overheadPercentage } = state;
+
+  if (!userFeedback.trim()) {
+    return {
+      currentNode: "revise",
+      error: "Revision requested without feedback",
+    };
+  }
+
+  const response = await complete(
+    `A reviewer sent a product cost estimate back with this feedback:
+"${userFeedback}"
+
+The estimate is built in four steps:
+- analyze: the bill of materials (components, materials, quantities, units)
+- materials: the price per unit of each material (from the components)
+- labor: hours per labor category (from the components)
+- overhead: the overhead percentage on direct costs (from materials and labor)
+
+Current estimate:
+Components: ${JSON.stringify(components.map(({ name, material, quantity, unit }) => ({ name, material, quantity, unit })))}
+Material prices: ${JSON.stringify(materialCosts.map((m) => ({ material: m.material, pricePerUnit: m.pricePerUnit, unit: m.priceUnit ?? m.unit })))}
+Labor by category id: ${JSON.stringify(Object.fromEntries(Object.entries(laborCosts.categories).map(([id, l]) => [id, { name: l.name, hours: l.hours, cost: l.cost }])))}
+Overhead: ${(overheadPercentage * 100).toFixed(1)}%
+
+Pick the single step the feedback changes (analyze if it changes the components) and, where the feedback implies new values, give them.
+Return ONLY a JSON object:
+{
+  "target": "analyze" | "materials" | "labor" | "overhead",
+  "reasoning": "one sentence",
+  "componentChanges": [{"name": "existing component name", "quantity": 0.8}],
+  "materialPrices": [{"material": "material name", "pricePerUnit": 1.2, "unit": "kg"}],
+  "laborHours": {"assembly": 1.5},
+  "overheadPercentage": 0.12
+}
+Omit the value fields the feedback does not imply.`,
+    { maxTokens: 800 }
+  );
+
+  const parsed = extractJSON<InterpretedFeedback>(response, "object");
+  const target: RevisionTarget = parsed && REVISION_TARGETS.includes(parsed.target)
+    ? parsed.target
+    : guessRevisionTarget(userFeedback);
+
+  // Percentages given as whole numbers, e.g. 12 for 12%
+  const overhead = Number(parsed?.overheadPercentage);
+  const revision: RevisionRequest = {
+    feedback: userFeedback,
+    target,
+    reasoning: parsed?.reasoning || `Feedback routed to ${target}`,
+    componentChanges: Array.isArray(parsed?.componentChanges)
+      ? parsed.componentChanges.filter((c) => c && c.name)
+      : undefined,
+    materialPrices: Array.isArray(parsed?.materialPrices)
+      ? parsed.materialPrices.filter((p) => p && p.material && Number(p.pricePerUnit) > 0)
+      : undefined,
+    laborHours: parsed?.laborHours && typeof parsed.laborHours === "object"
+      ? Object.fromEntries(Object.entries(parsed.laborHours).filter(([, hours]) => Number(hours) >= 0).map(([bucket, hours]) => [bucket, Number(hours)]))
+      : undefined,
+    overheadPercentage: overhead > 0 ? (overhead > 1 ? overhead / 100 : overhead) : undefined,
+    before: snapshotCosts(state),
+  };
+
+  return {
+    revision,
+    // Routing now follows the revision; the re-run ends back at review
+    approvalStatus: "pending",
+    currentNode: "revise",
+    messages: [
+      {
+        role: "assistant",
+        content: `Revising from the ${target} step: ${revision.reasoning}`,
+      },
+    ],
+  };
+}
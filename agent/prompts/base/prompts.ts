@@ -3,7 +3,7 @@
  * These are used as fallback when no category-specific prompt exists
  */
 
-import { PromptBuilder, PromptContext, CategoryConfig, DEFAULT_LABOR_CATEGORIES, DEFAULT_OVERHEAD_RANGE } from '../types';
+import { PromptBuilder, PromptContext, CategoryConfig, LaborCategory, DEFAULT_LABOR_CATEGORIES, DEFAULT_OVERHEAD_RANGE } from '../types';
 
 /**
  * Base configuration for general manufacturing
@@ -65,12 +65,27 @@ Return ONLY a JSON object with material names as keys and objects with pricePerU
 Example: {"carbon fiber": {"pricePerUnit": 25.00, "unit": "lb"}}`;
 };
 
+/**
+ * Hours-per-labor-category instructions and JSON format, shared by category labor prompts
+ */
+export function laborCategoriesPrompt(categories: LaborCategory[], heading = 'Estimate hours for each category'): string {
+  return `${heading}:
+${categories.map((c, i) => `${i + 1}. ${c.name} (${c.description})`).join('\n')}
+
+Also specify the skill level needed for each: entry, intermediate, or expert.
+
+Return ONLY a JSON object keyed by these ids in this exact format:
+{
+${categories.map(c => `  "${c.id}": {"hours": 1, "skillLevel": "${c.defaultSkillLevel}"}`).join(',\n')}
+}`;
+}
+
 /**
  * Estimate labor hours by category
  */
-export const labor: PromptBuilder = ({ state }: PromptContext) => {
-  const { productDescription, components, materialCosts } = state;
-  const materialsTotal = materialCosts?.reduce((sum, m) => sum + m.totalCost, 0) || 0;
+export const labor: PromptBuilder = ({ state, config: categoryConfig }: PromptContext) => {
+  // Runs alongside material pricing, so material costs are not known yet
+  const { productDescription, components } = state;
 
   return `As a manufacturing expert, estimate the labor hours needed to produce this product.
 
@@ -79,23 +94,7 @@ Product: ${productDescription}
 Components:
 ${components?.map(c => `- ${c.name} (${c.material})`).join('\n')}
 
-Total material cost: $${materialsTotal.toFixed(2)}
-
-Estimate hours for each category:
-1. Manufacturing (cutting, shaping, forming materials)
-2. Assembly (putting components together)
-3. Finishing (painting, staining, polishing)
-4. Quality Control (inspection, testing)
-
-Also specify the skill level needed for each: entry, intermediate, or expert.
-
-Return ONLY a JSON object in this exact format:
-{
-  "manufacturing": {"hours": 5, "skillLevel": "intermediate"},
-  "assembly": {"hours": 2, "skillLevel": "entry"},
-  "finishing": {"hours": 1.5, "skillLevel": "intermediate"},
-  "qualityControl": {"hours": 0.5, "skillLevel": "entry"}
-}`;
+${laborCategoriesPrompt(categoryConfig?.laborCategories ?? DEFAULT_LABOR_CATEGORIES)}`;
 };
 
 /**
@@ -162,10 +161,7 @@ ${materialCosts?.map(m => `- ${m.component} (${m.material}): ${m.quantity} ${m.u
 **Materials Subtotal: $${materialsTotal.toFixed(2)}**
 
 **Labor Costs:**
-- Manufacturing: $${laborCosts?.manufacturing.toFixed(2)}
-- Assembly: $${laborCosts?.assembly.toFixed(2)}
-- Finishing: $${laborCosts?.finishing.toFixed(2)}
-- Quality Control: $${laborCosts?.qualityControl.toFixed(2)}
+${Object.values(laborCosts?.categories ?? {}).map(l => `- ${l.name}: ${l.hours} h × $${l.hourlyRate.toFixed(2)}/h = $${l.cost.toFixed(2)}`).join('\n')}
 - Total Hours: ${laborCosts?.totalHours}
 **Labor Subtotal: $${laborTotal.toFixed(2)}**
 
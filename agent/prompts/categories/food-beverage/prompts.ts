@@ -10,6 +10,7 @@
  */
 
 import { PromptBuilder, PromptContext, CategoryConfig } from '../../types';
+import { laborCategoriesPrompt } from '../../base/prompts';
 
 /**
  * Category configuration for Food & Beverage
@@ -18,11 +19,11 @@ export const config: CategoryConfig = {
   name: 'Food & Beverage',
   description: 'Food products, beverages, and prepared meals',
   laborCategories: [
-    { id: 'prep', name: 'Ingredient Prep', description: 'Washing, cutting, measuring ingredients', defaultSkillLevel: 'entry' },
-    { id: 'cooking', name: 'Cooking/Processing', description: 'Cooking, baking, mixing, blending', defaultSkillLevel: 'intermediate' },
-    { id: 'assembly', name: 'Assembly', description: 'Plating, layering, combining components', defaultSkillLevel: 'entry' },
-    { id: 'packaging', name: 'Packaging', description: 'Portioning, sealing, labeling', defaultSkillLevel: 'entry' },
-    { id: 'qualityControl', name: 'Quality Control', description: 'Taste testing, visual inspection, food safety checks', defaultSkillLevel: 'intermediate' },
+    { id: 'prep', name: 'Ingredient Prep', description: 'Washing, cutting, measuring ingredients', processType: 'food_processing', defaultSkillLevel: 'entry' },
+    { id: 'cooking', name: 'Cooking/Processing', description: 'Cooking, baking, mixing, blending', processType: 'food_processing', defaultSkillLevel: 'intermediate' },
+    { id: 'assembly', name: 'Assembly', description: 'Plating, layering, combining components', processType: 'assembly', defaultSkillLevel: 'entry' },
+    { id: 'packaging', name: 'Packaging', description: 'Portioning, sealing, labeling', processType: 'packaging', defaultSkillLevel: 'entry' },
+    { id: 'qualityControl', name: 'Quality Control', description: 'Taste testing, visual inspection, food safety checks', processType: 'quality_control', defaultSkillLevel: 'intermediate' },
   ],
   overheadRange: {
     min: 0.25,
@@ -77,9 +78,9 @@ Example:
 /**
  * Estimate labor hours for food production
  */
-export const labor: PromptBuilder = ({ state }: PromptContext) => {
-  const { productDescription, components, materialCosts } = state;
-  const materialsTotal = materialCosts?.reduce((sum, m) => sum + m.totalCost, 0) || 0;
+export const labor: PromptBuilder = ({ state, config: categoryConfig }: PromptContext) => {
+  // Runs alongside ingredient pricing, so ingredient costs are not known yet
+  const { productDescription, components } = state;
 
   return `As a food production expert, estimate the labor hours needed to produce this food/beverage product.
 
@@ -88,25 +89,7 @@ Product: ${productDescription}
 Ingredients:
 ${components?.map(c => `- ${c.name} (${c.quantity} ${c.unit})`).join('\n')}
 
-Total ingredient cost: $${materialsTotal.toFixed(2)}
-
-Estimate hours for each production stage:
-1. Ingredient Prep (washing, cutting, measuring, mise en place)
-2. Cooking/Processing (cooking, baking, mixing, blending)
-3. Assembly (combining components, plating, layering)
-4. Packaging (portioning, sealing, labeling)
-5. Quality Control (taste testing, visual inspection, food safety)
-
-Also specify the skill level needed: entry, intermediate, or expert.
-
-Return ONLY a JSON object in this exact format:
-{
-  "prep": {"hours": 1, "skillLevel": "entry"},
-  "cooking": {"hours": 2, "skillLevel": "intermediate"},
-  "assembly": {"hours": 0.5, "skillLevel": "entry"},
-  "packaging": {"hours": 0.5, "skillLevel": "entry"},
-  "qualityControl": {"hours": 0.25, "skillLevel": "intermediate"}
-}`;
+${laborCategoriesPrompt((categoryConfig ?? config).laborCategories ?? [], 'Estimate hours for each production stage')}`;
 };
 
 /**
@@ -14,6 +14,7 @@ export interface PromptContext {
   state: CostingState;
   category?: string;
   subcategory?: string;
+  config?: CategoryConfig; // Resolved category config, when the node has loaded it
 }
 
 /**
@@ -21,6 +22,18 @@ export interface PromptContext {
  */
 export type PromptBuilder = (context: PromptContext) => string;
 
+/**
+ * Labor category - one line of the labor estimate, priced at the LaborRate
+ * for its process type and skill level
+ */
+export interface LaborCategory {
+  id: string;
+  name: string;
+  description: string;
+  processType: string; // LaborRate.processType, e.g. "assembly"
+  defaultSkillLevel: 'entry' | 'intermediate' | 'expert';
+}
+
 /**
  * Category configuration - defines category-specific settings
  */
@@ -29,12 +42,7 @@ export interface CategoryConfig {
   description: string;
 
   // Labor categories specific to this industry
-  laborCategories?: {
-    id: string;
-    name: string;
-    description: string;
-    defaultSkillLevel: 'entry' | 'intermediate' | 'expert';
-  }[];
+  laborCategories?: LaborCategory[];
 
   // Typical overhead range for this category
   overheadRange?: {
@@ -68,11 +76,11 @@ export interface PromptModule {
 /**
  * Default labor categories (manufacturing-focused)
  */
-export const DEFAULT_LABOR_CATEGORIES = [
-  { id: 'manufacturing', name: 'Manufacturing', description: 'Cutting, shaping, forming materials', defaultSkillLevel: 'intermediate' as const },
-  { id: 'assembly', name: 'Assembly', description: 'Putting components together', defaultSkillLevel: 'entry' as const },
-  { id: 'finishing', name: 'Finishing', description: 'Painting, staining, polishing', defaultSkillLevel: 'intermediate' as const },
-  { id: 'qualityControl', name: 'Quality Control', description: 'Inspection, testing', defaultSkillLevel: 'entry' as const },
+export const DEFAULT_LABOR_CATEGORIES: LaborCategory[] = [
+  { id: 'manufacturing', name: 'Manufacturing', description: 'Cutting, shaping, forming materials', processType: 'machining', defaultSkillLevel: 'intermediate' },
+  { id: 'assembly', name: 'Assembly', description: 'Putting components together', processType: 'assembly', defaultSkillLevel: 'entry' },
+  { id: 'finishing', name: 'Finishing', description: 'Painting, staining, polishing', processType: 'finishing', defaultSkillLevel: 'intermediate' },
+  { id: 'qualityControl', name: 'Quality Control', description: 'Inspection, testing', processType: 'quality_control', defaultSkillLevel: 'entry' },
 ];
 
 /**
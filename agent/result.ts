@@ -0,0 +1,69 @@
+import type { AnalysisResult } from "@/lib/costing";
+import { CostModelInputs } from "@/lib/prompts/types";
+import { CATEGORY_DEFINITIONS, getCategoryConfig } from "@/lib/prompts";
+import {
+  computeCostPercentages,
+  computeExWorks,
+  resolveLearningRate,
+  resolveMarginRate,
+} from "@/lib/cost-model";
+import { runCostSimulation } from "@/lib/simulation";
+import { runSensitivityAnalysis } from "@/lib/sensitivity";
+import { BASE_CURRENCY } from "@/lib/fx";
+import { DEFAULT_COUNTRY } from "@/lib/regions";
+import { CostingState } from "./state";
+
+/**
+ * Agent state in the shape of a single-shot analysis (lib/costing.ts), so the
+ * dashboard renders either engine, with the report once the thread is approved
+ *
+ * The agent prices materials and labor per unit in USD and applies a flat
+ * overhead rate to them, so the model has no conversion or packing lines and
+ * no fixed overhead share; margin comes from the category benchmark.
+ */
+export async function toAnalysisResult(state: CostingState): Promise<AnalysisResult & { finalReport: string }> {
+  const config = await getCategoryConfig(state.category || "");
+  const category = state.category || "default";
+  const categoryName = CATEGORY_DEFINITIONS.find((c) => c.id === category)?.name || category;
+
+  const costModel: CostModelInputs = {
+    aum: state.aum ?? 0,
+    materials: state.materialCosts,
+    packaging: [],
+    labourOperations: state.labourOperations,
+    overheadRate: state.overheadPercentage,
+    marginRate: resolveMarginRate(config),
+    fixedOverheadShare: 0,
+    learningRate: resolveLearningRate(config),
+    currency: BASE_CURRENCY,
+    country: DEFAULT_COUNTRY,
+  };
+
+  const exWorksCostBreakdown = computeExWorks(costModel);
+
+  return {
+    success: !state.error,
+    category,
+    categoryName,
+    subCategory: state.subcategory || "",
+    detectionMessage: `Detected: **${categoryName}**${state.subcategory ? ` → **${state.subcategory}**` : ""} (agent workflow)`,
+    productDescription: state.productDescription,
+    analysisContext: state.productDescription,
+    aum: state.aum,
+    components: state.components,
+    materialCosts: exWorksCostBreakdown.rawMaterialDetails?.components || state.materialCosts,
+    exWorksCostBreakdown,
+    costPercentages: computeCostPercentages(exWorksCostBreakdown),
+    costModel,
+    simulation: runCostSimulation(costModel, { config }),
+    sensitivity: runSensitivityAnalysis(costModel),
+    warnings: [],
+    unitCost: exWorksCostBreakdown.totalExWorks,
+    country: DEFAULT_COUNTRY,
+    currency: BASE_CURRENCY,
+    analysisDate: new Date().toISOString().slice(0, 10),
+    // A thread sent back for revision is pending review again once re-run
+    approvalStatus: state.approvalStatus === "needs_revision" ? "pending" : state.approvalStatus,
+    finalReport: state.finalReport,
+  };
+}
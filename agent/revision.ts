@@ -0,0 +1,76 @@
+import { CostingState, RevisionChange, RevisionTarget } from "./state";
+
+// Nodes a revision can re-run, in graph order
+export const REVISION_TARGETS: RevisionTarget[] = ["analyze", "materials", "labor", "overhead"];
+
+// Nodes that run again after each target; materials and labor are parallel branches
+const REVISION_DOWNSTREAM: Record<RevisionTarget, RevisionTarget[]> = {
+  analyze: ["materials", "labor", "overhead"],
+  materials: ["overhead"],
+  labor: ["overhead"],
+  overhead: [],
+};
+
+// Role of a node in the revision in progress:
+// "target" re-estimates using the reviewer's feedback, "downstream" recomputes
+// from the revised values, undefined outside a revision
+export type RevisionRole = "target" | "downstream";
+
+export function revisionRole(state: CostingState, node: RevisionTarget): RevisionRole | undefined {
+  const target = state.revision?.target;
+  if (!target) return undefined;
+
+  return node === target ? "target" : REVISION_DOWNSTREAM[target].includes(node) ? "downstream" : undefined;
+}
+
+// Node for feedback the LLM could not route, by the cost it mentions
+export function guessRevisionTarget(feedback: string): RevisionTarget {
+  const text = feedback.toLowerCase();
+
+  if (/overhead|indirect|burden/.test(text)) return "overhead";
+  if (/labou?r|hours?|wage|assembl|finishing|skill/.test(text)) return "labor";
+  if (/price|per (kg|lb|unit|piece|g|l|m)\b|\$|cost of|expensive|cheap/.test(text)) return "materials";
+  return "analyze";
+}
+
+type RevisableValues = Pick<
+  CostingState,
+  "components" | "materialCosts" | "laborCosts" | "overheadPercentage" | "overheadTotal" | "totalCost"
+>;
+
+// Values a revision can change, keyed by a readable field name
+export function snapshotCosts(values: RevisableValues): Record<string, number | string> {
+  const snapshot: Record<string, number | string> = {};
+
+  for (const c of values.components) {
+    snapshot[`${c.name} material`] = c.material;
+    snapshot[`${c.name} quantity`] = c.quantity;
+    snapshot[`${c.name} unit`] = c.unit;
+  }
+  for (const m of values.materialCosts) {
+    snapshot[`${m.component} price per unit`] = m.pricePerUnit;
+    snapshot[`${m.component} cost`] = m.totalCost;
+  }
+  for (const labor of Object.values(values.laborCosts.categories)) {
+    snapshot[`${labor.name} hours`] = labor.hours;
+    snapshot[`${labor.name} labor cost`] = labor.cost;
+  }
+  snapshot["labor total"] = values.laborCosts.totalCost;
+  snapshot["overhead percentage"] = values.overheadPercentage;
+  snapshot["overhead total"] = values.overheadTotal;
+  snapshot["total cost"] = values.totalCost;
+
+  return snapshot;
+}
+
+// Fields that differ between two snapshots; added and removed lines have a null side
+export function diffSnapshots(
+  before: Record<string, number | string>,
+  after: Record<string, number | string>
+): RevisionChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
@@ -1,10 +1,13 @@
-import { StateGraph, END, START } from "@langchain/langgraph";
+import { randomUUID } from "crypto";
+import { StateGraph, END, START, BaseCheckpointSaver } from "@langchain/langgraph";
 import { CostingStateAnnotation, CostingState } from "./state";
+import { getCheckpointer } from "./checkpointer";
 import { detectCategory } from "./nodes/detect-category";
 import { analyzeProduct } from "./nodes/analyze-product";
 import { calculateMaterialCosts } from "./nodes/calculate-materials";
 import { calculateLaborCosts } from "./nodes/calculate-labor";
 import { analyzeOverhead } from "./nodes/analyze-overhead";
+import { interpretFeedback } from "./nodes/interpret-feedback";
 import { generateReport } from "./nodes/generate-report";
 
 // Node wrapper to handle errors gracefully
@@ -30,62 +33,128 @@ function wrapNode(
 }
 
 // Conditional function to check if we should proceed to report generation
+// The graph is interrupted before "report" until a reviewer decides; the
+// decision is written as if by "overhead" so this routing runs again.
 function shouldGenerateReport(state: CostingState): string {
   // Check for errors
   if (state.error) {
     return END;
   }
-  
-  // Check approval status
-  if (state.approvalStatus === "approved") {
-    return "report";
-  }
-  
+
   if (state.approvalStatus === "rejected") {
     return END;
   }
-  
-  // If pending, wait for user input (end this execution)
-  return END;
+
+  // Interpret the reviewer's feedback to re-run only the affected step
+  if (state.approvalStatus === "needs_revision") {
+    return "revise";
+  }
+
+  // Pending (paused for review) or approved
+  return "report";
 }
 
-// Build the workflow graph
-export function buildCostingWorkflow() {
-  const workflow = new StateGraph(CostingStateAnnotation);
+// Route a revision back to the node its feedback affects; the nodes that
+// depend on it run again, ending at "overhead" and the review routing above
+function routeRevision(state: CostingState): string {
+  if (state.error || !state.revision) {
+    return END;
+  }
+
+  return state.revision.target;
+}
 
-  // Add all nodes
-  workflow.addNode("detect-category", wrapNode(detectCategory, "detect-category"));
-  workflow.addNode("analyze", wrapNode(analyzeProduct, "analyze"));
-  workflow.addNode("materials", wrapNode(calculateMaterialCosts, "materials"));
-  workflow.addNode("labor", wrapNode(calculateLaborCosts, "labor"));
-  workflow.addNode("overhead", wrapNode(analyzeOverhead, "overhead"));
-  workflow.addNode("report", wrapNode(generateReport, "report"));
+// Build the workflow graph
+export function buildCostingWorkflow(checkpointer: BaseCheckpointSaver = getCheckpointer()) {
+  // Add all nodes (chained so the builder tracks their names)
+  const workflow = new StateGraph(CostingStateAnnotation)
+    .addNode("detect-category", wrapNode(detectCategory, "detect-category"))
+    .addNode("analyze", wrapNode(analyzeProduct, "analyze"))
+    .addNode("materials", wrapNode(calculateMaterialCosts, "materials"))
+    .addNode("labor", wrapNode(calculateLaborCosts, "labor"))
+    .addNode("overhead", wrapNode(analyzeOverhead, "overhead"))
+    .addNode("report", wrapNode(generateReport, "report"))
+    .addNode("revise", wrapNode(interpretFeedback, "revise"));
 
   // Define the flow - use type assertion for edge connections
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const graph = workflow as any;
   graph.addEdge(START, "detect-category");
   graph.addEdge("detect-category", "analyze");
+
+  // Materials and labor both work from the components, so they run as parallel
+  // branches; overhead runs once, in the step after both have finished
   graph.addEdge("analyze", "materials");
-  graph.addEdge("materials", "labor");
+  graph.addEdge("analyze", "labor");
+  graph.addEdge("materials", "overhead");
   graph.addEdge("labor", "overhead");
 
   // Add conditional edge for human approval
   graph.addConditionalEdges("overhead", shouldGenerateReport, {
     report: "report",
+    revise: "revise",
+    [END]: END,
+  });
+
+  graph.addConditionalEdges("revise", routeRevision, {
+    analyze: "analyze",
+    materials: "materials",
+    labor: "labor",
+    overhead: "overhead",
     [END]: END,
   });
 
   graph.addEdge("report", END);
 
-  return workflow.compile();
+  // Pause every thread for human approval before the report is written
+  return workflow.compile({ checkpointer, interruptBefore: ["report"] });
 }
 
 // Create and export the compiled agent
 export const costingAgent = buildCostingWorkflow();
 
-// Helper function to run the full analysis
-export async function runCostAnalysis(productDescription: string): Promise<CostingState> {
+// Reviewer decision on a thread paused before the report
+export type ReviewAction = "approve" | "reject" | "revise";
+
+export interface ReviewDecision {
+  action: ReviewAction;
+  feedback?: string; // Required to revise
+}
+
+// A thread's state and where it is paused
+export interface AnalysisThread {
+  threadId: string;
+  state: CostingState;
+  next: string[];         // Nodes that run on resume; ["report"] while awaiting review
+  awaitingReview: boolean;
+}
+
+const REVIEW_STATUS: Record<ReviewAction, CostingState["approvalStatus"]> = {
+  approve: "approved",
+  reject: "rejected",
+  revise: "needs_revision",
+};
+
+/**
+ * Current state of an analysis thread, or undefined when it has no checkpoint
+ */
+export async function getAnalysisThread(threadId: string): Promise<AnalysisThread | undefined> {
+  const snapshot = await costingAgent.getState({ configurable: { thread_id: threadId } });
+  if (!snapshot.createdAt) return undefined;
+
+  return {
+    threadId,
+    state: snapshot.values as CostingState,
+    next: [...snapshot.next],
+    awaitingReview: snapshot.next.includes("report"),
+  };
+}
+
+// Helper function to run the analysis up to human review; one thread per analysis
+export async function runCostAnalysis(
+  productDescription: string,
+  threadId: string = randomUUID()
+): Promise<AnalysisThread> {
   const initialState: Partial<CostingState> = {
     productDescription,
     approvalStatus: "pending",
@@ -93,24 +162,67 @@ export async function runCostAnalysis(productDescription: string): Promise<Costi
     messages: [],
   };
 
-  const result = await costingAgent.invoke(initialState);
-  return result as CostingState;
+  await costingAgent.invoke(initialState, { configurable: { thread_id: threadId } });
+  return (await getAnalysisThread(threadId))!;
 }
 
-// Helper function to continue after approval
-export async function continueAfterApproval(state: CostingState): Promise<CostingState> {
-  const updatedState: Partial<CostingState> = {
-    ...state,
-    approvalStatus: "approved",
-  };
+// Helper function to resume a thread paused for review
+export async function resumeCostAnalysis(threadId: string, decision: ReviewDecision): Promise<AnalysisThread> {
+  const config = { configurable: { thread_id: threadId } };
+  const thread = await getAnalysisThread(threadId);
 
-  // Run just the report generation
-  const reportResult = await generateReport(updatedState as CostingState);
-  
-  return {
-    ...state,
-    ...reportResult,
-  } as CostingState;
+  if (!thread) {
+    throw new Error(`Analysis thread ${threadId} not found`);
+  }
+  if (!thread.awaitingReview) {
+    throw new Error(`Analysis thread ${threadId} is not awaiting review`);
+  }
+
+  // Record the decision as the output of "overhead" so the review routing runs again
+  await costingAgent.updateState(
+    config,
+    {
+      approvalStatus: REVIEW_STATUS[decision.action],
+      userFeedback: decision.feedback ?? "",
+    },
+    "overhead"
+  );
+
+  await costingAgent.invoke(null, config);
+  return (await getAnalysisThread(threadId))!;
+}
+
+// Streamed step of an agent run
+export type AgentEvent =
+  | { type: "node_start"; node: string }
+  | { type: "node_end"; node: string; update: Partial<CostingState> }
+  | { type: "message"; node: string; role: string; content: string };
+
+/**
+ * Run a thread until it pauses for review or ends, yielding each node's start,
+ * its state update and the messages it added; pass null input to continue
+ */
+export async function* streamCostAnalysis(
+  input: Partial<CostingState> | null,
+  threadId: string
+): AsyncGenerator<AgentEvent> {
+  const stream = await costingAgent.stream(input, {
+    configurable: { thread_id: threadId },
+    streamMode: "debug",
+  });
+
+  for await (const chunk of stream) {
+    if (chunk.type === "task") {
+      yield { type: "node_start", node: chunk.payload.name };
+    } else if (chunk.type === "task_result") {
+      const update = chunk.payload.result as Partial<CostingState>;
+      yield { type: "node_end", node: chunk.payload.name, update };
+
+      for (const message of update.messages ?? []) {
+        yield { type: "message", node: chunk.payload.name, ...message };
+      }
+    }
+  }
 }
 
 export default costingAgent;
@@ -1,4 +1,5 @@
 import { Annotation } from "@langchain/langgraph";
+import type { LabourOperation, MaterialCostItem } from "@/lib/prompts/types";
 
 // Component interface for product breakdown
 export interface ProductComponent {
@@ -9,25 +10,26 @@ export interface ProductComponent {
   estimatedCost?: number;
 }
 
-// Labor cost breakdown
+// Labor estimate for one of the category config's labor categories
+export interface LaborCategoryCost {
+  name: string;
+  processType: string;
+  skillLevel: 'entry' | 'intermediate' | 'expert';
+  hours: number;
+  hourlyRate: number;
+  cost: number;
+  defaultHours?: boolean; // The estimate had no usable hours; a default was assumed
+}
+
+// Labor cost breakdown, keyed by labor category id (see CategoryConfig.laborCategories)
 export interface LaborCosts {
-  assembly: number;
-  manufacturing: number;
-  finishing: number;
-  qualityControl: number;
+  categories: Record<string, LaborCategoryCost>;
   totalHours: number;
   totalCost: number;
 }
 
-// Material cost item
-export interface MaterialCostItem {
-  component: string;
-  material: string;
-  quantity: number;
-  unit: string;
-  pricePerUnit: number;
-  totalCost: number;
-}
+// Material cost item (shared with lib/costing.ts so both engines carry unit conversion details)
+export type { MaterialCostItem };
 
 // Full cost breakdown
 export interface CostBreakdown {
@@ -42,6 +44,38 @@ export interface CostBreakdown {
 // Approval status type
 export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'needs_revision';
 
+// Nodes a reviewer's feedback can send the analysis back to, in graph order
+export type RevisionTarget = 'analyze' | 'materials' | 'labor' | 'overhead';
+
+// Reviewer feedback interpreted into a re-run of one node and the nodes after it
+export interface RevisionRequest {
+  feedback: string;
+  target: RevisionTarget;
+  reasoning: string;
+  // Values stated in the feedback; the target node applies them instead of re-estimating
+  componentChanges?: Array<Partial<ProductComponent> & { name: string }>;
+  materialPrices?: Array<{ material: string; pricePerUnit: number; unit: string }>;
+  laborHours?: Record<string, number>;  // Hours by labor category id, e.g. { assembly: 1.5 }
+  overheadPercentage?: number;          // Fraction, e.g. 0.12
+  before: Record<string, number | string>; // Values before the re-run, to diff against
+}
+
+// One value a revision changed
+export interface RevisionChange {
+  field: string;
+  before: number | string | null;
+  after: number | string | null;
+}
+
+// Completed revision, kept in the thread's history
+export interface Revision {
+  feedback: string;
+  target: RevisionTarget;
+  reasoning: string;
+  changes: RevisionChange[];
+  revisedAt: string;
+}
+
 // Define the agent state annotation for LangGraph
 export const CostingStateAnnotation = Annotation.Root({
   // Input from user
@@ -61,6 +95,12 @@ export const CostingStateAnnotation = Annotation.Root({
     reducer: (_, y) => y,
     default: () => undefined,
   }),
+
+  // Annual unit volume, for the Ex-Works model (optional)
+  aum: Annotation<number | undefined>({
+    reducer: (_, y) => y,
+    default: () => undefined,
+  }),
   
   // Analysis results
   components: Annotation<ProductComponent[]>({
@@ -78,15 +118,18 @@ export const CostingStateAnnotation = Annotation.Root({
   laborCosts: Annotation<LaborCosts>({
     reducer: (_, y) => y,
     default: () => ({
-      assembly: 0,
-      manufacturing: 0,
-      finishing: 0,
-      qualityControl: 0,
+      categories: {},
       totalHours: 0,
       totalCost: 0,
     }),
   }),
   
+  // Labor estimate as operations per unit, for the Ex-Works model
+  labourOperations: Annotation<LabourOperation[]>({
+    reducer: (_, y) => y,
+    default: () => [],
+  }),
+
   // Overhead
   overheadPercentage: Annotation<number>({
     reducer: (_, y) => y,
@@ -118,6 +161,16 @@ export const CostingStateAnnotation = Annotation.Root({
     reducer: (_, y) => y,
     default: () => "",
   }),
+
+  // Revision in progress, and the history of completed ones
+  revision: Annotation<RevisionRequest | null>({
+    reducer: (_, y) => y,
+    default: () => null,
+  }),
+  revisions: Annotation<Revision[]>({
+    reducer: (x, y) => [...x, ...y],
+    default: () => [],
+  }),
   
   // Metadata for UI
   currentNode: Annotation<string>({
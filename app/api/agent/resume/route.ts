@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAnalysisThread, resumeCostAnalysis, ReviewAction } from "@/agent/should-costing-agent";
+import { toAnalysisResult } from "@/agent/result";
+
+const REVIEW_ACTIONS: ReviewAction[] = ["approve", "reject", "revise"];
+
+// POST /api/agent/resume - Resume a thread paused for review with approve, reject or revise
+export async function POST(req: NextRequest) {
+  try {
+    const { threadId, action, feedback } = await req.json();
+
+    // Validate input
+    if (!threadId) {
+      return NextResponse.json(
+        { error: "threadId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${REVIEW_ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === "revise" && !String(feedback ?? "").trim()) {
+      return NextResponse.json(
+        { error: "feedback is required to revise an analysis" },
+        { status: 400 }
+      );
+    }
+
+    const thread = await getAnalysisThread(String(threadId));
+    if (!thread) {
+      return NextResponse.json(
+        { error: `Analysis thread ${threadId} not found` },
+        { status: 404 }
+      );
+    }
+
+    if (!thread.awaitingReview) {
+      return NextResponse.json(
+        { error: `Analysis thread ${threadId} is not awaiting review` },
+        { status: 409 }
+      );
+    }
+
+    const resumed = await resumeCostAnalysis(thread.threadId, {
+      action,
+      feedback: feedback ? String(feedback) : undefined,
+    });
+    return NextResponse.json({ success: true, ...resumed, result: await toAnalysisResult(resumed.state) });
+
+  } catch (error) {
+    console.error("Error resuming agent thread:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Resume failed" },
+      { status: 500 }
+    );
+  }
+}
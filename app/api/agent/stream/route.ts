@@ -0,0 +1,118 @@
+import { NextRequest } from "next/server";
+import { randomUUID } from "crypto";
+import { getAnalysisThread, streamCostAnalysis } from "@/agent/should-costing-agent";
+import { toAnalysisResult } from "@/agent/result";
+import { CostingState } from "@/agent/state";
+import { BASE_CURRENCY } from "@/lib/fx";
+import { DEFAULT_COUNTRY } from "@/lib/regions";
+
+// SSE streaming endpoint for the LangGraph agent: node start/end, state
+// updates and messages as each node runs, then the result in the same shape
+// as /api/analyze/stream once the thread pauses for review
+export async function GET(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams;
+  const productDescription = searchParams.get("productDescription");
+  const aumParam = searchParams.get("aum");
+  const aum = aumParam ? parseInt(aumParam, 10) : undefined;
+  const category = searchParams.get("category") || undefined;
+  const currency = searchParams.get("currency") || undefined;
+  const country = searchParams.get("country") || undefined;
+
+  if (!productDescription) {
+    return new Response(
+      JSON.stringify({ error: "Product description is required" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (aum !== undefined && !(aum > 0)) {
+    return new Response(
+      JSON.stringify({ error: "aum must be a positive number" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  // The agent prices in USD at US rates only; reject rather than return USD under another label
+  if (currency && currency.toUpperCase() !== BASE_CURRENCY) {
+    return new Response(
+      JSON.stringify({ error: `The agent engine reports in ${BASE_CURRENCY} only. Use the single-shot engine for ${currency.toUpperCase()}.` }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (country && country.toUpperCase() !== DEFAULT_COUNTRY) {
+    return new Response(
+      JSON.stringify({ error: `The agent engine uses ${DEFAULT_COUNTRY} rates only. Use the single-shot engine for manufacture in ${country.toUpperCase()}.` }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const threadId = randomUUID();
+  const input: Partial<CostingState> = {
+    productDescription,
+    aum,
+    category,
+    approvalStatus: "pending",
+    progress: 0,
+    messages: [],
+  };
+
+  // Create a TransformStream for SSE
+  const encoder = new TextEncoder();
+  const stream = new TransformStream();
+  const writer = stream.writable.getWriter();
+
+  // Helper to send SSE events
+  const sendEvent = async (type: string, data: Record<string, unknown>) => {
+    const event = `data: ${JSON.stringify({ type, ...data })}\n\n`;
+    await writer.write(encoder.encode(event));
+  };
+
+  // Run the graph in background
+  (async () => {
+    try {
+      await sendEvent("thread", { threadId });
+
+      for await (const event of streamCostAnalysis(input, threadId)) {
+        const { type, ...data } = event;
+        await sendEvent(type, data);
+
+        // Same progress events as the single-shot engine
+        if (event.type === "node_end" && event.update.progress !== undefined) {
+          await sendEvent("progress", {
+            step: event.node,
+            percent: event.update.progress,
+            details: event.update.messages?.at(-1)?.content,
+          });
+        }
+      }
+
+      const thread = await getAnalysisThread(threadId);
+      if (!thread || thread.state.error) {
+        throw new Error(thread?.state.error || "Analysis failed");
+      }
+
+      await sendEvent("complete", {
+        threadId,
+        next: thread.next,
+        awaitingReview: thread.awaitingReview,
+        data: await toAnalysisResult(thread.state),
+      });
+    } catch (error) {
+      await sendEvent("error", {
+        threadId,
+        message: error instanceof Error ? error.message : "Analysis failed",
+      });
+    } finally {
+      await writer.close();
+    }
+  })();
+
+  return new Response(stream.readable, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
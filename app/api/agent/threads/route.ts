@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAnalysisThread, runCostAnalysis } from "@/agent/should-costing-agent";
+import { toAnalysisResult } from "@/agent/result";
+
+// GET /api/agent/threads?threadId=... - State of an agent thread and where it is paused
+export async function GET(req: NextRequest) {
+  try {
+    const threadId = req.nextUrl.searchParams.get("threadId");
+
+    if (!threadId) {
+      return NextResponse.json(
+        { error: "threadId is required" },
+        { status: 400 }
+      );
+    }
+
+    const thread = await getAnalysisThread(threadId);
+    if (!thread) {
+      return NextResponse.json(
+        { error: `Analysis thread ${threadId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...thread, result: await toAnalysisResult(thread.state) });
+
+  } catch (error) {
+    console.error("Error reading agent thread:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Reading thread failed" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/agent/threads - Start an agent analysis; runs until it pauses for review
+export async function POST(req: NextRequest) {
+  try {
+    const { productDescription } = await req.json();
+
+    // Validate input
+    if (!productDescription) {
+      return NextResponse.json(
+        { error: "Product description is required" },
+        { status: 400 }
+      );
+    }
+
+    const thread = await runCostAnalysis(String(productDescription));
+    return NextResponse.json({ success: true, ...thread, result: await toAnalysisResult(thread.state) });
+
+  } catch (error) {
+    console.error("Error in agent analysis:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Analysis failed" },
+      { status: 500 }
+    );
+  }
+}
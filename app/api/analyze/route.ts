@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runAnalysis, generateApprovalReport } from "@/lib/costing";
+import { getRegionProfile, REGION_PROFILES } from "@/lib/regions";
+import { FREIGHT_MODES } from "@/lib/constants";
 
 // POST /api/analyze - Run Ex-Works cost analysis
 export async function POST(req: NextRequest) {
   try {
-    const { productDescription, action, currentState, aum } = await req.json();
+    const { productDescription, action, currentState, aum, currency, country, destinationCountry, freightMode } = await req.json();
 
     // Handle approval action
     if (action === "approve" && currentState) {
@@ -20,8 +22,36 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Run full analysis
-    const result = await runAnalysis(productDescription, aum);
+    if (currency !== undefined && !/^[A-Za-z]{3}$/.test(String(currency))) {
+      return NextResponse.json(
+        { error: "currency must be a 3-letter ISO 4217 code (e.g. EUR)" },
+        { status: 400 }
+      );
+    }
+
+    if (country !== undefined && !getRegionProfile(String(country))) {
+      return NextResponse.json(
+        { error: `Unknown country of manufacture. Supported: ${Object.keys(REGION_PROFILES).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (destinationCountry !== undefined && !/^[A-Za-z]{2}$/.test(String(destinationCountry))) {
+      return NextResponse.json(
+        { error: "destinationCountry must be a 2-letter ISO country code (e.g. DE)" },
+        { status: 400 }
+      );
+    }
+
+    if (freightMode !== undefined && !FREIGHT_MODES.includes(freightMode)) {
+      return NextResponse.json(
+        { error: `freightMode must be one of: ${FREIGHT_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Run full analysis, priced in the reporting currency for the country of manufacture
+    const result = await runAnalysis(productDescription, aum, { currency, country, destinationCountry, freightMode });
     return NextResponse.json(result);
 
   } catch (error) {
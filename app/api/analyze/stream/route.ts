@@ -1,5 +1,8 @@
 import { NextRequest } from "next/server";
 import { runAnalysisWithProgress, ProgressCallback } from "@/lib/costing";
+import { getRegionProfile, REGION_PROFILES } from "@/lib/regions";
+import { FREIGHT_MODES } from "@/lib/constants";
+import { FreightMode } from "@/lib/prompts/types";
 
 // SSE streaming endpoint for real-time progress updates
 export async function GET(req: NextRequest) {
@@ -7,6 +10,10 @@ export async function GET(req: NextRequest) {
   const productDescription = searchParams.get("productDescription");
   const aumParam = searchParams.get("aum");
   const aum = aumParam ? parseInt(aumParam, 10) : undefined;
+  const currency = searchParams.get("currency") || undefined;
+  const country = searchParams.get("country") || undefined;
+  const destinationCountry = searchParams.get("destinationCountry") || undefined;
+  const freightMode = (searchParams.get("freightMode") || undefined) as FreightMode | undefined;
 
   if (!productDescription) {
     return new Response(
@@ -15,6 +22,34 @@ export async function GET(req: NextRequest) {
     );
   }
 
+  if (currency && !/^[A-Za-z]{3}$/.test(currency)) {
+    return new Response(
+      JSON.stringify({ error: "currency must be a 3-letter ISO 4217 code (e.g. EUR)" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (country && !getRegionProfile(country)) {
+    return new Response(
+      JSON.stringify({ error: `Unknown country of manufacture. Supported: ${Object.keys(REGION_PROFILES).join(", ")}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (destinationCountry && !/^[A-Za-z]{2}$/.test(destinationCountry)) {
+    return new Response(
+      JSON.stringify({ error: "destinationCountry must be a 2-letter ISO country code (e.g. DE)" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (freightMode && !FREIGHT_MODES.includes(freightMode)) {
+    return new Response(
+      JSON.stringify({ error: `freightMode must be one of: ${FREIGHT_MODES.join(", ")}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
   // Create a TransformStream for SSE
   const encoder = new TextEncoder();
   const stream = new TransformStream();
@@ -37,7 +72,8 @@ export async function GET(req: NextRequest) {
       const result = await runAnalysisWithProgress(
         productDescription,
         aum,
-        onProgress
+        onProgress,
+        { currency, country, destinationCountry, freightMode }
       );
       await sendEvent("complete", { data: result });
     } catch (error) {
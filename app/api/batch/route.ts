@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  batchToCsv,
+  findBatchJob,
+  MAX_BATCH_CONCURRENCY,
+  MAX_RUNNING_JOBS,
+  parseBatchCsv,
+  runningBatchJobCount,
+  startBatchJob,
+} from "@/lib/batch";
+
+// GET /api/batch?id=... - Status of a batch job (CSV of the results with format=csv)
+export async function GET(req: NextRequest) {
+  try {
+    const id = req.nextUrl.searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "id of a batch job is required" },
+        { status: 400 }
+      );
+    }
+
+    const job = findBatchJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: `Batch job ${id} not found; jobs are lost when the server restarts` },
+        { status: 404 }
+      );
+    }
+
+    if (req.nextUrl.searchParams.get("format") === "csv") {
+      return new NextResponse(batchToCsv(job), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="should-cost-batch-${job.id.slice(0, 8)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    console.error("Error reading batch job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Reading batch job failed" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/batch - Queue should-cost analyses for every product in a CSV
+export async function POST(req: NextRequest) {
+  try {
+    const { csv, currency, concurrency } = await req.json();
+
+    // Validate input
+    if (typeof csv !== "string" || !csv.trim()) {
+      return NextResponse.json(
+        { error: "csv must be the text of a CSV with a description column" },
+        { status: 400 }
+      );
+    }
+
+    if (currency !== undefined && !/^[A-Za-z]{3}$/.test(String(currency))) {
+      return NextResponse.json(
+        { error: "currency must be a 3-letter ISO 4217 code (e.g. EUR)" },
+        { status: 400 }
+      );
+    }
+
+    if (concurrency !== undefined && !(Number(concurrency) >= 1 && Number(concurrency) <= MAX_BATCH_CONCURRENCY)) {
+      return NextResponse.json(
+        { error: `concurrency must be between 1 and ${MAX_BATCH_CONCURRENCY}` },
+        { status: 400 }
+      );
+    }
+
+    const { rows, errors } = parseBatchCsv(csv);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join("; ") },
+        { status: 400 }
+      );
+    }
+
+    if (runningBatchJobCount() >= MAX_RUNNING_JOBS) {
+      return NextResponse.json(
+        { error: `${MAX_RUNNING_JOBS} batches are already running; try again when one finishes` },
+        { status: 429 }
+      );
+    }
+
+    const job = startBatchJob(rows, { currency, concurrency: concurrency !== undefined ? Number(concurrency) : undefined });
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    console.error("Error starting batch:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Batch failed" },
+      { status: 500 }
+    );
+  }
+}
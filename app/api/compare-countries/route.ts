@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runCountryComparison } from "@/lib/scenarios";
+import { getRegionProfile, REGION_PROFILES } from "@/lib/regions";
+
+// POST /api/compare-countries - Cost the same BOM in several countries of manufacture
+export async function POST(req: NextRequest) {
+  try {
+    const { costModel, countries, analysisDate } = await req.json();
+
+    // Validate input
+    if (!costModel || !Array.isArray(costModel.materials)) {
+      return NextResponse.json(
+        { error: "costModel from a completed analysis is required" },
+        { status: 400 }
+      );
+    }
+
+    const requested: string[] = Array.isArray(countries) && countries.length > 0
+      ? countries.map(String)
+      : Object.keys(REGION_PROFILES);
+    const unknown = requested.filter((c) => !getRegionProfile(c));
+
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown countries: ${unknown.join(", ")}. Supported: ${Object.keys(REGION_PROFILES).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await runCountryComparison(
+      costModel,
+      requested,
+      analysisDate ? new Date(analysisDate) : undefined
+    );
+
+    return NextResponse.json({ success: true, baselineCountry: costModel.country || "US", comparison });
+
+  } catch (error) {
+    console.error("Error in country comparison:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Country comparison failed" },
+      { status: 500 }
+    );
+  }
+}
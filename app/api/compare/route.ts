@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findAllHistoricalCosts } from "@/lib/db";
+import { compareSavedAnalyses, comparisonToCsv } from "@/lib/compare";
+
+// GET /api/compare - Saved analyses that can be compared
+export async function GET() {
+  try {
+    const saved = await findAllHistoricalCosts();
+    const analyses = saved
+      .map((c) => ({
+        id: c.id,
+        productName: c.productName,
+        productDescription: c.productDescription,
+        unitCost: c.totalCost,
+        currency: ((c.breakdown as { currency?: string }).currency || "USD").toUpperCase(),
+        costedAt: new Date(c.createdAt).toISOString(),
+      }))
+      .sort((a, b) => b.costedAt.localeCompare(a.costedAt));
+
+    return NextResponse.json({ success: true, analyses });
+
+  } catch (error) {
+    console.error("Error listing saved analyses:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Listing saved analyses failed" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/compare - Compare saved analyses side by side (JSON, or CSV with format: "csv")
+export async function POST(req: NextRequest) {
+  try {
+    const { ids, currency, format } = await req.json();
+
+    // Validate input
+    if (!Array.isArray(ids) || ids.length < 2 || ids.some((id) => typeof id !== "string")) {
+      return NextResponse.json(
+        { error: "ids must list at least two saved analysis ids, baseline first" },
+        { status: 400 }
+      );
+    }
+
+    if (new Set(ids).size !== ids.length) {
+      return NextResponse.json(
+        { error: "ids must not repeat an analysis" },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await compareSavedAnalyses(ids, currency || undefined);
+
+    if (format === "csv") {
+      return new NextResponse(comparisonToCsv(comparison), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="analysis-comparison.csv"',
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, comparison });
+
+  } catch (error) {
+    console.error("Error comparing analyses:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Comparison failed" },
+      { status: 500 }
+    );
+  }
+}
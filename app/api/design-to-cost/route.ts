@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDesignToCost } from "@/lib/design-to-cost";
+import { getCategoryConfig } from "@/lib/prompts";
+
+// POST /api/design-to-cost - Rank priced design and commercial changes toward a target unit cost
+export async function POST(req: NextRequest) {
+  try {
+    const { costModel, targetPrice, category } = await req.json();
+
+    // Validate input
+    if (!costModel || !Array.isArray(costModel.materials)) {
+      return NextResponse.json(
+        { error: "costModel from a completed analysis is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(Number(targetPrice) > 0)) {
+      return NextResponse.json(
+        { error: "targetPrice must be a unit cost greater than zero" },
+        { status: 400 }
+      );
+    }
+
+    const config = category ? await getCategoryConfig(String(category)) : null;
+    const designToCost = await runDesignToCost(costModel, Number(targetPrice), { config });
+
+    return NextResponse.json({ success: true, designToCost });
+
+  } catch (error) {
+    console.error("Error in design-to-cost:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Design-to-cost failed" },
+      { status: 500 }
+    );
+  }
+}
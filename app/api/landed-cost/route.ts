@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { computeExWorks } from "@/lib/cost-model";
+import { buildLandedCost } from "@/lib/landed-cost";
+import { FREIGHT_MODES } from "@/lib/constants";
+
+// POST /api/landed-cost - Price the Ex-Works cost to another destination or freight mode
+export async function POST(req: NextRequest) {
+  try {
+    const { costModel, shipment, analysisDate } = await req.json();
+
+    // Validate input
+    if (!costModel || !Array.isArray(costModel.materials)) {
+      return NextResponse.json(
+        { error: "costModel from a completed analysis is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!shipment || !(Number(shipment.unitWeightKg) > 0)) {
+      return NextResponse.json(
+        { error: "shipment with a positive unitWeightKg is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!/^[A-Za-z]{2}$/.test(String(shipment.destinationCountry))) {
+      return NextResponse.json(
+        { error: "shipment.destinationCountry must be a 2-letter ISO country code (e.g. DE)" },
+        { status: 400 }
+      );
+    }
+
+    if (!FREIGHT_MODES.includes(shipment.mode)) {
+      return NextResponse.json(
+        { error: `shipment.mode must be one of: ${FREIGHT_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const landedCost = await buildLandedCost(
+      costModel,
+      computeExWorks(costModel),
+      {
+        destinationCountry: String(shipment.destinationCountry),
+        mode: shipment.mode,
+        unitWeightKg: Number(shipment.unitWeightKg),
+        unitVolumeM3: Number(shipment.unitVolumeM3) || 0,
+        hsCode: shipment.hsCode ? String(shipment.hsCode) : undefined,
+        shipmentsPerYear: Number(shipment.shipmentsPerYear) || undefined,
+      },
+      analysisDate ? new Date(analysisDate) : undefined
+    );
+
+    return NextResponse.json({ success: true, landedCost });
+
+  } catch (error) {
+    console.error("Error in landed cost calculation:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Landed cost calculation failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { compareQuoteToShouldCost, convertQuote, parseQuoteText } from "@/lib/quote-variance";
+import { BASE_CURRENCY } from "@/lib/fx";
+import { SupplierQuote } from "@/lib/prompts/types";
+
+// POST /api/quote-variance - Compare a supplier quote with the should-cost
+export async function POST(req: NextRequest) {
+  try {
+    const { quote, quoteText, supplierName, currency, currentState } = await req.json();
+
+    // Validate input
+    if (!currentState?.exWorksCostBreakdown) {
+      return NextResponse.json(
+        { error: "currentState with exWorksCostBreakdown is required" },
+        { status: 400 }
+      );
+    }
+
+    const supplierQuote: SupplierQuote | undefined = quote
+      || (quoteText ? parseQuoteText(String(quoteText), supplierName, currency) : undefined);
+
+    if (!supplierQuote || !Array.isArray(supplierQuote.lineItems)
+      || (supplierQuote.lineItems.length === 0 && !supplierQuote.bucketTotals)) {
+      return NextResponse.json(
+        { error: "Supplier quote needs at least one line item or bucket total" },
+        { status: 400 }
+      );
+    }
+
+    // Gaps are only meaningful in the should-cost currency
+    const shouldCostCurrency = String(currentState.currency || BASE_CURRENCY);
+    const converted = await convertQuote(supplierQuote, shouldCostCurrency);
+    if (!converted) {
+      return NextResponse.json(
+        { error: `No FX rate from ${supplierQuote.currency} to ${shouldCostCurrency} to compare the quote` },
+        { status: 400 }
+      );
+    }
+
+    const report = compareQuoteToShouldCost(
+      converted.quote,
+      currentState.exWorksCostBreakdown,
+      currentState.materialCosts,
+      currentState.costModel?.packaging,
+      shouldCostCurrency,
+      converted.fxRate
+    );
+
+    return NextResponse.json({ success: true, quoteVariance: report });
+
+  } catch (error) {
+    console.error("Error in quote variance:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Quote comparison failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findLatestDriftReport, runRecostJob } from "@/lib/recost";
+
+/**
+ * Read an optional reopen threshold (0.05 = 5%)
+ */
+function parseThreshold(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  const threshold = Number(value);
+  return threshold > 0 && threshold < 1 ? threshold : null;
+}
+
+// GET /api/recost - Drift report from the last re-costing of each saved analysis
+export async function GET(req: NextRequest) {
+  try {
+    const threshold = parseThreshold(req.nextUrl.searchParams.get("threshold"));
+
+    if (threshold === null) {
+      return NextResponse.json(
+        { error: "threshold must be between 0 and 1 (0.05 = 5%)" },
+        { status: 400 }
+      );
+    }
+
+    const report = await findLatestDriftReport(threshold);
+    return NextResponse.json({ success: true, report });
+
+  } catch (error) {
+    console.error("Error reading drift report:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Drift report failed" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/recost - Re-cost saved analyses against current prices
+export async function POST(req: NextRequest) {
+  try {
+    const { threshold: rawThreshold, ids } = await req.json().catch(() => ({}));
+    const threshold = parseThreshold(rawThreshold);
+
+    if (threshold === null) {
+      return NextResponse.json(
+        { error: "threshold must be between 0 and 1 (0.05 = 5%)" },
+        { status: 400 }
+      );
+    }
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== "string"))) {
+      return NextResponse.json(
+        { error: "ids must be an array of saved analysis ids" },
+        { status: 400 }
+      );
+    }
+
+    const report = await runRecostJob({ threshold, ids });
+    return NextResponse.json({ success: true, report });
+
+  } catch (error) {
+    console.error("Error in re-costing:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Re-costing failed" },
+      { status: 500 }
+    );
+  }
+}
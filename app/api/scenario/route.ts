@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildVolumeCurve, runVolumeScenario } from "@/lib/scenarios";
+
+// POST /api/scenario - Recompute Ex-Works cost at alternative volumes
+export async function POST(req: NextRequest) {
+  try {
+    const { costModel, aum, volumeFactors } = await req.json();
+
+    // Validate input
+    if (!costModel || !Array.isArray(costModel.materials)) {
+      return NextResponse.json(
+        { error: "costModel from a completed analysis is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(Number(costModel.aum) > 0)) {
+      return NextResponse.json(
+        { error: "costModel has no baseline aum to build a volume curve around" },
+        { status: 400 }
+      );
+    }
+
+    const hasAum = aum !== undefined && aum !== null && aum !== "";
+    if (hasAum && !(Number.isFinite(Number(aum)) && Number(aum) > 0)) {
+      return NextResponse.json(
+        { error: "aum must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    if (volumeFactors !== undefined && !(Array.isArray(volumeFactors)
+      && volumeFactors.every((f) => typeof f === "number" && Number.isFinite(f) && f > 0))) {
+      return NextResponse.json(
+        { error: "volumeFactors must be an array of positive numbers" },
+        { status: 400 }
+      );
+    }
+
+    const curve = buildVolumeCurve(costModel, volumeFactors);
+    const scenario = hasAum ? runVolumeScenario(costModel, Number(aum)) : undefined;
+
+    return NextResponse.json({ success: true, baselineAum: costModel.aum, scenario, curve });
+
+  } catch (error) {
+    console.error("Error in volume scenario:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Scenario failed" },
+      { status: 500 }
+    );
+  }
+}
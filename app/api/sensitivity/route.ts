@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runSensitivityAnalysis } from "@/lib/sensitivity";
+
+// POST /api/sensitivity - Rank cost drivers by impact on Ex-Works cost
+export async function POST(req: NextRequest) {
+  try {
+    const { costModel, delta } = await req.json();
+
+    // Validate input
+    if (!costModel || !Array.isArray(costModel.materials)) {
+      return NextResponse.json(
+        { error: "costModel from a completed analysis is required" },
+        { status: 400 }
+      );
+    }
+
+    if (delta !== undefined && !(Number(delta) > 0 && Number(delta) < 1)) {
+      return NextResponse.json(
+        { error: "delta must be between 0 and 1 (0.10 = ±10%)" },
+        { status: 400 }
+      );
+    }
+
+    const sensitivity = runSensitivityAnalysis(costModel, delta !== undefined ? Number(delta) : undefined);
+    return NextResponse.json({ success: true, sensitivity });
+
+  } catch (error) {
+    console.error("Error in sensitivity analysis:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Sensitivity analysis failed" },
+      { status: 500 }
+    );
+  }
+}
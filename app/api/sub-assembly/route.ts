@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { costSubAssembly } from "@/lib/costing";
+
+// POST /api/sub-assembly - Should-cost a sub-assembly on its own and reference it from the parent BOM
+export async function POST(req: NextRequest) {
+  try {
+    const { productDescription, category, components, costModel, componentId, shipment } = await req.json();
+
+    // Validate input
+    if (!productDescription || !Array.isArray(components) || !costModel || !Array.isArray(costModel.materials)) {
+      return NextResponse.json(
+        { error: "productDescription, components and costModel from a completed analysis are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!componentId || !components.some((c: { parentId?: string }) => c.parentId === componentId)) {
+      return NextResponse.json(
+        { error: "componentId must identify a BOM line with child components" },
+        { status: 400 }
+      );
+    }
+
+    const result = await costSubAssembly({
+      productDescription,
+      category,
+      components,
+      costModel,
+      componentId: String(componentId),
+      shipment,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Error in sub-assembly costing:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Sub-assembly costing failed" },
+      { status: 500 }
+    );
+  }
+}
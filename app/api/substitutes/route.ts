@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findBomSubstitutes } from "@/lib/substitutes";
+
+// POST /api/substitutes - Find cheaper comparable materials for priced BOM lines
+export async function POST(req: NextRequest) {
+  try {
+    const { materials, currency, analysisDate } = await req.json();
+
+    // Validate input
+    if (!Array.isArray(materials) || materials.length === 0) {
+      return NextResponse.json(
+        { error: "materials must be a non-empty array of priced BOM lines" },
+        { status: 400 }
+      );
+    }
+
+    const asOf = analysisDate ? new Date(analysisDate) : undefined;
+    if (asOf && isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { error: "analysisDate must be a valid date" },
+        { status: 400 }
+      );
+    }
+
+    const substitutes = await findBomSubstitutes(materials, currency || undefined, asOf);
+
+    return NextResponse.json({ success: true, substitutes });
+
+  } catch (error) {
+    console.error("Error finding substitutes:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Substitute search failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { BatchCosting } from "@/components/batch-costing";
+
+// Force dynamic rendering - batch jobs live in the server process
+export const dynamic = "force-dynamic";
+
+export default function BatchPage() {
+  return (
+    <main className="min-h-screen p-6 md:p-8 bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-[1200px] mx-auto space-y-6">
+        <header className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Batch Should-Costing</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Cost a CSV of SKUs in one go and export the unit cost and Ex-Works buckets per product
+            </p>
+          </div>
+          <a href="/" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </a>
+        </header>
+
+        <BatchCosting />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,26 @@
+import { DriftReport } from "@/components/drift-report";
+
+// Force dynamic rendering - the report reads saved analyses
+export const dynamic = "force-dynamic";
+
+export default function DriftPage() {
+  return (
+    <main className="min-h-screen p-6 md:p-8 bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-[1200px] mx-auto space-y-6">
+        <header className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Price Drift</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Saved should-costs re-priced at today&apos;s material prices and labour rates
+            </p>
+          </div>
+          <a href="/" className="text-sm text-blue-600 hover:underline">
+            Back to dashboard
+          </a>
+        </header>
+
+        <DriftReport />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Columns, Download, Loader2 } from "lucide-react";
+import { AnalysisComparison as AnalysisComparisonData, ComparisonLine } from "@/lib/prompts/types";
+
+interface SavedAnalysis {
+  id: string;
+  productName: string;
+  productDescription: string;
+  unitCost: number;
+  currency: string;
+  costedAt: string;
+}
+
+/**
+ * Signed cost delta, e.g. "+0.1234"
+ */
+function formatDelta(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(4)}`;
+}
+
+/**
+ * Red when dearer than the baseline, green when cheaper
+ */
+function deltaClass(value: number): string {
+  return value > 0 ? "text-red-600" : value < 0 ? "text-green-600" : "text-muted-foreground";
+}
+
+export function AnalysisComparison() {
+  const [saved, setSaved] = useState<SavedAnalysis[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);  // Baseline first
+  const [comparison, setComparison] = useState<AnalysisComparisonData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/compare");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Listing saved analyses failed");
+        }
+
+        setSaved(data.analyses);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Listing saved analyses failed");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: selected }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Comparison failed");
+      }
+
+      setComparison(data.comparison);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Comparison failed");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!comparison) return;
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: comparison.analyses.map((a) => a.id), currency: comparison.currency, format: "csv" }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Export failed");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "analysis-comparison.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const materialsDiffer = (line: ComparisonLine) =>
+    new Set(line.materials.filter((m) => m !== null).map((m) => m!.toLowerCase())).size > 1;
+
+  const headerCell = "text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider";
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Columns className="w-4 h-4 text-blue-500" />
+                Saved Analyses
+              </CardTitle>
+              <p className="text-xs text-muted-foreground mt-1">
+                Select two or more; the first selected is the baseline
+              </p>
+            </div>
+            <Button size="sm" onClick={handleCompare} disabled={selected.length < 2 || isComparing} className="gap-2">
+              {isComparing && <Loader2 className="w-4 h-4 animate-spin" />}
+              Compare {selected.length > 1 ? selected.length : ""}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : saved.length > 0 ? (
+            <table className="w-full text-sm">
+              <tbody className="divide-y">
+                {saved.map((analysis) => {
+                  const order = selected.indexOf(analysis.id);
+                  return (
+                    <tr
+                      key={analysis.id}
+                      onClick={() => toggle(analysis.id)}
+                      className={`cursor-pointer hover:bg-muted/30 ${order >= 0 ? "bg-blue-50/50 dark:bg-blue-900/10" : ""}`}
+                    >
+                      <td className="py-2 px-4 w-8">
+                        <input type="checkbox" checked={order >= 0} readOnly aria-label={`Select ${analysis.productName}`} />
+                      </td>
+                      <td className="py-2 px-4">
+                        <div className="font-medium flex items-center gap-2">
+                          {analysis.productName}
+                          {order === 0 && <Badge variant="info" className="text-xs">Baseline</Badge>}
+                          {order > 0 && <Badge variant="outline" className="text-xs">#{order + 1}</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate max-w-[600px]">{analysis.productDescription}</div>
+                      </td>
+                      <td className="py-2 px-4 text-muted-foreground">{new Date(analysis.costedAt).toLocaleDateString()}</td>
+                      <td className="text-right py-2 px-4 font-mono-numbers">
+                        {analysis.unitCost.toFixed(4)} {analysis.currency}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No saved analyses yet. Approved analyses are saved automatically.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <Card className="w-full">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Comparison</CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {comparison.currency} per unit; differences are against the baseline
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={handleExport} disabled={isExporting} className="gap-2">
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Export CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {comparison.analyses.some((a) => a.note || a.currency !== comparison.currency) && (
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {comparison.analyses.map((a) => (a.note || a.currency !== comparison.currency) && (
+                  <li key={a.id}>
+                    <span className="font-medium text-foreground">{a.productName}</span>
+                    {a.currency !== comparison.currency && ` converted from ${a.currency} at ${a.fxRate.toFixed(4)}.`}
+                    {a.note && ` ${a.note}.`}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Ex-Works buckets */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Bucket</th>
+                    {comparison.analyses.map((a, i) => (
+                      <th key={a.id} className={headerCell}>
+                        {a.productName}
+                        <div className="font-normal normal-case tracking-normal text-muted-foreground">
+                          {i === 0 ? "Baseline" : new Date(a.costedAt).toLocaleDateString()}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {comparison.buckets.map((row) => (
+                    <tr key={row.bucket} className={row.bucket === "totalExWorks" ? "font-semibold bg-muted/30" : ""}>
+                      <td className="py-2 px-4">{row.label}</td>
+                      {row.costs.map((cost, i) => (
+                        <td key={i} className="text-right py-2 px-4 font-mono-numbers">
+                          {cost.toFixed(4)}
+                          {i > 0 && row.deltas[i] !== 0 && (
+                            <div className={`text-xs ${deltaClass(row.deltas[i])}`}>{formatDelta(row.deltas[i])}</div>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Where each difference comes from */}
+            <div className="grid gap-4 md:grid-cols-2">
+              {comparison.analyses.slice(1).map((a, i) => {
+                const drivers = comparison.drivers[i + 1];
+                const total = comparison.buckets.find((b) => b.bucket === "totalExWorks")!.deltas[i + 1];
+                return (
+                  <div key={a.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="font-medium">{a.productName} vs baseline</span>
+                      <span className={`font-mono-numbers ${deltaClass(total)}`}>{formatDelta(total)}</span>
+                    </div>
+                    {drivers.length > 0 ? (
+                      <ul className="text-xs space-y-1">
+                        {drivers.map((d, j) => (
+                          <li key={j} className="flex items-center justify-between gap-2">
+                            <span>
+                              {d.name}
+                              <span className="text-muted-foreground"> · {d.reason}</span>
+                            </span>
+                            <span className={`font-mono-numbers whitespace-nowrap ${deltaClass(d.delta)}`}>
+                              {formatDelta(d.delta)}
+                              {total !== 0 && ` (${(d.share * 100).toFixed(0)}%)`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Same cost as the baseline.</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Aligned lines */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Line</th>
+                    {comparison.analyses.map((a, i) => (
+                      <th key={a.id} className={headerCell}>{i === 0 ? "Baseline" : a.productName}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {comparison.lines.map((line) => (
+                    <tr key={line.key}>
+                      <td className="py-2 px-4">
+                        <div className="font-medium">{line.name}</div>
+                        <div className="text-xs text-muted-foreground capitalize">{line.kind}</div>
+                      </td>
+                      {line.costs.map((cost, i) => (
+                        <td key={i} className="text-right py-2 px-4 font-mono-numbers">
+                          {cost === null ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <>
+                              {cost.toFixed(4)}
+                              <div className={`text-xs ${materialsDiffer(line) ? "text-amber-600 font-medium" : "text-muted-foreground"}`}>
+                                {line.materials[i]}
+                              </div>
+                            </>
+                          )}
+                          {i > 0 && line.deltas[i] !== 0 && (
+                            <div className={`text-xs ${deltaClass(line.deltas[i])}`}>{formatDelta(line.deltas[i])}</div>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import { AnalysisWarning, AnalysisWarningSeverity } from "@/lib/prompts/types";
+
+interface AnalysisWarningsPanelProps {
+  warnings: AnalysisWarning[];
+}
+
+const SEVERITY_ORDER: AnalysisWarningSeverity[] = ["error", "warning", "info"];
+
+const SEVERITY_VARIANT: Record<AnalysisWarningSeverity, "destructive" | "warning" | "info"> = {
+  error: "destructive",
+  warning: "warning",
+  info: "info",
+};
+
+// Collapsed panels show this many of the most severe warnings
+const COLLAPSED_COUNT = 3;
+
+/**
+ * Expected range of a warning, formatted like its value
+ */
+function formatRange(warning: AnalysisWarning): string | undefined {
+  if (!warning.expected) return undefined;
+  const share = warning.field.startsWith("costPercentages");
+  const format = (v: number) => (share ? `${(v * 100).toFixed(1)}%` : Number(v.toPrecision(4)).toString());
+  return `${format(warning.expected.min)} – ${format(warning.expected.max)}`;
+}
+
+export function AnalysisWarningsPanel({ warnings }: AnalysisWarningsPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const sorted = [...warnings].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+  const shown = isExpanded ? sorted : sorted.slice(0, COLLAPSED_COUNT);
+  const counts = SEVERITY_ORDER.map((s) => [s, warnings.filter((w) => w.severity === s).length] as const)
+    .filter(([, count]) => count > 0);
+
+  return (
+    <Card className={counts[0]?.[0] === "error" ? "border-red-200 dark:border-red-800" : undefined}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-amber-500" />
+            Model Checks
+            {counts.map(([severity, count]) => (
+              <Badge key={severity} variant={SEVERITY_VARIANT[severity]} className="text-xs capitalize">
+                {count} {severity}
+              </Badge>
+            ))}
+          </CardTitle>
+          {sorted.length > COLLAPSED_COUNT && (
+            <Button variant="ghost" size="sm" onClick={() => setIsExpanded(!isExpanded)} className="h-8 gap-1">
+              {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              {isExpanded ? "Show less" : `Show all ${sorted.length}`}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Values in the AI cost structure that were corrected or fall outside the expected range
+        </p>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y text-sm">
+          {shown.map((warning, i) => (
+            <li key={`${warning.field}-${i}`} className="py-2 flex items-start gap-3">
+              <Badge variant={SEVERITY_VARIANT[warning.severity]} className="text-xs capitalize shrink-0 w-16 justify-center">
+                {warning.severity}
+              </Badge>
+              <div className="min-w-0">
+                <p>{warning.message}</p>
+                <p className="text-xs text-muted-foreground font-mono">
+                  {warning.field}
+                  {formatRange(warning) && ` · expected ${formatRange(warning)}`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
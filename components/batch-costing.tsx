@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download, Layers, Loader2, Upload } from "lucide-react";
+import { BatchJob, BatchRowStatus } from "@/lib/prompts/types";
+import { REPORTING_CURRENCIES } from "@/lib/constants";
+
+// How often a running job is refreshed
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_VARIANT: Record<BatchRowStatus, "secondary" | "info" | "success" | "destructive"> = {
+  queued: "secondary",
+  running: "info",
+  done: "success",
+  failed: "destructive",
+};
+
+export function BatchCosting() {
+  const [file, setFile] = useState<File | null>(null);
+  const [currency, setCurrency] = useState("USD");
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refresh per-row status until every row has finished
+  useEffect(() => {
+    if (!job || job.status === "done") return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/batch?id=${job.id}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Reading batch job failed");
+        }
+
+        setJob(data.job);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Reading batch job failed");
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  const handleStart = async () => {
+    if (!file) return;
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv: await file.text(), currency }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Batch failed");
+      }
+
+      setJob(data.job);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Batch failed");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const finished = job ? job.rows.filter((r) => r.status === "done" || r.status === "failed").length : 0;
+  const failed = job ? job.rows.filter((r) => r.status === "failed").length : 0;
+  const currencyLabel = job?.currency === "USD" ? "$" : job?.currency;
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-4 h-4 text-blue-500" />
+            Upload Products
+          </CardTitle>
+          <p className="text-xs text-muted-foreground mt-1">
+            CSV with a <span className="font-mono">description</span> column and optional{" "}
+            <span className="font-mono">aum</span>, <span className="font-mono">category</span> and{" "}
+            <span className="font-mono">country</span> columns; the category is classified when left blank
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="text-sm"
+            />
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              Reporting currency
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="px-2 py-1 text-sm border rounded-md bg-background"
+              >
+                {REPORTING_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </label>
+            <Button
+              size="sm"
+              onClick={handleStart}
+              disabled={!file || isStarting || job?.status === "running"}
+              className="gap-2 ml-auto"
+            >
+              {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Cost Products
+            </Button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {job && (
+        <Card className="w-full">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {job.status === "running" && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {finished} of {job.rows.length} costed
+                  {failed > 0 && <Badge variant="destructive" className="text-xs">{failed} failed</Badge>}
+                </CardTitle>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {job.concurrency} at a time · prices in {job.currency}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" asChild className="gap-2">
+                <a href={`/api/batch?id=${job.id}&format=csv`}>
+                  <Download className="w-4 h-4" />
+                  Export CSV
+                </a>
+              </Button>
+            </div>
+            <Progress value={job.rows.length > 0 ? (finished / job.rows.length) * 100 : 0} className="mt-2" />
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Row</th>
+                    <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Product</th>
+                    <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Status</th>
+                    <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Material</th>
+                    <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Conversion</th>
+                    <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Labour</th>
+                    <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Other</th>
+                    <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">{currencyLabel}/Unit</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {job.rows.map((row) => (
+                    <tr key={row.row} className={row.status === "failed" ? "bg-red-50/50 dark:bg-red-900/10" : ""}>
+                      <td className="py-2 px-4 text-muted-foreground font-mono-numbers">{row.row}</td>
+                      <td className="py-2 px-4">
+                        <div className="font-medium truncate max-w-[360px]" title={row.description}>{row.description || "—"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[row.categoryName || row.category, row.country, row.aum && `${row.aum.toLocaleString()}/yr`].filter(Boolean).join(" · ")}
+                        </div>
+                        {row.error && <div className="text-xs text-red-600">{row.error}</div>}
+                      </td>
+                      <td className="py-2 px-4">
+                        <Badge variant={STATUS_VARIANT[row.status]} className="text-xs capitalize">{row.status}</Badge>
+                        {!!row.warningCount && (
+                          <span className="ml-1 text-xs text-amber-600">{row.warningCount} warning{row.warningCount === 1 ? "" : "s"}</span>
+                        )}
+                      </td>
+                      {row.exWorks ? (
+                        <>
+                          <td className="text-right py-2 px-4 font-mono-numbers">{row.exWorks.rawMaterial.toFixed(4)}</td>
+                          <td className="text-right py-2 px-4 font-mono-numbers">{row.exWorks.conversion.toFixed(4)}</td>
+                          <td className="text-right py-2 px-4 font-mono-numbers">{row.exWorks.labour.toFixed(4)}</td>
+                          <td
+                            className="text-right py-2 px-4 font-mono-numbers"
+                            title="Packing, overhead, tooling and margin"
+                          >
+                            {(row.exWorks.packing + row.exWorks.overhead + (row.exWorks.tooling ?? 0) + row.exWorks.margin).toFixed(4)}
+                          </td>
+                          <td className="text-right py-2 px-4 font-mono-numbers font-semibold">{row.exWorks.totalExWorks.toFixed(4)}</td>
+                        </>
+                      ) : (
+                        <td colSpan={5} className="text-right py-2 px-4 text-muted-foreground">—</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
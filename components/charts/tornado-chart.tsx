@@ -0,0 +1,114 @@
+"use client";
+
+import React from "react";
+import {
+    BarChart,
+    Bar,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ResponsiveContainer,
+    ReferenceLine,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { SensitivityAnalysis } from "@/lib/prompts/types";
+
+interface TornadoChartProps {
+    sensitivity: SensitivityAnalysis;
+    currency?: string;
+    title?: string;
+    maxDrivers?: number;
+}
+
+export function SensitivityTornadoChart({
+    sensitivity,
+    currency = "$",
+    title = "What Moves the Price",
+    maxDrivers = 10,
+}: TornadoChartProps) {
+    const deltaLabel = `±${Math.round(sensitivity.delta * 100)}%`;
+
+    // One row per driver; bars extend left (decrease) and right (increase) of baseline
+    const chartData = sensitivity.drivers.slice(0, maxDrivers).map((d) => ({
+        name: d.label,
+        decrease: Math.min(d.lowImpact, d.highImpact),
+        increase: Math.max(d.lowImpact, d.highImpact),
+        lowTotal: d.lowTotal,
+        highTotal: d.highTotal,
+        swing: d.swing,
+    }));
+
+    const CustomTooltip = ({ active, payload }: any) => {
+        if (active && payload && payload.length) {
+            const data = payload[0].payload;
+            const share = sensitivity.baselineTotal > 0
+                ? ((data.swing / 2 / sensitivity.baselineTotal) * 100).toFixed(1)
+                : "0";
+
+            return (
+                <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg border text-sm">
+                    <p className="font-semibold mb-1">{data.name}</p>
+                    <div className="space-y-1 text-xs">
+                        <p className="flex justify-between gap-4">
+                            <span className="text-muted-foreground">-{Math.round(sensitivity.delta * 100)}%:</span>
+                            <span className="font-mono">{currency}{data.lowTotal.toFixed(4)}</span>
+                        </p>
+                        <p className="flex justify-between gap-4">
+                            <span className="text-muted-foreground">+{Math.round(sensitivity.delta * 100)}%:</span>
+                            <span className="font-mono">{currency}{data.highTotal.toFixed(4)}</span>
+                        </p>
+                        <p className="flex justify-between gap-4 pt-1 border-t">
+                            <span className="text-muted-foreground">Unit cost impact:</span>
+                            <span className="font-mono">±{share}%</span>
+                        </p>
+                    </div>
+                </div>
+            );
+        }
+        return null;
+    };
+
+    return (
+        <Card className="h-full flex flex-col">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+                    {title} ({deltaLabel})
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="flex-1 min-h-0">
+                {chartData.length > 0 ? (
+                    <div className="w-full" style={{ height: Math.max(200, chartData.length * 32 + 40) }}>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart
+                                data={chartData}
+                                layout="vertical"
+                                stackOffset="sign"
+                                margin={{ top: 10, right: 30, left: 10, bottom: 10 }}
+                            >
+                                <CartesianGrid strokeDasharray="3 3" horizontal={false} opacity={0.3} />
+                                <XAxis
+                                    type="number"
+                                    tickFormatter={(val) => `${val >= 0 ? "+" : ""}${currency}${val.toFixed(3)}`}
+                                    tick={{ fontSize: 11 }}
+                                />
+                                <YAxis
+                                    type="category"
+                                    dataKey="name"
+                                    tick={{ fontSize: 11 }}
+                                    width={150}
+                                />
+                                <Tooltip content={<CustomTooltip />} cursor={{ fill: "transparent" }} />
+                                <ReferenceLine x={0} stroke="#64748b" />
+                                <Bar dataKey="decrease" stackId="a" fill="#10b981" radius={[2, 0, 0, 2]} />
+                                <Bar dataKey="increase" stackId="a" fill="#ef4444" radius={[0, 2, 2, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground py-8 text-center">No sensitivity data</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -11,6 +11,7 @@ import {
     ResponsiveContainer,
     Cell,
     ReferenceLine,
+    ErrorBar,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatCurrency } from "@/lib/utils";
@@ -21,6 +22,17 @@ interface WaterfallChartProps {
         name: string;
         value: number;
         color?: string;
+        p10?: number; // Simulated confidence band for this bucket
+        p90?: number;
+    }[];
+    // Simulated confidence band for the total bar
+    totalBand?: { p10: number; p50: number; p90: number };
+    // Landed-cost additions after Total Ex-Works; subtotal bars show the running price
+    landedSteps?: {
+        name: string;
+        value: number;
+        color?: string;
+        isSubtotal?: boolean;
     }[];
     currency?: string;
     title?: string;
@@ -37,7 +49,9 @@ export function CostWaterfallChart({
     onBarClick,
     selectedIndex,
     showPercentage = false,
-    layout = "value"
+    layout = "value",
+    totalBand,
+    landedSteps = []
 }: WaterfallChartProps) {
     // Transform data for waterfall
     // Each bar needs: name, start, end, value (for tooltip)
@@ -66,6 +80,12 @@ export function CostWaterfallChart({
             color: item.color || CHART_COLORS.rawMaterial,
             isTotal: false,
             originalIndex: index,
+            p10: item.p10,
+            p90: item.p90,
+            // ErrorBar takes [below, above] deltas from the bar end
+            band: item.p10 !== undefined && item.p90 !== undefined
+                ? [Math.max(item.value - item.p10, 0), Math.max(item.p90 - item.value, 0)]
+                : [0, 0],
         };
     });
 
@@ -80,9 +100,36 @@ export function CostWaterfallChart({
         color: CHART_COLORS.total, // Dark color for total
         isTotal: true,
         originalIndex: -1,
+        p10: totalBand?.p10,
+        p90: totalBand?.p90,
+        band: totalBand
+            ? [Math.max(totalValue - totalBand.p10, 0), Math.max(totalBand.p90 - totalValue, 0)]
+            : [0, 0],
     };
+    const hasBand = !!totalBand || data.some((d) => d.p10 !== undefined && d.p90 !== undefined);
 
-    const chartData = [...waterfallData, finalBar];
+    // Freight, insurance and duty continue the build-up from the Ex-Works total
+    let landedTotal = totalValue;
+    const landedData = landedSteps.map((step) => {
+        const bottom = step.isSubtotal ? 0 : landedTotal;
+        if (!step.isSubtotal) landedTotal += step.value;
+
+        return {
+            name: step.name,
+            value: step.isSubtotal ? landedTotal : step.value,
+            bottom,
+            barSize: step.isSubtotal ? landedTotal : step.value,
+            total: landedTotal,
+            color: step.color || (step.isSubtotal ? CHART_COLORS.total : CHART_COLORS.logistics),
+            isTotal: true,
+            originalIndex: -1,
+            p10: undefined,
+            p90: undefined,
+            band: [0, 0],
+        };
+    });
+
+    const chartData = [...waterfallData, finalBar, ...landedData];
 
     const CustomTooltip = ({ active, payload, label }: any) => {
         if (active && payload && payload.length) {
@@ -100,6 +147,14 @@ export function CostWaterfallChart({
                                 {showPercentage && !data.isTotal && ` (${percentage}%)`}
                             </span>
                         </p>
+                        {data.p10 !== undefined && data.p90 !== undefined && (
+                            <p className="flex justify-between gap-4 text-xs">
+                                <span className="text-muted-foreground">P10–P90:</span>
+                                <span className="font-mono">
+                                    {currency}{data.p10.toFixed(4)} – {currency}{data.p90.toFixed(4)}
+                                </span>
+                            </p>
+                        )}
                         {!data.isTotal && (
                             <p className="flex justify-between gap-4 pt-1 border-t text-xs">
                                 <span className="text-muted-foreground">Cumulative:</span>
@@ -124,6 +179,11 @@ export function CostWaterfallChart({
                 <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
                     {title}
                 </CardTitle>
+                {totalBand && (
+                    <p className="text-xs text-muted-foreground font-mono">
+                        P10 {currency}{totalBand.p10.toFixed(4)} · P50 {currency}{totalBand.p50.toFixed(4)} · P90 {currency}{totalBand.p90.toFixed(4)}
+                    </p>
+                )}
             </CardHeader>
             <CardContent className="flex-1 min-h-0">
                 <div className="h-full w-full">
@@ -177,6 +237,9 @@ export function CostWaterfallChart({
                                         />
                                     );
                                 })}
+                                {hasBand && (
+                                    <ErrorBar dataKey="band" width={8} strokeWidth={1.5} stroke="#64748b" />
+                                )}
                             </Bar>
                         </BarChart>
                     </ResponsiveContainer>
@@ -16,7 +16,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatCurrency } from "@/lib/utils";
 
-// Ex-Works breakdown (6 components)
+// Ex-Works breakdown (6 components, plus tooling when amortized)
 interface ExWorksCostBreakdown {
   rawMaterial: number;
   conversion: number;
@@ -24,6 +24,7 @@ interface ExWorksCostBreakdown {
   packing: number;
   overhead: number;
   margin: number;
+  tooling?: number;
   totalExWorks: number;
 }
 
@@ -49,6 +50,7 @@ export function ExWorksBreakdownChart({ breakdown }: ExWorksBreakdownChartProps)
     { name: "Labour", value: breakdown.labour, color: EX_WORKS_COLORS_ARRAY[2] },
     { name: "Packing", value: breakdown.packing, color: EX_WORKS_COLORS_ARRAY[3] },
     { name: "Overhead", value: breakdown.overhead, color: EX_WORKS_COLORS_ARRAY[4] },
+    { name: "Tooling", value: breakdown.tooling ?? 0, color: EX_WORKS_COLORS_ARRAY[6] },
     { name: "Margin", value: breakdown.margin, color: EX_WORKS_COLORS_ARRAY[5] },
   ].filter((item) => item.value > 0);
 
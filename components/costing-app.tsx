@@ -7,12 +7,23 @@ import "@copilotkit/react-ui/styles.css";
 import { CostingDashboard } from "@/components/costing-dashboard";
 import { useCopilotAction, useCopilotReadable } from "@copilotkit/react-core";
 import { usePersistedState } from "@/hooks/usePersistedState";
+import { REPORTING_CURRENCIES } from "@/lib/constants";
+import { DEFAULT_COUNTRY, REGION_PROFILES } from "@/lib/regions";
 import {
   ExWorksCostBreakdown,
   CostPercentages,
   ProductComponent,
-  MaterialCostItem
+  MaterialCostItem,
+  CostModelInputs,
+  CostSimulation,
+  SensitivityAnalysis,
+  QuoteVarianceReport,
+  LandedCostBreakdown,
+  BomNode,
+  FxConversion,
+  AnalysisWarning
 } from "@/lib/prompts/types";
+import type { SubAssemblyResult } from "@/lib/costing";
 
 // Local UI Types
 
@@ -26,6 +37,16 @@ interface CostBreakdown {
 
 type ApprovalStatus = "pending" | "approved" | "rejected" | "needs_revision";
 
+type ReviewAction = "approve" | "reject" | "revise";
+
+// Single-shot analysis (lib/costing.ts) or the step-by-step LangGraph agent (agent/)
+type CostingEngine = "single-shot" | "agent";
+
+const ENGINE_STREAM_URLS: Record<CostingEngine, string> = {
+  "single-shot": "/api/analyze/stream",
+  agent: "/api/agent/stream",
+};
+
 interface CostingState {
   productDescription: string;
   analysisContext?: string;
@@ -41,12 +62,28 @@ interface CostingState {
   // Components & Materials
   components: ProductComponent[];
   materialCosts: MaterialCostItem[];
+  bom?: BomNode[];
 
   // Ex-Works Cost Structure
   exWorksCostBreakdown?: ExWorksCostBreakdown;
   costPercentages?: CostPercentages;
+  costModel?: CostModelInputs;
+  simulation?: CostSimulation;
+  sensitivity?: SensitivityAnalysis;
+  quoteVariance?: QuoteVarianceReport;
+  landedCost?: LandedCostBreakdown;
+  warnings?: AnalysisWarning[];
   unitCost: number;
   currency: string;
+  country?: string;
+  analysisDate?: string;
+  fxRates?: FxConversion[];
+  // Currency and country of manufacture for the next analysis
+  reportingCurrency: string;
+  manufacturingCountry: string;
+  costingEngine: CostingEngine;
+  // Agent thread paused for review; set for agent runs only
+  threadId?: string;
 
   // Legacy (kept for compatibility)
   totalCost: number;
@@ -71,10 +108,24 @@ const initialState: CostingState = {
   aumReasoning: "",
   components: [],
   materialCosts: [],
+  bom: undefined,
   exWorksCostBreakdown: undefined,
   costPercentages: undefined,
+  costModel: undefined,
+  simulation: undefined,
+  sensitivity: undefined,
+  quoteVariance: undefined,
+  landedCost: undefined,
+  warnings: undefined,
   unitCost: 0,
   currency: "USD",
+  country: undefined,
+  analysisDate: undefined,
+  fxRates: undefined,
+  reportingCurrency: "USD",
+  manufacturingCountry: "US",
+  costingEngine: "single-shot",
+  threadId: undefined,
   totalCost: 0,
   breakdown: null,
   approvalStatus: "pending",
@@ -121,12 +172,48 @@ function CostingAppContent() {
         description: "Optional Annual Unit Movement (volume). If not provided, AI will estimate.",
         required: false,
       },
+      {
+        name: "currency",
+        type: "string",
+        description: "Optional ISO currency code to report prices in (e.g. EUR). Defaults to the dashboard's reporting currency.",
+        required: false,
+      },
+      {
+        name: "country",
+        type: "string",
+        description: `Optional country of manufacture (${Object.keys(REGION_PROFILES).join(", ")}). Defaults to the dashboard's selection.`,
+        required: false,
+      },
+      {
+        name: "engine",
+        type: "string",
+        description: "Optional costing engine: \"single-shot\" or \"agent\" (step-by-step workflow, USD and US rates only). Defaults to the dashboard's selection.",
+        required: false,
+      },
     ],
-    handler: async ({ productDescription, aum }) => {
+    handler: async ({ productDescription, aum, currency, country, engine }) => {
+      const costingEngine: CostingEngine = engine === "agent" || engine === "single-shot"
+        ? engine
+        : state.costingEngine || "single-shot";
+      const reportingCurrency = (currency || state.reportingCurrency || "USD").toUpperCase();
+      const manufacturingCountry = (country || state.manufacturingCountry || DEFAULT_COUNTRY).toUpperCase();
+
+      // The agent prices in USD at US rates only (its stream route rejects anything else)
+      if (costingEngine === "agent" && (reportingCurrency !== "USD" || manufacturingCountry !== DEFAULT_COUNTRY)) {
+        const message = `The agent workflow reports in USD at ${DEFAULT_COUNTRY} rates only. Switch to the single-shot engine to cost in ${reportingCurrency} for manufacture in ${manufacturingCountry}.`;
+        setState((prev) => ({ ...prev, error: message }));
+        return `Error: ${message}`;
+      }
+
       setIsAnalyzing(true);
       setState((prev) => ({
         ...prev,
         productDescription,
+        threadId: undefined,
+        quoteVariance: undefined,
+        landedCost: undefined,
+        warnings: undefined,
+        bom: undefined,
         currentNode: "analyze",
         progress: 5,
         error: null,
@@ -135,12 +222,14 @@ function CostingAppContent() {
       return new Promise<string>((resolve) => {
         const params = new URLSearchParams({ productDescription });
         if (aum) params.set("aum", String(aum));
-        
-        const eventSource = new EventSource(`/api/analyze/stream?${params}`);
+        params.set("currency", reportingCurrency);
+        params.set("country", manufacturingCountry);
+
+        const eventSource = new EventSource(`${ENGINE_STREAM_URLS[costingEngine]}?${params}`);
         
         eventSource.onmessage = (event) => {
           try {
-            const { type, step, percent, details, data, message } = JSON.parse(event.data);
+            const { type, step, percent, details, data, message, threadId } = JSON.parse(event.data);
             
             if (type === "progress") {
               setState((prev) => ({
@@ -152,6 +241,7 @@ function CostingAppContent() {
               setState((prev) => ({
                 ...prev,
                 ...data,
+                threadId,
                 currentNode: "overhead",
                 progress: 80,
               }));
@@ -189,6 +279,61 @@ function CostingAppContent() {
     },
   });
 
+  // Resume the agent thread paused for review with the reviewer's decision
+  const resumeAgentThread = useCallback(async (action: ReviewAction, feedback?: string) => {
+    const response = await fetch("/api/agent/resume", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ threadId: state.threadId, action, feedback }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Review failed");
+    }
+
+    return data.result;
+  }, [state.threadId]);
+
+  // Agent runs write their report by resuming their thread; single-shot
+  // analyses send their state to /api/analyze
+  const requestReport = useCallback(async () => {
+    if (state.threadId) {
+      return resumeAgentThread("approve");
+    }
+
+    const response = await fetch("/api/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        action: "approve",
+        currentState: {
+          productDescription: state.productDescription,
+          category: state.category,
+          components: state.components,
+          materialCosts: state.materialCosts,
+          materialsTotal: state.materialCosts.reduce((sum, m) => sum + m.totalCost, 0),
+          exWorksCostBreakdown: state.exWorksCostBreakdown,
+          aum: state.aum,
+          totalCost: state.unitCost,
+          currency: state.currency,
+          quoteVariance: state.quoteVariance,
+          costModel: state.costModel,
+          analysisDate: state.analysisDate,
+        },
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Report generation failed");
+    }
+
+    return data;
+  }, [state, resumeAgentThread]);
+
   // Action: Approve the estimate (client-side to update UI state)
   useCopilotAction({
     name: "approveEstimate",
@@ -208,29 +353,7 @@ function CostingAppContent() {
       }));
 
       try {
-        const response = await fetch("/api/analyze", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            action: "approve",
-            currentState: {
-              productDescription: state.productDescription,
-              category: state.category,
-              components: state.components,
-              materialCosts: state.materialCosts,
-              materialsTotal: state.materialCosts.reduce((sum, m) => sum + m.totalCost, 0),
-              exWorksCostBreakdown: state.exWorksCostBreakdown,
-              aum: state.aum,
-              totalCost: state.unitCost,
-            },
-          }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.error || "Report generation failed");
-        }
+        const data = await requestReport();
 
         setState((prev) => ({
           ...prev,
@@ -252,6 +375,60 @@ function CostingAppContent() {
     },
   });
 
+  // Action: Revise the estimate (agent workflow only; client-side to update UI state)
+  useCopilotAction({
+    name: "reviseEstimate",
+    description: "Send the pending estimate back with the reviewer's feedback (e.g. \"steel at $0.70/lb\" or \"assembly takes 0.2 hours\") and re-run the affected steps of the agent workflow",
+    followUp: false,  // Skip second LLM call
+    parameters: [
+      {
+        name: "feedback",
+        type: "string",
+        description: "What the reviewer wants changed in the estimate",
+        required: true,
+      },
+    ],
+    handler: async ({ feedback }) => {
+      if (state.approvalStatus !== "pending" || state.progress < 80) {
+        return "There's no pending estimate to revise. Please analyze a product first.";
+      }
+      if (!state.threadId) {
+        return "Only agent workflow estimates can be revised. Run the analysis with the agent engine, or start a new analysis with the changes.";
+      }
+
+      setIsAnalyzing(true);
+      setState((prev) => ({
+        ...prev,
+        approvalStatus: "needs_revision",
+        currentNode: "overhead",
+        progress: 85,
+      }));
+
+      try {
+        const result = await resumeAgentThread("revise", feedback);
+
+        setState((prev) => ({
+          ...prev,
+          ...result,
+          currentNode: "overhead",
+          progress: 80,
+        }));
+
+        return `✓ Estimate revised • Cost: $${result.unitCost?.toFixed(4)} • Review dashboard`;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Revision failed";
+        setState((prev) => ({
+          ...prev,
+          error: errorMessage,
+          approvalStatus: "pending",
+        }));
+        return `Error revising estimate: ${errorMessage}`;
+      } finally {
+        setIsAnalyzing(false);
+      }
+    },
+  });
+
   // Action: Reset (client-side to update UI state)
   useCopilotAction({
     name: "resetAnalysis",
@@ -274,29 +451,7 @@ function CostingAppContent() {
     }));
 
     try {
-      const response = await fetch("/api/analyze", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          action: "approve",
-          currentState: {
-            productDescription: state.productDescription,
-            category: state.category,
-            components: state.components,
-            materialCosts: state.materialCosts,
-            materialsTotal: state.materialCosts.reduce((sum, m) => sum + m.totalCost, 0),
-            exWorksCostBreakdown: state.exWorksCostBreakdown,
-            aum: state.aum,
-            totalCost: state.unitCost,
-          },
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || "Report generation failed");
-      }
+      const data = await requestReport();
 
       setState((prev) => ({
         ...prev,
@@ -312,15 +467,60 @@ function CostingAppContent() {
         approvalStatus: "pending",
       }));
     }
-  }, [state]);
+  }, [requestReport]);
 
-  const handleReject = useCallback(() => {
+  const handleQuoteVariance = useCallback((quoteVariance: QuoteVarianceReport) => {
     setState((prev) => ({
       ...prev,
-      approvalStatus: "rejected",
+      quoteVariance,
+    }));
+  }, []);
+
+  const handleLandedCost = useCallback((landedCost: LandedCostBreakdown) => {
+    setState((prev) => ({
+      ...prev,
+      landedCost,
     }));
   }, []);
 
+  // The parent BOM now buys the sub-assembly in at its own should-cost
+  const handleSubAssembly = useCallback((result: SubAssemblyResult) => {
+    setState((prev) => ({
+      ...prev,
+      components: result.components,
+      bom: result.bom,
+      costModel: result.costModel,
+      materialCosts: result.materialCosts,
+      exWorksCostBreakdown: result.exWorksCostBreakdown,
+      costPercentages: result.costPercentages,
+      simulation: result.simulation,
+      sensitivity: result.sensitivity,
+      landedCost: result.landedCost,
+      unitCost: result.unitCost,
+      quoteVariance: undefined,
+    }));
+  }, []);
+
+  const handleReject = useCallback(async () => {
+    setState((prev) => ({
+      ...prev,
+      approvalStatus: "rejected",
+    }));
+
+    // End the agent thread too, so it is no longer awaiting review
+    if (!state.threadId) return;
+
+    try {
+      await resumeAgentThread("reject");
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : "Rejection failed",
+        approvalStatus: "pending",
+      }));
+    }
+  }, [state.threadId, resumeAgentThread]);
+
   return (
     <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
       <CopilotSidebar
@@ -344,20 +544,90 @@ function CostingAppContent() {
                 </p>
               </div>
 
-              {state.progress > 0 && (
-                <button
-                  onClick={() => clearStoredState()}
-                  className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 hover:text-red-700 dark:bg-gray-800 dark:text-red-400 dark:border-red-900 dark:hover:bg-gray-700 transition-colors"
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  Engine
+                  <select
+                    value={state.costingEngine || "single-shot"}
+                    onChange={(e) => setState((prev) => ({ ...prev, costingEngine: e.target.value as CostingEngine }))}
+                    className="px-2 py-1.5 text-sm bg-white border border-gray-200 rounded-lg dark:bg-gray-800 dark:border-gray-700"
+                  >
+                    <option value="single-shot">Single-shot</option>
+                    <option value="agent">Agent workflow</option>
+                  </select>
+                </label>
+
+                {state.costingEngine === "agent" && ((state.reportingCurrency || "USD") !== "USD" || (state.manufacturingCountry || DEFAULT_COUNTRY) !== DEFAULT_COUNTRY) && (
+                  <span className="text-xs text-amber-600 dark:text-amber-400">
+                    Agent workflow costs in USD at {DEFAULT_COUNTRY} rates only
+                  </span>
+                )}
+
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  Made in
+                  <select
+                    value={state.manufacturingCountry || "US"}
+                    onChange={(e) => setState((prev) => ({ ...prev, manufacturingCountry: e.target.value }))}
+                    className="px-2 py-1.5 text-sm bg-white border border-gray-200 rounded-lg dark:bg-gray-800 dark:border-gray-700"
+                  >
+                    {Object.values(REGION_PROFILES).map((r) => (
+                      <option key={r.code} value={r.code}>{r.name}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  Reporting currency
+                  <select
+                    value={state.reportingCurrency || "USD"}
+                    onChange={(e) => setState((prev) => ({ ...prev, reportingCurrency: e.target.value }))}
+                    className="px-2 py-1.5 text-sm bg-white border border-gray-200 rounded-lg dark:bg-gray-800 dark:border-gray-700"
+                  >
+                    {REPORTING_CURRENCIES.map((c) => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <a
+                  href="/drift"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Price Drift
+                </a>
+
+                <a
+                  href="/compare"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700 dark:hover:bg-gray-700 transition-colors"
                 >
-                  Reset Analysis
-                </button>
-              )}
+                  Compare
+                </a>
+
+                <a
+                  href="/batch"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Batch
+                </a>
+
+                {state.progress > 0 && (
+                  <button
+                    onClick={() => clearStoredState()}
+                    className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 hover:text-red-700 dark:bg-gray-800 dark:text-red-400 dark:border-red-900 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    Reset Analysis
+                  </button>
+                )}
+              </div>
             </header>
 
             <CostingDashboard
               state={state}
               onApprove={handleApprove}
               onReject={handleReject}
+              onQuoteVariance={handleQuoteVariance}
+              onLandedCost={handleLandedCost}
+              onSubAssembly={handleSubAssembly}
             />
           </div>
         </main>
@@ -1,23 +1,43 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CostWaterfallChart } from "@/components/charts/waterfall-chart";
+import { SensitivityTornadoChart } from "@/components/charts/tornado-chart";
 import { DenseBOMTable } from "@/components/tables/dense-bom-table";
 import { OverviewGrid } from "@/components/overview-grid";
 import { AnalysisContextWidget } from "@/components/analysis-context-widget";
 import { CategoryDetailPanel } from "@/components/category-detail-panel";
+import { QuoteVariancePanel } from "@/components/quote-variance-panel";
+import { CountryComparison } from "@/components/country-comparison";
+import { LandedCostPanel } from "@/components/landed-cost-panel";
+import { AnalysisWarningsPanel } from "@/components/analysis-warnings-panel";
+import { ToolingPanel } from "@/components/tooling-panel";
+import { DesignToCostPanel } from "@/components/design-to-cost-panel";
+import { MaterialAlternativesDrawer } from "@/components/material-alternatives-drawer";
 import {
   ExWorksCostBreakdown,
   CostPercentages,
   ProductComponent,
-  MaterialCostItem
+  MaterialCostItem,
+  CostModelInputs,
+  CostSimulation,
+  SensitivityAnalysis,
+  QuoteVarianceReport,
+  LandedCostBreakdown,
+  Incoterm,
+  BomNode,
+  FxConversion,
+  AnalysisWarning
 } from "@/lib/prompts/types";
-import { CHART_COLORS } from "@/lib/constants";
+import type { VolumeScenario } from "@/lib/scenarios";
+import type { SubAssemblyResult } from "@/lib/costing";
+import { CHART_COLORS, INCOTERMS } from "@/lib/constants";
+import { getRegionProfile } from "@/lib/regions";
 
 interface CostBreakdown {
   materialsTotal?: number;
@@ -40,10 +60,20 @@ interface CostingState {
   aumReasoning?: string;
   components: ProductComponent[];
   materialCosts: MaterialCostItem[];
+  bom?: BomNode[];
   exWorksCostBreakdown?: ExWorksCostBreakdown;
   costPercentages?: CostPercentages;
+  costModel?: CostModelInputs;
+  simulation?: CostSimulation;
+  sensitivity?: SensitivityAnalysis;
+  quoteVariance?: QuoteVarianceReport;
+  landedCost?: LandedCostBreakdown;
+  warnings?: AnalysisWarning[];
   unitCost: number;
   currency: string;
+  country?: string;
+  analysisDate?: string;
+  fxRates?: FxConversion[];
   totalCost: number;
   breakdown: CostBreakdown | null;
   approvalStatus: ApprovalStatus;
@@ -67,12 +97,16 @@ import {
   Target,
   Zap,
   AlertCircle,
+  Globe,
 } from "lucide-react";
 
 interface CostingDashboardProps {
   state: CostingState;
   onApprove: () => void;
   onReject: () => void;
+  onQuoteVariance?: (report: QuoteVarianceReport) => void;
+  onLandedCost?: (landedCost: LandedCostBreakdown) => void;
+  onSubAssembly?: (result: SubAssemblyResult) => void;
 }
 
 const nodeInfo: Record<string, { label: string; icon: React.ReactNode; description: string }> = {
@@ -98,19 +132,37 @@ const nodeInfo: Record<string, { label: string; icon: React.ReactNode; descripti
   },
 };
 
-export function CostingDashboard({ state, onApprove, onReject }: CostingDashboardProps) {
+export function CostingDashboard({
+  state,
+  onApprove,
+  onReject,
+  onQuoteVariance,
+  onLandedCost,
+  onSubAssembly,
+}: CostingDashboardProps) {
   const {
     productDescription,
     analysisContext,
+    category,
     categoryName,
     subCategory,
     aum,
     components,
     materialCosts,
-    exWorksCostBreakdown,
-    costPercentages,
-    unitCost,
+    bom,
+    exWorksCostBreakdown: baselineBreakdown,
+    costPercentages: baselineCostPercentages,
+    costModel,
+    simulation,
+    sensitivity,
+    quoteVariance,
+    landedCost,
+    warnings,
+    unitCost: baselineUnitCost,
     currency,
+    country,
+    analysisDate,
+    fxRates,
     breakdown,
     approvalStatus,
     currentNode,
@@ -119,12 +171,102 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
     error,
   } = state;
 
+  const currencyLabel = currency === "USD" ? "$" : currency;
   const isProcessing = progress > 0 && progress < 100 && approvalStatus !== "pending";
   const showFinalReport = progress === 100 && finalReport;
 
   // Analysis Selection State
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
 
+  // Price basis shown in the waterfall (EXW stops at Total Ex-Works)
+  const [incoterm, setIncoterm] = useState<Incoterm>("DDP");
+
+  // Sub-assembly being costed as its own analysis
+  const [costingSubAssemblyId, setCostingSubAssemblyId] = useState<string | null>(null);
+  const [subAssemblyError, setSubAssemblyError] = useState<string | null>(null);
+
+  // BOM line shown in the alternatives drawer
+  const [alternativesFor, setAlternativesFor] = useState<string | null>(null);
+  const alternativesItem = alternativesFor ? materialCosts.find((m) => m.component === alternativesFor) ?? null : null;
+
+  const handleCostSubAssembly = async (componentId: string) => {
+    if (!costModel || !onSubAssembly) return;
+    setCostingSubAssemblyId(componentId);
+    setSubAssemblyError(null);
+
+    try {
+      const response = await fetch("/api/sub-assembly", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          productDescription,
+          category,
+          components,
+          costModel,
+          componentId,
+          shipment: landedCost?.shipment,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Sub-assembly costing failed");
+      }
+
+      onSubAssembly(data);
+    } catch (e) {
+      setSubAssemblyError(e instanceof Error ? e.message : "Sub-assembly costing failed");
+    } finally {
+      setCostingSubAssemblyId(null);
+    }
+  };
+
+  // Volume Scenario State (100 = baseline AUM)
+  const [scenarioVolume, setScenarioVolume] = useState(100);
+  const [volumeCurve, setVolumeCurve] = useState<VolumeScenario[]>([]);
+
+  // Fetch the cost-vs-volume curve once the bottom-up model is available
+  useEffect(() => {
+    setScenarioVolume(100);
+    setVolumeCurve([]);
+    if (!costModel?.aum) return;
+
+    let cancelled = false;
+    fetch("/api/scenario", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ costModel }),
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled && Array.isArray(data.curve)) setVolumeCurve(data.curve);
+      })
+      .catch((e) => console.error("Failed to load volume scenarios:", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [costModel]);
+
+  const scenarioIndex = volumeCurve.findIndex((p) => Math.round(p.volumeFactor * 100) === scenarioVolume);
+  const activeScenario = scenarioVolume !== 100 && scenarioIndex >= 0 ? volumeCurve[scenarioIndex] : undefined;
+
+  // Everything below renders the active scenario (baseline unless the slider moved)
+  const exWorksCostBreakdown = activeScenario?.exWorksCostBreakdown ?? baselineBreakdown;
+  const unitCost = activeScenario?.unitCost ?? baselineUnitCost;
+  const costPercentages = activeScenario && exWorksCostBreakdown
+    ? {
+      rawMaterial: exWorksCostBreakdown.rawMaterial / exWorksCostBreakdown.totalExWorks,
+      conversion: exWorksCostBreakdown.conversion / exWorksCostBreakdown.totalExWorks,
+      labour: exWorksCostBreakdown.labour / exWorksCostBreakdown.totalExWorks,
+      packing: exWorksCostBreakdown.packing / exWorksCostBreakdown.totalExWorks,
+      overhead: exWorksCostBreakdown.overhead / exWorksCostBreakdown.totalExWorks,
+      margin: exWorksCostBreakdown.margin / exWorksCostBreakdown.totalExWorks,
+      tooling: (exWorksCostBreakdown.tooling ?? 0) / exWorksCostBreakdown.totalExWorks,
+    }
+    : baselineCostPercentages;
+
   // Helper to normalize raw materials
   const rawMaterialSubComponents = exWorksCostBreakdown?.rawMaterialDetails?.components
     ? Object.fromEntries(
@@ -136,10 +278,12 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
           percentage: exWorksCostBreakdown.rawMaterialDetails?.total
             ? c.totalCost / exWorksCostBreakdown.rawMaterialDetails.total
             : 0,
-          description: `${c.quantity} ${c.unit} @ ${currency}${c.pricePerUnit.toFixed(2)}/${c.unit}`,
+          description: c.unitIncompatible
+            ? `${c.quantity} ${c.unit} — not priced: ${c.unitNote}`
+            : `${c.quantity} ${c.unit} @ ${currency}${c.pricePerUnit.toFixed(2)}/${c.priceUnit || c.unit}`,
           quantity: c.quantity,
           unit: c.unit,
-          unitCost: c.pricePerUnit
+          unitCost: c.unitIncompatible ? undefined : c.pricePerUnit
         }
       ])
     )
@@ -160,7 +304,8 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
       color: CHART_COLORS.packing,
       description: exWorksCostBreakdown.packingDetails?.description,
       details: exWorksCostBreakdown.packingDetails?.subComponents,
-      negotiationPoints: exWorksCostBreakdown.packingDetails?.negotiationPoints
+      negotiationPoints: exWorksCostBreakdown.packingDetails?.negotiationPoints,
+      basis: exWorksCostBreakdown.costBasis?.packing
     },
     {
       name: "Conversion",
@@ -168,7 +313,8 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
       color: CHART_COLORS.conversion,
       description: exWorksCostBreakdown.conversionDetails?.description,
       details: exWorksCostBreakdown.conversionDetails?.subComponents,
-      negotiationPoints: exWorksCostBreakdown.conversionDetails?.negotiationPoints
+      negotiationPoints: exWorksCostBreakdown.conversionDetails?.negotiationPoints,
+      basis: exWorksCostBreakdown.costBasis?.conversion
     },
     {
       name: "Labor",
@@ -176,7 +322,8 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
       color: CHART_COLORS.labor,
       description: exWorksCostBreakdown.labourDetails?.description,
       details: exWorksCostBreakdown.labourDetails?.subComponents,
-      negotiationPoints: exWorksCostBreakdown.labourDetails?.negotiationPoints
+      negotiationPoints: exWorksCostBreakdown.labourDetails?.negotiationPoints,
+      basis: exWorksCostBreakdown.costBasis?.labour
     },
     {
       name: "Overhead",
@@ -184,26 +331,66 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
       color: CHART_COLORS.overhead,
       description: exWorksCostBreakdown.overheadDetails?.description,
       details: exWorksCostBreakdown.overheadDetails?.subComponents,
-      negotiationPoints: exWorksCostBreakdown.overheadDetails?.negotiationPoints
+      negotiationPoints: exWorksCostBreakdown.overheadDetails?.negotiationPoints,
+      basis: exWorksCostBreakdown.costBasis?.overhead
     },
+    ...(exWorksCostBreakdown.tooling > 0 ? [{
+      name: "Tooling",
+      value: exWorksCostBreakdown.tooling,
+      color: CHART_COLORS.tooling,
+      description: "Supplier-owned tooling and NRE amortized over tool life or annual volume",
+      details: undefined,
+      negotiationPoints: ["Ask for tool cost and life behind the amortization, or buy the tooling outright"],
+      basis: "engineered" as const
+    }] : []),
     {
       name: "Margin",
       value: exWorksCostBreakdown.margin,
       color: CHART_COLORS.margin,
       description: exWorksCostBreakdown.marginAnalysis?.reasoning,
       details: undefined,
-      negotiationPoints: exWorksCostBreakdown.marginAnalysis?.reasoning ? [exWorksCostBreakdown.marginAnalysis.reasoning] : []
+      negotiationPoints: exWorksCostBreakdown.marginAnalysis?.reasoning ? [exWorksCostBreakdown.marginAnalysis.reasoning] : [],
+      basis: exWorksCostBreakdown.costBasis?.margin
     },
   ] : [];
 
+  // Simulated P10/P90 per bucket (baseline volume only)
+  const waterfallBuckets: Record<string, keyof CostPercentages> = {
+    "Raw Material": "rawMaterial",
+    "Packaging": "packing",
+    "Conversion": "conversion",
+    "Labor": "labour",
+    "Overhead": "overhead",
+    "Tooling": "tooling",
+    "Margin": "margin",
+  };
+  const waterfallWithBands = waterfallData.map((d) => {
+    const distribution = !activeScenario ? simulation?.buckets?.[waterfallBuckets[d.name]] : undefined;
+    return distribution ? { ...d, p10: distribution.p10, p90: distribution.p90 } : d;
+  });
+
+  // Landed-cost bars up to the selected Incoterm (priced on the baseline volume)
+  const landedTerms = landedCost && !activeScenario
+    ? landedCost.incotermStack.slice(1, landedCost.incotermStack.findIndex((t) => t.incoterm === incoterm) + 1)
+    : [];
+  const landedSteps = landedTerms.length > 0
+    ? [
+      ...landedTerms.flatMap((t) => t.added)
+        .filter((line) => line.amount > 0)
+        .map((line) => ({
+          name: line.label,
+          value: line.amount,
+          color: line.label.startsWith("Import duty") ? CHART_COLORS.duty : CHART_COLORS.logistics,
+        })),
+      { name: `Total ${incoterm}`, value: 0, isSubtotal: true },
+    ]
+    : [];
+
   // Get info for the selected category panel
   const selectedCategoryData = selectedCategory
     ? waterfallData.find(d => d.name === selectedCategory)
     : waterfallData[0]; // Default to first item if nothing selected, or handle empty
 
-  // Scenario State (Mock for frontend demo)
-  const [scenarioVolume, setScenarioVolume] = useState(100); // 100% baseline
-
   // Show error state
   if (error) {
     return (
@@ -274,16 +461,51 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
                 {categoryName} {subCategory && ` / ${subCategory}`}
               </Badge>
             )}
+            {country && (
+              <span className="flex items-center gap-1">
+                <Globe className="w-3 h-3" />
+                Made in {getRegionProfile(country)?.name || country}
+              </span>
+            )}
             {aum && (
               <span className="flex items-center gap-1 border-l pl-4 ml-2">
                 <FileText className="w-3 h-3" />
                 Annual Production Volume: {(aum / 1000000).toFixed(1)}M/yr
               </span>
             )}
+            {analysisDate && (
+              <span
+                className="flex items-center gap-1"
+                title={fxRates?.map((r) => `1 ${r.fromCurrency} = ${r.rate.toFixed(4)} ${r.toCurrency} (${r.effectiveDate})`).join("\n")}
+              >
+                Prices in {currency} · FX as of {analysisDate}
+              </span>
+            )}
             <span className="flex items-center gap-1">
               <Settings2 className="w-3 h-3" />
-              Scenario: Baseline
+              Scenario: {activeScenario
+                ? `${scenarioVolume}% volume (${(activeScenario.aum / 1000000).toFixed(1)}M/yr)`
+                : "Baseline"}
             </span>
+            {volumeCurve.length > 1 && (
+              <span className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={0}
+                  max={volumeCurve.length - 1}
+                  step={1}
+                  value={scenarioIndex >= 0 ? scenarioIndex : volumeCurve.findIndex((p) => p.volumeFactor === 1)}
+                  onChange={(e) => setScenarioVolume(Math.round(volumeCurve[Number(e.target.value)].volumeFactor * 100))}
+                  className="w-32 accent-blue-600"
+                  aria-label="Scenario volume"
+                />
+                {activeScenario && (
+                  <Badge variant={activeScenario.changeFromBaseline <= 0 ? "success" : "warning"} className="font-mono text-xs">
+                    {activeScenario.changeFromBaseline > 0 ? "+" : ""}{(activeScenario.changeFromBaseline * 100).toFixed(1)}%
+                  </Badge>
+                )}
+              </span>
+            )}
           </div>
         </div>
         <div className="flex gap-2">
@@ -333,7 +555,7 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
                 <div>
                   <h4 className="font-semibold text-blue-900 dark:text-blue-100">Review Estimation</h4>
                   <p className="text-sm text-blue-700 dark:text-blue-300">
-                    Total Ex-Works: <span className="font-mono font-bold">${unitCost.toFixed(4)}</span>
+                    Total Ex-Works: <span className="font-mono font-bold">{currencyLabel}{unitCost.toFixed(4)}</span>
                   </p>
                 </div>
                 <div className="flex gap-2">
@@ -347,6 +569,10 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
               </div>
             )}
 
+            {warnings && warnings.length > 0 && (
+              <AnalysisWarningsPanel warnings={warnings} />
+            )}
+
             <OverviewGrid
               unitCost={unitCost || 0}
               currency={currency || "USD"}
@@ -355,14 +581,62 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
               exWorksCostBreakdown={exWorksCostBreakdown}
               costPercentages={costPercentages}
               materialCosts={materialCosts}
+              packagingCosts={costModel?.packaging}
+              sensitivity={!activeScenario ? sensitivity : undefined}
             />
+
+            {exWorksCostBreakdown?.toolingDetails && (
+              <ToolingPanel
+                tooling={exWorksCostBreakdown.toolingDetails}
+                aum={activeScenario?.aum ?? costModel?.aum ?? aum ?? 0}
+                currency={currencyLabel}
+              />
+            )}
+
+            {sensitivity && !activeScenario && sensitivity.drivers.length > 0 && (
+              <SensitivityTornadoChart
+                sensitivity={sensitivity}
+                currency={currencyLabel}
+              />
+            )}
+
+            {costModel && landedCost && onLandedCost && (
+              <LandedCostPanel
+                costModel={costModel}
+                landedCost={landedCost}
+                analysisDate={analysisDate}
+                currency={currencyLabel}
+                incoterm={incoterm}
+                onIncotermChange={setIncoterm}
+                onLandedCost={onLandedCost}
+              />
+            )}
+
+            {costModel && (
+              <CountryComparison
+                costModel={costModel}
+                analysisDate={analysisDate}
+                currency={currencyLabel}
+              />
+            )}
           </TabsContent>
 
           {/* Materials Tab (Excel Grid) */}
-          <TabsContent value="materials" className="mt-4 w-full">
+          <TabsContent value="materials" className="mt-4 w-full space-y-2">
+            {subAssemblyError && <p className="text-sm text-red-600">{subAssemblyError}</p>}
             <DenseBOMTable
               items={materialCosts}
               totalCost={materialCosts.reduce((sum, i) => sum + i.totalCost, 0)}
+              bom={bom}
+              onCostSubAssembly={costModel && onSubAssembly ? handleCostSubAssembly : undefined}
+              costingSubAssemblyId={costingSubAssemblyId}
+              onShowAlternatives={setAlternativesFor}
+            />
+            <MaterialAlternativesDrawer
+              item={alternativesItem}
+              currency={currency || "USD"}
+              analysisDate={analysisDate}
+              onClose={() => setAlternativesFor(null)}
             />
           </TabsContent>
 
@@ -371,11 +645,25 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
             <div className="flex flex-col gap-6 h-[900px] w-full">
 
               {/* Top Section: Hero Chart (60%) */}
-              <div className="h-[60%] w-full">
+              <div className="h-[60%] w-full relative">
+                {landedCost && !activeScenario && (
+                  <select
+                    value={incoterm}
+                    onChange={(e) => setIncoterm(e.target.value as Incoterm)}
+                    className="absolute top-3 right-4 z-10 px-2 py-1 text-xs border rounded-md bg-background"
+                    aria-label="Incoterm"
+                  >
+                    {INCOTERMS.map((term) => (
+                      <option key={term} value={term}>{term}</option>
+                    ))}
+                  </select>
+                )}
                 <CostWaterfallChart
-                  data={waterfallData}
-                  currency={currency === "USD" ? "$" : currency}
+                  data={waterfallWithBands}
+                  currency={currencyLabel}
                   title="Cost Breakdown by Component"
+                  totalBand={!activeScenario ? simulation?.unitCost : undefined}
+                  landedSteps={landedSteps}
                   onBarClick={(data) => setSelectedCategory(data.name)}
                   selectedIndex={selectedCategory ? waterfallData.findIndex(d => d.name === selectedCategory) : null}
                 />
@@ -393,9 +681,16 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
                             <TrendingUp className="w-4 h-4 text-blue-500" />
                             Primary Cost Drivers: {selectedCategoryData.name}
                           </CardTitle>
-                          <Badge variant="outline" className="font-mono">
-                            {currency}{selectedCategoryData.value.toFixed(4)}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            {"basis" in selectedCategoryData && selectedCategoryData.basis === "benchmark" && (
+                              <Badge variant="warning" className="text-xs" title="No engineering inputs - estimated from industry benchmark percentages">
+                                Benchmark
+                              </Badge>
+                            )}
+                            <Badge variant="outline" className="font-mono">
+                              {currency}{selectedCategoryData.value.toFixed(4)}
+                            </Badge>
+                          </div>
                         </div>
                       </CardHeader>
                       <CardContent className="p-0 overflow-auto flex-1">
@@ -505,7 +800,7 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
                       <thead className="bg-muted/50">
                         <tr className="border-b">
                           <th className="text-left py-3 px-4 font-semibold text-xs uppercase tracking-wider">Component</th>
-                          <th className="text-right py-3 px-4 font-semibold text-xs uppercase tracking-wider">$/Unit</th>
+                          <th className="text-right py-3 px-4 font-semibold text-xs uppercase tracking-wider">{currencyLabel}/Unit</th>
                           <th className="text-right py-3 px-4 font-semibold text-xs uppercase tracking-wider">% of Total</th>
                         </tr>
                       </thead>
@@ -523,7 +818,7 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
                                 )}
                               </div>
                             </td>
-                            <td className="text-right py-2 px-4 font-mono-numbers">${row.value.toFixed(4)}</td>
+                            <td className="text-right py-2 px-4 font-mono-numbers">{currencyLabel}{row.value.toFixed(4)}</td>
                             <td className="text-right py-2 px-4 text-muted-foreground w-32">
                               {((row.value / unitCost) * 100).toFixed(1)}%
                             </td>
@@ -531,7 +826,7 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
                         ))}
                         <tr className="bg-muted/20 font-bold border-t-2 border-border">
                           <td className="py-3 px-4">Total Ex-Works</td>
-                          <td className="text-right py-3 px-4 font-mono-numbers">${unitCost.toFixed(4)}</td>
+                          <td className="text-right py-3 px-4 font-mono-numbers">{currencyLabel}{unitCost.toFixed(4)}</td>
                           <td className="text-right py-3 px-4">100.0%</td>
                         </tr>
                       </tbody>
@@ -540,6 +835,31 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
                 )}
               </CardContent>
             </Card>
+
+            {baselineBreakdown && onQuoteVariance && (
+              <div className="mt-4">
+                <QuoteVariancePanel
+                  exWorksCostBreakdown={baselineBreakdown}
+                  materialCosts={materialCosts}
+                  costModel={costModel}
+                  currency={currency}
+                  report={quoteVariance}
+                  onReport={onQuoteVariance}
+                />
+              </div>
+            )}
+
+            {costModel && (
+              <div className="mt-4">
+                <DesignToCostPanel
+                  costModel={costModel}
+                  category={category}
+                  unitCost={baselineUnitCost}
+                  targetPrice={breakdown?.targetPrice}
+                  currency={currencyLabel}
+                />
+              </div>
+            )}
           </TabsContent>
         </Tabs>
       )}
@@ -566,7 +886,7 @@ export function CostingDashboard({ state, onApprove, onReject }: CostingDashboar
           <div className="h-[400px]">
             <CostWaterfallChart
               data={waterfallData}
-              currency={currency === "USD" ? "$" : currency}
+              currency={currencyLabel}
               title="Final Cost Build-up"
             />
           </div>
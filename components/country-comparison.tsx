@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Globe, Loader2 } from "lucide-react";
+import { CostModelInputs } from "@/lib/prompts/types";
+import { REGION_PROFILES, DEFAULT_COUNTRY } from "@/lib/regions";
+import type { CountryScenario } from "@/lib/scenarios";
+
+interface CountryComparisonProps {
+  costModel: CostModelInputs;
+  analysisDate?: string;
+  currency?: string;
+}
+
+export function CountryComparison({ costModel, analysisDate, currency = "$" }: CountryComparisonProps) {
+  const baselineCountry = costModel.country || DEFAULT_COUNTRY;
+  const [selected, setSelected] = useState<string[]>(Object.keys(REGION_PROFILES));
+  const [comparison, setComparison] = useState<CountryScenario[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new analysis invalidates the previous comparison
+  useEffect(() => {
+    setComparison([]);
+    setError(null);
+  }, [costModel]);
+
+  const toggleCountry = (code: string) => {
+    setSelected((prev) => (prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]));
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/compare-countries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ costModel, countries: selected, analysisDate }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Country comparison failed");
+      }
+
+      setComparison(data.comparison);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Country comparison failed");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+          <Globe className="w-4 h-4" />
+          Compare Countries of Manufacture
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {Object.values(REGION_PROFILES).map((r) => (
+            <label key={r.code} className="flex items-center gap-1 text-sm px-2 py-1 border rounded-md cursor-pointer hover:bg-muted/40">
+              <input
+                type="checkbox"
+                checked={selected.includes(r.code)}
+                onChange={() => toggleCountry(r.code)}
+                className="accent-blue-600"
+              />
+              {r.name}
+            </label>
+          ))}
+          <Button size="sm" onClick={handleCompare} disabled={selected.length === 0 || isComparing} className="gap-2 ml-auto">
+            {isComparing && <Loader2 className="w-4 h-4 animate-spin" />}
+            Compare
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {comparison.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left py-2 px-3 font-semibold text-xs uppercase tracking-wider">Country</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Material</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Conversion</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Labour</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Packing</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Overhead</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Margin</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Ex-Works</th>
+                  <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">vs {baselineCountry}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {comparison.map((c) => (
+                  <tr key={c.country} className={c.country === baselineCountry ? "bg-blue-50/50 dark:bg-blue-900/10" : "hover:bg-muted/30"}>
+                    <td className="py-2 px-3 font-medium">{c.name}</td>
+                    <td className="text-right py-2 px-3 font-mono-numbers">{c.exWorksCostBreakdown.rawMaterial.toFixed(4)}</td>
+                    <td className="text-right py-2 px-3 font-mono-numbers">{c.exWorksCostBreakdown.conversion.toFixed(4)}</td>
+                    <td className="text-right py-2 px-3 font-mono-numbers">{c.exWorksCostBreakdown.labour.toFixed(4)}</td>
+                    <td className="text-right py-2 px-3 font-mono-numbers">{c.exWorksCostBreakdown.packing.toFixed(4)}</td>
+                    <td className="text-right py-2 px-3 font-mono-numbers">{c.exWorksCostBreakdown.overhead.toFixed(4)}</td>
+                    <td className="text-right py-2 px-3 font-mono-numbers">{c.exWorksCostBreakdown.margin.toFixed(4)}</td>
+                    <td className="text-right py-2 px-3 font-mono-numbers font-semibold">{currency}{c.unitCost.toFixed(4)}</td>
+                    <td className="text-right py-2 px-3">
+                      {c.country === baselineCountry ? (
+                        <span className="text-xs text-muted-foreground">Baseline</span>
+                      ) : (
+                        <Badge variant={c.changeFromBaseline <= 0 ? "success" : "warning"} className="font-mono text-xs">
+                          {c.changeFromBaseline > 0 ? "+" : ""}{(c.changeFromBaseline * 100).toFixed(1)}%
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
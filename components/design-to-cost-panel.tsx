@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Crosshair, Loader2 } from "lucide-react";
+import { CostModelInputs, DesignChangeType, DesignToCostResult } from "@/lib/prompts/types";
+
+interface DesignToCostPanelProps {
+  costModel: CostModelInputs;
+  category?: string;
+  unitCost: number;
+  targetPrice?: number;  // Suggested by the approval report
+  currency?: string;
+}
+
+const TYPE_LABELS: Record<DesignChangeType, string> = {
+  substitution: "Substitution",
+  specReduction: "Spec",
+  packFormat: "Pack format",
+  margin: "Margin",
+};
+
+export function DesignToCostPanel({ costModel, category, unitCost, targetPrice, currency = "$" }: DesignToCostPanelProps) {
+  const [target, setTarget] = useState(targetPrice ? targetPrice.toFixed(4) : "");
+  const [result, setResult] = useState<DesignToCostResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new analysis invalidates the previous plan
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [costModel]);
+
+  useEffect(() => {
+    if (targetPrice) setTarget(targetPrice.toFixed(4));
+  }, [targetPrice]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/design-to-cost", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ costModel, category, targetPrice: Number(target) }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Design-to-cost failed");
+      }
+
+      setResult(data.designToCost);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Design-to-cost failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const planStep = (id: string) => result?.plan.findIndex((s) => s.changeId === id) ?? -1;
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+          <Crosshair className="w-4 h-4" />
+          Design to Cost
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Substitutions, spec reductions, pack-format changes and margin moves, each re-costed with the cost model
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-muted-foreground" htmlFor="design-to-cost-target">Target unit cost</label>
+          <input
+            id="design-to-cost-target"
+            type="number"
+            min={0}
+            step="0.0001"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder={(unitCost * 0.9).toFixed(4)}
+            className="w-32 px-3 py-1.5 text-sm font-mono border rounded-md bg-background"
+          />
+          <span className="text-xs text-muted-foreground">vs {currency}{unitCost.toFixed(4)} today</span>
+          <Button size="sm" onClick={handleRun} disabled={!(Number(target) > 0) || isRunning} className="gap-2 ml-auto">
+            {isRunning && <Loader2 className="w-4 h-4 animate-spin" />}
+            Find Changes
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {result.gap <= 0 ? (
+                <Badge variant="success">Already at or below target</Badge>
+              ) : result.meetsTarget ? (
+                <Badge variant="success">Target met with {result.plan.length} change{result.plan.length === 1 ? "" : "s"}</Badge>
+              ) : (
+                <Badge variant="warning">
+                  {currency}{(result.achievedUnitCost - result.targetPrice).toFixed(4)} short of target after all changes
+                </Badge>
+              )}
+              {result.plan.length > 0 && (
+                <span className="text-muted-foreground">
+                  {currency}{result.baselineUnitCost.toFixed(4)} → <span className="font-mono-numbers font-medium text-foreground">{currency}{result.achievedUnitCost.toFixed(4)}</span>
+                </span>
+              )}
+            </div>
+
+            {result.changes.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Change</th>
+                    <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Type</th>
+                    <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Saving / Unit</th>
+                    <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Plan</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {result.changes.map((change) => {
+                    const step = planStep(change.id);
+                    return (
+                      <tr key={change.id} className={step >= 0 ? "bg-green-50/50 dark:bg-green-900/10" : ""}>
+                        <td className="py-2 px-4">
+                          <div className="font-medium">{change.label}</div>
+                          <div className="text-xs text-muted-foreground">{change.detail}</div>
+                        </td>
+                        <td className="py-2 px-4">
+                          <Badge variant="outline" className="text-xs">{TYPE_LABELS[change.type]}</Badge>
+                        </td>
+                        <td className="text-right py-2 px-4 font-mono-numbers text-green-600">
+                          −{change.saving.toFixed(4)} ({(change.savingPercent * 100).toFixed(1)}%)
+                        </td>
+                        <td className="text-right py-2 px-4 font-mono-numbers">
+                          {step >= 0 ? `${step + 1}. ${result.plan[step].unitCost.toFixed(4)}` : "—"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No priced change lowers the unit cost.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Loader2, TrendingUp } from "lucide-react";
+import { DriftReport as DriftReportData, ProductDrift } from "@/lib/prompts/types";
+
+const THRESHOLDS = [0.02, 0.05, 0.1];
+
+/**
+ * Signed percentage, e.g. "+4.2%"
+ */
+function formatPercent(value: number): string {
+  return `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+}
+
+export function DriftReport() {
+  const [report, setReport] = useState<DriftReportData | null>(null);
+  const [threshold, setThreshold] = useState(0.05);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRecosting, setIsRecosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Last stored re-costing; the threshold only changes which products are flagged
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/recost?threshold=${threshold}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Drift report failed");
+        }
+
+        setReport(data.report);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Drift report failed");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [threshold]);
+
+  const handleRecost = async () => {
+    setIsRecosting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/recost", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ threshold }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Re-costing failed");
+      }
+
+      setReport(data.report);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Re-costing failed");
+    } finally {
+      setIsRecosting(false);
+    }
+  };
+
+  const renderLines = (product: ProductDrift) => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-muted-foreground">
+          <th className="text-left py-1 px-4 font-medium">Line</th>
+          <th className="text-left py-1 px-4 font-medium">Bucket</th>
+          <th className="text-right py-1 px-4 font-medium">Rate then → now</th>
+          <th className="text-right py-1 px-4 font-medium">Change / unit</th>
+        </tr>
+      </thead>
+      <tbody>
+        {product.lines.map((line, i) => (
+          <tr key={i} className={line.repriced ? "" : "text-muted-foreground"}>
+            <td className="py-1 px-4">
+              {line.name}
+              {line.material && <span className="text-muted-foreground"> · {line.material}</span>}
+            </td>
+            <td className="py-1 px-4 capitalize">{line.bucket}</td>
+            <td className="text-right py-1 px-4 font-mono-numbers">
+              {line.repriced
+                ? `${line.previousRate.toFixed(4)} → ${line.rate.toFixed(4)} /${line.rateUnit}`
+                : "No current price"}
+            </td>
+            <td className={`text-right py-1 px-4 font-mono-numbers ${line.change > 0 ? "text-red-600" : line.change < 0 ? "text-green-600" : ""}`}>
+              {line.change > 0 ? "+" : ""}{line.change.toFixed(4)}
+              {line.change !== 0 && ` (${formatPercent(line.changePercent)})`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="w-4 h-4 text-blue-500" />
+              Price Drift on Saved Analyses
+            </CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              {report?.generatedAt
+                ? `Re-costed against current prices on ${new Date(report.generatedAt).toLocaleDateString()}`
+                : "Saved analyses have not been re-costed yet"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="px-2 py-1 text-sm border rounded-md bg-background"
+              aria-label="Reopen threshold"
+            >
+              {THRESHOLDS.map((t) => (
+                <option key={t} value={t}>Reopen at ±{(t * 100).toFixed(0)}%</option>
+              ))}
+            </select>
+            <Button size="sm" onClick={handleRecost} disabled={isRecosting} className="gap-2">
+              {isRecosting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Re-cost now
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : report && report.products.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr className="border-b">
+                <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Product</th>
+                <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Costed</th>
+                <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Original</th>
+                <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Today</th>
+                <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Drift</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {report.products.map((product) => (
+                <React.Fragment key={product.historicalCostId}>
+                  <tr
+                    onClick={() => setExpanded(expanded === product.historicalCostId ? null : product.historicalCostId)}
+                    className={`cursor-pointer hover:bg-muted/30 ${product.reopen ? "bg-red-50/50 dark:bg-red-900/10" : ""}`}
+                  >
+                    <td className="py-2 px-4 font-medium">
+                      <div className="flex items-center gap-2">
+                        {expanded === product.historicalCostId
+                          ? <ChevronDown className="w-3 h-3" />
+                          : <ChevronRight className="w-3 h-3" />}
+                        {product.productName}
+                        {product.reopen && <Badge variant="destructive" className="text-xs">Reopen</Badge>}
+                      </div>
+                    </td>
+                    <td className="py-2 px-4 text-muted-foreground">{new Date(product.costedAt).toLocaleDateString()}</td>
+                    <td className="text-right py-2 px-4 font-mono-numbers">
+                      {product.originalUnitCost.toFixed(4)} {product.currency}
+                    </td>
+                    <td className="text-right py-2 px-4 font-mono-numbers">
+                      {product.skipped ? "—" : `${product.unitCost.toFixed(4)} ${product.currency}`}
+                    </td>
+                    <td className="text-right py-2 px-4">
+                      {product.skipped ? (
+                        <span className="text-xs text-muted-foreground">Not re-costed</span>
+                      ) : (
+                        <Badge
+                          variant={product.changePercent >= threshold ? "destructive" : product.changePercent <= -threshold ? "success" : "secondary"}
+                          className="font-mono text-xs"
+                        >
+                          {formatPercent(product.changePercent)}
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded === product.historicalCostId && (
+                    <tr>
+                      <td colSpan={5} className="bg-muted/10 py-2">
+                        {product.skipped ? (
+                          <p className="px-4 text-xs text-muted-foreground">{product.skipped}</p>
+                        ) : (
+                          <>
+                            {renderLines(product)}
+                            {product.method === "materials" && (
+                              <p className="px-4 pt-2 text-xs text-muted-foreground">
+                                Saved without a cost model: material changes are grossed up for overhead and margin; labour was not re-rated.
+                              </p>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No re-costed analyses yet. Approve an analysis to save it, then re-cost to see how its prices have moved.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
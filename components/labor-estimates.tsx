@@ -4,28 +4,26 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { formatCurrency } from "@/lib/utils";
-import { Clock, Wrench, Hammer, Paintbrush, CheckCircle } from "lucide-react";
-
-interface LaborCosts {
-  assembly: number;
-  manufacturing: number;
-  finishing: number;
-  qualityControl: number;
-  totalHours: number;
-  totalCost: number;
-}
+import { Clock, Wrench, Hammer, Paintbrush, CheckCircle, ChefHat, Package, LucideIcon } from "lucide-react";
+import type { LaborCosts } from "@/agent/state";
 
 interface LaborEstimatesProps {
   costs: LaborCosts;
   isLoading?: boolean;
 }
 
-const laborCategories = [
-  { key: "manufacturing", label: "Manufacturing", icon: Wrench, color: "text-orange-500" },
-  { key: "assembly", label: "Assembly", icon: Hammer, color: "text-blue-500" },
-  { key: "finishing", label: "Finishing", icon: Paintbrush, color: "text-purple-500" },
-  { key: "qualityControl", label: "Quality Control", icon: CheckCircle, color: "text-green-500" },
-];
+// Icons for familiar process types; other categories use the default
+const PROCESS_ICONS: Record<string, { icon: LucideIcon; color: string }> = {
+  machining: { icon: Wrench, color: "text-orange-500" },
+  assembly: { icon: Hammer, color: "text-blue-500" },
+  finishing: { icon: Paintbrush, color: "text-purple-500" },
+  painting: { icon: Paintbrush, color: "text-purple-500" },
+  quality_control: { icon: CheckCircle, color: "text-green-500" },
+  food_processing: { icon: ChefHat, color: "text-amber-500" },
+  packaging: { icon: Package, color: "text-cyan-500" },
+};
+
+const DEFAULT_PROCESS_ICON = { icon: Wrench, color: "text-gray-500" };
 
 export function LaborEstimates({ costs, isLoading }: LaborEstimatesProps) {
   if (isLoading) {
@@ -82,21 +80,29 @@ export function LaborEstimates({ costs, isLoading }: LaborEstimatesProps) {
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          {laborCategories.map(({ key, label, icon: Icon, color }) => {
-            const cost = costs[key as keyof LaborCosts];
-            if (typeof cost !== "number" || cost === 0) return null;
-            
+          {Object.entries(costs.categories).map(([id, labor]) => {
+            if (labor.cost === 0) return null;
+            const { icon: Icon, color } = PROCESS_ICONS[labor.processType] ?? DEFAULT_PROCESS_ICON;
+
             return (
               <div
-                key={key}
+                key={id}
                 className="flex justify-between items-center p-3 bg-muted/50 rounded-lg hover:bg-muted transition-colors"
               >
                 <div className="flex items-center gap-3">
                   <Icon className={`h-5 w-5 ${color}`} />
-                  <span className="font-medium">{label}</span>
+                  <div>
+                    <span className="font-medium">{labor.name}</span>
+                    {labor.defaultHours && (
+                      <Badge variant="warning" className="ml-2 text-xs">Default hours</Badge>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {labor.hours} h × {formatCurrency(labor.hourlyRate)}/h · <span className="capitalize">{labor.skillLevel}</span>
+                    </p>
+                  </div>
                 </div>
                 <span className="font-semibold text-green-600">
-                  {formatCurrency(cost)}
+                  {formatCurrency(labor.cost)}
                 </span>
               </div>
             );
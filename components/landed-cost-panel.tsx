@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, Ship } from "lucide-react";
+import { CostModelInputs, FreightMode, Incoterm, LandedCostBreakdown } from "@/lib/prompts/types";
+import { FREIGHT_MODES } from "@/lib/constants";
+import { REGION_PROFILES, getRegionProfile } from "@/lib/regions";
+
+interface LandedCostPanelProps {
+  costModel: CostModelInputs;
+  landedCost: LandedCostBreakdown;
+  analysisDate?: string;
+  currency?: string;
+  incoterm: Incoterm;
+  onIncotermChange: (incoterm: Incoterm) => void;
+  onLandedCost: (landedCost: LandedCostBreakdown) => void;
+}
+
+export function LandedCostPanel({
+  costModel,
+  landedCost,
+  analysisDate,
+  currency = "$",
+  incoterm,
+  onIncotermChange,
+  onLandedCost,
+}: LandedCostPanelProps) {
+  const [destinationCountry, setDestinationCountry] = useState(landedCost.shipment.destinationCountry);
+  const [mode, setMode] = useState<FreightMode>(landedCost.shipment.mode);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow a new analysis or a recalculated lane
+  useEffect(() => {
+    setDestinationCountry(landedCost.shipment.destinationCountry);
+    setMode(landedCost.shipment.mode);
+  }, [landedCost]);
+
+  const isStale = destinationCountry !== landedCost.shipment.destinationCountry || mode !== landedCost.shipment.mode;
+
+  const handleRecalculate = async () => {
+    setIsCalculating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/landed-cost", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          costModel,
+          shipment: { ...landedCost.shipment, destinationCountry, mode },
+          analysisDate,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Landed cost calculation failed");
+      }
+
+      onLandedCost(data.landedCost);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Landed cost calculation failed");
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+          <Ship className="w-4 h-4" />
+          Landed Cost by Incoterm
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {getRegionProfile(landedCost.originCountry)?.name || landedCost.originCountry} → {getRegionProfile(landedCost.shipment.destinationCountry)?.name || landedCost.shipment.destinationCountry}
+          {" · "}{landedCost.chargeableWeightKg.toFixed(3)} kg chargeable/unit
+          {landedCost.shipment.hsCode && ` · HS ${landedCost.shipment.hsCode}`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={destinationCountry}
+            onChange={(e) => setDestinationCountry(e.target.value)}
+            className="px-2 py-1 text-sm border rounded-md bg-background"
+            aria-label="Destination country"
+          >
+            {Object.values(REGION_PROFILES).map((r) => (
+              <option key={r.code} value={r.code}>Ship to {r.name}</option>
+            ))}
+          </select>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as FreightMode)}
+            className="px-2 py-1 text-sm border rounded-md bg-background capitalize"
+            aria-label="Freight mode"
+          >
+            {FREIGHT_MODES.map((m) => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <Button size="sm" onClick={handleRecalculate} disabled={!isStale || isCalculating} className="gap-2 ml-auto">
+            {isCalculating && <Loader2 className="w-4 h-4 animate-spin" />}
+            Recalculate
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr className="border-b">
+              <th className="text-left py-2 px-3 font-semibold text-xs uppercase tracking-wider">Incoterm</th>
+              <th className="text-left py-2 px-3 font-semibold text-xs uppercase tracking-wider">Adds</th>
+              <th className="text-right py-2 px-3 font-semibold text-xs uppercase tracking-wider">Price</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {landedCost.incotermStack.map((term) => (
+              <tr
+                key={term.incoterm}
+                onClick={() => onIncotermChange(term.incoterm)}
+                className={`cursor-pointer ${term.incoterm === incoterm ? "bg-blue-50/50 dark:bg-blue-900/10" : "hover:bg-muted/30"}`}
+              >
+                <td className="py-2 px-3 font-medium">{term.incoterm}</td>
+                <td className="py-2 px-3 text-muted-foreground">
+                  {term.added.length === 0
+                    ? "Ex-Works"
+                    : term.added.map((a) => `${a.label} ${currency}${a.amount.toFixed(4)}`).join(" · ")}
+                </td>
+                <td className="text-right py-2 px-3 font-mono-numbers font-semibold">{currency}{term.price.toFixed(4)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {landedCost.dutySource === "default" && landedCost.dutyRate > 0 && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="warning" className="text-xs">Default duty</Badge>
+            No tariff line for this HS code; {(landedCost.dutyRate * 100).toFixed(1)}% assumed
+          </div>
+        )}
+
+        {landedCost.clearanceExcluded && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="warning" className="text-xs">No volume</Badge>
+            No annual volume to spread per-shipment clearance fees over; they are not included
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
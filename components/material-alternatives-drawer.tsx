@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, Shuffle, X } from "lucide-react";
+import { LineSubstitutes, MaterialCostItem } from "@/lib/prompts/types";
+
+interface MaterialAlternativesDrawerProps {
+  item: MaterialCostItem | null;  // BOM line to find alternatives for; closed when null
+  currency: string;               // Currency the line is priced in
+  analysisDate?: string;          // FX date of the analysis
+  onClose: () => void;
+}
+
+export function MaterialAlternativesDrawer({ item, currency, analysisDate, onClose }: MaterialAlternativesDrawerProps) {
+  const [result, setResult] = useState<LineSubstitutes | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencyLabel = currency === "USD" ? "$" : currency;
+
+  useEffect(() => {
+    if (!item) return;
+
+    let cancelled = false;
+    setResult(null);
+    setError(null);
+    setIsLoading(true);
+
+    fetch("/api/substitutes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ materials: [item], currency, analysisDate }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Substitute search failed");
+        }
+        if (!cancelled) setResult(data.substitutes[0] ?? null);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Substitute search failed");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item, currency, analysisDate]);
+
+  if (!item) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md overflow-y-auto bg-background border-l shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-2 p-4 border-b">
+          <div>
+            <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+              <Shuffle className="w-4 h-4" />
+              Alternatives
+            </h2>
+            <p className="mt-1 font-medium">{item.component}</p>
+            <p className="text-xs text-muted-foreground">
+              {item.quantity} {item.unit} of {item.material} · {currencyLabel}{item.totalCost.toFixed(4)} per unit
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close alternatives">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {isLoading && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Searching the price database…
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {result && result.substitutes.length === 0 && (
+            <p className="text-sm text-muted-foreground">No cheaper comparable material on file for {item.material}.</p>
+          )}
+
+          {result?.substitutes.map((substitute) => (
+            <div key={substitute.materialName} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium capitalize">{substitute.materialName}</span>
+                <span className="font-mono-numbers text-green-600 text-sm">
+                  −{currencyLabel}{substitute.saving.toFixed(4)} ({(substitute.savingPercent * 100).toFixed(1)}%)
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span className="font-mono-numbers">
+                  {currencyLabel}{substitute.line.pricePerUnit.toFixed(4)}/{substitute.line.priceUnit || substitute.line.unit}
+                </span>
+                <span>→ {currencyLabel}{substitute.line.totalCost.toFixed(4)} per unit</span>
+                {substitute.group && <Badge variant="outline" className="text-xs">{substitute.group}</Badge>}
+                {substitute.similarity !== undefined && (
+                  <Badge variant="secondary" className="text-xs">{(substitute.similarity * 100).toFixed(0)}% similar</Badge>
+                )}
+              </div>
+              {substitute.riskNotes.length > 0 && (
+                <ul className="list-disc pl-4 text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+                  {substitute.riskNotes.map((note) => (
+                    <li key={note}>{note}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          {result && result.substitutes.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Savings are priced at this line&apos;s quantity and yield. Verify fit, form and function before specifying a substitute.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import React from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { ExWorksBreakdownChart, MaterialCostBarChart } from "@/components/cost-breakdown-chart";
 import { formatCurrency } from "@/lib/utils";
+import { estimatedCostShare } from "@/lib/materials";
+import { PriceProvenance, SensitivityAnalysis } from "@/lib/prompts/types";
 import { DollarSign, Package, TrendingUp, Factory } from "lucide-react";
 
 interface ExWorksCostBreakdown {
@@ -13,6 +15,7 @@ interface ExWorksCostBreakdown {
     packing: number;
     overhead: number;
     margin: number;
+    tooling?: number;
     totalExWorks: number;
 }
 
@@ -23,12 +26,14 @@ interface CostPercentages {
     packing: number;
     overhead: number;
     margin: number;
+    tooling?: number;
 }
 
 interface MaterialCostItem {
     component: string;
     material: string;
     totalCost: number;
+    provenance?: PriceProvenance;
 }
 
 interface OverviewGridProps {
@@ -39,6 +44,8 @@ interface OverviewGridProps {
     exWorksCostBreakdown?: ExWorksCostBreakdown;
     costPercentages?: CostPercentages;
     materialCosts: MaterialCostItem[];
+    packagingCosts?: MaterialCostItem[];
+    sensitivity?: SensitivityAnalysis;
 }
 
 export function OverviewGrid({
@@ -49,8 +56,14 @@ export function OverviewGrid({
     exWorksCostBreakdown,
     costPercentages,
     materialCosts,
+    packagingCosts = [],
+    sensitivity,
 }: OverviewGridProps) {
 
+    // Material and packing cost resting on LLM estimates rather than prices on file
+    const estimatedShare = estimatedCostShare([...materialCosts, ...packagingCosts]);
+    const hasProvenance = [...materialCosts, ...packagingCosts].some((m) => m.provenance);
+
     // Find primary cost driver
     const drivers = exWorksCostBreakdown ? [
         { name: "Raw Material", value: exWorksCostBreakdown.rawMaterial },
@@ -58,6 +71,7 @@ export function OverviewGrid({
         { name: "Labour", value: exWorksCostBreakdown.labour },
         { name: "Packing", value: exWorksCostBreakdown.packing },
         { name: "Overhead", value: exWorksCostBreakdown.overhead },
+        { name: "Tooling", value: exWorksCostBreakdown.tooling ?? 0 },
         { name: "Margin", value: exWorksCostBreakdown.margin },
     ] : [];
 
@@ -69,6 +83,12 @@ export function OverviewGrid({
         ? ((primaryDriver.value / unitCost) * 100).toFixed(0)
         : "0";
 
+    // Prefer the input that swings the price most over the largest bucket
+    const topSensitivity = sensitivity?.drivers[0];
+    const sensitivityImpact = topSensitivity && sensitivity.baselineTotal > 0
+        ? ((topSensitivity.swing / 2 / sensitivity.baselineTotal) * 100).toFixed(1)
+        : undefined;
+
     return (
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 w-full">
             {/* Unit Cost - Large Card */}
@@ -101,6 +121,14 @@ export function OverviewGrid({
                     </div>
                     <div className="text-2xl font-bold font-mono">{componentCount}</div>
                     <p className="text-xs text-muted-foreground mt-1">Bill of materials</p>
+                    {hasProvenance && (
+                        <p
+                            className={`text-xs mt-1 ${estimatedShare > 0.25 ? "text-red-600" : estimatedShare > 0 ? "text-amber-600" : "text-green-600"}`}
+                            title="Share of material and packing cost priced from LLM estimates rather than prices on file"
+                        >
+                            <span className="font-mono">{(estimatedShare * 100).toFixed(0)}%</span> of material cost estimated
+                        </p>
+                    )}
                 </CardContent>
             </Card>
 
@@ -111,12 +139,25 @@ export function OverviewGrid({
                         <p className="text-sm font-medium text-muted-foreground">Cost Driver</p>
                         <TrendingUp className="w-4 h-4 text-muted-foreground" />
                     </div>
-                    <div className="text-xl font-bold truncate" title={primaryDriver.name}>
-                        {primaryDriver.name}
-                    </div>
-                    <p className="text-xs text-muted-foreground mt-1">
-                        <span className="font-mono">{driverPercentage}%</span> of unit cost
-                    </p>
+                    {topSensitivity ? (
+                        <>
+                            <div className="text-xl font-bold truncate" title={topSensitivity.label}>
+                                {topSensitivity.label}
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                                <span className="font-mono">±{sensitivityImpact}%</span> unit cost per ±{Math.round(sensitivity!.delta * 100)}% move
+                            </p>
+                        </>
+                    ) : (
+                        <>
+                            <div className="text-xl font-bold truncate" title={primaryDriver.name}>
+                                {primaryDriver.name}
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                                <span className="font-mono">{driverPercentage}%</span> of unit cost
+                            </p>
+                        </>
+                    )}
                 </CardContent>
             </Card>
 
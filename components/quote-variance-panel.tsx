@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, Upload, Scale } from "lucide-react";
+import {
+  ExWorksCostBreakdown,
+  MaterialCostItem,
+  CostModelInputs,
+  QuoteVarianceReport,
+} from "@/lib/prompts/types";
+
+interface QuoteVariancePanelProps {
+  exWorksCostBreakdown: ExWorksCostBreakdown;
+  materialCosts: MaterialCostItem[];
+  costModel?: CostModelInputs;
+  currency: string;
+  report?: QuoteVarianceReport;
+  onReport: (report: QuoteVarianceReport) => void;
+}
+
+const PLACEHOLDER = `Description, $/unit, bucket (optional)
+Wheat flour, 0.0048
+Baking line conversion, 0.0120
+Direct labour, 0.0090, labour
+Retail carton, 0.0110
+Overhead total, 0.0095
+Profit, 0.0110`;
+
+export function QuoteVariancePanel({
+  exWorksCostBreakdown,
+  materialCosts,
+  costModel,
+  currency,
+  report,
+  onReport,
+}: QuoteVariancePanelProps) {
+  const [quoteText, setQuoteText] = useState("");
+  const [supplierName, setSupplierName] = useState(report?.supplierName || "");
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setQuoteText(await file.text());
+    }
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/quote-variance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          quoteText,
+          supplierName: supplierName || undefined,
+          currentState: { exWorksCostBreakdown, materialCosts, costModel, currency },
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Quote comparison failed");
+      }
+
+      onReport(data.quoteVariance);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Quote comparison failed");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-4 h-4 text-blue-500" />
+          Supplier Quote vs Should-Cost
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={supplierName}
+            onChange={(e) => setSupplierName(e.target.value)}
+            placeholder="Supplier name"
+            className="flex-1 px-3 py-2 text-sm border rounded-md bg-background"
+          />
+          <label className="inline-flex items-center gap-2 px-3 py-2 text-sm border rounded-md cursor-pointer hover:bg-muted/40">
+            <Upload className="w-4 h-4" />
+            Upload CSV
+            <input type="file" accept=".csv,.tsv,.txt" className="hidden" onChange={handleFile} />
+          </label>
+        </div>
+        <textarea
+          value={quoteText}
+          onChange={(e) => setQuoteText(e.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={6}
+          className="w-full px-3 py-2 text-sm font-mono border rounded-md bg-background"
+        />
+        <div className="flex items-center justify-between">
+          {error ? <p className="text-sm text-red-600">{error}</p> : <span />}
+          <Button size="sm" onClick={handleCompare} disabled={!quoteText.trim() || isComparing} className="gap-2">
+            {isComparing && <Loader2 className="w-4 h-4 animate-spin" />}
+            Compare Quote
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-4">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr className="border-b">
+                  <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Bucket</th>
+                  <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Should-Cost</th>
+                  <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Quoted</th>
+                  <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Gap</th>
+                  <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Gap %</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report.buckets.map((b) => (
+                  <tr key={b.bucket} className="hover:bg-muted/30">
+                    <td className="py-2 px-4 font-medium">{b.label}</td>
+                    <td className="text-right py-2 px-4 font-mono-numbers">{b.shouldCost.toFixed(4)}</td>
+                    <td className="text-right py-2 px-4 font-mono-numbers">{b.quoted.toFixed(4)}</td>
+                    <td className={`text-right py-2 px-4 font-mono-numbers ${b.gap > 0 ? "text-red-600" : "text-green-600"}`}>
+                      {b.gap > 0 ? "+" : ""}{b.gap.toFixed(4)}
+                    </td>
+                    <td className="text-right py-2 px-4">
+                      <Badge variant={b.gapPercent > 0.05 ? "destructive" : b.gapPercent < -0.05 ? "success" : "secondary"} className="font-mono text-xs">
+                        {b.gapPercent > 0 ? "+" : ""}{(b.gapPercent * 100).toFixed(1)}%
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-muted/20 font-bold border-t-2 border-border">
+                  <td className="py-2 px-4">Total ({report.currency})</td>
+                  <td className="text-right py-2 px-4 font-mono-numbers">{report.totalShouldCost.toFixed(4)}</td>
+                  <td className="text-right py-2 px-4 font-mono-numbers">{report.totalQuoted.toFixed(4)}</td>
+                  <td className="text-right py-2 px-4 font-mono-numbers">
+                    {report.totalGap > 0 ? "+" : ""}{report.totalGap.toFixed(4)}
+                  </td>
+                  <td className="text-right py-2 px-4">{(report.totalGapPercent * 100).toFixed(1)}%</td>
+                </tr>
+              </tbody>
+            </table>
+
+            {report.fxRate && (
+              <p className="text-xs text-muted-foreground">
+                Quote converted from {report.fxRate.fromCurrency} at {report.fxRate.rate.toFixed(4)} {report.fxRate.toCurrency}/{report.fxRate.fromCurrency} (rate of {report.fxRate.effectiveDate})
+              </p>
+            )}
+
+            {report.negotiationPoints.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Negotiation Points</h4>
+                <ul className="list-disc pl-5 space-y-1 text-sm text-muted-foreground">
+                  {report.negotiationPoints.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
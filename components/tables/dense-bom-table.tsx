@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import {
     Table,
     TableBody,
@@ -10,8 +10,10 @@ import {
     TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { ArrowUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ArrowUpDown, AlertTriangle, ChevronDown, ChevronRight, Loader2, Shuffle } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { BomNode, PriceConfidence, PriceProvenance } from "@/lib/prompts/types";
 
 interface DenseBOMTableProps {
     items: {
@@ -21,13 +23,128 @@ interface DenseBOMTableProps {
         unit: string;
         pricePerUnit: number;
         totalCost: number;
+        priceUnit?: string;
+        pricedQuantity?: number;
+        unitIncompatible?: boolean;
+        unitNote?: string;
+        grossQuantity?: number;
+        yieldFactor?: number;
+        scrapCredit?: number;
+        indexCode?: string;
+        indexDate?: string;
+        provenance?: PriceProvenance;
     }[];
     totalCost: number;
+    // Indented BOM; rendered as an expandable tree instead of the flat grid
+    bom?: BomNode[];
+    onCostSubAssembly?: (componentId: string) => void;
+    costingSubAssemblyId?: string | null;
+    // Opens the alternatives drawer for a priced line
+    onShowAlternatives?: (component: string) => void;
 }
 
-export function DenseBOMTable({ items, totalCost }: DenseBOMTableProps) {
+type BOMItem = DenseBOMTableProps["items"][number];
+
+const CONFIDENCE_VARIANT: Record<PriceConfidence, "success" | "warning" | "destructive"> = {
+    high: "success",
+    medium: "warning",
+    low: "destructive",
+};
+
+/**
+ * Tooltip describing where a price came from
+ */
+function describeProvenance(provenance: PriceProvenance): string {
+    return [
+        `${provenance.confidence} confidence: ${provenance.source} price`,
+        provenance.matchedMaterial && `Matched "${provenance.matchedMaterial}"`,
+        provenance.similarity !== undefined && `Similarity ${(provenance.similarity * 100).toFixed(0)}%`,
+        provenance.supplier && `Supplier: ${provenance.supplier}`,
+        provenance.priceDate && `Price date: ${provenance.priceDate}`,
+    ].filter(Boolean).join("\n");
+}
+
+/**
+ * Visible rows of the tree, depth-first with children sorted by cost
+ */
+function flattenTree(nodes: BomNode[], collapsed: Set<string>, depth: number = 0): { node: BomNode; depth: number }[] {
+    return [...nodes]
+        .sort((a, b) => b.totalCost - a.totalCost)
+        .flatMap((node) => [
+            { node, depth },
+            ...(collapsed.has(node.id) ? [] : flattenTree(node.children, collapsed, depth + 1)),
+        ]);
+}
+
+export function DenseBOMTable({ items, totalCost, bom, onCostSubAssembly, costingSubAssemblyId, onShowAlternatives }: DenseBOMTableProps) {
     // Sort by total cost descending by default
     const sortedItems = [...items].sort((a, b) => b.totalCost - a.totalCost);
+    const incompatibleCount = items.filter((i) => i.unitIncompatible).length;
+    const estimatedCount = items.filter((i) => i.provenance?.source === "estimate" || i.provenance?.source === "fallback").length;
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const treeRows = bom && bom.some((n) => n.children.length > 0) ? flattenTree(bom, collapsed) : undefined;
+    // Tree totals include sub-assembly conversion, so shares are of the rolled-up total
+    const treeTotal = bom ? bom.reduce((sum, n) => sum + n.totalCost, 0) : 0;
+
+    const toggle = (id: string) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const renderAlternatives = (item: BOMItem) => onShowAlternatives && !item.unitIncompatible && item.material !== "sub-assembly" && item.totalCost > 0 && (
+        <button
+            onClick={() => onShowAlternatives(item.component)}
+            className="ml-1 inline-flex items-center gap-0.5 text-[10px] text-blue-600 hover:underline"
+            title="Cheaper comparable materials on file"
+        >
+            <Shuffle className="h-3 w-3" />
+            Alternatives
+        </button>
+    );
+
+    const renderTotal = (item: BOMItem) => item.unitIncompatible ? (
+        <span className="inline-flex items-center gap-1 text-xs text-red-600" title={item.unitNote}>
+            <AlertTriangle className="h-3 w-3" />
+            {item.unit} ≠ {item.priceUnit}
+        </span>
+    ) : (
+        <>
+            ${item.totalCost.toFixed(4)}
+            {item.scrapCredit !== undefined && (
+                <div className="text-[10px] font-normal text-green-600" title="Scrap recovery credit, already deducted">
+                    −${item.scrapCredit.toFixed(4)} scrap
+                </div>
+            )}
+        </>
+    );
+
+    // Net BOM quantity is shown; the line is bought (and priced) at its gross quantity
+    const renderGross = (item: BOMItem) => item.grossQuantity !== undefined && item.yieldFactor !== undefined && (
+        <div className="text-[10px] text-muted-foreground/70" title="Quantity bought before material and process losses">
+            gross {Number(item.grossQuantity.toPrecision(4))} {item.unit} · {(item.yieldFactor * 100).toFixed(0)}% yield
+        </div>
+    );
+
+    // Index-linked prices move with their index; show which value they were computed from
+    const renderIndex = (item: BOMItem) => item.indexCode && (
+        <div className="text-[10px] text-muted-foreground/70" title="Priced by formula from a commodity index">
+            {item.indexCode} @ {item.indexDate}
+        </div>
+    );
+
+    // Where the price came from, coloured by how far it can be trusted
+    const renderSource = (item: BOMItem) => item.provenance && (
+        <div title={describeProvenance(item.provenance)}>
+            <Badge variant={CONFIDENCE_VARIANT[item.provenance.confidence]} className="text-[10px] px-1 py-0 font-normal">
+                {item.provenance.source}
+                {item.provenance.similarity !== undefined && ` ${(item.provenance.similarity * 100).toFixed(0)}%`}
+            </Badge>
+        </div>
+    );
 
     return (
         <Card className="h-full w-full border">
@@ -36,9 +153,22 @@ export function DenseBOMTable({ items, totalCost }: DenseBOMTableProps) {
                     <CardTitle className="text-sm font-medium uppercase tracking-wider text-muted-foreground">
                         Cost Engineering Grid (BOM)
                     </CardTitle>
-                    <Badge variant="outline" className="font-mono text-xs">
-                        {items.length} Items
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                        {incompatibleCount > 0 && (
+                            <Badge variant="destructive" className="text-xs gap-1">
+                                <AlertTriangle className="h-3 w-3" />
+                                {incompatibleCount} Unpriced
+                            </Badge>
+                        )}
+                        {estimatedCount > 0 && (
+                            <Badge variant="warning" className="text-xs" title="Lines priced from an LLM estimate rather than a price on file">
+                                {estimatedCount} Estimated
+                            </Badge>
+                        )}
+                        <Badge variant="outline" className="font-mono text-xs">
+                            {items.length} Items
+                        </Badge>
+                    </div>
                 </div>
             </CardHeader>
             <div className="overflow-auto max-h-[500px]">
@@ -58,24 +188,117 @@ export function DenseBOMTable({ items, totalCost }: DenseBOMTableProps) {
                         </TableRow>
                     </TableHeader>
                     <TableBody>
-                        {sortedItems.map((item, idx) => {
+                        {treeRows && treeRows.map(({ node, depth }) => {
+                            const percentage = treeTotal > 0 ? (node.totalCost / treeTotal) * 100 : 0;
+                            const isAssembly = node.children.length > 0 || !!node.subAssembly;
+                            return (
+                                <TableRow
+                                    key={node.id}
+                                    className={`hover:bg-blue-50/50 dark:hover:bg-blue-900/10 h-8 border-b-0 ${isAssembly ? "bg-muted/20 font-medium" : ""} ${node.item?.unitIncompatible ? "bg-red-50/60 dark:bg-red-900/10" : ""}`}
+                                >
+                                    <TableCell className="py-1 text-sm text-foreground max-w-[260px]" title={node.name}>
+                                        <div className="flex items-center gap-1 truncate" style={{ paddingLeft: depth * 16 }}>
+                                            {node.children.length > 0 ? (
+                                                <button
+                                                    onClick={() => toggle(node.id)}
+                                                    className="text-muted-foreground hover:text-foreground"
+                                                    aria-label={collapsed.has(node.id) ? `Expand ${node.name}` : `Collapse ${node.name}`}
+                                                >
+                                                    {collapsed.has(node.id) ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                                                </button>
+                                            ) : (
+                                                <span className="w-3" />
+                                            )}
+                                            <span className="truncate">{node.name}</span>
+                                            {node.subAssembly && (
+                                                <Badge variant="secondary" className="text-[10px] px-1 py-0" title={node.subAssembly.productDescription}>
+                                                    Should-cost
+                                                </Badge>
+                                            )}
+                                        </div>
+                                    </TableCell>
+                                    <TableCell className="py-1 text-xs text-muted-foreground truncate max-w-[150px]" title={node.material}>
+                                        {node.children.length > 0 && onCostSubAssembly ? (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="h-6 px-2 text-[10px] gap-1"
+                                                onClick={() => onCostSubAssembly(node.id)}
+                                                disabled={!!costingSubAssemblyId}
+                                            >
+                                                {costingSubAssemblyId === node.id && <Loader2 className="h-3 w-3 animate-spin" />}
+                                                Cost separately
+                                            </Button>
+                                        ) : (
+                                            <>
+                                                {node.material}
+                                                {node.item && !isAssembly && renderAlternatives(node.item)}
+                                            </>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="py-1 text-right text-sm font-mono-numbers text-muted-foreground">
+                                        {depth > 0 ? node.quantityPerParent : node.quantity} <span className="text-[10px] text-muted-foreground/70">{node.unit}</span>
+                                        {depth > 0 && (
+                                            <div className="text-[10px] text-muted-foreground/70" title="Extended quantity per finished unit">
+                                                = {Number(node.quantity.toPrecision(4))} / unit
+                                            </div>
+                                        )}
+                                        {node.item && !isAssembly && renderGross(node.item)}
+                                    </TableCell>
+                                    <TableCell className="py-1 text-right text-sm font-mono-numbers text-muted-foreground">
+                                        {node.item && !isAssembly ? (
+                                            <>
+                                                ${node.item.pricePerUnit.toFixed(2)}
+                                                <span className="text-[10px] text-muted-foreground/70">/{node.item.priceUnit || node.item.unit}</span>
+                                                {renderIndex(node.item)}
+                                                {renderSource(node.item)}
+                                            </>
+                                        ) : (
+                                            <span className="text-[10px]" title="Rolled up: material + conversion">
+                                                ${node.materialCost.toFixed(4)} + ${node.conversionCost.toFixed(4)}
+                                            </span>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="py-1 text-right text-sm font-mono-numbers font-semibold">
+                                        {node.item && !isAssembly ? renderTotal(node.item) : `$${node.totalCost.toFixed(4)}`}
+                                    </TableCell>
+                                    <TableCell className="py-1 text-right text-xs font-mono-numbers text-muted-foreground">
+                                        {percentage.toFixed(1)}%
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })}
+                        {!treeRows && sortedItems.map((item, idx) => {
                             const percentage = totalCost > 0 ? (item.totalCost / totalCost) * 100 : 0;
                             return (
-                                <TableRow key={idx} className="hover:bg-blue-50/50 dark:hover:bg-blue-900/10 h-8 border-b-0">
+                                <TableRow
+                                    key={idx}
+                                    className={`hover:bg-blue-50/50 dark:hover:bg-blue-900/10 h-8 border-b-0 ${item.unitIncompatible ? "bg-red-50/60 dark:bg-red-900/10" : ""}`}
+                                >
                                     <TableCell className="py-1 text-sm font-medium text-foreground truncate max-w-[200px]" title={item.component}>
                                         {item.component}
                                     </TableCell>
                                     <TableCell className="py-1 text-xs text-muted-foreground truncate max-w-[150px]" title={item.material}>
                                         {item.material}
+                                        {renderAlternatives(item)}
                                     </TableCell>
                                     <TableCell className="py-1 text-right text-sm font-mono-numbers text-muted-foreground">
                                         {item.quantity} <span className="text-[10px] text-muted-foreground/70">{item.unit}</span>
+                                        {item.pricedQuantity !== undefined && item.priceUnit && item.priceUnit !== item.unit && (
+                                            <div className="text-[10px] text-muted-foreground/70" title={item.unitNote}>
+                                                = {Number(item.pricedQuantity.toPrecision(4))} {item.priceUnit}
+                                            </div>
+                                        )}
+                                        {renderGross(item)}
                                     </TableCell>
                                     <TableCell className="py-1 text-right text-sm font-mono-numbers text-muted-foreground">
                                         ${item.pricePerUnit.toFixed(2)}
+                                        <span className="text-[10px] text-muted-foreground/70">/{item.priceUnit || item.unit}</span>
+                                        {renderIndex(item)}
+                                        {renderSource(item)}
                                     </TableCell>
                                     <TableCell className="py-1 text-right text-sm font-mono-numbers font-semibold">
-                                        ${item.totalCost.toFixed(4)}
+                                        {renderTotal(item)}
                                     </TableCell>
                                     <TableCell className="py-1 text-right text-xs font-mono-numbers text-muted-foreground">
                                         {percentage.toFixed(1)}%
@@ -87,11 +310,11 @@ export function DenseBOMTable({ items, totalCost }: DenseBOMTableProps) {
                         <TableRow className="bg-muted/30 border-t-2 border-border font-bold">
                             <TableCell className="py-2">TOTAL</TableCell>
                             <TableCell className="py-2 text-xs text-muted-foreground">
-                                Excl. Add-ons
+                                {treeRows ? "Incl. Sub-assembly Conversion" : "Excl. Add-ons"}
                             </TableCell>
                             <TableCell className="py-2" colSpan={2}></TableCell>
                             <TableCell className="py-2 text-right font-mono-numbers">
-                                ${items.reduce((sum, i) => sum + i.totalCost, 0).toFixed(4)}
+                                ${(treeRows ? treeTotal : items.reduce((sum, i) => sum + i.totalCost, 0)).toFixed(4)}
                             </TableCell>
                             <TableCell className="py-2 text-right">100%</TableCell>
                         </TableRow>
@@ -0,0 +1,84 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Wrench } from "lucide-react";
+import { ToolingBreakdown } from "@/lib/prompts/types";
+
+interface ToolingPanelProps {
+  tooling: ToolingBreakdown;
+  aum: number;
+  currency?: string;
+}
+
+/**
+ * Compact quantity, e.g. "2.4M"
+ */
+function formatQuantity(value: number): string {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(0)}k`;
+  return value.toFixed(0);
+}
+
+export function ToolingPanel({ tooling, aum, currency = "$" }: ToolingPanelProps) {
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+          <Wrench className="w-4 h-4" />
+          Tooling & NRE
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {currency}{tooling.oneTimeTotal.toLocaleString(undefined, { maximumFractionDigits: 0 })} one-time;
+          supplier-owned tools add {currency}{tooling.supplierOwned.toFixed(4)} per unit at {formatQuantity(aum)}/yr
+          over {tooling.amortizationYears} year{tooling.amortizationYears === 1 ? "" : "s"} or tool life
+          {tooling.buyerOneTime > 0 && `, buyer-owned tools are paid up front (${currency}${tooling.buyerOneTime.toLocaleString(undefined, { maximumFractionDigits: 0 })})`}
+        </p>
+      </CardHeader>
+      <CardContent className="p-0">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr className="border-b">
+              <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Tool</th>
+              <th className="text-left py-2 px-4 font-semibold text-xs uppercase tracking-wider">Owner</th>
+              <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">One-time</th>
+              <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Life</th>
+              <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">Amortized over</th>
+              <th className="text-right py-2 px-4 font-semibold text-xs uppercase tracking-wider">{currency}/Unit</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {tooling.lines.map((line, i) => (
+              <tr key={`${line.name}-${i}`} className={line.owner === "buyer" ? "text-muted-foreground" : ""}>
+                <td className="py-2 px-4 font-medium">{line.name}</td>
+                <td className="py-2 px-4">
+                  <Badge variant={line.owner === "supplier" ? "info" : "secondary"} className="text-xs capitalize">
+                    {line.owner}
+                  </Badge>
+                </td>
+                <td className="text-right py-2 px-4 font-mono-numbers">
+                  {currency}{line.cost.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                </td>
+                <td className="text-right py-2 px-4 font-mono-numbers">
+                  {line.lifeShots ? `${formatQuantity(line.lifeShots * (line.unitsPerShot ?? 1))} units` : "—"}
+                </td>
+                <td className="text-right py-2 px-4 font-mono-numbers">
+                  {line.amortizationQuantity > 0 ? `${formatQuantity(line.amortizationQuantity)} units` : "—"}
+                </td>
+                <td className="text-right py-2 px-4 font-mono-numbers">
+                  {line.owner === "supplier" ? line.perUnit.toFixed(4) : `(${line.perUnit.toFixed(4)})`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {tooling.buyerOwned > 0 && (
+          <p className="px-4 py-2 text-xs text-muted-foreground">
+            Bracketed amounts are the per-unit equivalent of buyer-owned tooling and are not in the Ex-Works price.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * Batch should-costing from a CSV of products
+ *
+ * Each CSV row (description, optional aum, category and country) becomes one
+ * analysis (runAnalysis in lib/costing.ts). Rows are checked up front, then
+ * costed a few at a time; the job keeps each row's status and error, and is
+ * exported as one CSV with the unit cost and Ex-Works buckets per SKU.
+ *
+ * Jobs are held in memory by the server process (like the database fallbacks
+ * in lib/db.ts) and are lost on restart. The store lives on globalThis so a
+ * dev-server reload does not orphan running jobs.
+ */
+
+import { randomUUID } from "crypto";
+import { parseCsv, toCsv } from "./csv";
+import { mapWithConcurrency } from "./concurrency";
+import { runAnalysis } from "./costing";
+import { BASE_CURRENCY } from "./fx";
+import { getRegionProfile, REGION_PROFILES } from "./regions";
+import { CATEGORY_DEFINITIONS } from "./prompts/registry";
+import { BatchJob, BatchRow } from "./prompts/types";
+
+// Analyses run at once per job; each is two LLM calls
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+export const MAX_BATCH_ROWS = 500;
+
+// Finished jobs kept for status polling and export
+const MAX_STORED_JOBS = 20;
+
+// Jobs costing at once on this server; new batches are refused beyond this
+export const MAX_RUNNING_JOBS = 3;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var batchJobs: Map<string, BatchJob> | undefined;
+}
+
+/**
+ * Job store, shared across module reloads
+ */
+function getJobs(): Map<string, BatchJob> {
+  if (!globalThis.batchJobs) {
+    globalThis.batchJobs = new Map();
+  }
+
+  return globalThis.batchJobs;
+}
+
+/**
+ * Number of jobs still costing rows
+ */
+export function runningBatchJobCount(): number {
+  return [...getJobs().values()].filter((job) => job.status === "running").length;
+}
+
+/**
+ * Category id from an id or display name, e.g. "Food & Beverage"
+ */
+function resolveCategoryId(value: string): string | undefined {
+  const key = value.trim().toLowerCase();
+  return CATEGORY_DEFINITIONS.find((c) => c.id === key || c.name.toLowerCase() === key)?.id;
+}
+
+/**
+ * Read products from CSV
+ * Columns: description, aum, category (id or name), country. Rows that
+ * cannot be costed are kept as failed rows with the reason, so the export
+ * covers every line of the upload; errors are problems with the file itself.
+ */
+export function parseBatchCsv(text: string): { rows: BatchRow[]; errors: string[] } {
+  const records = parseCsv(text);
+
+  if (records.length === 0) {
+    return { rows: [], errors: ["The CSV has no product rows"] };
+  }
+  if (!("description" in records[0])) {
+    return { rows: [], errors: ["The CSV needs a description column"] };
+  }
+  if (records.length > MAX_BATCH_ROWS) {
+    return { rows: [], errors: [`The CSV has ${records.length} products; the limit is ${MAX_BATCH_ROWS} per batch`] };
+  }
+
+  const rows = records.map((record, i): BatchRow => {
+    const row: BatchRow = {
+      row: i + 2, // Header is line 1
+      description: record.description,
+      status: "queued",
+    };
+    const fail = (error: string): BatchRow => ({ ...row, status: "failed", error });
+
+    if (!row.description) {
+      return fail("missing description");
+    }
+
+    if (record.aum) {
+      const aum = Number(record.aum.replace(/,/g, ""));
+      if (!(aum > 0)) return fail(`aum must be a positive number, got "${record.aum}"`);
+      row.aum = aum;
+    }
+
+    if (record.category) {
+      row.category = resolveCategoryId(record.category);
+      if (!row.category) {
+        return fail(`unknown category "${record.category}". Supported: ${CATEGORY_DEFINITIONS.map((c) => c.id).join(", ")}`);
+      }
+    }
+
+    if (record.country) {
+      row.country = record.country.toUpperCase();
+      if (!getRegionProfile(row.country)) {
+        return fail(`unknown country "${record.country}". Supported: ${Object.keys(REGION_PROFILES).join(", ")}`);
+      }
+    }
+
+    return row;
+  });
+
+  return { rows, errors: [] };
+}
+
+/**
+ * Cost one row, recording the result or the error on the row
+ */
+async function costRow(job: BatchJob, row: BatchRow): Promise<void> {
+  if (row.status === "failed") return;
+
+  row.status = "running";
+  row.startedAt = new Date().toISOString();
+
+  try {
+    const result = await runAnalysis(row.description, row.aum, {
+      currency: job.currency,
+      country: row.country,
+      category: row.category,
+    });
+    const { rawMaterial, conversion, labour, packing, overhead, tooling, margin, totalExWorks } = result.exWorksCostBreakdown;
+
+    Object.assign(row, {
+      status: "done",
+      category: result.category,
+      categoryName: result.categoryName,
+      country: result.country,
+      aum: row.aum ?? result.aum,
+      unitCost: result.unitCost,
+      exWorks: { rawMaterial, conversion, labour, packing, overhead, tooling, margin, totalExWorks },
+      warningCount: result.warnings.length,
+    });
+  } catch (error) {
+    console.error(`Batch ${job.id} row ${row.row} failed:`, error);
+    row.status = "failed";
+    row.error = error instanceof Error ? error.message : "Analysis failed";
+  }
+
+  row.finishedAt = new Date().toISOString();
+}
+
+/**
+ * Queue a batch and start costing it in the background
+ * Throws when MAX_RUNNING_JOBS are already running.
+ */
+export function startBatchJob(
+  rows: BatchRow[],
+  options: { currency?: string; concurrency?: number } = {}
+): BatchJob {
+  if (runningBatchJobCount() >= MAX_RUNNING_JOBS) {
+    throw new Error(`${MAX_RUNNING_JOBS} batches are already running; try again when one finishes`);
+  }
+
+  const jobs = getJobs();
+  const job: BatchJob = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    currency: (options.currency || BASE_CURRENCY).toUpperCase(),
+    concurrency: Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.floor(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY))),
+    status: "running",
+    rows,
+  };
+
+  jobs.set(job.id, job);
+  for (const id of jobs.keys()) {
+    if (jobs.size <= MAX_STORED_JOBS) break;
+    if (jobs.get(id)!.status === "done") jobs.delete(id);
+  }
+
+  mapWithConcurrency(rows, job.concurrency, (row) => costRow(job, row))
+    .catch((error) => console.error(`Batch ${job.id} stopped:`, error))
+    .finally(() => {
+      job.status = "done";
+      job.finishedAt = new Date().toISOString();
+    });
+
+  return job;
+}
+
+/**
+ * Batch job by id, while it is held in memory
+ */
+export function findBatchJob(id: string): BatchJob | undefined {
+  return getJobs().get(id);
+}
+
+/**
+ * Consolidated result: one line per SKU with its unit cost and Ex-Works buckets
+ */
+export function batchToCsv(job: BatchJob): string {
+  const header = [
+    "row", "description", "category", "country", "aum", "status", "error", "currency",
+    "unit_cost", "raw_material", "conversion", "labour", "packing", "overhead", "tooling", "margin", "warnings",
+  ];
+
+  const rows = job.rows.map((row) => [
+    row.row,
+    row.description,
+    row.category,
+    row.country,
+    row.aum,
+    row.status,
+    row.error,
+    job.currency,
+    row.unitCost,
+    row.exWorks?.rawMaterial,
+    row.exWorks?.conversion,
+    row.exWorks?.labour,
+    row.exWorks?.packing,
+    row.exWorks?.overhead,
+    row.exWorks?.tooling,
+    row.exWorks?.margin,
+    row.warningCount,
+  ]);
+
+  return toCsv([header, ...rows]);
+}
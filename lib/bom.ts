@@ -0,0 +1,245 @@
+/**
+ * Multi-level (indented) BOM
+ *
+ * BOM lines reference their sub-assembly through `parentId` and give their
+ * quantity per ONE parent. Leaves are priced at their extended quantity per
+ * finished unit; sub-assemblies contribute machine time (conversion) and roll
+ * up the cost of everything below them. A sub-assembly that was should-costed
+ * as its own analysis is bought in at its Ex-Works price instead, and the lines
+ * below it are no longer priced.
+ */
+
+import { computeSubAssemblyConversion, normalizeProcessParameters } from "./cost-model";
+import { priceMaterialLine } from "./materials";
+import {
+  BomNode,
+  CostModelInputs,
+  MaterialCostItem,
+  ProductComponent,
+  SubAssemblyProcess,
+  SubAssemblyReference,
+} from "./prompts/types";
+
+/**
+ * Validate the LLM's BOM and compute extended quantities
+ * Lines get an id if they have none; a parentId that does not resolve, or
+ * that would create a cycle, puts the line at the top level.
+ */
+export function normalizeBomComponents(raw: unknown): ProductComponent[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const lines = raw.map((c, i) => {
+    let id = c?.id !== undefined && c?.id !== null && String(c.id) ? String(c.id) : `c${i + 1}`;
+    if (seen.has(id)) id = `${id}-${i + 1}`;
+    seen.add(id);
+
+    const quantityPerParent = Number(c?.quantityPerParent) || Number(c?.quantity) || 0.001;
+    return {
+      id,
+      parentId: c?.parentId !== undefined && c?.parentId !== null ? String(c.parentId) : undefined,
+      name: String(c?.name || "Unknown"),
+      material: String(c?.material || "unknown").toLowerCase(),
+      quantityPerParent,
+      quantity: quantityPerParent,
+      unit: String(c?.unit || "kg").toLowerCase(),
+      process: normalizeProcessParameters(c?.process),
+      subAssembly: c?.subAssembly as SubAssemblyReference | undefined,
+      yieldFactor: Number(c?.yieldFactor) > 0 ? Number(c.yieldFactor) : undefined,
+    };
+  });
+
+  const byId = new Map(lines.map((l) => [l.id, l]));
+
+  // Drop parent links that dangle or loop back on the line
+  for (const line of lines) {
+    const visited = new Set([line.id]);
+    let parentId = line.parentId;
+    while (parentId !== undefined) {
+      if (!byId.has(parentId) || visited.has(parentId)) {
+        line.parentId = undefined;
+        break;
+      }
+      visited.add(parentId);
+      parentId = byId.get(parentId)!.parentId;
+    }
+  }
+
+  // Extended quantity = quantity per parent x parents per finished unit
+  const extended = (line: (typeof lines)[number]): number =>
+    line.parentId ? line.quantityPerParent * extended(byId.get(line.parentId)!) : line.quantityPerParent;
+
+  return lines.map((line) => ({ ...line, quantity: extended(line) }));
+}
+
+/**
+ * True when any line sits below a sub-assembly
+ */
+export function isMultiLevelBom(components: ProductComponent[]): boolean {
+  return components.some((c) => c.parentId !== undefined);
+}
+
+/**
+ * Ids of every line below a line
+ */
+function descendantIds(components: ProductComponent[], id: string): Set<string> {
+  const ids = new Set<string>();
+  const visit = (parentId: string) => {
+    for (const c of components) {
+      if (c.parentId === parentId && c.id && !ids.has(c.id)) {
+        ids.add(c.id);
+        visit(c.id);
+      }
+    }
+  };
+  visit(id);
+  return ids;
+}
+
+/**
+ * Lines hidden by a sub-assembly that is costed as its own analysis
+ */
+function replacedIds(components: ProductComponent[]): Set<string> {
+  const ids = new Set<string>();
+  for (const c of components) {
+    if (c.subAssembly && c.id) {
+      descendantIds(components, c.id).forEach((id) => ids.add(id));
+    }
+  }
+  return ids;
+}
+
+/**
+ * Lines to price from material prices: leaves that are not below a
+ * referenced sub-assembly
+ */
+export function bomLeaves(components: ProductComponent[]): ProductComponent[] {
+  const parents = new Set(components.map((c) => c.parentId).filter(Boolean));
+  const replaced = replacedIds(components);
+
+  return components.filter((c) => !c.subAssembly && !parents.has(c.id) && !replaced.has(c.id!));
+}
+
+/**
+ * Machine time of the sub-assemblies that are built in-house
+ */
+export function bomSubAssemblyProcesses(components: ProductComponent[]): SubAssemblyProcess[] {
+  const replaced = replacedIds(components);
+
+  return components
+    .filter((c) => c.process && c.id && !c.subAssembly && !replaced.has(c.id))
+    .map((c) => ({ componentId: c.id!, name: c.name, quantity: c.quantity, process: c.process! }));
+}
+
+/**
+ * Price a referenced sub-assembly at its Ex-Works unit cost
+ * fxRate converts the reference's currency into the model currency.
+ */
+export function priceSubAssembly(component: ProductComponent, reference: SubAssemblyReference, fxRate: number = 1): MaterialCostItem {
+  return {
+    ...priceMaterialLine(
+      { ...component, material: "sub-assembly" },
+      {
+        pricePerUnit: reference.unitCost * fxRate,
+        unit: component.unit,
+        sourceCurrency: fxRate !== 1 ? reference.currency : undefined,
+        fxRate: fxRate !== 1 ? fxRate : undefined,
+        provenance: { source: "sub-assembly", confidence: "medium", priceDate: reference.analysisDate },
+      }
+    ),
+    unitNote: `Should-cost of "${reference.productDescription}"`,
+  };
+}
+
+/**
+ * Reference a sub-assembly's own should-cost from the parent model
+ * The lines below it leave the priced BOM and its machine time leaves
+ * conversion; the sub-assembly is bought in at its Ex-Works price.
+ */
+export function attachSubAssembly(
+  model: CostModelInputs,
+  components: ProductComponent[],
+  componentId: string,
+  reference: SubAssemblyReference,
+  fxRate: number = 1
+): { components: ProductComponent[]; costModel: CostModelInputs } {
+  const node = components.find((c) => c.id === componentId);
+  if (!node) {
+    throw new Error(`No BOM line with id ${componentId}`);
+  }
+
+  const updated = components.map((c) => (c.id === componentId ? { ...c, subAssembly: reference } : c));
+  const removed = descendantIds(components, componentId);
+  removed.add(componentId);
+
+  return {
+    components: updated,
+    costModel: {
+      ...model,
+      materials: [
+        ...model.materials.filter((m) => !m.componentId || !removed.has(m.componentId)),
+        priceSubAssembly(node, reference, fxRate),
+      ],
+      subAssemblyProcesses: model.subAssemblyProcesses?.filter((s) => !removed.has(s.componentId)),
+    },
+  };
+}
+
+/**
+ * Indented BOM with material and conversion cost rolled up per sub-assembly
+ * `materialCosts` and `processes` come from the cost model (matched by
+ * componentId), so rates are already converted and localized; costs are per
+ * finished unit at the volume the lines were priced at.
+ */
+export function rollUpBom(
+  components: ProductComponent[],
+  materialCosts: MaterialCostItem[],
+  processes: SubAssemblyProcess[],
+  aum: number
+): BomNode[] {
+  const replaced = replacedIds(components);
+  const visible = components.filter((c) => c.id && !replaced.has(c.id));
+
+  const build = (component: ProductComponent): BomNode => {
+    const item = materialCosts.find((m) => m.componentId === component.id);
+    const children = component.subAssembly
+      ? []
+      : visible.filter((c) => c.parentId === component.id).map(build);
+
+    const reference = component.subAssembly;
+    const ownConversion = computeSubAssemblyConversion(processes.filter((p) => p.componentId === component.id), aum);
+
+    // A referenced sub-assembly splits its price like its own analysis did
+    const referencedMaterial = reference && item && reference.unitCost > 0
+      ? item.totalCost * reference.rawMaterial / reference.unitCost
+      : 0;
+    const referencedConversion = reference && item && reference.unitCost > 0
+      ? item.totalCost * reference.conversion / reference.unitCost
+      : 0;
+
+    const materialCost = reference
+      ? referencedMaterial
+      : (item?.totalCost ?? 0) + children.reduce((sum, c) => sum + c.materialCost, 0);
+    const conversionCost = reference
+      ? referencedConversion
+      : ownConversion + children.reduce((sum, c) => sum + c.conversionCost, 0);
+
+    return {
+      id: component.id!,
+      name: component.name,
+      material: component.material,
+      quantityPerParent: component.quantityPerParent ?? component.quantity,
+      quantity: component.quantity,
+      unit: component.unit,
+      materialCost,
+      conversionCost,
+      // The bought-in price also carries the supplier's labour, overhead and margin
+      totalCost: reference ? item?.totalCost ?? 0 : materialCost + conversionCost,
+      subAssembly: reference,
+      item,
+      children,
+    };
+  };
+
+  return visible.filter((c) => !c.parentId).map(build);
+}
@@ -0,0 +1,400 @@
+/**
+ * Side-by-side comparison of saved analyses
+ *
+ * The same product is often costed twice: from two suppliers, or as two spec
+ * variants. Comparing the saved analyses diffs every Ex-Works bucket, aligns
+ * BOM, packaging and labour lines across them (by component name, then by
+ * material) and attributes each analysis's difference from the first
+ * (baseline) analysis to the lines and buckets that drive it.
+ */
+
+import { findAllHistoricalCosts, HistoricalCost } from "./db";
+import { BASE_CURRENCY, getFxRate } from "./fx";
+import { toCsv } from "./csv";
+import {
+  AnalysisComparison,
+  ComparedAnalysis,
+  ComparisonBucket,
+  ComparisonBucketRow,
+  ComparisonLine,
+  ComparisonLineKind,
+  CostModelInputs,
+  DeltaDriver,
+  ExWorksBucket,
+  ExWorksCostBreakdown,
+  MaterialCostItem,
+} from "./prompts/types";
+
+const BUCKET_LABELS: Record<ComparisonBucket, string> = {
+  rawMaterial: "Raw Material",
+  conversion: "Conversion",
+  labour: "Labour",
+  packing: "Packing",
+  overhead: "Overhead",
+  tooling: "Tooling",
+  margin: "Margin",
+  totalExWorks: "Total Ex-Works",
+};
+
+// Bucket each kind of line rolls up into
+const LINE_BUCKETS: Record<ComparisonLineKind, ExWorksBucket> = {
+  material: "rawMaterial",
+  packaging: "packing",
+  labour: "labour",
+};
+
+// Drivers reported per analysis
+const MAX_DRIVERS = 8;
+
+// Differences below this are rounding
+const MIN_DELTA = 0.00005;
+
+interface SavedBreakdown {
+  exWorks?: ExWorksCostBreakdown;
+  materials?: unknown;
+  costModel?: CostModelInputs;
+  currency?: string;
+}
+
+// One line of one analysis, in the comparison currency
+interface AnalysisLine {
+  kind: ComparisonLineKind;
+  name: string;
+  material: string;
+  cost: number;
+  quantity: number;
+  unit: string;
+  rate: number;        // Price per priceUnit, or hourly rate for labour
+  rateUnit: string;
+}
+
+interface LoadedAnalysis {
+  analysis: ComparedAnalysis;
+  buckets: Record<ComparisonBucket, number>;
+  lines: AnalysisLine[];
+}
+
+// A line matched across analyses; null where an analysis has no such line
+interface AlignedLine {
+  key: string;
+  kind: ComparisonLineKind;
+  name: string;
+  lines: (AnalysisLine | null)[];
+}
+
+/**
+ * Round a cost to 4 decimal places
+ */
+function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Name used to match lines, ignoring case and punctuation
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Priced lines of a saved analysis, converted with an FX rate
+ */
+function savedLines(breakdown: SavedBreakdown, fxRate: number): AnalysisLine[] {
+  const model = breakdown.costModel;
+  const savedMaterials = model?.materials ?? (Array.isArray(breakdown.materials) ? breakdown.materials as MaterialCostItem[] : []);
+  const priced = (kind: ComparisonLineKind, item: MaterialCostItem): AnalysisLine => ({
+    kind,
+    name: item.component,
+    material: item.material,
+    cost: item.totalCost * fxRate,
+    quantity: item.quantity,
+    unit: item.unit,
+    rate: item.pricePerUnit * fxRate,
+    rateUnit: item.priceUnit || item.unit,
+  });
+
+  return [
+    ...savedMaterials.filter((m) => typeof m?.material === "string").map((m) => priced("material", m)),
+    ...(model?.packaging ?? []).map((p) => priced("packaging", p)),
+    ...(model?.labourOperations ?? []).map((op): AnalysisLine => ({
+      kind: "labour",
+      name: op.name,
+      material: op.processType,
+      cost: (op.hourlyRate ?? 0) * op.minutesPerUnit / 60 * fxRate,
+      quantity: op.minutesPerUnit,
+      unit: "min",
+      rate: (op.hourlyRate ?? 0) * fxRate,
+      rateUnit: "hour",
+    })),
+  ];
+}
+
+/**
+ * Buckets and lines of a saved analysis in the comparison currency
+ */
+async function loadAnalysis(cost: HistoricalCost, currency: string): Promise<LoadedAnalysis> {
+  const breakdown = cost.breakdown as SavedBreakdown;
+  const savedCurrency = (breakdown.currency || breakdown.costModel?.currency || BASE_CURRENCY).toUpperCase();
+  const fxRate = (await getFxRate(savedCurrency, currency))?.rate;
+
+  if (fxRate === undefined) {
+    throw new Error(`No FX rate from ${savedCurrency} to ${currency} for "${cost.productName}"`);
+  }
+
+  const lines = savedLines(breakdown, fxRate);
+  const exWorks = breakdown.exWorks;
+  const notes: string[] = [];
+
+  if (!lines.some((l) => l.kind === "material")) {
+    notes.push("No priced BOM was saved with this analysis");
+  }
+  if (!exWorks) {
+    notes.push("No Ex-Works breakdown was saved; only raw material and the total are compared");
+  }
+
+  const buckets: Record<ComparisonBucket, number> = exWorks
+    ? {
+      rawMaterial: exWorks.rawMaterial * fxRate,
+      conversion: exWorks.conversion * fxRate,
+      labour: exWorks.labour * fxRate,
+      packing: exWorks.packing * fxRate,
+      overhead: exWorks.overhead * fxRate,
+      tooling: (exWorks.tooling ?? 0) * fxRate,
+      margin: exWorks.margin * fxRate,
+      totalExWorks: exWorks.totalExWorks * fxRate,
+    }
+    : {
+      rawMaterial: lines.filter((l) => l.kind === "material").reduce((sum, l) => sum + l.cost, 0),
+      conversion: 0,
+      labour: 0,
+      packing: 0,
+      overhead: 0,
+      tooling: 0,
+      margin: 0,
+      totalExWorks: cost.totalCost * fxRate,
+    };
+
+  return {
+    analysis: {
+      id: cost.id,
+      productName: cost.productName,
+      productDescription: cost.productDescription,
+      costedAt: new Date(cost.createdAt).toISOString(),
+      currency: savedCurrency,
+      fxRate,
+      unitCost: roundCost(buckets.totalExWorks),
+      note: notes.length > 0 ? notes.join(". ") : undefined,
+    },
+    buckets,
+    lines,
+  };
+}
+
+/**
+ * Match each analysis's lines to the lines already seen: by component name
+ * first, then by material, so a renamed component still lines up
+ */
+function alignLines(perAnalysis: AnalysisLine[][]): AlignedLine[] {
+  const aligned: AlignedLine[] = [];
+  const keys = new Set<string>();
+
+  perAnalysis.forEach((lines, i) => {
+    const open = (line: AnalysisLine) => aligned.filter((a) => a.kind === line.kind && a.lines[i] === null);
+    const unmatched: AnalysisLine[] = [];
+
+    for (const line of lines) {
+      const match = open(line).find((a) => normalizeName(a.name) === normalizeName(line.name));
+      if (match) match.lines[i] = line;
+      else unmatched.push(line);
+    }
+
+    for (const line of unmatched) {
+      const material = normalizeName(line.material);
+      const match = open(line).find((a) => a.lines.some((l) => l && normalizeName(l.material) === material));
+      if (match) {
+        match.lines[i] = line;
+        continue;
+      }
+
+      let key = `${line.kind}:${normalizeName(line.name)}`;
+      while (keys.has(key)) key += "+";
+      keys.add(key);
+
+      const row: AlignedLine = { key, kind: line.kind, name: line.name, lines: perAnalysis.map(() => null) };
+      row.lines[i] = line;
+      aligned.push(row);
+    }
+  });
+
+  return aligned;
+}
+
+/**
+ * Why a line costs differently from the baseline
+ */
+function describeLineDelta(baseline: AnalysisLine | null, line: AnalysisLine | null): string {
+  if (!baseline) return "not in the baseline";
+  if (!line) return "not in this analysis";
+  if (normalizeName(baseline.material) !== normalizeName(line.material)) {
+    return `${baseline.material} → ${line.material}`;
+  }
+  if (baseline.unit === line.unit && baseline.quantity !== line.quantity) {
+    return `quantity ${Number(baseline.quantity.toPrecision(4))} → ${Number(line.quantity.toPrecision(4))} ${line.unit}`;
+  }
+  if (baseline.rateUnit === line.rateUnit && baseline.rate !== line.rate) {
+    return `rate ${baseline.rate.toFixed(4)} → ${line.rate.toFixed(4)}/${line.rateUnit}`;
+  }
+  return "quantity and unit changed";
+}
+
+/**
+ * Lines and buckets behind one analysis's difference from the baseline
+ */
+function deltaDrivers(
+  index: number,
+  loaded: LoadedAnalysis[],
+  aligned: AlignedLine[]
+): DeltaDriver[] {
+  const baseline = loaded[0].buckets;
+  const buckets = loaded[index].buckets;
+  const totalDelta = buckets.totalExWorks - baseline.totalExWorks;
+  const share = (delta: number) => (totalDelta !== 0 ? delta / totalDelta : 0);
+  const drivers: DeltaDriver[] = [];
+
+  for (const row of aligned) {
+    const delta = (row.lines[index]?.cost ?? 0) - (row.lines[0]?.cost ?? 0);
+    drivers.push({
+      name: row.name,
+      kind: row.kind,
+      bucket: LINE_BUCKETS[row.kind],
+      delta: roundCost(delta),
+      share: share(delta),
+      reason: describeLineDelta(row.lines[0], row.lines[index]),
+    });
+  }
+
+  // Buckets not itemised by lines, and whatever the lines do not explain
+  // (benchmark shares, the learning curve, sub-assembly conversion)
+  for (const bucket of Object.keys(BUCKET_LABELS) as ComparisonBucket[]) {
+    if (bucket === "totalExWorks") continue;
+
+    const itemised = (Object.keys(LINE_BUCKETS) as ComparisonLineKind[]).filter((kind) => LINE_BUCKETS[kind] === bucket);
+    const explained = aligned
+      .filter((row) => itemised.includes(row.kind))
+      .reduce((sum, row) => sum + (row.lines[index]?.cost ?? 0) - (row.lines[0]?.cost ?? 0), 0);
+    const delta = buckets[bucket] - baseline[bucket] - explained;
+
+    drivers.push({
+      name: itemised.length > 0 ? `${BUCKET_LABELS[bucket]} (not itemised)` : BUCKET_LABELS[bucket],
+      kind: "bucket",
+      bucket,
+      delta: roundCost(delta),
+      share: share(delta),
+      reason: itemised.length > 0 ? "bucket difference not explained by its lines" : "costed as a bucket, not line by line",
+    });
+  }
+
+  return drivers
+    .filter((d) => Math.abs(d.delta) >= MIN_DELTA)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    .slice(0, MAX_DRIVERS);
+}
+
+/**
+ * Compare saved analyses against the first one
+ * Amounts are converted into `currency` (the baseline's currency by default)
+ * at today's FX rates.
+ */
+export async function compareAnalyses(costs: HistoricalCost[], currency?: string): Promise<AnalysisComparison> {
+  if (costs.length < 2) {
+    throw new Error("At least two analyses are needed for a comparison");
+  }
+
+  const baselineBreakdown = costs[0].breakdown as SavedBreakdown;
+  const comparisonCurrency = (
+    currency || baselineBreakdown.currency || baselineBreakdown.costModel?.currency || BASE_CURRENCY
+  ).toUpperCase();
+
+  const loaded: LoadedAnalysis[] = [];
+  for (const cost of costs) {
+    loaded.push(await loadAnalysis(cost, comparisonCurrency));
+  }
+
+  const buckets: ComparisonBucketRow[] = (Object.keys(BUCKET_LABELS) as ComparisonBucket[]).map((bucket) => ({
+    bucket,
+    label: BUCKET_LABELS[bucket],
+    costs: loaded.map((l) => roundCost(l.buckets[bucket])),
+    deltas: loaded.map((l) => roundCost(l.buckets[bucket] - loaded[0].buckets[bucket])),
+  }));
+
+  const aligned = alignLines(loaded.map((l) => l.lines));
+  const spread = (row: ComparisonLine) => {
+    const costs = row.costs.map((c) => c ?? 0);
+    return Math.max(...costs) - Math.min(...costs);
+  };
+  const lines: ComparisonLine[] = aligned
+    .map((row) => ({
+      key: row.key,
+      kind: row.kind,
+      name: row.name,
+      materials: row.lines.map((l) => l?.material ?? null),
+      costs: row.lines.map((l) => (l ? roundCost(l.cost) : null)),
+      deltas: row.lines.map((l) => roundCost((l?.cost ?? 0) - (row.lines[0]?.cost ?? 0))),
+    }))
+    .sort((a, b) => spread(b) - spread(a));
+
+  return {
+    currency: comparisonCurrency,
+    analyses: loaded.map((l) => l.analysis),
+    buckets,
+    lines,
+    drivers: loaded.map((_, i) => (i === 0 ? [] : deltaDrivers(i, loaded, aligned))),
+  };
+}
+
+/**
+ * Compare saved analyses by id, in the order given
+ */
+export async function compareSavedAnalyses(ids: string[], currency?: string): Promise<AnalysisComparison> {
+  const saved = await findAllHistoricalCosts();
+  const costs = ids.map((id) => {
+    const cost = saved.find((c) => c.id === id);
+    if (!cost) throw new Error(`Saved analysis ${id} not found`);
+    return cost;
+  });
+
+  return compareAnalyses(costs, currency);
+}
+
+/**
+ * Comparison as a CSV table: Ex-Works buckets, then aligned lines
+ */
+export function comparisonToCsv(comparison: AnalysisComparison): string {
+  // Numbered, as the same product is usually compared with itself
+  const names = comparison.analyses.map((a, i) => `${i === 0 ? "Baseline" : `#${i + 1}`} ${a.productName} (${a.costedAt.slice(0, 10)})`);
+  const header = [
+    "Section",
+    "Item",
+    "Material",
+    ...names.map((name) => `${name} ${comparison.currency}/unit`),
+    ...names.slice(1).map((name) => `${name} vs baseline`),
+  ];
+
+  const bucketRows = comparison.buckets.map((row) => [
+    "Ex-Works",
+    row.label,
+    "",
+    ...row.costs,
+    ...row.deltas.slice(1),
+  ]);
+
+  const lineRows = comparison.lines.map((line) => [
+    line.kind,
+    line.name,
+    [...new Set(line.materials.filter((m): m is string => m !== null))].join(" / "),
+    ...line.costs,
+    ...line.deltas.slice(1),
+  ]);
+
+  return toCsv([header, ...bucketRows, ...lineRows]);
+}
@@ -0,0 +1,28 @@
+/**
+ * Bounded concurrency for batches of slow async work (LLM calls, price lookups)
+ */
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * Results keep the input order. A rejected call rejects the whole map, so
+ * callers that want per-item errors should catch inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -1,3 +1,5 @@
+import type { FreightMode, Incoterm } from "@/lib/prompts/types";
+
 export const CHART_COLORS = {
   rawMaterial: "#3b82f6", // Blue
   conversion: "#8b5cf6",   // Purple
@@ -5,7 +7,10 @@ export const CHART_COLORS = {
   packing: "#f59e0b",      // Amber
   overhead: "#ef4444",     // Red
   margin: "#6b7280",       // Gray
+  tooling: "#14b8a6",      // Teal
   total: "#0f172a",        // Slate-900
+  logistics: "#0ea5e9",    // Sky
+  duty: "#be123c",         // Rose-700
 };
 
 export const EX_WORKS_COLORS_ARRAY = [
@@ -15,6 +20,7 @@ export const EX_WORKS_COLORS_ARRAY = [
   CHART_COLORS.packing,     // Packing
   CHART_COLORS.overhead,    // Overhead
   CHART_COLORS.margin,      // Margin
+  CHART_COLORS.tooling,     // Tooling
 ];
 
 export const PIE_CHART_COLORS = [
@@ -22,3 +28,11 @@ export const PIE_CHART_COLORS = [
   CHART_COLORS.labor,
   CHART_COLORS.packing // Using Amber as third color (formerly yellow-ish)
 ];
+
+// Currencies offered for reporting; each needs FxRate entries against USD
+export const REPORTING_CURRENCIES = ["USD", "EUR", "GBP", "CNY", "INR", "JPY", "MXN", "CAD"];
+
+// Incoterms priced by the landed-cost layer, in order of increasing seller obligation
+export const INCOTERMS: Incoterm[] = ["EXW", "FCA", "FOB", "CIF", "DAP", "DDP"];
+
+export const FREIGHT_MODES: FreightMode[] = ["ocean", "air", "road"];
@@ -0,0 +1,608 @@
+/**
+ * Engineered (bottom-up) Ex-Works cost model
+ *
+ * Each bucket is built from engineering inputs rather than by scaling LLM
+ * percentages off the material cost:
+ *   - Raw material: priced BOM
+ *   - Conversion:   machine-hour rate x cycle time / units per cycle, for the
+ *                   final assembly and each sub-assembly
+ *   - Labour:       LaborRate hourly rates x minutes per unit
+ *   - Packing:      priced packaging BOM
+ *   - Overhead:     category overhead rate x manufacturing cost
+ *   - Tooling:      supplier-owned tooling and NRE amortized over tool life
+ *                   or the amortization period's volume (no overhead on it)
+ *   - Margin:       margin share of the Ex-Works price
+ *
+ * Cost percentages are an output of the model. The LLM's percentages are only
+ * used for a bucket whose engineering inputs are missing, and that bucket is
+ * marked as "benchmark" in `costBasis`.
+ */
+
+import { findLaborRate, SkillLevel } from "./db";
+import { applyPriceBreaks } from "./materials";
+import { DEFAULT_COUNTRY, getRegionProfile, regionalMachineHourRate, regionalOverheadRate } from "./regions";
+import {
+  CategoryConfig,
+  CostBasis,
+  CostModelInputs,
+  CostPercentages,
+  ExWorksCostBreakdown,
+  LabourBreakdown,
+  LabourOperation,
+  MarginBreakdown,
+  MaterialCostItem,
+  OverheadBreakdown,
+  PackagingComponent,
+  PackagingCostItem,
+  PackagingLevel,
+  PackingBreakdown,
+  ProcessParameters,
+  SubAssemblyProcess,
+  ToolingBreakdown,
+  ToolingItem,
+  ToolingLine,
+} from "./prompts/types";
+
+// Used when a category has no config (or the config has no rate)
+export const DEFAULT_OVERHEAD_RATE = 0.10;
+export const DEFAULT_MARGIN_RATE = 0.10;
+export const DEFAULT_FIXED_OVERHEAD_SHARE = 0.60;
+export const DEFAULT_LEARNING_RATE = 0.90;
+export const DEFAULT_TOOLING_AMORTIZATION_YEARS = 1;
+
+// Used when no US LaborRate row matches an operation's process type
+export const DEFAULT_HOURLY_RATES: Record<SkillLevel, number> = {
+  entry: 25,
+  intermediate: 35,
+  expert: 50,
+};
+
+type BucketKey = "conversion" | "labour" | "packing" | "overhead" | "margin";
+
+const PACKAGING_LEVELS: PackagingLevel[] = ["primary", "secondary", "tertiary", "labels"];
+
+// ============ INPUT NORMALIZATION (LLM output -> model inputs) ============
+
+/**
+ * Validate process parameters from the LLM; returns undefined if unusable
+ */
+export function normalizeProcessParameters(raw: unknown): ProcessParameters | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const p = raw as Record<string, unknown>;
+
+  const machineHourRate = Number(p.machineHourRate);
+  const cycleTimeSeconds = Number(p.cycleTimeSeconds);
+  const unitsPerCycle = Number(p.unitsPerCycle) || 1;
+
+  if (!(machineHourRate > 0) || !(cycleTimeSeconds > 0) || !(unitsPerCycle > 0)) {
+    return undefined;
+  }
+
+  return {
+    machineHourRate,
+    cycleTimeSeconds,
+    unitsPerCycle,
+    setupHours: Number(p.setupHours) > 0 ? Number(p.setupHours) : undefined,
+    runsPerYear: Number(p.runsPerYear) > 0 ? Number(p.runsPerYear) : undefined,
+    description: p.description ? String(p.description) : undefined,
+  };
+}
+
+/**
+ * Validate labour operations from the LLM, dropping unusable entries
+ */
+export function normalizeLabourOperations(raw: unknown): LabourOperation[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((op) => ({
+      name: String(op?.name || op?.processType || "Operation"),
+      processType: String(op?.processType || "assembly").toLowerCase(),
+      skillLevel: (["entry", "intermediate", "expert"].includes(op?.skillLevel)
+        ? op.skillLevel
+        : "intermediate") as SkillLevel,
+      minutesPerUnit: Number(op?.minutesPerUnit) || 0,
+    }))
+    .filter((op) => op.minutesPerUnit > 0);
+}
+
+/**
+ * Validate the packaging BOM from the LLM
+ */
+export function normalizePackagingComponents(raw: unknown): PackagingComponent[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((c) => ({
+      name: String(c?.name || "Packaging"),
+      material: String(c?.material || "unknown").toLowerCase(),
+      quantity: Number(c?.quantity) || 0,
+      unit: String(c?.unit || "piece").toLowerCase(),
+      level: (PACKAGING_LEVELS.includes(c?.level) ? c.level : "primary") as PackagingLevel,
+    }))
+    .filter((c) => c.quantity > 0);
+}
+
+/**
+ * Validate tooling and NRE items from the LLM, dropping entries without a cost
+ */
+export function normalizeToolingItems(raw: unknown): ToolingItem[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((t) => ({
+      name: String(t?.name || "Tooling"),
+      cost: Number(t?.cost) || 0,
+      owner: (t?.owner === "buyer" ? "buyer" : "supplier") as ToolingItem["owner"],
+      lifeShots: Number(t?.lifeShots) > 0 ? Number(t.lifeShots) : undefined,
+      unitsPerShot: Number(t?.unitsPerShot) > 0 ? Number(t.unitsPerShot) : undefined,
+    }))
+    .filter((t) => t.cost > 0);
+}
+
+/**
+ * Look up hourly rates for each labour operation in a region
+ * Rates are stored in USD; fxRate converts them into the reporting currency.
+ * Process types without a regional row use the US rate scaled by the
+ * region's labour index.
+ */
+export async function resolveLabourRates(
+  operations: LabourOperation[],
+  region: string = DEFAULT_COUNTRY,
+  fxRate: number = 1
+): Promise<LabourOperation[]> {
+  const country = region.toUpperCase();
+  const resolved: LabourOperation[] = [];
+
+  for (const op of operations) {
+    let hourlyRate = (await findLaborRate(op.processType, op.skillLevel, country))?.hourlyRate;
+
+    if (hourlyRate === undefined) {
+      const usRate = country !== DEFAULT_COUNTRY
+        ? await findLaborRate(op.processType, op.skillLevel, DEFAULT_COUNTRY)
+        : undefined;
+      hourlyRate = (usRate?.hourlyRate ?? DEFAULT_HOURLY_RATES[op.skillLevel]) * (getRegionProfile(country)?.labourIndex ?? 1);
+    }
+
+    resolved.push({
+      ...op,
+      hourlyRate: hourlyRate * fxRate,
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Re-cost a model for a country of manufacture
+ * Labour rates are looked up again for the region; machine-hour and overhead
+ * rates are moved from the model's current country with the regional indices.
+ * fxRate converts USD labour rates into the model currency.
+ */
+export async function localizeCostModel(
+  model: CostModelInputs,
+  country: string,
+  fxRate: number = 1
+): Promise<CostModelInputs> {
+  const from = model.country || DEFAULT_COUNTRY;
+  const to = country.toUpperCase();
+
+  return {
+    ...model,
+    country: to,
+    labourOperations: await resolveLabourRates(model.labourOperations, to, fxRate),
+    process: model.process && {
+      ...model.process,
+      machineHourRate: regionalMachineHourRate(model.process.machineHourRate, from, to),
+    },
+    subAssemblyProcesses: model.subAssemblyProcesses?.map((s) => ({
+      ...s,
+      process: { ...s.process, machineHourRate: regionalMachineHourRate(s.process.machineHourRate, from, to) },
+    })),
+    overheadRate: regionalOverheadRate(model.overheadRate, from, to),
+  };
+}
+
+/**
+ * Overhead rate (on manufacturing cost) from the category config
+ */
+export function resolveOverheadRate(config: CategoryConfig | null): number {
+  return config?.overheadRange?.typical ?? DEFAULT_OVERHEAD_RATE;
+}
+
+/**
+ * Margin share of the Ex-Works price
+ * Uses the LLM's reasoned margin when it falls inside the category benchmark
+ * range (clamped otherwise), and the benchmark typical value when absent.
+ */
+export function resolveMarginRate(
+  config: CategoryConfig | null,
+  marginAnalysis?: MarginBreakdown,
+  benchmarkPercentages?: CostPercentages
+): number {
+  const benchmark = config?.industryBenchmarks?.marginPercentage;
+  const proposed = marginAnalysis?.percentage ?? benchmarkPercentages?.margin;
+
+  if (proposed !== undefined && proposed > 0 && proposed < 1) {
+    return benchmark ? Math.min(benchmark.max, Math.max(benchmark.min, proposed)) : proposed;
+  }
+
+  return benchmark?.typical ?? DEFAULT_MARGIN_RATE;
+}
+
+/**
+ * Share of overhead that is fixed (facility, admin) rather than volume-driven
+ */
+export function resolveFixedOverheadShare(config: CategoryConfig | null): number {
+  return config?.fixedOverheadShare ?? DEFAULT_FIXED_OVERHEAD_SHARE;
+}
+
+/**
+ * Labour learning rate per doubling of volume
+ */
+export function resolveLearningRate(config: CategoryConfig | null): number {
+  return config?.learningRate ?? DEFAULT_LEARNING_RATE;
+}
+
+/**
+ * Years of volume tooling is recovered over
+ */
+export function resolveToolingAmortizationYears(config: CategoryConfig | null): number {
+  return config?.toolingAmortizationYears ?? DEFAULT_TOOLING_AMORTIZATION_YEARS;
+}
+
+// ============ BUCKET CALCULATIONS ============
+
+/**
+ * Run-rate conversion cost per unit from machine time
+ */
+export function computeConversionCost(process: ProcessParameters): number {
+  return (process.machineHourRate * process.cycleTimeSeconds) / 3600 / process.unitsPerCycle;
+}
+
+/**
+ * Setup/changeover cost per unit: machine time lost to changeovers,
+ * amortized over the annual volume
+ */
+export function computeSetupCost(process: ProcessParameters, aum: number): number {
+  if (!process.setupHours || !process.runsPerYear || aum <= 0) return 0;
+  return (process.setupHours * process.runsPerYear * process.machineHourRate) / aum;
+}
+
+/**
+ * Sub-assembly conversion per finished unit
+ * Run-rate time scales with sub-assemblies per unit; each sub-assembly's
+ * changeovers are amortized over the finished-unit volume.
+ */
+export function computeSubAssemblyConversion(processes: SubAssemblyProcess[], aum: number): number {
+  return processes.reduce(
+    (sum, s) => sum + computeConversionCost(s.process) * s.quantity + computeSetupCost(s.process, aum),
+    0
+  );
+}
+
+/**
+ * Amortize tooling per unit at an annual volume
+ * Each tool is spread over its life in units or the amortization period's
+ * volume, whichever is smaller; without a volume or a life it cannot be
+ * amortized and carries no per-unit cost.
+ */
+export function computeToolingAmortization(
+  items: ToolingItem[],
+  aum: number,
+  amortizationYears: number = DEFAULT_TOOLING_AMORTIZATION_YEARS
+): ToolingBreakdown {
+  const periodVolume = aum > 0 && amortizationYears > 0 ? aum * amortizationYears : Infinity;
+
+  const lines: ToolingLine[] = items.map((item) => {
+    const lifeUnits = item.lifeShots ? item.lifeShots * (item.unitsPerShot ?? 1) : Infinity;
+    const amortizationQuantity = Math.min(lifeUnits, periodVolume);
+    return {
+      ...item,
+      amortizationQuantity: isFinite(amortizationQuantity) ? amortizationQuantity : 0,
+      perUnit: isFinite(amortizationQuantity) && amortizationQuantity > 0 ? item.cost / amortizationQuantity : 0,
+    };
+  });
+
+  const sum = (owner: ToolingItem["owner"], key: "perUnit" | "cost") =>
+    lines.filter((l) => l.owner === owner).reduce((total, l) => total + l[key], 0);
+
+  return {
+    supplierOwned: sum("supplier", "perUnit"),
+    buyerOwned: sum("buyer", "perUnit"),
+    oneTimeTotal: lines.reduce((total, l) => total + l.cost, 0),
+    buyerOneTime: sum("buyer", "cost"),
+    amortizationYears,
+    lines,
+  };
+}
+
+/**
+ * Learning-curve multiplier on labour minutes at a volume relative to the
+ * baseline the minutes were estimated at (Wright's law: each doubling of
+ * volume multiplies unit labour by learningRate)
+ */
+export function learningCurveFactor(aum: number, baselineAum: number, learningRate?: number): number {
+  if (!learningRate || learningRate >= 1 || aum <= 0 || baselineAum <= 0) return 1;
+  return Math.pow(aum / baselineAum, Math.log2(learningRate));
+}
+
+/**
+ * Labour cost per unit from operation minutes and hourly rates
+ */
+export function computeLabourCost(operations: LabourOperation[], learningFactor: number = 1): number {
+  return operations.reduce(
+    (sum, op) => sum + ((op.minutesPerUnit * learningFactor) / 60) * (op.hourlyRate ?? DEFAULT_HOURLY_RATES[op.skillLevel]),
+    0
+  );
+}
+
+/**
+ * Cost of a bucket implied by the LLM's benchmark percentages
+ * Only used when the engineering inputs for that bucket are missing
+ */
+function benchmarkCost(
+  percentages: CostPercentages | undefined,
+  bucket: BucketKey,
+  materialsTotal: number
+): number {
+  if (!percentages || !(percentages.rawMaterial > 0) || materialsTotal <= 0) return 0;
+  return (materialsTotal / percentages.rawMaterial) * (percentages[bucket] || 0);
+}
+
+interface DirectCosts {
+  materials: MaterialCostItem[];
+  packaging: PackagingCostItem[];
+  rawMaterial: number;
+  conversion: number;
+  setup: number;
+  labour: number;
+  labourMinutes: number;
+  packing: number;
+  costBasis: Record<BucketKey, CostBasis>;
+}
+
+/**
+ * Material, conversion, labour and packing cost per unit at an annual volume
+ */
+function computeDirectCosts(inputs: CostModelInputs, aum: number): DirectCosts {
+  const { process, labourOperations, benchmarkPercentages } = inputs;
+  const subAssemblyProcesses = inputs.subAssemblyProcesses ?? [];
+  const costBasis = {} as Record<BucketKey, CostBasis>;
+
+  const materials = inputs.materials.map((m) => applyPriceBreaks(m, aum));
+  const packaging = inputs.packaging.map((p) => ({ ...applyPriceBreaks(p, aum), level: p.level }));
+
+  const rawMaterial = materials.reduce((sum, m) => sum + m.totalCost, 0);
+
+  let conversion: number;
+  let setup = 0;
+  if (process || subAssemblyProcesses.length > 0) {
+    setup = process ? computeSetupCost(process, aum) : 0;
+    conversion = (process ? computeConversionCost(process) + setup : 0)
+      + computeSubAssemblyConversion(subAssemblyProcesses, aum);
+    costBasis.conversion = "engineered";
+  } else {
+    conversion = benchmarkCost(benchmarkPercentages, "conversion", rawMaterial);
+    costBasis.conversion = "benchmark";
+  }
+
+  let labour: number;
+  let labourMinutes = 0;
+  if (labourOperations.length > 0) {
+    const factor = learningCurveFactor(aum, inputs.aum, inputs.learningRate);
+    labour = computeLabourCost(labourOperations, factor);
+    labourMinutes = labourOperations.reduce((sum, op) => sum + op.minutesPerUnit, 0) * factor;
+    costBasis.labour = "engineered";
+  } else {
+    labour = benchmarkCost(benchmarkPercentages, "labour", rawMaterial);
+    costBasis.labour = "benchmark";
+  }
+
+  let packing: number;
+  if (packaging.length > 0) {
+    packing = packaging.reduce((sum, p) => sum + p.totalCost, 0);
+    costBasis.packing = "engineered";
+  } else {
+    packing = benchmarkCost(benchmarkPercentages, "packing", rawMaterial);
+    costBasis.packing = "benchmark";
+  }
+
+  return { materials, packaging, rawMaterial, conversion, setup, labour, labourMinutes, packing, costBasis };
+}
+
+/**
+ * Compute the Ex-Works breakdown from model inputs (pure, no I/O)
+ *
+ * `aum` defaults to the baseline volume in the inputs. At other volumes the
+ * model re-applies material price breaks, amortizes setup over the new volume,
+ * moves labour along the learning curve, spreads the fixed share of the
+ * baseline overhead pool over the new volume and re-amortizes tooling.
+ */
+export function computeExWorks(inputs: CostModelInputs, aum: number = inputs.aum): ExWorksCostBreakdown {
+  const { process, labourOperations, templates } = inputs;
+  const direct = computeDirectCosts(inputs, aum);
+  const { materials, packaging, rawMaterial, conversion, setup, labour, labourMinutes, packing, costBasis } = direct;
+  const money = !inputs.currency || inputs.currency === "USD" ? "$" : `${inputs.currency} `;
+
+  const manufacturingCost = rawMaterial + conversion + labour + packing;
+
+  // Fixed overhead is an annual pool sized at the baseline volume; only the
+  // variable share scales with the manufacturing cost at the target volume
+  const fixedShare = aum > 0 && inputs.aum > 0 ? Math.min(Math.max(inputs.fixedOverheadShare ?? 0, 0), 1) : 0;
+  let fixedOverhead = 0;
+  if (fixedShare > 0) {
+    const baseline = aum === inputs.aum ? direct : computeDirectCosts(inputs, inputs.aum);
+    const baselineManufacturing = baseline.rawMaterial + baseline.conversion + baseline.labour + baseline.packing;
+    fixedOverhead = (baselineManufacturing * inputs.overheadRate * fixedShare * inputs.aum) / aum;
+  }
+  const variableOverhead = manufacturingCost * inputs.overheadRate * (1 - fixedShare);
+  const overhead = fixedOverhead + variableOverhead;
+  costBasis.overhead = "engineered";
+
+  // Supplier-owned tooling is recovered in the piece price; buyer-owned tooling is paid up front
+  const toolingDetails = inputs.tooling && inputs.tooling.length > 0
+    ? computeToolingAmortization(inputs.tooling, aum, inputs.toolingAmortizationYears)
+    : undefined;
+  const tooling = toolingDetails?.supplierOwned ?? 0;
+
+  const costBeforeMargin = manufacturingCost + overhead + tooling;
+  const marginRate = Math.min(Math.max(inputs.marginRate, 0), 0.9);
+  const margin = costBeforeMargin * (marginRate / (1 - marginRate));
+  costBasis.margin = "engineered";
+
+  const totalExWorks = costBeforeMargin + margin;
+
+  const averageHourlyRate = labourMinutes > 0 ? (labour / labourMinutes) * 60 : undefined;
+
+  return {
+    rawMaterial,
+    conversion,
+    labour,
+    packing,
+    overhead,
+    margin,
+    tooling,
+    totalExWorks,
+
+    rawMaterialDetails: {
+      total: rawMaterial,
+      components: materials,
+      description: `Direct material costs for ${materials.length} components`,
+      negotiationPoints: ["Commodity price fluctuations", "Volume discounts", "Alternative suppliers"],
+    },
+
+    conversionDetails: templates?.conversionDetails
+      ? {
+        ...scaleBreakdown(templates.conversionDetails, conversion),
+        description: process
+          ? `${templates.conversionDetails.description ? `${templates.conversionDetails.description}. ` : ""}${money}${process.machineHourRate.toFixed(2)}/machine-hour × ${process.cycleTimeSeconds}s cycle ÷ ${process.unitsPerCycle} units/cycle${setup > 0 ? ` + ${money}${setup.toFixed(4)}/unit setup` : ""}`
+          : templates.conversionDetails.description,
+      }
+      : undefined,
+    labourDetails: templates?.labourDetails
+      ? {
+        ...scaleLabourBreakdown(templates.labourDetails, labour),
+        laborRate: averageHourlyRate ?? templates.labourDetails.laborRate,
+        unitsPerLaborHour: labourMinutes > 0 ? 60 / labourMinutes : templates.labourDetails.unitsPerLaborHour,
+      }
+      : undefined,
+    packingDetails: packaging.length > 0
+      ? buildPackingDetails(packaging, packing, templates?.packingDetails)
+      : templates?.packingDetails ? scaleBreakdown(templates.packingDetails, packing) : undefined,
+    overheadDetails: templates?.overheadDetails
+      ? scaleOverheadBreakdown(templates.overheadDetails, overhead, manufacturingCost > 0 ? overhead / manufacturingCost : inputs.overheadRate)
+      : undefined,
+    marginAnalysis: templates?.marginAnalysis
+      ? {
+        ...templates.marginAnalysis,
+        total: margin,
+        percentage: totalExWorks > 0 ? margin / totalExWorks : 0,
+      }
+      : undefined,
+    toolingDetails,
+
+    costBasis,
+  };
+}
+
+/**
+ * Derive cost percentages from a computed breakdown
+ */
+export function computeCostPercentages(breakdown: ExWorksCostBreakdown): CostPercentages {
+  const total = breakdown.totalExWorks || 1;
+  return {
+    rawMaterial: breakdown.rawMaterial / total,
+    conversion: breakdown.conversion / total,
+    labour: breakdown.labour / total,
+    packing: breakdown.packing / total,
+    overhead: breakdown.overhead / total,
+    margin: breakdown.margin / total,
+    tooling: (breakdown.tooling ?? 0) / total,
+  };
+}
+
+// ============ SUB-COMPONENT BREAKDOWNS ============
+
+/**
+ * Build the packing breakdown from priced packaging lines grouped by level
+ */
+function buildPackingDetails(
+  packaging: PackagingCostItem[],
+  total: number,
+  template?: PackingBreakdown
+): PackingBreakdown {
+  const subComponent = (level: PackagingLevel, name: string) => {
+    const lines = packaging.filter((p) => p.level === level);
+    const cost = lines.reduce((sum, p) => sum + p.totalCost, 0);
+    return {
+      name,
+      cost: Math.round(cost * 10000) / 10000,
+      percentage: total > 0 ? cost / total : 0,
+      description: lines.map((p) => p.component).join(", ") || undefined,
+    };
+  };
+
+  return {
+    total,
+    subComponents: {
+      primaryPackaging: subComponent("primary", "Primary Packaging"),
+      secondaryPackaging: subComponent("secondary", "Secondary Packaging"),
+      tertiaryPackaging: subComponent("tertiary", "Tertiary Packaging"),
+      labelsAndPrinting: subComponent("labels", "Labels & Printing"),
+    },
+    description: template?.description || `Priced packaging BOM (${packaging.length} items)`,
+    negotiationPoints: template?.negotiationPoints,
+  };
+}
+
+/**
+ * Scale a generic breakdown (conversion/packing) to match actual calculated cost
+ * Preserves percentages but adjusts absolute costs
+ */
+function scaleBreakdown<T extends { total: number; subComponents: Record<string, { cost: number; percentage: number; name: string; description?: string }> }>(
+  breakdown: T,
+  actualTotal: number
+): T {
+  const scaleFactor = actualTotal / (breakdown.total || 1);
+
+  const scaledSubComponents = Object.fromEntries(
+    Object.entries(breakdown.subComponents).map(([key, sub]) => [
+      key,
+      {
+        ...sub,
+        cost: Math.round(sub.cost * scaleFactor * 10000) / 10000,
+      }
+    ])
+  ) as T['subComponents'];
+
+  return {
+    ...breakdown,
+    total: actualTotal,
+    subComponents: scaledSubComponents,
+  };
+}
+
+/**
+ * Scale labour breakdown with additional labour-specific fields
+ */
+function scaleLabourBreakdown(breakdown: LabourBreakdown, actualTotal: number): LabourBreakdown {
+  const scaled = scaleBreakdown(breakdown, actualTotal);
+  return {
+    ...scaled,
+    laborRate: breakdown.laborRate,
+    unitsPerLaborHour: breakdown.unitsPerLaborHour,
+    automationLevel: breakdown.automationLevel,
+  };
+}
+
+/**
+ * Scale overhead breakdown and record the rate actually applied
+ */
+function scaleOverheadBreakdown(breakdown: OverheadBreakdown, actualTotal: number, overheadRate: number): OverheadBreakdown {
+  const scaled = scaleBreakdown(breakdown, actualTotal);
+  return {
+    ...scaled,
+    overheadRate,
+  };
+}
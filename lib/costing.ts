@@ -3,26 +3,75 @@
  */
 import { complete, completeWithStream, extractJSON, logProviderInfo } from "@/lib/llm";
 import { findMaterialPrice, searchSimilarProducts, saveHistoricalCost } from "@/lib/db";
+import {
+  applyYield,
+  ESTIMATE_PROVENANCE,
+  FALLBACK_PROVENANCE,
+  MATERIAL_LOOKUP_CONCURRENCY,
+  materialProvenance,
+  priceMaterialLine,
+  resolveLineYield,
+  UnitPrice,
+} from "@/lib/materials";
+import { MaterialProperties } from "@/lib/units";
+import { BASE_CURRENCY, createFxConverter, FxConverter, getFxRate, toReportingPrice } from "@/lib/fx";
+import {
+  computeExWorks,
+  computeCostPercentages,
+  resolveFixedOverheadShare,
+  localizeCostModel,
+  resolveLearningRate,
+  resolveMarginRate,
+  resolveOverheadRate,
+  resolveToolingAmortizationYears,
+} from "@/lib/cost-model";
+import { DEFAULT_COUNTRY, getRegionProfile } from "@/lib/regions";
+import { runCostSimulation } from "@/lib/simulation";
+import { runSensitivityAnalysis } from "@/lib/sensitivity";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { buildLandedCost } from "@/lib/landed-cost";
+import { checkCostStructure, validateAnalysis } from "@/lib/validation";
+import {
+  attachSubAssembly,
+  bomLeaves,
+  bomSubAssemblyProcesses,
+  isMultiLevelBom,
+  rollUpBom,
+} from "@/lib/bom";
 import {
   getPrompts,
   getPromptsAsync,
   buildCategoryListForClassification,
+  getCategoryConfig,
   CATEGORY_DEFINITIONS,
   DEFAULT_CATEGORY_ID,
 } from "@/lib/prompts";
 import {
   CostingPrompts,
+  CategoryConfig,
   ProductComponent,
   MaterialCostItem,
+  FxConversion,
   CostData,
   FullAnalysisResult,
   ExWorksCostBreakdown,
+  CostModelInputs,
+  CostSimulation,
+  SensitivityAnalysis,
+  QuoteVarianceReport,
+  LandedCostBreakdown,
+  FreightMode,
+  ShipmentParameters,
+  SubAssemblyReference,
+  BomNode,
+  PackagingCostItem,
   ConversionBreakdown,
   LabourBreakdown,
   PackingBreakdown,
   OverheadBreakdown,
   MarginBreakdown,
   ClassificationResult,
+  AnalysisWarning,
 } from "@/lib/prompts/types";
 
 // Log provider info once
@@ -50,6 +99,8 @@ export interface AnalysisResult {
   aumReasoning?: string;
   components: ProductComponent[];
   materialCosts: MaterialCostItem[];
+  // Indented BOM with per-sub-assembly roll-ups (multi-level BOMs only)
+  bom?: BomNode[];
   exWorksCostBreakdown: ExWorksCostBreakdown;
   costPercentages: {
     rawMaterial: number;
@@ -59,8 +110,24 @@ export interface AnalysisResult {
     overhead: number;
     margin: number;
   };
+  // Inputs of the bottom-up model, kept so the breakdown can be recomputed
+  costModel?: CostModelInputs;
+  // P10/P50/P90 unit cost and per-bucket distributions
+  simulation?: CostSimulation;
+  // Inputs ranked by their impact on totalExWorks (tornado)
+  sensitivity?: SensitivityAnalysis;
+  // Ex-Works extended to the destination on each Incoterm (when shipping data was estimated)
+  landedCost?: LandedCostBreakdown;
+  // What validation corrected or flagged in the LLM's cost structure
+  warnings: AnalysisWarning[];
   unitCost: number;
+  // Country of manufacture the labour, utility and overhead rates are for
+  country: string;
+  // Reporting currency every price was converted into
   currency: string;
+  // Date the FX rates were taken at (YYYY-MM-DD)
+  analysisDate: string;
+  fxRates?: FxConversion[];
   approvalStatus: "pending" | "approved" | "rejected";
 }
 
@@ -73,6 +140,7 @@ export interface ReportResult {
     unitCost?: number;
     costSavingOpportunities: string[];
     targetPrice?: number;
+    negotiationPoints?: string[];
   };
   approvalStatus: "approved";
   progress: number;
@@ -88,6 +156,33 @@ export interface ReportInput {
   exWorksCostBreakdown?: ExWorksCostBreakdown;
   aum?: number;
   totalCost?: number;
+  currency?: string;
+  quoteVariance?: QuoteVarianceReport;
+  costModel?: CostModelInputs; // Stored so the analysis can be re-costed at later prices
+  analysisDate?: string;
+}
+
+// Per-run settings for runAnalysis and runAnalysisWithProgress
+export interface AnalysisOptions {
+  currency?: string; // Reporting currency (ISO 4217), defaults to USD
+  country?: string;  // Country of manufacture (see lib/regions.ts), defaults to US
+  destinationCountry?: string; // Importing country for the landed cost, defaults to US
+  freightMode?: FreightMode;   // Main leg of the landed cost, defaults to ocean
+  category?: string;           // Category id (see lib/prompts/registry.ts); overrides the LLM classification
+}
+
+/**
+ * Category to cost with: the LLM classification, unless the caller set one
+ * The classified sub-category only applies within its own category.
+ */
+function resolveClassification(classification: ClassificationResult | null, category?: string) {
+  const overridden = !!category && category !== classification?.category;
+
+  return {
+    detectedCategory: category || classification?.category || DEFAULT_CATEGORY_ID,
+    detectedSubCategory: (!overridden && classification?.subCategory) || "general",
+    confidence: category ? 1 : classification?.confidence || 0.5,
+  };
 }
 
 /**
@@ -95,7 +190,8 @@ export interface ReportInput {
  */
 export async function runAnalysis(
   productDescription: string,
-  aum?: number
+  aum?: number,
+  options: AnalysisOptions = {}
 ): Promise<AnalysisResult> {
   // Build hierarchical category list for classification
   const categoryList = buildCategoryListForClassification();
@@ -111,10 +207,8 @@ export async function runAnalysis(
 
   const classification = extractJSON<ClassificationResult>(classifyResponse, "object");
 
-  // Use default category if classification fails
-  const detectedCategory = classification?.category || DEFAULT_CATEGORY_ID;
-  const detectedSubCategory = classification?.subCategory || "general";
-  const confidence = classification?.confidence || 0.5;
+  // Use default category if classification fails; a category set by the caller wins
+  const { detectedCategory, detectedSubCategory, confidence } = resolveClassification(classification, options.category);
 
   console.log(`Classified as: ${detectedCategory}/${detectedSubCategory} (${Math.round(confidence * 100)}% confidence)`);
 
@@ -146,113 +240,7 @@ export async function runAnalysis(
   console.log(`Detected: ${categoryDef?.name || detectedCategory} (${Math.round(confidence * 100)}%)`);
   console.log(`AUM: ${analysis.aum?.toLocaleString() || 'Not specified'}`);
 
-  // Normalize components
-  const components: ProductComponent[] = analysis.components.map((c) => ({
-    name: String(c.name || "Unknown"),
-    material: String(c.material || "unknown").toLowerCase(),
-    quantity: Number(c.quantity) || 0.001,
-    unit: String(c.unit || "kg").toLowerCase(),
-  }));
-
-  // Calculate material costs
-  const { materialCosts, materialsTotal } = await calculateMaterialCosts(components, prompts);
-
-  // Calculate Ex-Works breakdown from percentages
-  const estimatedUnitCost = analysis.estimatedUnitCost || 1.00;
-  const costPercentages = analysis.costPercentages || {
-    rawMaterial: 0.45,
-    conversion: 0.15,
-    labour: 0.10,
-    packing: 0.10,
-    overhead: 0.10,
-    margin: 0.10
-  };
-
-  // Use actual material cost if we have it, otherwise use estimate
-  const actualRawMaterialCost = materialsTotal > 0 ? materialsTotal : estimatedUnitCost * costPercentages.rawMaterial;
-
-  // Recalculate total based on actual raw material if available
-  const rawMaterialPercent = costPercentages.rawMaterial;
-  const totalFromMaterials = materialsTotal > 0 ? materialsTotal / rawMaterialPercent : estimatedUnitCost;
-
-  // Build Ex-Works breakdown with detailed sub-components
-  const conversionCost = totalFromMaterials * costPercentages.conversion;
-  const labourCost = totalFromMaterials * costPercentages.labour;
-  const packingCost = totalFromMaterials * costPercentages.packing;
-  const overheadCost = totalFromMaterials * costPercentages.overhead;
-  const marginCost = totalFromMaterials * costPercentages.margin;
-
-  const exWorksCostBreakdown: ExWorksCostBreakdown = {
-    rawMaterial: actualRawMaterialCost,
-    conversion: conversionCost,
-    labour: labourCost,
-    packing: packingCost,
-    overhead: overheadCost,
-    margin: marginCost,
-    totalExWorks: 0, // Will calculate
-
-    // Include raw material details with actual material costs
-    rawMaterialDetails: {
-      total: actualRawMaterialCost,
-      components: materialCosts,
-      description: `Direct material costs for ${components.length} ingredients`,
-      negotiationPoints: ["Commodity price fluctuations", "Volume discounts", "Alternative suppliers"]
-    },
-
-    // Include detailed breakdowns from LLM if available, or scale from percentages
-    conversionDetails: analysis.conversionDetails ? scaleBreakdown(analysis.conversionDetails, conversionCost) : undefined,
-    labourDetails: analysis.labourDetails ? scaleLabourBreakdown(analysis.labourDetails, labourCost) : undefined,
-    packingDetails: analysis.packingDetails ? scaleBreakdown(analysis.packingDetails, packingCost) : undefined,
-    overheadDetails: analysis.overheadDetails ? scaleOverheadBreakdown(analysis.overheadDetails, overheadCost) : undefined,
-    marginAnalysis: analysis.marginAnalysis ? {
-      ...analysis.marginAnalysis,
-      total: marginCost,
-      percentage: costPercentages.margin
-    } : undefined,
-  };
-
-  exWorksCostBreakdown.totalExWorks =
-    exWorksCostBreakdown.rawMaterial +
-    exWorksCostBreakdown.conversion +
-    exWorksCostBreakdown.labour +
-    exWorksCostBreakdown.packing +
-    exWorksCostBreakdown.overhead +
-    exWorksCostBreakdown.margin;
-
-  // Build detection message
-  const detectionMessage = analysis.subCategory
-    ? `Detected: **${categoryDef?.name || analysis.category}** → **${analysis.subCategory}** (${Math.round((analysis.confidence || 0.8) * 100)}% confidence). ${analysis.reasoning || ''}`
-    : `Detected: **${categoryDef?.name || analysis.category}** (${Math.round((analysis.confidence || 0.8) * 100)}% confidence). ${analysis.reasoning || ''}`;
-
-  return {
-    success: true,
-    category: analysis.category,
-    categoryName: categoryDef?.name || analysis.category,
-    subCategory: analysis.subCategory || "",
-    detectionMessage,
-    productDescription,
-
-    // LLM-generated analysis context for display
-    analysisContext: analysis.analysisContext || productDescription,
-
-    // AUM
-    aum: analysis.aum,
-    aumReasoning: analysis.aumReasoning,
-
-    // Components
-    components,
-    materialCosts,
-
-    // Ex-Works breakdown
-    exWorksCostBreakdown,
-    costPercentages,
-
-    // Summary
-    unitCost: exWorksCostBreakdown.totalExWorks,
-    currency: analysis.currency || "USD",
-
-    approvalStatus: "pending",
-  };
+  return buildAnalysisResult(productDescription, analysis, prompts, options, categoryDef?.name, aum);
 }
 
 // Progress callback type for streaming updates
@@ -268,7 +256,8 @@ export type ProgressCallback = (
 export async function runAnalysisWithProgress(
   productDescription: string,
   aum?: number,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: AnalysisOptions = {}
 ): Promise<AnalysisResult> {
   const emit = async (step: string, percent: number, details?: string) => {
     if (onProgress) {
@@ -290,9 +279,7 @@ export async function runAnalysisWithProgress(
   );
 
   const classification = extractJSON<ClassificationResult>(classifyResponse, "object");
-  const detectedCategory = classification?.category || DEFAULT_CATEGORY_ID;
-  const detectedSubCategory = classification?.subCategory || "general";
-  const confidence = classification?.confidence || 0.5;
+  const { detectedCategory, detectedSubCategory, confidence } = resolveClassification(classification, options.category);
 
   console.log(`Classified as: ${detectedCategory}/${detectedSubCategory} (${Math.round(confidence * 100)}% confidence)`);
 
@@ -333,104 +320,254 @@ export async function runAnalysisWithProgress(
   console.log(`Detected: ${categoryDef?.name || detectedCategory} (${Math.round(confidence * 100)}%)`);
   console.log(`AUM: ${analysis.aum?.toLocaleString() || 'Not specified'}`);
 
-  // Normalize components
-  const components: ProductComponent[] = analysis.components.map((c) => ({
-    name: String(c.name || "Unknown"),
-    material: String(c.material || "unknown").toLowerCase(),
-    quantity: Number(c.quantity) || 0.001,
-    unit: String(c.unit || "kg").toLowerCase(),
-  }));
+  return buildAnalysisResult(productDescription, analysis, prompts, options, categoryDef?.name, aum, emit);
+}
 
-  // STEP 4: Calculate material costs
-  await emit("Pricing materials", 60, `Processing ${components.length} components...`);
-  const { materialCosts, materialsTotal } = await calculateMaterialCosts(components, prompts);
-
-  await emit("Building cost breakdown", 80, "Calculating Ex-Works structure...");
-
-  // Calculate Ex-Works breakdown from percentages
-  const estimatedUnitCost = analysis.estimatedUnitCost || 1.00;
-  const costPercentages = analysis.costPercentages || {
-    rawMaterial: 0.45,
-    conversion: 0.15,
-    labour: 0.10,
-    packing: 0.10,
-    overhead: 0.10,
-    margin: 0.10
-  };
+/**
+ * Price the BOM and packaging, then build the Ex-Works breakdown bottom-up
+ * Shared by runAnalysis and runAnalysisWithProgress; every price is converted
+ * into the reporting currency at today's rates and every rate is localized to
+ * the country of manufacture
+ */
+async function buildAnalysisResult(
+  productDescription: string,
+  analysis: DetailedAnalysisResult,
+  prompts: CostingPrompts,
+  options: AnalysisOptions,
+  categoryName?: string,
+  requestedAum?: number,
+  emit?: (step: string, percent: number, details?: string) => Promise<void>
+): Promise<AnalysisResult> {
+  const categoryConfig = await getCategoryConfig(analysis.category);
 
-  const actualRawMaterialCost = materialsTotal > 0 ? materialsTotal : estimatedUnitCost * costPercentages.rawMaterial;
-  const rawMaterialPercent = costPercentages.rawMaterial;
-  const totalFromMaterials = materialsTotal > 0 ? materialsTotal / rawMaterialPercent : estimatedUnitCost;
-
-  const conversionCost = totalFromMaterials * costPercentages.conversion;
-  const labourCost = totalFromMaterials * costPercentages.labour;
-  const packingCost = totalFromMaterials * costPercentages.packing;
-  const overheadCost = totalFromMaterials * costPercentages.overhead;
-  const marginCost = totalFromMaterials * costPercentages.margin;
-
-  await emit("Finalizing breakdown", 90, "Building Ex-Works structure...");
-
-  const exWorksCostBreakdown: ExWorksCostBreakdown = {
-    rawMaterial: actualRawMaterialCost,
-    conversion: conversionCost,
-    labour: labourCost,
-    packing: packingCost,
-    overhead: overheadCost,
-    margin: marginCost,
-    totalExWorks: 0,
-
-    rawMaterialDetails: {
-      total: actualRawMaterialCost,
-      components: materialCosts,
-      description: `Direct material costs for ${components.length} ingredients`,
-      negotiationPoints: ["Commodity price fluctuations", "Volume discounts", "Alternative suppliers"]
-    },
+  // Validate the LLM's cost structure; sub-assembly lines are rolled up, only leaves are priced
+  const validated = validateAnalysis(analysis, categoryConfig, requestedAum);
+  const { components, packagingComponents } = validated;
+  const leaves = bomLeaves(components);
 
-    conversionDetails: analysis.conversionDetails ? scaleBreakdown(analysis.conversionDetails, conversionCost) : undefined,
-    labourDetails: analysis.labourDetails ? scaleLabourBreakdown(analysis.labourDetails, labourCost) : undefined,
-    packingDetails: analysis.packingDetails ? scaleBreakdown(analysis.packingDetails, packingCost) : undefined,
-    overheadDetails: analysis.overheadDetails ? scaleOverheadBreakdown(analysis.overheadDetails, overheadCost) : undefined,
-    marginAnalysis: analysis.marginAnalysis ? {
-      ...analysis.marginAnalysis,
-      total: marginCost,
-      percentage: costPercentages.margin
-    } : undefined,
-  };
+  const fx = createFxConverter(options.currency);
+  const country = (options.country || DEFAULT_COUNTRY).toUpperCase();
+  if (!getRegionProfile(country)) {
+    throw new Error(`Unknown country of manufacture: ${country}`);
+  }
+
+  // Labour, machine rates and LLM estimates are in USD
+  const analysisDate = fx.asOf.toISOString().slice(0, 10);
+  const baseRate = await fx.rateFor(BASE_CURRENCY);
+  if (baseRate === undefined) {
+    throw new Error(`No ${BASE_CURRENCY} to ${fx.currency} exchange rate on or before ${analysisDate}`);
+  }
 
-  exWorksCostBreakdown.totalExWorks =
-    exWorksCostBreakdown.rawMaterial +
-    exWorksCostBreakdown.conversion +
-    exWorksCostBreakdown.labour +
-    exWorksCostBreakdown.packing +
-    exWorksCostBreakdown.overhead +
-    exWorksCostBreakdown.margin;
+  // Calculate material and packaging costs; BOM lines are bought at their gross quantity
+  await emit?.("Pricing materials", 60, `Processing ${leaves.length + packagingComponents.length} components...`);
+  const [{ materialCosts }, { materialCosts: packagingCosts }] = await Promise.all([
+    calculateMaterialCosts(leaves, prompts, fx, categoryConfig),
+    calculateMaterialCosts(packagingComponents, prompts, fx),
+  ]);
+  const packaging: PackagingCostItem[] = packagingCosts.map((item) => ({
+    ...item,
+    level: packagingComponents.find((p) => p.name === item.component)?.level || "primary",
+  }));
 
-  await emit("Complete", 100, `Unit cost: $${exWorksCostBreakdown.totalExWorks.toFixed(4)}`);
+  await emit?.("Building cost breakdown", 80, "Calculating Ex-Works structure...");
+
+  // Resolve engineering rates
+  const { process, costPercentages: benchmarkPercentages } = validated;
+
+  // LLM process and overhead rates describe a US plant; localize to the country
+  const costModel: CostModelInputs = await localizeCostModel({
+    aum: validated.aum,
+    materials: materialCosts,
+    packaging,
+    process: process && { ...process, machineHourRate: process.machineHourRate * baseRate },
+    subAssemblyProcesses: bomSubAssemblyProcesses(components).map((s) => ({
+      ...s,
+      process: { ...s.process, machineHourRate: s.process.machineHourRate * baseRate },
+    })),
+    labourOperations: validated.labourOperations,
+    tooling: validated.tooling.map((t) => ({ ...t, cost: t.cost * baseRate })),
+    toolingAmortizationYears: resolveToolingAmortizationYears(categoryConfig),
+    overheadRate: resolveOverheadRate(categoryConfig),
+    marginRate: resolveMarginRate(categoryConfig, analysis.marginAnalysis, benchmarkPercentages),
+    fixedOverheadShare: resolveFixedOverheadShare(categoryConfig),
+    learningRate: resolveLearningRate(categoryConfig),
+    benchmarkPercentages,
+    currency: fx.currency,
+    templates: {
+      conversionDetails: analysis.conversionDetails,
+      labourDetails: analysis.labourDetails,
+      packingDetails: analysis.packingDetails,
+      overheadDetails: analysis.overheadDetails,
+      marginAnalysis: analysis.marginAnalysis,
+    },
+  }, country, baseRate);
+
+  await emit?.("Finalizing breakdown", 90, "Building Ex-Works structure...");
+
+  // Build Ex-Works breakdown from engineering inputs; percentages are derived
+  const exWorksCostBreakdown = computeExWorks(costModel);
+  const costPercentages = computeCostPercentages(exWorksCostBreakdown);
+  const warnings = [
+    ...validated.warnings,
+    ...checkCostStructure(exWorksCostBreakdown, costPercentages, categoryConfig, (Number(analysis.estimatedUnitCost) || 0) * baseRate),
+  ];
+  const pricedMaterials = exWorksCostBreakdown.rawMaterialDetails?.components || materialCosts;
+  const bom = isMultiLevelBom(components)
+    ? rollUpBom(components, pricedMaterials, costModel.subAssemblyProcesses ?? [], costModel.aum)
+    : undefined;
+
+  // Uncertainty bands from sampling the model inputs
+  await emit?.("Simulating uncertainty", 95, "Sampling price and rate ranges...");
+  const simulation = runCostSimulation(costModel, { config: categoryConfig });
+  const sensitivity = runSensitivityAnalysis(costModel);
+
+  // Landed cost on each Incoterm, when the LLM estimated the shipped weight
+  const landedCost = analysis.shipment && Number(analysis.shipment.unitWeightKg) > 0
+    ? await buildLandedCost(costModel, exWorksCostBreakdown, {
+        destinationCountry: options.destinationCountry || DEFAULT_COUNTRY,
+        mode: options.freightMode || "ocean",
+        unitWeightKg: Number(analysis.shipment.unitWeightKg) || 0,
+        unitVolumeM3: Number(analysis.shipment.unitVolumeM3) || 0,
+        hsCode: analysis.shipment.hsCode ? String(analysis.shipment.hsCode) : undefined,
+      }, fx.asOf)
+    : undefined;
+
+  await emit?.("Complete", 100, `Unit cost: ${fx.currency} ${exWorksCostBreakdown.totalExWorks.toFixed(4)}`);
 
+  // Build detection message
   const detectionMessage = analysis.subCategory
-    ? `Detected: **${categoryDef?.name || analysis.category}** → **${analysis.subCategory}** (${Math.round((analysis.confidence || 0.8) * 100)}% confidence). ${analysis.reasoning || ''}`
-    : `Detected: **${categoryDef?.name || analysis.category}** (${Math.round((analysis.confidence || 0.8) * 100)}% confidence). ${analysis.reasoning || ''}`;
+    ? `Detected: **${categoryName || analysis.category}** → **${analysis.subCategory}** (${Math.round((analysis.confidence || 0.8) * 100)}% confidence). ${analysis.reasoning || ''}`
+    : `Detected: **${categoryName || analysis.category}** (${Math.round((analysis.confidence || 0.8) * 100)}% confidence). ${analysis.reasoning || ''}`;
 
   return {
     success: true,
     category: analysis.category,
-    categoryName: categoryDef?.name || analysis.category,
+    categoryName: categoryName || analysis.category,
     subCategory: analysis.subCategory || "",
     detectionMessage,
     productDescription,
+
+    // LLM-generated analysis context for display
     analysisContext: analysis.analysisContext || productDescription,
+
+    // AUM
     aum: analysis.aum,
     aumReasoning: analysis.aumReasoning,
+
+    // Components (priced at the baseline volume's price breaks)
     components,
-    materialCosts,
+    materialCosts: pricedMaterials,
+    bom,
+
+    // Ex-Works breakdown
     exWorksCostBreakdown,
     costPercentages,
+    costModel,
+    simulation,
+    sensitivity,
+    landedCost,
+
+    // Corrections and outliers in the LLM's cost structure
+    warnings,
+
+    // Summary
     unitCost: exWorksCostBreakdown.totalExWorks,
-    currency: analysis.currency || "USD",
+    country,
+    currency: fx.currency,
+    analysisDate,
+    fxRates: fx.conversions(),
+
     approvalStatus: "pending",
   };
 }
 
+// Input for costing one sub-assembly of a completed analysis on its own
+export interface SubAssemblyInput {
+  productDescription: string; // Parent product
+  category?: string;          // Parent category, for the simulation spreads
+  components: ProductComponent[];
+  costModel: CostModelInputs;
+  componentId: string;
+  shipment?: ShipmentParameters; // Re-price the landed cost when the analysis has one
+}
+
+export interface SubAssemblyResult {
+  success: boolean;
+  subAssembly: SubAssemblyReference;
+  components: ProductComponent[];
+  bom: BomNode[];
+  costModel: CostModelInputs;
+  materialCosts: MaterialCostItem[];
+  exWorksCostBreakdown: ExWorksCostBreakdown;
+  costPercentages: AnalysisResult["costPercentages"];
+  simulation: CostSimulation;
+  sensitivity: SensitivityAnalysis;
+  landedCost?: LandedCostBreakdown;
+  unitCost: number;
+}
+
+/**
+ * Should-cost a sub-assembly as its own analysis and reference it from the
+ * parent BOM, which then buys it in at the sub-assembly's Ex-Works price
+ */
+export async function costSubAssembly(input: SubAssemblyInput): Promise<SubAssemblyResult> {
+  const { costModel: parentModel, componentId } = input;
+  const node = input.components.find((c) => c.id === componentId);
+  const children = input.components.filter((c) => c.parentId === componentId);
+
+  if (!node || children.length === 0) {
+    throw new Error(`BOM line ${componentId} is not a sub-assembly`);
+  }
+
+  const description = `${node.name} (sub-assembly of ${input.productDescription}), made from: ${children
+    .map((c) => `${c.quantityPerParent ?? c.quantity} ${c.unit} ${c.name} (${c.material})`)
+    .join(", ")}`;
+  const volume = Math.round(parentModel.aum * node.quantity) || undefined;
+
+  console.log(`Costing sub-assembly ${node.name} as its own analysis...`);
+  const analysis = await runAnalysis(description, volume, {
+    currency: parentModel.currency,
+    country: parentModel.country,
+  });
+
+  const subAssembly: SubAssemblyReference = {
+    productDescription: description,
+    unitCost: analysis.unitCost,
+    currency: analysis.currency,
+    rawMaterial: analysis.exWorksCostBreakdown.rawMaterial,
+    conversion: analysis.exWorksCostBreakdown.conversion,
+    analysisDate: analysis.analysisDate,
+  };
+
+  const currency = parentModel.currency || BASE_CURRENCY;
+  const fx = await getFxRate(subAssembly.currency, currency, new Date(analysis.analysisDate));
+  if (!fx) {
+    throw new Error(`No ${subAssembly.currency} to ${currency} exchange rate on or before ${analysis.analysisDate}`);
+  }
+
+  const { components, costModel } = attachSubAssembly(parentModel, input.components, componentId, subAssembly, fx.rate);
+  const exWorksCostBreakdown = computeExWorks(costModel);
+  const materialCosts = exWorksCostBreakdown.rawMaterialDetails?.components || costModel.materials;
+  const categoryConfig = await getCategoryConfig(input.category || DEFAULT_CATEGORY_ID);
+
+  return {
+    success: true,
+    subAssembly,
+    components,
+    bom: rollUpBom(components, materialCosts, costModel.subAssemblyProcesses ?? [], costModel.aum),
+    costModel,
+    materialCosts,
+    exWorksCostBreakdown,
+    costPercentages: computeCostPercentages(exWorksCostBreakdown),
+    simulation: runCostSimulation(costModel, { config: categoryConfig }),
+    sensitivity: runSensitivityAnalysis(costModel),
+    landedCost: input.shipment
+      ? await buildLandedCost(costModel, exWorksCostBreakdown, input.shipment)
+      : undefined,
+    unitCost: exWorksCostBreakdown.totalExWorks,
+  };
+}
+
 /**
  * Generate approval report for a completed analysis
  */
@@ -461,6 +598,8 @@ export async function generateApprovalReport(currentState: ReportInput): Promise
     totalCost: currentState.totalCost ?? currentState.exWorksCostBreakdown?.totalExWorks ?? 0,
     exWorksCostBreakdown: currentState.exWorksCostBreakdown,
     aum: currentState.aum,
+    currency: currentState.currency,
+    quoteVariance: currentState.quoteVariance,
   };
 
   console.log("Generating report...");
@@ -494,6 +633,9 @@ export async function generateApprovalReport(currentState: ReportInput): Promise
         materials: currentState.materialCosts,
         components: currentState.components,
         aum: currentState.aum,
+        costModel: currentState.costModel,
+        currency: currentState.currency,
+        analysisDate: currentState.analysisDate,
       },
     });
   } catch (e) {
@@ -509,6 +651,7 @@ export async function generateApprovalReport(currentState: ReportInput): Promise
       unitCost: currentState.exWorksCostBreakdown?.totalExWorks,
       costSavingOpportunities,
       targetPrice,
+      negotiationPoints: currentState.quoteVariance?.negotiationPoints,
     },
     approvalStatus: "approved",
     progress: 100,
@@ -517,29 +660,41 @@ export async function generateApprovalReport(currentState: ReportInput): Promise
 
 /**
  * Calculate material costs for components
+ * BOM lines pass the category config (null when the category has none) and
+ * are bought at their gross quantity; packaging passes none and is priced net
  */
 async function calculateMaterialCosts(
   components: ProductComponent[],
-  prompts: CostingPrompts
+  prompts: CostingPrompts,
+  fx: FxConverter,
+  config?: CategoryConfig | null
 ): Promise<{ materialCosts: MaterialCostItem[]; materialsTotal: number }> {
   const materialCosts: MaterialCostItem[] = [];
   const unknownMaterials: ProductComponent[] = [];
 
-  // First pass: look up known materials in DB
-  for (const component of components) {
-    const materialPrice = await findMaterialPrice(component.material);
+  const priceLine = (component: ProductComponent, price: UnitPrice, properties?: MaterialProperties) =>
+    config === undefined
+      ? priceMaterialLine(component, price, properties)
+      : applyYield(priceMaterialLine(component, price, properties), resolveLineYield(component, config));
+
+  // LLM estimates are in USD, which buildAnalysisResult has checked converts
+  const toReporting = async (price: UnitPrice) => (await toReportingPrice(price, fx)) || price;
 
-    if (materialPrice) {
-      const totalCost = component.quantity * materialPrice.pricePerUnit;
-      materialCosts.push({
-        component: component.name,
-        material: component.material,
-        quantity: component.quantity,
-        unit: materialPrice.unit,
-        pricePerUnit: materialPrice.pricePerUnit,
-        totalCost: Math.round(totalCost * 10000) / 10000, // 4 decimal places for unit costs
-      });
+  // First pass: look up known materials in DB, several lines at a time
+  const lookups = await mapWithConcurrency(components, MATERIAL_LOOKUP_CONCURRENCY, async (component) => {
+    const materialPrice = await findMaterialPrice(component.material);
+    const price = materialPrice && await toReportingPrice(materialPrice, fx);
+    return { component, materialPrice, price };
+  });
+
+  for (const { component, materialPrice, price } of lookups) {
+    if (materialPrice && price) {
+      // Convert the BOM quantity into the unit the price is quoted in
+      materialCosts.push(priceLine(component, { ...price, provenance: materialProvenance(materialPrice, fx.asOf) }, materialPrice));
     } else {
+      if (materialPrice) {
+        console.warn(`No ${materialPrice.currency} to ${fx.currency} rate for ${component.material}, estimating instead`);
+      }
       unknownMaterials.push(component);
     }
   }
@@ -556,38 +711,24 @@ async function calculateMaterialCosts(
 
     if (estimates) {
       for (const component of unknownMaterials) {
-        let estimate = estimates[component.name]
+        const estimate = estimates[component.name]
           || estimates[component.material]
           || Object.entries(estimates).find(([key]) =>
             key.toLowerCase() === component.name.toLowerCase() ||
             key.toLowerCase() === component.material.toLowerCase()
-          )?.[1]
-          || { pricePerUnit: 1.00, unit: component.unit };
-
-        const totalCost = component.quantity * estimate.pricePerUnit;
-        materialCosts.push({
-          component: component.name,
-          material: component.material,
-          quantity: component.quantity,
-          unit: estimate.unit || component.unit,
-          pricePerUnit: estimate.pricePerUnit,
-          totalCost: Math.round(totalCost * 10000) / 10000,
-        });
+          )?.[1];
+        const price: UnitPrice = estimate
+          ? { ...estimate, provenance: ESTIMATE_PROVENANCE }
+          : { pricePerUnit: 1.00, unit: component.unit, provenance: FALLBACK_PROVENANCE };
+
+        materialCosts.push(priceLine(component, await toReporting(price)));
       }
     } else {
       // Fallback: if LLM fails to estimate, add all unknown materials with default pricing
       console.warn("LLM failed to estimate materials, using fallback pricing");
       for (const component of unknownMaterials) {
         const fallbackPrice = 1.00; // Default $1/unit
-        const totalCost = component.quantity * fallbackPrice;
-        materialCosts.push({
-          component: component.name,
-          material: component.material,
-          quantity: component.quantity,
-          unit: component.unit,
-          pricePerUnit: fallbackPrice,
-          totalCost: Math.round(totalCost * 10000) / 10000,
-        });
+        materialCosts.push(priceLine(component, await toReporting({ pricePerUnit: fallbackPrice, unit: component.unit, provenance: FALLBACK_PROVENANCE })));
       }
     }
   }
@@ -595,56 +736,3 @@ async function calculateMaterialCosts(
   const materialsTotal = materialCosts.reduce((sum, m) => sum + m.totalCost, 0);
   return { materialCosts, materialsTotal };
 }
-
-// Helper functions to scale LLM-provided breakdowns to actual calculated costs
-
-/**
- * Scale a generic breakdown (conversion/packing) to match actual calculated cost
- * Preserves percentages but adjusts absolute costs
- */
-function scaleBreakdown<T extends { total: number; subComponents: Record<string, { cost: number; percentage: number; name: string; description?: string }> }>(
-  breakdown: T,
-  actualTotal: number
-): T {
-  const scaleFactor = actualTotal / (breakdown.total || 1);
-
-  const scaledSubComponents = Object.fromEntries(
-    Object.entries(breakdown.subComponents).map(([key, sub]) => [
-      key,
-      {
-        ...sub,
-        cost: Math.round(sub.cost * scaleFactor * 10000) / 10000,
-      }
-    ])
-  ) as T['subComponents'];
-
-  return {
-    ...breakdown,
-    total: actualTotal,
-    subComponents: scaledSubComponents,
-  };
-}
-
-/**
- * Scale labour breakdown with additional labour-specific fields
- */
-function scaleLabourBreakdown(breakdown: LabourBreakdown, actualTotal: number): LabourBreakdown {
-  const scaled = scaleBreakdown(breakdown, actualTotal);
-  return {
-    ...scaled,
-    laborRate: breakdown.laborRate,
-    unitsPerLaborHour: breakdown.unitsPerLaborHour,
-    automationLevel: breakdown.automationLevel,
-  };
-}
-
-/**
- * Scale overhead breakdown with overhead rate
- */
-function scaleOverheadBreakdown(breakdown: OverheadBreakdown, actualTotal: number): OverheadBreakdown {
-  const scaled = scaleBreakdown(breakdown, actualTotal);
-  return {
-    ...scaled,
-    overheadRate: breakdown.overheadRate,
-  };
-}
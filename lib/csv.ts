@@ -0,0 +1,81 @@
+/**
+ * Minimal CSV parsing for local data imports, and writing for exports
+ *
+ * Handles quoted fields (with "" escapes and embedded commas or newlines)
+ * and CRLF line endings. The first row is the header; keys are trimmed and
+ * lower-cased so column order and capitalization do not matter.
+ */
+
+/**
+ * Split CSV text into rows of fields
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/**
+ * Parse CSV text into records keyed by the (lower-cased) header
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return rows.map((row) =>
+    Object.fromEntries(keys.map((key, i) => [key, (row[i] ?? "").trim()]))
+  );
+}
+
+/**
+ * Quote a field when it contains a comma, quote or line break
+ */
+function formatCsvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows (header first) as CSV text
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(formatCsvField).join(",")).join("\r\n") + "\r\n";
+}
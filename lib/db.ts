@@ -4,8 +4,9 @@
  */
 
 import prisma from "./prisma";
+import { toPriceBreaks } from "./materials";
+import type { PriceBreak } from "./prompts/types";
 import {
-  findMaterialBySemantics,
   findLaborRateBySemantics,
   findSimilarHistoricalCosts,
   searchMaterialsBySemantics,
@@ -23,8 +24,31 @@ export interface MaterialPrice {
   supplier?: string;
   currency: string;
   lastUpdated: Date;
+  // Physical properties for unit conversion (see lib/units.ts)
+  density?: number;   // kg/m3
+  thickness?: number; // m
+  width?: number;     // m
+  unitMass?: number;  // kg per piece
+  priceBreaks?: PriceBreak[]; // Volume tiers by annual quantity in `unit`
+  // Formula pricing: pricePerUnit = index value x indexFactor + indexAdder
+  indexCode?: string;
+  indexFactor?: number;
+  indexUnit?: string; // Index unit indexFactor was set for
+  indexAdder?: number;
+  indexDate?: Date;   // Effective date of the index value pricePerUnit was computed from
 }
 
+export type MaterialMatchType = "exact" | "partial" | "semantic";
+
+// Material price together with how it was matched to the requested name
+export interface MaterialPriceMatch extends MaterialPrice {
+  matchType: MaterialMatchType;
+  similarity?: number; // Semantic matches only (0-1)
+}
+
+// Material on file near a requested material; similarity is absent without semantic search
+export type MaterialNeighbour = MaterialPrice & { similarity?: number };
+
 export interface LaborRate {
   id: string;
   processType: string;
@@ -34,6 +58,34 @@ export interface LaborRate {
   lastUpdated: Date;
 }
 
+export interface FxRate {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number; // Units of quoteCurrency per 1 baseCurrency
+  effectiveDate: Date;
+  source?: string;
+}
+
+export interface CommodityIndexValue {
+  id: string;
+  indexCode: string;
+  value: number;
+  unit: string;       // Unit the index is quoted per (e.g. "t")
+  currency: string;
+  effectiveDate: Date;
+  source?: string;
+}
+
+export interface TariffRate {
+  id: string;
+  hsCode: string;         // HS prefix (4-10 digits); the longest matching prefix wins
+  importCountry: string;  // ISO country code, or "EU" for the customs union
+  originCountry?: string; // Country-specific rate (e.g. additional duties); MFN when absent
+  dutyRate: number;       // Ad-valorem rate on the customs value (0.05 = 5%)
+  description?: string;
+}
+
 export interface HistoricalCost {
   id: string;
   productName: string;
@@ -42,6 +94,10 @@ export interface HistoricalCost {
   breakdown: Record<string, unknown>;
   createdAt: Date;
   userId?: string;
+  // Last re-costing against current prices (see lib/recost.ts)
+  recostedUnitCost?: number;
+  recostedAt?: Date;
+  recostDrift?: Record<string, unknown>;
 }
 
 // Prisma result types (before client generation, these match the expected shape)
@@ -53,6 +109,16 @@ interface PrismaMaterialPriceResult {
   supplier: string | null;
   currency: string;
   lastUpdated: Date;
+  density: number | null;
+  thickness: number | null;
+  width: number | null;
+  unitMass: number | null;
+  priceBreaks: unknown; // Json
+  indexCode: string | null;
+  indexFactor: number | null;
+  indexUnit: string | null;
+  indexAdder: unknown; // Decimal type
+  indexDate: Date | null;
 }
 
 interface PrismaLaborRateResult {
@@ -64,6 +130,34 @@ interface PrismaLaborRateResult {
   lastUpdated: Date;
 }
 
+interface PrismaFxRateResult {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: unknown; // Decimal type
+  effectiveDate: Date;
+  source: string | null;
+}
+
+interface PrismaCommodityIndexResult {
+  id: string;
+  indexCode: string;
+  value: unknown; // Decimal type
+  unit: string;
+  currency: string;
+  effectiveDate: Date;
+  source: string | null;
+}
+
+interface PrismaTariffRateResult {
+  id: string;
+  hsCode: string;
+  importCountry: string;
+  originCountry: string | null;
+  dutyRate: unknown; // Decimal type
+  description: string | null;
+}
+
 interface PrismaHistoricalCostResult {
   id: string;
   productName: string;
@@ -72,55 +166,61 @@ interface PrismaHistoricalCostResult {
   breakdown: unknown; // Json type
   createdAt: Date;
   userId: string | null;
+  recostedUnitCost: unknown; // Decimal type
+  recostedAt: Date | null;
+  recostDrift: unknown; // Json type
 }
 
 // ============ SEEDED DATA (for initial database population) ============
+// Index-linked seed prices are computed from the latest seeded index values
+const INDEX_SEED_DATE = new Date("2026-07-01");
+
 export const SEED_MATERIAL_PRICES: Omit<MaterialPrice, "id" | "lastUpdated">[] = [
   // Wood materials
-  { materialName: "oak wood", pricePerUnit: 12.5, unit: "board_foot", currency: "USD" },
-  { materialName: "pine wood", pricePerUnit: 4.5, unit: "board_foot", currency: "USD" },
-  { materialName: "walnut wood", pricePerUnit: 18.0, unit: "board_foot", currency: "USD" },
-  { materialName: "maple wood", pricePerUnit: 8.5, unit: "board_foot", currency: "USD" },
-  { materialName: "cherry wood", pricePerUnit: 14.0, unit: "board_foot", currency: "USD" },
-  { materialName: "plywood", pricePerUnit: 45.0, unit: "sheet", currency: "USD" },
-  { materialName: "mdf", pricePerUnit: 35.0, unit: "sheet", currency: "USD" },
+  { materialName: "oak wood", pricePerUnit: 12.5, unit: "board_foot", currency: "USD", density: 750 },
+  { materialName: "pine wood", pricePerUnit: 4.5, unit: "board_foot", currency: "USD", density: 510 },
+  { materialName: "walnut wood", pricePerUnit: 18.0, unit: "board_foot", currency: "USD", density: 640 },
+  { materialName: "maple wood", pricePerUnit: 8.5, unit: "board_foot", currency: "USD", density: 705 },
+  { materialName: "cherry wood", pricePerUnit: 14.0, unit: "board_foot", currency: "USD", density: 580 },
+  { materialName: "plywood", pricePerUnit: 45.0, unit: "sheet", currency: "USD", density: 600, thickness: 0.019 },
+  { materialName: "mdf", pricePerUnit: 35.0, unit: "sheet", currency: "USD", density: 750, thickness: 0.019 },
   // Metals
-  { materialName: "steel", pricePerUnit: 0.85, unit: "lb", currency: "USD" },
-  { materialName: "aluminum", pricePerUnit: 1.2, unit: "lb", currency: "USD" },
-  { materialName: "stainless steel", pricePerUnit: 2.5, unit: "lb", currency: "USD" },
-  { materialName: "copper", pricePerUnit: 4.5, unit: "lb", currency: "USD" },
-  { materialName: "brass", pricePerUnit: 3.8, unit: "lb", currency: "USD" },
-  { materialName: "iron", pricePerUnit: 0.45, unit: "lb", currency: "USD" },
+  { materialName: "steel", pricePerUnit: 0.85, unit: "lb", currency: "USD", density: 7850, priceBreaks: [{ minQuantity: 100000, pricePerUnit: 0.78 }, { minQuantity: 1000000, pricePerUnit: 0.72 }], indexCode: "CRU-HRC", indexFactor: 0.0005, indexUnit: "short_ton", indexAdder: 0.45, indexDate: INDEX_SEED_DATE },
+  { materialName: "aluminum", pricePerUnit: 1.2, unit: "lb", currency: "USD", density: 2700, priceBreaks: [{ minQuantity: 100000, pricePerUnit: 1.1 }, { minQuantity: 1000000, pricePerUnit: 1.02 }], indexCode: "LME-AL", indexFactor: 0.000453592, indexUnit: "t", indexAdder: 0.0887, indexDate: INDEX_SEED_DATE },
+  { materialName: "stainless steel", pricePerUnit: 2.5, unit: "lb", currency: "USD", density: 8000 },
+  { materialName: "copper", pricePerUnit: 4.5, unit: "lb", currency: "USD", density: 8960, indexCode: "LME-CU", indexFactor: 0.000453592, indexUnit: "t", indexAdder: 0.1909, indexDate: INDEX_SEED_DATE },
+  { materialName: "brass", pricePerUnit: 3.8, unit: "lb", currency: "USD", density: 8500 },
+  { materialName: "iron", pricePerUnit: 0.45, unit: "lb", currency: "USD", density: 7870 },
   // Plastics
-  { materialName: "abs plastic", pricePerUnit: 2.2, unit: "lb", currency: "USD" },
-  { materialName: "polycarbonate", pricePerUnit: 3.5, unit: "lb", currency: "USD" },
-  { materialName: "acrylic", pricePerUnit: 4.0, unit: "lb", currency: "USD" },
-  { materialName: "pvc", pricePerUnit: 1.5, unit: "lb", currency: "USD" },
-  { materialName: "hdpe", pricePerUnit: 1.8, unit: "lb", currency: "USD" },
-  // Textiles
-  { materialName: "cotton fabric", pricePerUnit: 8.0, unit: "yard", currency: "USD" },
-  { materialName: "leather", pricePerUnit: 25.0, unit: "sq_ft", currency: "USD" },
-  { materialName: "synthetic leather", pricePerUnit: 12.0, unit: "sq_ft", currency: "USD" },
-  { materialName: "foam padding", pricePerUnit: 3.5, unit: "sq_ft", currency: "USD" },
-  { materialName: "polyester fabric", pricePerUnit: 5.5, unit: "yard", currency: "USD" },
+  { materialName: "abs plastic", pricePerUnit: 2.2, unit: "lb", currency: "USD", density: 1050, indexCode: "ABS-RESIN", indexFactor: 1, indexUnit: "lb", indexAdder: 0.75, indexDate: INDEX_SEED_DATE },
+  { materialName: "polycarbonate", pricePerUnit: 3.5, unit: "lb", currency: "USD", density: 1200 },
+  { materialName: "acrylic", pricePerUnit: 4.0, unit: "lb", currency: "USD", density: 1180 },
+  { materialName: "pvc", pricePerUnit: 1.5, unit: "lb", currency: "USD", density: 1380 },
+  { materialName: "hdpe", pricePerUnit: 1.8, unit: "lb", currency: "USD", density: 950, indexCode: "HDPE-RESIN", indexFactor: 1, indexUnit: "lb", indexAdder: 1.0, indexDate: INDEX_SEED_DATE },
+  // Textiles (thickness x density gives the fabric weight per m2)
+  { materialName: "cotton fabric", pricePerUnit: 8.0, unit: "yard", currency: "USD", width: 1.47, thickness: 0.0004, density: 450 },
+  { materialName: "leather", pricePerUnit: 25.0, unit: "sq_ft", currency: "USD", thickness: 0.0012, density: 860 },
+  { materialName: "synthetic leather", pricePerUnit: 12.0, unit: "sq_ft", currency: "USD", thickness: 0.001, density: 900 },
+  { materialName: "foam padding", pricePerUnit: 3.5, unit: "sq_ft", currency: "USD", thickness: 0.025, density: 30 },
+  { materialName: "polyester fabric", pricePerUnit: 5.5, unit: "yard", currency: "USD", width: 1.5, thickness: 0.0003, density: 500 },
   // Glass & Ceramics
-  { materialName: "tempered glass", pricePerUnit: 15.0, unit: "sq_ft", currency: "USD" },
-  { materialName: "standard glass", pricePerUnit: 8.0, unit: "sq_ft", currency: "USD" },
-  { materialName: "ceramic", pricePerUnit: 6.0, unit: "lb", currency: "USD" },
+  { materialName: "tempered glass", pricePerUnit: 15.0, unit: "sq_ft", currency: "USD", thickness: 0.006, density: 2500 },
+  { materialName: "standard glass", pricePerUnit: 8.0, unit: "sq_ft", currency: "USD", thickness: 0.004, density: 2500 },
+  { materialName: "ceramic", pricePerUnit: 6.0, unit: "lb", currency: "USD", density: 2400 },
   // Hardware & Fasteners
-  { materialName: "screws", pricePerUnit: 0.05, unit: "piece", currency: "USD" },
-  { materialName: "bolts", pricePerUnit: 0.15, unit: "piece", currency: "USD" },
-  { materialName: "nails", pricePerUnit: 0.02, unit: "piece", currency: "USD" },
+  { materialName: "screws", pricePerUnit: 0.05, unit: "piece", currency: "USD", unitMass: 0.003 },
+  { materialName: "bolts", pricePerUnit: 0.15, unit: "piece", currency: "USD", unitMass: 0.02 },
+  { materialName: "nails", pricePerUnit: 0.02, unit: "piece", currency: "USD", unitMass: 0.002 },
   { materialName: "hinges", pricePerUnit: 3.5, unit: "piece", currency: "USD" },
   { materialName: "drawer slides", pricePerUnit: 12.0, unit: "pair", currency: "USD" },
   { materialName: "handles", pricePerUnit: 5.0, unit: "piece", currency: "USD" },
   { materialName: "knobs", pricePerUnit: 3.0, unit: "piece", currency: "USD" },
   // Finishes & Coatings
-  { materialName: "wood stain", pricePerUnit: 25.0, unit: "gallon", currency: "USD" },
-  { materialName: "polyurethane finish", pricePerUnit: 45.0, unit: "gallon", currency: "USD" },
-  { materialName: "paint", pricePerUnit: 35.0, unit: "gallon", currency: "USD" },
-  { materialName: "lacquer", pricePerUnit: 55.0, unit: "gallon", currency: "USD" },
-  { materialName: "wood glue", pricePerUnit: 15.0, unit: "gallon", currency: "USD" },
+  { materialName: "wood stain", pricePerUnit: 25.0, unit: "gallon", currency: "USD", density: 870 },
+  { materialName: "polyurethane finish", pricePerUnit: 45.0, unit: "gallon", currency: "USD", density: 930 },
+  { materialName: "paint", pricePerUnit: 35.0, unit: "gallon", currency: "USD", density: 1200 },
+  { materialName: "lacquer", pricePerUnit: 55.0, unit: "gallon", currency: "USD", density: 900 },
+  { materialName: "wood glue", pricePerUnit: 15.0, unit: "gallon", currency: "USD", density: 1100 },
   // Electronics components
   { materialName: "led lights", pricePerUnit: 0.5, unit: "piece", currency: "USD" },
   { materialName: "wiring", pricePerUnit: 0.25, unit: "foot", currency: "USD" },
@@ -128,14 +228,27 @@ export const SEED_MATERIAL_PRICES: Omit<MaterialPrice, "id" | "lastUpdated">[] =
   { materialName: "motor", pricePerUnit: 25.0, unit: "piece", currency: "USD" },
   { materialName: "battery", pricePerUnit: 8.0, unit: "piece", currency: "USD" },
   // Rubber & Foam
-  { materialName: "rubber", pricePerUnit: 2.5, unit: "lb", currency: "USD" },
-  { materialName: "silicone", pricePerUnit: 8.0, unit: "lb", currency: "USD" },
-  { materialName: "memory foam", pricePerUnit: 5.0, unit: "sq_ft", currency: "USD" },
+  { materialName: "rubber", pricePerUnit: 2.5, unit: "lb", currency: "USD", density: 1100 },
+  { materialName: "silicone", pricePerUnit: 8.0, unit: "lb", currency: "USD", density: 1150 },
+  { materialName: "memory foam", pricePerUnit: 5.0, unit: "sq_ft", currency: "USD", thickness: 0.05, density: 50 },
   // Concrete & Stone
-  { materialName: "concrete", pricePerUnit: 120.0, unit: "cubic_yard", currency: "USD" },
-  { materialName: "marble", pricePerUnit: 75.0, unit: "sq_ft", currency: "USD" },
-  { materialName: "granite", pricePerUnit: 60.0, unit: "sq_ft", currency: "USD" },
-  { materialName: "quartz", pricePerUnit: 70.0, unit: "sq_ft", currency: "USD" },
+  { materialName: "concrete", pricePerUnit: 120.0, unit: "cubic_yard", currency: "USD", density: 2400 },
+  { materialName: "marble", pricePerUnit: 75.0, unit: "sq_ft", currency: "USD", thickness: 0.02, density: 2700 },
+  { materialName: "granite", pricePerUnit: 60.0, unit: "sq_ft", currency: "USD", thickness: 0.02, density: 2750 },
+  { materialName: "quartz", pricePerUnit: 70.0, unit: "sq_ft", currency: "USD", thickness: 0.02, density: 2400 },
+  // Agricultural inputs (flour factor: 27.2 kg wheat per bushel at 75% extraction)
+  { materialName: "wheat flour", pricePerUnit: 0.52, unit: "kg", currency: "USD", density: 593, indexCode: "CBOT-WHEAT", indexFactor: 0.049, indexUnit: "bushel", indexAdder: 0.2505, indexDate: INDEX_SEED_DATE },
+  { materialName: "granulated sugar", pricePerUnit: 0.45, unit: "lb", currency: "USD", density: 850, indexCode: "ICE-SUGAR11", indexFactor: 1, indexUnit: "lb", indexAdder: 0.25, indexDate: INDEX_SEED_DATE },
+  // Packaging
+  { materialName: "corrugated box", pricePerUnit: 0.85, unit: "piece", currency: "USD", unitMass: 0.35, priceBreaks: [{ minQuantity: 50000, pricePerUnit: 0.72 }, { minQuantity: 500000, pricePerUnit: 0.61 }] },
+  { materialName: "folding carton", pricePerUnit: 0.12, unit: "piece", currency: "USD", unitMass: 0.03, priceBreaks: [{ minQuantity: 250000, pricePerUnit: 0.095 }, { minQuantity: 2500000, pricePerUnit: 0.08 }] },
+  { materialName: "shrink film", pricePerUnit: 1.9, unit: "lb", currency: "USD", density: 920 },
+  { materialName: "stretch wrap", pricePerUnit: 1.4, unit: "lb", currency: "USD", density: 920 },
+  { materialName: "flexible film", pricePerUnit: 2.6, unit: "lb", currency: "USD", density: 950, priceBreaks: [{ minQuantity: 20000, pricePerUnit: 2.3 }, { minQuantity: 200000, pricePerUnit: 2.05 }] },
+  { materialName: "paper label", pricePerUnit: 0.015, unit: "piece", currency: "USD", unitMass: 0.001 },
+  { materialName: "plastic tray", pricePerUnit: 0.04, unit: "piece", currency: "USD", unitMass: 0.008, priceBreaks: [{ minQuantity: 500000, pricePerUnit: 0.034 }, { minQuantity: 5000000, pricePerUnit: 0.029 }] },
+  { materialName: "glass bottle", pricePerUnit: 0.22, unit: "piece", currency: "USD", unitMass: 0.25 },
+  { materialName: "pallet", pricePerUnit: 12.0, unit: "piece", currency: "USD", unitMass: 20 },
 ];
 
 export const SEED_LABOR_RATES: Omit<LaborRate, "id" | "lastUpdated">[] = [
@@ -179,6 +292,125 @@ export const SEED_LABOR_RATES: Omit<LaborRate, "id" | "lastUpdated">[] = [
   { processType: "packaging", region: "US", hourlyRate: 18.0, skillLevel: "entry" },
   { processType: "packaging", region: "US", hourlyRate: 24.0, skillLevel: "intermediate" },
   { processType: "packaging", region: "US", hourlyRate: 32.0, skillLevel: "expert" },
+  // Food processing
+  { processType: "food_processing", region: "US", hourlyRate: 18.0, skillLevel: "entry" },
+  { processType: "food_processing", region: "US", hourlyRate: 24.0, skillLevel: "intermediate" },
+  { processType: "food_processing", region: "US", hourlyRate: 34.0, skillLevel: "expert" },
+  // Regional rates (USD/hour); other process types scale the US rate by the
+  // region's labour index in lib/regions.ts
+  // Mexico
+  { processType: "assembly", region: "MX", hourlyRate: 5.5, skillLevel: "entry" },
+  { processType: "assembly", region: "MX", hourlyRate: 7.5, skillLevel: "intermediate" },
+  { processType: "assembly", region: "MX", hourlyRate: 11.0, skillLevel: "expert" },
+  { processType: "packaging", region: "MX", hourlyRate: 4.0, skillLevel: "entry" },
+  { processType: "packaging", region: "MX", hourlyRate: 5.5, skillLevel: "intermediate" },
+  { processType: "packaging", region: "MX", hourlyRate: 7.0, skillLevel: "expert" },
+  { processType: "food_processing", region: "MX", hourlyRate: 4.0, skillLevel: "entry" },
+  { processType: "food_processing", region: "MX", hourlyRate: 5.5, skillLevel: "intermediate" },
+  { processType: "food_processing", region: "MX", hourlyRate: 7.5, skillLevel: "expert" },
+  // China
+  { processType: "assembly", region: "CN", hourlyRate: 6.0, skillLevel: "entry" },
+  { processType: "assembly", region: "CN", hourlyRate: 9.0, skillLevel: "intermediate" },
+  { processType: "assembly", region: "CN", hourlyRate: 12.5, skillLevel: "expert" },
+  { processType: "packaging", region: "CN", hourlyRate: 4.5, skillLevel: "entry" },
+  { processType: "packaging", region: "CN", hourlyRate: 6.0, skillLevel: "intermediate" },
+  { processType: "packaging", region: "CN", hourlyRate: 8.0, skillLevel: "expert" },
+  { processType: "food_processing", region: "CN", hourlyRate: 4.5, skillLevel: "entry" },
+  { processType: "food_processing", region: "CN", hourlyRate: 6.0, skillLevel: "intermediate" },
+  { processType: "food_processing", region: "CN", hourlyRate: 8.5, skillLevel: "expert" },
+  // India
+  { processType: "assembly", region: "IN", hourlyRate: 3.0, skillLevel: "entry" },
+  { processType: "assembly", region: "IN", hourlyRate: 4.0, skillLevel: "intermediate" },
+  { processType: "assembly", region: "IN", hourlyRate: 6.0, skillLevel: "expert" },
+  { processType: "packaging", region: "IN", hourlyRate: 2.0, skillLevel: "entry" },
+  { processType: "packaging", region: "IN", hourlyRate: 3.0, skillLevel: "intermediate" },
+  { processType: "packaging", region: "IN", hourlyRate: 4.0, skillLevel: "expert" },
+  { processType: "food_processing", region: "IN", hourlyRate: 2.0, skillLevel: "entry" },
+  { processType: "food_processing", region: "IN", hourlyRate: 3.0, skillLevel: "intermediate" },
+  { processType: "food_processing", region: "IN", hourlyRate: 4.0, skillLevel: "expert" },
+  // Vietnam
+  { processType: "assembly", region: "VN", hourlyRate: 3.5, skillLevel: "entry" },
+  { processType: "assembly", region: "VN", hourlyRate: 5.0, skillLevel: "intermediate" },
+  { processType: "assembly", region: "VN", hourlyRate: 7.0, skillLevel: "expert" },
+  { processType: "packaging", region: "VN", hourlyRate: 2.5, skillLevel: "entry" },
+  { processType: "packaging", region: "VN", hourlyRate: 3.5, skillLevel: "intermediate" },
+  { processType: "packaging", region: "VN", hourlyRate: 4.5, skillLevel: "expert" },
+  { processType: "food_processing", region: "VN", hourlyRate: 2.5, skillLevel: "entry" },
+  { processType: "food_processing", region: "VN", hourlyRate: 3.5, skillLevel: "intermediate" },
+  { processType: "food_processing", region: "VN", hourlyRate: 5.0, skillLevel: "expert" },
+  // Poland
+  { processType: "assembly", region: "PL", hourlyRate: 11.0, skillLevel: "entry" },
+  { processType: "assembly", region: "PL", hourlyRate: 16.0, skillLevel: "intermediate" },
+  { processType: "assembly", region: "PL", hourlyRate: 22.5, skillLevel: "expert" },
+  { processType: "packaging", region: "PL", hourlyRate: 8.0, skillLevel: "entry" },
+  { processType: "packaging", region: "PL", hourlyRate: 11.0, skillLevel: "intermediate" },
+  { processType: "packaging", region: "PL", hourlyRate: 14.5, skillLevel: "expert" },
+  { processType: "food_processing", region: "PL", hourlyRate: 8.0, skillLevel: "entry" },
+  { processType: "food_processing", region: "PL", hourlyRate: 11.0, skillLevel: "intermediate" },
+  { processType: "food_processing", region: "PL", hourlyRate: 15.5, skillLevel: "expert" },
+  // Germany
+  { processType: "assembly", region: "DE", hourlyRate: 31.0, skillLevel: "entry" },
+  { processType: "assembly", region: "DE", hourlyRate: 44.0, skillLevel: "intermediate" },
+  { processType: "assembly", region: "DE", hourlyRate: 62.5, skillLevel: "expert" },
+  { processType: "packaging", region: "DE", hourlyRate: 22.5, skillLevel: "entry" },
+  { processType: "packaging", region: "DE", hourlyRate: 30.0, skillLevel: "intermediate" },
+  { processType: "packaging", region: "DE", hourlyRate: 40.0, skillLevel: "expert" },
+  { processType: "food_processing", region: "DE", hourlyRate: 22.5, skillLevel: "entry" },
+  { processType: "food_processing", region: "DE", hourlyRate: 30.0, skillLevel: "intermediate" },
+  { processType: "food_processing", region: "DE", hourlyRate: 42.5, skillLevel: "expert" },
+];
+
+// Month-start reference rates against USD; lookups use the latest entry on or before the analysis date
+export const SEED_FX_RATES: Omit<FxRate, "id">[] = [
+  { baseCurrency: "USD", quoteCurrency: "EUR", rate: 0.85, effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "GBP", rate: 0.74, effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "CNY", rate: 7.05, effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "INR", rate: 89.5, effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "JPY", rate: 155.0, effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "MXN", rate: 18.1, effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "CAD", rate: 1.38, effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "EUR", rate: 0.86, effectiveDate: new Date("2026-07-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "GBP", rate: 0.75, effectiveDate: new Date("2026-07-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "CNY", rate: 7.0, effectiveDate: new Date("2026-07-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "INR", rate: 90.2, effectiveDate: new Date("2026-07-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "JPY", rate: 150.0, effectiveDate: new Date("2026-07-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "MXN", rate: 18.4, effectiveDate: new Date("2026-07-01"), source: "reference" },
+  { baseCurrency: "USD", quoteCurrency: "CAD", rate: 1.37, effectiveDate: new Date("2026-07-01"), source: "reference" },
+];
+
+// Month-start commodity index values; index-linked materials are re-priced when new values are loaded
+export const SEED_COMMODITY_INDICES: Omit<CommodityIndexValue, "id">[] = [
+  { indexCode: "LME-AL", value: 2500, unit: "t", currency: "USD", effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { indexCode: "LME-CU", value: 9200, unit: "t", currency: "USD", effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { indexCode: "CRU-HRC", value: 760, unit: "short_ton", currency: "USD", effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { indexCode: "ABS-RESIN", value: 1.4, unit: "lb", currency: "USD", effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { indexCode: "HDPE-RESIN", value: 0.78, unit: "lb", currency: "USD", effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { indexCode: "CBOT-WHEAT", value: 5.8, unit: "bushel", currency: "USD", effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { indexCode: "ICE-SUGAR11", value: 0.19, unit: "lb", currency: "USD", effectiveDate: new Date("2026-01-01"), source: "reference" },
+  { indexCode: "LME-AL", value: 2450, unit: "t", currency: "USD", effectiveDate: INDEX_SEED_DATE, source: "reference" },
+  { indexCode: "LME-CU", value: 9500, unit: "t", currency: "USD", effectiveDate: INDEX_SEED_DATE, source: "reference" },
+  { indexCode: "CRU-HRC", value: 800, unit: "short_ton", currency: "USD", effectiveDate: INDEX_SEED_DATE, source: "reference" },
+  { indexCode: "ABS-RESIN", value: 1.45, unit: "lb", currency: "USD", effectiveDate: INDEX_SEED_DATE, source: "reference" },
+  { indexCode: "HDPE-RESIN", value: 0.8, unit: "lb", currency: "USD", effectiveDate: INDEX_SEED_DATE, source: "reference" },
+  { indexCode: "CBOT-WHEAT", value: 5.5, unit: "bushel", currency: "USD", effectiveDate: INDEX_SEED_DATE, source: "reference" },
+  { indexCode: "ICE-SUGAR11", value: 0.2, unit: "lb", currency: "USD", effectiveDate: INDEX_SEED_DATE, source: "reference" },
+];
+
+// Reference ad-valorem import duties by HS heading; check the live tariff before relying on them
+export const SEED_TARIFF_RATES: Omit<TariffRate, "id">[] = [
+  { hsCode: "1905", importCountry: "US", dutyRate: 0.045, description: "Bread, pastry, cakes, biscuits" },
+  { hsCode: "2202", importCountry: "US", dutyRate: 0.002, description: "Waters and non-alcoholic beverages" },
+  { hsCode: "3924", importCountry: "US", dutyRate: 0.034, description: "Plastic tableware and household articles" },
+  { hsCode: "6109", importCountry: "US", dutyRate: 0.165, description: "T-shirts and vests, knitted" },
+  { hsCode: "7323", importCountry: "US", dutyRate: 0.034, description: "Steel table, kitchen and household articles" },
+  { hsCode: "9403", importCountry: "US", dutyRate: 0.0, description: "Other furniture and parts" },
+  { hsCode: "9403", importCountry: "US", originCountry: "CN", dutyRate: 0.25, description: "Other furniture and parts (additional duty on Chinese origin)" },
+  { hsCode: "1905", importCountry: "EU", dutyRate: 0.09, description: "Bread, pastry, cakes, biscuits" },
+  { hsCode: "2202", importCountry: "EU", dutyRate: 0.096, description: "Waters and non-alcoholic beverages" },
+  { hsCode: "3924", importCountry: "EU", dutyRate: 0.065, description: "Plastic tableware and household articles" },
+  { hsCode: "6109", importCountry: "EU", dutyRate: 0.12, description: "T-shirts and vests, knitted" },
+  { hsCode: "7323", importCountry: "EU", dutyRate: 0.032, description: "Steel table, kitchen and household articles" },
+  { hsCode: "9403", importCountry: "EU", dutyRate: 0.0, description: "Other furniture and parts" },
 ];
 
 export const SEED_HISTORICAL_COSTS: Omit<HistoricalCost, "id" | "createdAt">[] = [
@@ -248,6 +480,21 @@ const fallbackLaborRates: LaborRate[] = SEED_LABOR_RATES.map((l, i) => ({
   lastUpdated: new Date(),
 }));
 
+const fallbackFxRates: FxRate[] = SEED_FX_RATES.map((r, i) => ({
+  ...r,
+  id: String(i + 1),
+}));
+
+const fallbackCommodityIndices: CommodityIndexValue[] = SEED_COMMODITY_INDICES.map((v, i) => ({
+  ...v,
+  id: String(i + 1),
+}));
+
+const fallbackTariffRates: TariffRate[] = SEED_TARIFF_RATES.map((t, i) => ({
+  ...t,
+  id: String(i + 1),
+}));
+
 const fallbackHistoricalCosts: HistoricalCost[] = SEED_HISTORICAL_COSTS.map((h, i) => ({
   ...h,
   id: String(i + 1),
@@ -282,14 +529,23 @@ function toNumber(value: unknown): number {
 // ============ DATABASE QUERY FUNCTIONS ============
 
 /**
- * Find material price by name using semantic search with exact match fallback
+ * Find material price by name: exact name first, then a partial (contains)
+ * match, then semantic search
  */
-export async function findMaterialPrice(materialName: string): Promise<MaterialPrice | undefined> {
+export async function findMaterialPrice(materialName: string): Promise<MaterialPriceMatch | undefined> {
   const dbAvailable = await isDatabaseAvailable();
+  const searchTerm = materialName.toLowerCase().trim();
 
   if (dbAvailable) {
-    // Try exact/partial match first via Prisma
-    const exactMatch = await prisma.materialPrice.findFirst({
+    // Try exact, then partial match via Prisma
+    const match = await prisma.materialPrice.findFirst({
+      where: {
+        materialName: {
+          equals: searchTerm,
+          mode: "insensitive",
+        },
+      },
+    }) ?? await prisma.materialPrice.findFirst({
       where: {
         materialName: {
           contains: materialName,
@@ -298,25 +554,38 @@ export async function findMaterialPrice(materialName: string): Promise<MaterialP
       },
     });
 
-    if (exactMatch) {
+    if (match) {
       return {
-        id: exactMatch.id,
-        materialName: exactMatch.materialName,
-        pricePerUnit: toNumber(exactMatch.pricePerUnit),
-        unit: exactMatch.unit,
-        supplier: exactMatch.supplier || undefined,
-        currency: exactMatch.currency,
-        lastUpdated: exactMatch.lastUpdated,
+        id: match.id,
+        materialName: match.materialName,
+        pricePerUnit: toNumber(match.pricePerUnit),
+        unit: match.unit,
+        supplier: match.supplier || undefined,
+        currency: match.currency,
+        lastUpdated: match.lastUpdated,
+        density: match.density ?? undefined,
+        thickness: match.thickness ?? undefined,
+        width: match.width ?? undefined,
+        unitMass: match.unitMass ?? undefined,
+        priceBreaks: toPriceBreaks(match.priceBreaks),
+        indexCode: match.indexCode || undefined,
+        indexFactor: match.indexFactor ?? undefined,
+        indexUnit: match.indexUnit || undefined,
+        indexAdder: match.indexAdder !== null ? toNumber(match.indexAdder) : undefined,
+        indexDate: match.indexDate ?? undefined,
+        matchType: match.materialName.toLowerCase() === searchTerm ? "exact" : "partial",
       };
     }
 
     // Fall back to semantic search
     try {
-      const semanticResult = await findMaterialBySemantics(materialName, 0.6);
+      const [semanticResult] = await searchMaterialsBySemantics(materialName, { limit: 1, threshold: 0.6 });
       if (semanticResult) {
         return {
-          ...semanticResult,
-          supplier: semanticResult.supplier || undefined,
+          ...semanticResult.item,
+          supplier: semanticResult.item.supplier || undefined,
+          matchType: "semantic",
+          similarity: semanticResult.score,
         };
       }
     } catch (error) {
@@ -327,12 +596,15 @@ export async function findMaterialPrice(materialName: string): Promise<MaterialP
   }
 
   // Fallback to in-memory data
-  const searchTerm = materialName.toLowerCase().trim();
-  return fallbackMaterialPrices.find(
+  const exact = fallbackMaterialPrices.find((m) => m.materialName.toLowerCase() === searchTerm);
+  if (exact) return { ...exact, matchType: "exact" };
+
+  const partial = fallbackMaterialPrices.find(
     (m) =>
       m.materialName.toLowerCase().includes(searchTerm) ||
       searchTerm.includes(m.materialName.toLowerCase())
   );
+  return partial && { ...partial, matchType: "partial" };
 }
 
 /**
@@ -351,12 +623,62 @@ export async function findAllMaterialPrices(): Promise<MaterialPrice[]> {
       supplier: m.supplier || undefined,
       currency: m.currency,
       lastUpdated: m.lastUpdated,
+      density: m.density ?? undefined,
+      thickness: m.thickness ?? undefined,
+      width: m.width ?? undefined,
+      unitMass: m.unitMass ?? undefined,
+      priceBreaks: toPriceBreaks(m.priceBreaks),
+      indexCode: m.indexCode || undefined,
+      indexFactor: m.indexFactor ?? undefined,
+      indexUnit: m.indexUnit || undefined,
+      indexAdder: m.indexAdder !== null ? toNumber(m.indexAdder) : undefined,
+      indexDate: m.indexDate ?? undefined,
     }));
   }
 
   return fallbackMaterialPrices;
 }
 
+/**
+ * Get the materials priced by formula from a commodity index
+ */
+export async function findIndexLinkedMaterials(indexCodes?: string[]): Promise<MaterialPrice[]> {
+  const materials = await findAllMaterialPrices();
+  return materials.filter(
+    (m) => m.indexCode && m.indexFactor !== undefined && (!indexCodes || indexCodes.includes(m.indexCode))
+  );
+}
+
+/**
+ * Store a re-priced material price
+ */
+export async function updateMaterialPrice(
+  id: string,
+  update: Pick<MaterialPrice, "pricePerUnit" | "priceBreaks" | "indexDate"> & Partial<Pick<MaterialPrice, "indexUnit">>
+): Promise<void> {
+  const dbAvailable = await isDatabaseAvailable();
+
+  if (dbAvailable) {
+    await prisma.materialPrice.update({
+      where: { id },
+      data: {
+        pricePerUnit: update.pricePerUnit,
+        priceBreaks: update.priceBreaks ?? undefined,
+        indexDate: update.indexDate ?? null,
+        indexUnit: update.indexUnit,
+        lastUpdated: new Date(),
+      },
+    });
+    return;
+  }
+
+  // Fallback to in-memory data
+  const material = fallbackMaterialPrices.find((m) => m.id === id);
+  if (material) {
+    Object.assign(material, update, { lastUpdated: new Date() });
+  }
+}
+
 /**
  * Search materials using semantic search
  */
@@ -386,6 +708,30 @@ export async function searchMaterials(query: string, limit: number = 10): Promis
     .slice(0, limit);
 }
 
+/**
+ * Nearest materials on file to a material name, closest first
+ * Without semantic search every material on file is returned unscored, for
+ * the caller to filter.
+ */
+export async function findMaterialNeighbours(materialName: string, limit: number = 20): Promise<MaterialNeighbour[]> {
+  const dbAvailable = await isDatabaseAvailable();
+
+  if (dbAvailable) {
+    try {
+      const results = await searchMaterialsBySemantics(materialName, { limit, threshold: 0.5 });
+      return results.map((r) => ({
+        ...r.item,
+        supplier: r.item.supplier || undefined,
+        similarity: r.score,
+      }));
+    } catch (error) {
+      console.warn("Semantic search failed, using all materials on file:", error);
+    }
+  }
+
+  return findAllMaterialPrices();
+}
+
 /**
  * Find labor rate by process type using semantic search
  */
@@ -492,6 +838,184 @@ export async function searchLaborRates(query: string, limit: number = 10): Promi
     .slice(0, limit);
 }
 
+/**
+ * Find the exchange rate for a currency pair in effect on a date
+ * (the latest rate whose effectiveDate is on or before `asOf`)
+ */
+export async function findFxRate(
+  baseCurrency: string,
+  quoteCurrency: string,
+  asOf: Date = new Date()
+): Promise<FxRate | undefined> {
+  const dbAvailable = await isDatabaseAvailable();
+  const base = baseCurrency.toUpperCase();
+  const quote = quoteCurrency.toUpperCase();
+
+  if (dbAvailable) {
+    const rate: PrismaFxRateResult | null = await prisma.fxRate.findFirst({
+      where: {
+        baseCurrency: base,
+        quoteCurrency: quote,
+        effectiveDate: { lte: asOf },
+      },
+      orderBy: { effectiveDate: "desc" },
+    });
+
+    return rate
+      ? {
+          id: rate.id,
+          baseCurrency: rate.baseCurrency,
+          quoteCurrency: rate.quoteCurrency,
+          rate: toNumber(rate.rate),
+          effectiveDate: rate.effectiveDate,
+          source: rate.source || undefined,
+        }
+      : undefined;
+  }
+
+  // Fallback to in-memory data
+  return fallbackFxRates
+    .filter((r) => r.baseCurrency === base && r.quoteCurrency === quote && r.effectiveDate <= asOf)
+    .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())[0];
+}
+
+/**
+ * Find the value of a commodity index in effect on a date
+ * (the latest value whose effectiveDate is on or before `asOf`)
+ */
+export async function findCommodityIndexValue(
+  indexCode: string,
+  asOf: Date = new Date()
+): Promise<CommodityIndexValue | undefined> {
+  const dbAvailable = await isDatabaseAvailable();
+  const code = indexCode.toUpperCase();
+
+  if (dbAvailable) {
+    const value: PrismaCommodityIndexResult | null = await prisma.commodityIndex.findFirst({
+      where: {
+        indexCode: code,
+        effectiveDate: { lte: asOf },
+      },
+      orderBy: { effectiveDate: "desc" },
+    });
+
+    return value
+      ? {
+          id: value.id,
+          indexCode: value.indexCode,
+          value: toNumber(value.value),
+          unit: value.unit,
+          currency: value.currency,
+          effectiveDate: value.effectiveDate,
+          source: value.source || undefined,
+        }
+      : undefined;
+  }
+
+  // Fallback to in-memory data
+  return fallbackCommodityIndices
+    .filter((v) => v.indexCode === code && v.effectiveDate <= asOf)
+    .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())[0];
+}
+
+/**
+ * Store commodity index values, replacing any value on the same date
+ */
+export async function saveCommodityIndexValues(values: Omit<CommodityIndexValue, "id">[]): Promise<number> {
+  const dbAvailable = await isDatabaseAvailable();
+
+  if (dbAvailable) {
+    for (const v of values) {
+      await prisma.commodityIndex.upsert({
+        where: {
+          indexCode_effectiveDate: { indexCode: v.indexCode, effectiveDate: v.effectiveDate },
+        },
+        update: {
+          value: v.value,
+          unit: v.unit,
+          currency: v.currency,
+          source: v.source || null,
+          lastUpdated: new Date(),
+        },
+        create: {
+          indexCode: v.indexCode,
+          value: v.value,
+          unit: v.unit,
+          currency: v.currency,
+          effectiveDate: v.effectiveDate,
+          source: v.source || null,
+        },
+      });
+    }
+    return values.length;
+  }
+
+  // Fallback to in-memory data
+  for (const v of values) {
+    const existing = fallbackCommodityIndices.findIndex(
+      (e) => e.indexCode === v.indexCode && e.effectiveDate.getTime() === v.effectiveDate.getTime()
+    );
+    if (existing >= 0) {
+      fallbackCommodityIndices[existing] = { ...v, id: fallbackCommodityIndices[existing].id };
+    } else {
+      fallbackCommodityIndices.push({ ...v, id: String(fallbackCommodityIndices.length + 1) });
+    }
+  }
+  return values.length;
+}
+
+/**
+ * Find the import duty for an HS code
+ * The longest matching HS prefix wins; at equal length an origin-specific
+ * rate is preferred over the MFN rate.
+ */
+export async function findTariffRate(
+  hsCode: string,
+  importCountry: string,
+  originCountry?: string
+): Promise<TariffRate | undefined> {
+  const dbAvailable = await isDatabaseAvailable();
+  const code = hsCode.replace(/\D/g, "");
+  const importer = importCountry.toUpperCase();
+  const origin = originCountry?.toUpperCase();
+
+  if (!code) return undefined;
+
+  let candidates: TariffRate[];
+
+  if (dbAvailable) {
+    const prefixes = Array.from({ length: code.length - 1 }, (_, i) => code.slice(0, i + 2));
+    const rates: PrismaTariffRateResult[] = await prisma.tariffRate.findMany({
+      where: {
+        importCountry: importer,
+        hsCode: { in: prefixes },
+        OR: [{ originCountry: null }, ...(origin ? [{ originCountry: origin }] : [])],
+      },
+    });
+
+    candidates = rates.map((t) => ({
+      id: t.id,
+      hsCode: t.hsCode,
+      importCountry: t.importCountry,
+      originCountry: t.originCountry || undefined,
+      dutyRate: toNumber(t.dutyRate),
+      description: t.description || undefined,
+    }));
+  } else {
+    // Fallback to in-memory data
+    candidates = fallbackTariffRates.filter(
+      (t) =>
+        t.importCountry === importer &&
+        code.startsWith(t.hsCode) &&
+        (!t.originCountry || t.originCountry === origin)
+    );
+  }
+
+  return candidates.sort(
+    (a, b) => b.hsCode.length - a.hsCode.length || Number(!!b.originCountry) - Number(!!a.originCountry)
+  )[0];
+}
+
 /**
  * Search for similar products using semantic search
  */
@@ -565,6 +1089,9 @@ export async function findAllHistoricalCosts(): Promise<HistoricalCost[]> {
       breakdown: c.breakdown as Record<string, unknown>,
       createdAt: c.createdAt,
       userId: c.userId || undefined,
+      recostedUnitCost: c.recostedUnitCost !== null ? toNumber(c.recostedUnitCost) : undefined,
+      recostedAt: c.recostedAt ?? undefined,
+      recostDrift: (c.recostDrift as Record<string, unknown> | null) ?? undefined,
     }));
   }
 
@@ -611,21 +1138,60 @@ export async function saveHistoricalCost(
   return newCost;
 }
 
+/**
+ * Record the result of re-costing a saved analysis alongside its original cost
+ */
+export async function saveHistoricalRecost(
+  id: string,
+  recost: Required<Pick<HistoricalCost, "recostedUnitCost" | "recostedAt" | "recostDrift">>
+): Promise<void> {
+  const dbAvailable = await isDatabaseAvailable();
+
+  if (dbAvailable) {
+    await prisma.historicalCost.update({
+      where: { id },
+      data: {
+        recostedUnitCost: recost.recostedUnitCost,
+        recostedAt: recost.recostedAt,
+        recostDrift: recost.recostDrift as any,
+      },
+    });
+    return;
+  }
+
+  // Fallback to in-memory
+  const cost = fallbackHistoricalCosts.find((h) => h.id === id);
+  if (cost) {
+    Object.assign(cost, recost);
+  }
+}
+
 // Export all data for direct access if needed
 export const db = {
   findMaterialPrice,
   findAllMaterialPrices,
   searchMaterials,
+  findMaterialNeighbours,
   findLaborRate,
   findAllLaborRates,
   searchLaborRates,
+  findFxRate,
+  findCommodityIndexValue,
+  saveCommodityIndexValues,
+  findIndexLinkedMaterials,
+  updateMaterialPrice,
+  findTariffRate,
   searchSimilarProducts,
   searchHistoricalCosts,
   findAllHistoricalCosts,
   saveHistoricalCost,
+  saveHistoricalRecost,
   // Seed data exports
   SEED_MATERIAL_PRICES,
   SEED_LABOR_RATES,
+  SEED_FX_RATES,
+  SEED_COMMODITY_INDICES,
+  SEED_TARIFF_RATES,
   SEED_HISTORICAL_COSTS,
 };
 
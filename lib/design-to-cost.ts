@@ -0,0 +1,255 @@
+/**
+ * Design-to-cost
+ *
+ * Works back from a target unit cost. Candidate changes to the product and
+ * the deal are re-costed one at a time with the bottom-up model
+ * (lib/cost-model.ts):
+ *   - BOM substitutions: the cheapest comparable material on file for a line
+ *     (lib/substitutes.ts)
+ *   - Spec reductions: down-gauging the most expensive BOM lines
+ *   - Pack-format changes: no secondary packs, fuller cases, thinner primary packs
+ *   - Margin moves: negotiating margin down to the category floor
+ * Changes are ranked by priced saving, then stacked in that order (re-costing
+ * the combined model at each step) until the target is met.
+ */
+
+import { findMaterialSubstitutes } from "./substitutes";
+import { BASE_CURRENCY, createFxConverter, FxConverter } from "./fx";
+import { computeExWorks } from "./cost-model";
+import { MATERIAL_LOOKUP_CONCURRENCY, scaleLineQuantity } from "./materials";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  CategoryConfig,
+  CostModelInputs,
+  DesignChange,
+  DesignPlanStep,
+  DesignToCostResult,
+  PackagingLevel,
+} from "./prompts/types";
+
+// Share taken off the quantity of a down-gauged BOM line
+export const SPEC_REDUCTION = 0.10;
+
+// Most expensive BOM lines considered for down-gauging
+const SPEC_REDUCTION_LINES = 3;
+
+// Pack-format levers
+const CASE_COUNT_INCREASE = 0.25;     // 25% more units per shipping case
+const PRIMARY_DOWNGAUGE = 0.15;       // 15% less primary packaging material
+
+// Margin cut when the category has no benchmark floor (percentage points)
+const MARGIN_STEP = 0.05;
+
+export interface DesignToCostOptions {
+  config?: CategoryConfig | null;  // Category margin benchmark
+  asOf?: Date;                     // Price date for substitutes (defaults to now)
+}
+
+// Candidate change with the edit it makes to a cost model
+interface CandidateChange extends Omit<DesignChange, "unitCost" | "saving" | "savingPercent"> {
+  apply: (model: CostModelInputs) => CostModelInputs;
+}
+
+/**
+ * Format a share as a percentage, e.g. "12.5%"
+ */
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Cheapest comparable material on file for each BOM line
+ */
+async function substitutionCandidates(model: CostModelInputs, fx: FxConverter): Promise<CandidateChange[]> {
+  const substitutes = await mapWithConcurrency(model.materials, MATERIAL_LOOKUP_CONCURRENCY, (item) =>
+    findMaterialSubstitutes(item, fx, 1)
+  );
+  const candidates: CandidateChange[] = [];
+
+  for (const [index, item] of model.materials.entries()) {
+    const [best] = substitutes[index];
+    if (!best) continue;
+
+    candidates.push({
+      id: `substitution:${index}`,
+      type: "substitution",
+      label: `Substitute ${best.materialName} for ${item.material} in ${item.component}`,
+      detail: [
+        `${best.materialName} is on file at ${best.line.pricePerUnit.toFixed(4)}/${best.line.priceUnit} vs ${item.pricePerUnit.toFixed(4)}/${item.priceUnit || item.unit}`,
+        ...best.riskNotes,
+        "verify fit, form and function before specifying it",
+      ].join("; "),
+      component: item.component,
+      // Follows any quantity change already made to the line
+      apply: (m) => ({
+        ...m,
+        materials: m.materials.map((line, i) => (i === index ? scaleLineQuantity(best.line, line.quantity / item.quantity) : line)),
+      }),
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Down-gauge the most expensive BOM lines
+ */
+function specReductionCandidates(model: CostModelInputs): CandidateChange[] {
+  return model.materials
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !item.unitIncompatible && item.material !== "sub-assembly" && item.totalCost > 0)
+    .sort((a, b) => b.item.totalCost - a.item.totalCost)
+    .slice(0, SPEC_REDUCTION_LINES)
+    .map(({ item, index }) => ({
+      id: `specReduction:${index}`,
+      type: "specReduction" as const,
+      label: `Reduce ${item.component} by ${percent(SPEC_REDUCTION)}`,
+      detail: `${item.quantity} → ${Number((item.quantity * (1 - SPEC_REDUCTION)).toPrecision(4))} ${item.unit} of ${item.material} per unit (thinner gauge, lighter section or smaller portion); confirm strength, shelf life or consumer spec still hold`,
+      component: item.component,
+      apply: (m: CostModelInputs) => ({
+        ...m,
+        materials: m.materials.map((line, i) => (i === index ? scaleLineQuantity(line, 1 - SPEC_REDUCTION) : line)),
+      }),
+    }));
+}
+
+/**
+ * Pack-format changes for the packaging levels the product uses
+ */
+function packFormatCandidates(model: CostModelInputs): CandidateChange[] {
+  const candidates: CandidateChange[] = [];
+  const names = (level: PackagingLevel) => model.packaging.filter((p) => p.level === level).map((p) => p.component);
+
+  const secondary = names("secondary");
+  if (secondary.length > 0) {
+    candidates.push({
+      id: "packFormat:secondary",
+      type: "packFormat",
+      label: "Ship primary packs directly in shipping cases",
+      detail: `Drops ${secondary.join(", ")}; check retail presentation and case strength without the inner pack`,
+      apply: (m) => ({ ...m, packaging: m.packaging.filter((p) => p.level !== "secondary") }),
+    });
+  }
+
+  const tertiary = names("tertiary");
+  if (tertiary.length > 0) {
+    candidates.push({
+      id: "packFormat:tertiary",
+      type: "packFormat",
+      label: `Increase units per shipping case by ${percent(CASE_COUNT_INCREASE)}`,
+      detail: `Fewer ${tertiary.join(", ")} per unit; check case weight limits and customer order multiples`,
+      apply: (m) => ({
+        ...m,
+        packaging: m.packaging.map((p) => (p.level === "tertiary" ? scaleLineQuantity(p, 1 / (1 + CASE_COUNT_INCREASE)) : p)),
+      }),
+    });
+  }
+
+  const primary = names("primary");
+  if (primary.length > 0) {
+    candidates.push({
+      id: "packFormat:primary",
+      type: "packFormat",
+      label: `Down-gauge primary packaging by ${percent(PRIMARY_DOWNGAUGE)}`,
+      detail: `Thinner ${primary.join(", ")}; confirm barrier properties and line runnability`,
+      apply: (m) => ({
+        ...m,
+        packaging: m.packaging.map((p) => (p.level === "primary" ? scaleLineQuantity(p, 1 - PRIMARY_DOWNGAUGE) : p)),
+      }),
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Negotiate margin down to the category floor
+ */
+function marginCandidate(model: CostModelInputs, config?: CategoryConfig | null): CandidateChange | undefined {
+  const floor = config?.industryBenchmarks?.marginPercentage?.min;
+  const marginRate = floor !== undefined ? floor : Math.max(0, model.marginRate - MARGIN_STEP);
+  if (!(marginRate < model.marginRate)) return undefined;
+
+  return {
+    id: "margin",
+    type: "margin",
+    label: `Negotiate margin from ${percent(model.marginRate)} to ${percent(marginRate)}`,
+    detail: floor !== undefined
+      ? `${percent(marginRate)} is the bottom of the ${config!.name} margin range; trade volume commitments or longer contracts for it`
+      : `A ${percent(MARGIN_STEP)} point reduction; trade volume commitments or longer contracts for it`,
+    apply: (m) => ({ ...m, marginRate }),
+  };
+}
+
+/**
+ * Rank design and commercial changes by priced saving and stack them toward a target unit cost
+ * Prices are in the model currency.
+ */
+export async function runDesignToCost(
+  model: CostModelInputs,
+  targetPrice: number,
+  options: DesignToCostOptions = {}
+): Promise<DesignToCostResult> {
+  if (!(targetPrice > 0)) {
+    throw new Error("Target price must be greater than zero");
+  }
+
+  const currency = model.currency || BASE_CURRENCY;
+  const fx = createFxConverter(currency, options.asOf);
+  const baselineUnitCost = computeExWorks(model).totalExWorks;
+
+  const margin = marginCandidate(model, options.config);
+  const candidates: CandidateChange[] = [
+    ...(await substitutionCandidates(model, fx)),
+    ...specReductionCandidates(model),
+    ...packFormatCandidates(model),
+    ...(margin ? [margin] : []),
+  ];
+
+  // Price every change on its own against the baseline
+  const ranked = candidates
+    .map((candidate) => {
+      const unitCost = computeExWorks(candidate.apply(model)).totalExWorks;
+      const saving = baselineUnitCost - unitCost;
+      return { candidate, unitCost, saving };
+    })
+    .filter((c) => c.saving > 0)
+    .sort((a, b) => b.saving - a.saving);
+
+  // Stack changes in ranked order until the target is met; savings interact
+  // (margin applies to everything below it) so each step is re-costed
+  const plan: DesignPlanStep[] = [];
+  let current = model;
+  let achievedUnitCost = baselineUnitCost;
+  for (const { candidate } of ranked) {
+    if (achievedUnitCost <= targetPrice) break;
+
+    const next = candidate.apply(current);
+    const unitCost = computeExWorks(next).totalExWorks;
+    if (unitCost >= achievedUnitCost) continue;
+
+    current = next;
+    achievedUnitCost = unitCost;
+    plan.push({ changeId: candidate.id, unitCost });
+  }
+
+  return {
+    targetPrice,
+    currency,
+    baselineUnitCost,
+    gap: baselineUnitCost - targetPrice,
+    changes: ranked.map(({ candidate, unitCost, saving }) => ({
+      id: candidate.id,
+      type: candidate.type,
+      label: candidate.label,
+      detail: candidate.detail,
+      component: candidate.component,
+      unitCost,
+      saving,
+      savingPercent: baselineUnitCost > 0 ? saving / baselineUnitCost : 0,
+    })),
+    plan,
+    achievedUnitCost,
+    meetsTarget: achievedUnitCost <= targetPrice,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Currency conversion for looked-up prices
+ *
+ * Material prices carry their own currency; labour rates, machine rates and
+ * LLM estimates are in USD. Everything is converted into the reporting
+ * currency at the rate in effect on the analysis date before it is summed.
+ */
+
+import { findFxRate } from "./db";
+import { FxConversion } from "./prompts/types";
+import type { UnitPrice } from "./materials";
+
+// Currency of labour rates, LLM estimates and the seeded FX pairs
+export const BASE_CURRENCY = "USD";
+
+/**
+ * ISO date (YYYY-MM-DD) for reporting which rate was used
+ */
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Rate from one currency into another in effect on a date
+ * Tries the direct pair, then its inverse, then a cross through USD.
+ */
+export async function getFxRate(
+  fromCurrency: string,
+  toCurrency: string,
+  asOf: Date = new Date()
+): Promise<FxConversion | undefined> {
+  const from = fromCurrency.toUpperCase();
+  const to = toCurrency.toUpperCase();
+
+  if (from === to) {
+    return { fromCurrency: from, toCurrency: to, rate: 1, effectiveDate: toIsoDate(asOf) };
+  }
+
+  const direct = await findFxRate(from, to, asOf);
+  if (direct) {
+    return { fromCurrency: from, toCurrency: to, rate: direct.rate, effectiveDate: toIsoDate(direct.effectiveDate) };
+  }
+
+  const inverse = await findFxRate(to, from, asOf);
+  if (inverse && inverse.rate > 0) {
+    return { fromCurrency: from, toCurrency: to, rate: 1 / inverse.rate, effectiveDate: toIsoDate(inverse.effectiveDate) };
+  }
+
+  if (from !== BASE_CURRENCY && to !== BASE_CURRENCY) {
+    const toBase = await getFxRate(from, BASE_CURRENCY, asOf);
+    const fromBase = toBase ? await getFxRate(BASE_CURRENCY, to, asOf) : undefined;
+    if (toBase && fromBase) {
+      return {
+        fromCurrency: from,
+        toCurrency: to,
+        rate: toBase.rate * fromBase.rate,
+        // The older of the two legs bounds how current the cross rate is
+        effectiveDate: toBase.effectiveDate < fromBase.effectiveDate ? toBase.effectiveDate : fromBase.effectiveDate,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+export interface FxConverter {
+  currency: string;
+  asOf: Date;
+  // Rate into `currency`, or undefined when no rate exists on `asOf`
+  rateFor: (fromCurrency: string) => Promise<number | undefined>;
+  // Non-trivial conversions looked up so far, for the analysis result
+  conversions: () => FxConversion[];
+}
+
+/**
+ * Converter into one reporting currency at a fixed analysis date
+ * Each source currency is looked up once per analysis.
+ */
+export function createFxConverter(currency: string = BASE_CURRENCY, asOf: Date = new Date()): FxConverter {
+  const reportingCurrency = currency.toUpperCase();
+  const lookups = new Map<string, Promise<FxConversion | undefined>>();
+  const resolved = new Map<string, FxConversion>();
+
+  return {
+    currency: reportingCurrency,
+    asOf,
+    rateFor: async (fromCurrency: string) => {
+      const from = (fromCurrency || BASE_CURRENCY).toUpperCase();
+      if (!lookups.has(from)) {
+        lookups.set(from, getFxRate(from, reportingCurrency, asOf));
+      }
+
+      const conversion = await lookups.get(from);
+      if (conversion && from !== reportingCurrency) {
+        resolved.set(from, conversion);
+      }
+      return conversion?.rate;
+    },
+    conversions: () => Array.from(resolved.values()),
+  };
+}
+
+/**
+ * Convert a unit price and its price breaks with an FX rate
+ */
+function convertUnitPrice(price: UnitPrice, sourceCurrency: string, rate: number): UnitPrice {
+  return {
+    pricePerUnit: price.pricePerUnit * rate,
+    unit: price.unit,
+    priceBreaks: price.priceBreaks?.map((b) => ({ ...b, pricePerUnit: b.pricePerUnit * rate })),
+    sourceCurrency,
+    fxRate: rate,
+    indexCode: price.indexCode,
+    indexDate: price.indexDate,
+    provenance: price.provenance,
+  };
+}
+
+/**
+ * Express a looked-up price in the converter's currency
+ * Prices without a currency are taken as USD. Returns undefined when no rate
+ * is in effect on the analysis date, so the caller never mixes currencies.
+ */
+export async function toReportingPrice(
+  price: UnitPrice & { currency?: string },
+  fx: FxConverter
+): Promise<UnitPrice | undefined> {
+  const sourceCurrency = (price.currency || BASE_CURRENCY).toUpperCase();
+  if (sourceCurrency === fx.currency) return price;
+
+  const rate = await fx.rateFor(sourceCurrency);
+  return rate !== undefined ? convertUnitPrice(price, sourceCurrency, rate) : undefined;
+}
@@ -0,0 +1,176 @@
+/**
+ * Commodity-index-linked material prices
+ *
+ * Metals, resins and agricultural inputs follow a published index. They are
+ * priced by formula: index value x indexFactor + indexAdder, where the factor
+ * converts the index unit into the material's price unit and the adder is the
+ * premium (grade, processing, delivery) in the material's currency. Index
+ * series are loaded from local CSV files; every load re-prices the materials
+ * linked to the indices it touched. Each material records the index unit its
+ * factor was set for, and index values quoted in another unit are converted
+ * into it (or skipped when they cannot be).
+ */
+
+import {
+  CommodityIndexValue,
+  findCommodityIndexValue,
+  findIndexLinkedMaterials,
+  saveCommodityIndexValues,
+  updateMaterialPrice,
+} from "./db";
+import { getFxRate } from "./fx";
+import { parseCsv } from "./csv";
+import { convertQuantity } from "./units";
+
+export interface IndexRepricing {
+  materialName: string;
+  indexCode: string;
+  previousPrice: number;
+  pricePerUnit: number;
+  currency: string;
+  unit: string;
+  indexDate: string; // YYYY-MM-DD
+}
+
+export interface IndexImportResult {
+  imported: number;
+  indexCodes: string[];
+  repriced: IndexRepricing[];
+  errors: string[];
+  warnings: string[]; // Linked materials left at their price, and why
+}
+
+/**
+ * Round a price to 4 decimal places
+ */
+function roundPrice(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Price from an index value: value x factor + adder
+ */
+export function formulaPrice(indexValue: number, indexFactor: number, indexAdder: number = 0): number {
+  return roundPrice(indexValue * indexFactor + indexAdder);
+}
+
+/**
+ * Read index values from CSV
+ * Columns: index, date, value, unit, currency (default USD), source. Rows
+ * that cannot be read are reported by line number and skipped.
+ */
+export function parseIndexCsv(text: string): { values: Omit<CommodityIndexValue, "id">[]; errors: string[] } {
+  const values: Omit<CommodityIndexValue, "id">[] = [];
+  const errors: string[] = [];
+
+  parseCsv(text).forEach((row, i) => {
+    const line = i + 2; // Header is line 1
+    const indexCode = (row.index || row.indexcode || row.index_code || "").toUpperCase();
+    const effectiveDate = new Date(row.date || row.effectivedate || "");
+    const value = Number(row.value);
+
+    if (!indexCode) {
+      errors.push(`Line ${line}: missing index code`);
+    } else if (isNaN(effectiveDate.getTime())) {
+      errors.push(`Line ${line}: invalid date "${row.date ?? ""}"`);
+    } else if (!row.value || !(value > 0)) {
+      errors.push(`Line ${line}: value must be a positive number`);
+    } else if (!row.unit) {
+      errors.push(`Line ${line}: missing unit`);
+    } else {
+      values.push({
+        indexCode,
+        value,
+        unit: row.unit,
+        currency: (row.currency || "USD").toUpperCase(),
+        effectiveDate,
+        source: row.source || undefined,
+      });
+    }
+  });
+
+  return { values, errors };
+}
+
+/**
+ * Re-price index-linked materials from the index value in effect on a date
+ * Price breaks move by the same amount as the list price. Materials whose
+ * index has no value yet, no FX rate into the material's currency, or a value
+ * in a unit that does not convert into the one their factor was set for, keep
+ * their price.
+ */
+export async function repriceIndexLinkedMaterials(
+  indexCodes?: string[],
+  asOf: Date = new Date()
+): Promise<{ repriced: IndexRepricing[]; warnings: string[] }> {
+  const repriced: IndexRepricing[] = [];
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    console.warn(message);
+    warnings.push(message);
+  };
+
+  for (const material of await findIndexLinkedMaterials(indexCodes)) {
+    const index = await findCommodityIndexValue(material.indexCode!, asOf);
+    if (!index) continue;
+
+    // Materials stored before the unit was recorded take it from the value
+    // they were last priced from
+    const indexUnit = material.indexUnit
+      ?? (material.indexDate && (await findCommodityIndexValue(material.indexCode!, material.indexDate))?.unit)
+      ?? index.unit;
+
+    // Index value per index unit -> per the unit the factor expects
+    const unitConversion = convertQuantity(1, indexUnit, index.unit, material);
+    if (!unitConversion.compatible) {
+      warn(`${index.indexCode} is quoted per ${index.unit} but ${material.materialName} is linked per ${indexUnit}, keeping its price`);
+      continue;
+    }
+
+    const fx = await getFxRate(index.currency, material.currency, index.effectiveDate);
+    if (!fx) {
+      warn(`No ${index.currency} to ${material.currency} rate for ${material.materialName}, keeping its price`);
+      continue;
+    }
+
+    const pricePerUnit = formulaPrice(index.value * unitConversion.quantity * fx.rate, material.indexFactor!, material.indexAdder);
+    const unchanged = pricePerUnit === material.pricePerUnit &&
+      material.indexDate?.getTime() === index.effectiveDate.getTime();
+    if (unchanged) continue;
+
+    const previousPrice = material.pricePerUnit;
+    const delta = pricePerUnit - previousPrice;
+    await updateMaterialPrice(material.id, {
+      pricePerUnit,
+      priceBreaks: material.priceBreaks?.map((b) => ({ ...b, pricePerUnit: roundPrice(Math.max(0, b.pricePerUnit + delta)) })),
+      indexDate: index.effectiveDate,
+      indexUnit,
+    });
+
+    repriced.push({
+      materialName: material.materialName,
+      indexCode: index.indexCode,
+      previousPrice,
+      pricePerUnit,
+      currency: material.currency,
+      unit: material.unit,
+      indexDate: index.effectiveDate.toISOString().slice(0, 10),
+    });
+  }
+
+  return { repriced, warnings };
+}
+
+/**
+ * Load index values from CSV and re-price the materials linked to them
+ */
+export async function importIndexCsv(text: string): Promise<IndexImportResult> {
+  const { values, errors } = parseIndexCsv(text);
+  const imported = values.length > 0 ? await saveCommodityIndexValues(values) : 0;
+  const indexCodes = Array.from(new Set(values.map((v) => v.indexCode)));
+  const { repriced, warnings } = indexCodes.length > 0
+    ? await repriceIndexLinkedMaterials(indexCodes)
+    : { repriced: [], warnings: [] };
+
+  return { imported, indexCodes, repriced, errors, warnings };
+}
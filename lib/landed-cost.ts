@@ -0,0 +1,207 @@
+/**
+ * Landed cost
+ *
+ * Extends the Ex-Works breakdown to the buyer's door: inland freight at both
+ * ends, main freight on chargeable weight, cargo insurance, broker fees and
+ * import duty by HS code (local tariff table). The result is priced on each
+ * Incoterm from EXW to DDP so offers on different terms can be compared.
+ *
+ * Freight and fee rates are USD reference rates per kg or per shipment and
+ * are converted into the analysis currency.
+ */
+
+import { findTariffRate } from "./db";
+import { BASE_CURRENCY, getFxRate } from "./fx";
+import { DEFAULT_COUNTRY } from "./regions";
+import {
+  CostModelInputs,
+  ExWorksCostBreakdown,
+  FreightMode,
+  IncotermPrice,
+  LandedCostBreakdown,
+  LandedCostLine,
+  ShipmentParameters,
+} from "./prompts/types";
+
+// Port-to-port rate per chargeable kg and the volumetric factor (kg per m3)
+export const FREIGHT_RATES: Record<FreightMode, { ratePerKg: number; kgPerM3: number }> = {
+  ocean: { ratePerKg: 0.095, kgPerM3: 1000 },
+  air: { ratePerKg: 4.5, kgPerM3: 167 },
+  road: { ratePerKg: 0.25, kgPerM3: 333 },
+};
+
+// Trucking to the port of loading and from the port of discharge (USD/kg)
+const ORIGIN_INLAND_RATE_PER_KG = 0.05;
+const DESTINATION_INLAND_RATE_PER_KG = 0.06;
+
+// Cargo insurance premium, on the customary 110% of CIF value
+const INSURANCE_RATE = 0.003;
+const INSURED_VALUE_FACTOR = 1.1;
+
+// Customs broker fees per shipment (USD)
+const EXPORT_CLEARANCE_PER_SHIPMENT = 75;
+const IMPORT_CLEARANCE_PER_SHIPMENT = 150;
+
+const DEFAULT_SHIPMENTS_PER_YEAR = 12;
+
+// Applied when the HS code is missing or not in the tariff table
+export const DEFAULT_DUTY_RATE = 0.05;
+
+// Importers that assess duty on the FOB value; most others use CIF
+const FOB_VALUATION_COUNTRIES = new Set(["US", "CA", "AU"]);
+
+// Members that share a common external tariff
+const CUSTOMS_UNIONS: Record<string, string> = {
+  DE: "EU",
+  PL: "EU",
+  FR: "EU",
+  IT: "EU",
+  ES: "EU",
+  NL: "EU",
+};
+
+/**
+ * Tariff table key for an importing country
+ */
+function tariffTerritory(country: string): string {
+  return CUSTOMS_UNIONS[country] ?? country;
+}
+
+/**
+ * Fill defaults and normalize codes on shipment parameters
+ */
+export function normalizeShipmentParameters(shipment: ShipmentParameters): ShipmentParameters {
+  return {
+    ...shipment,
+    destinationCountry: shipment.destinationCountry.toUpperCase(),
+    unitWeightKg: Math.max(0, shipment.unitWeightKg || 0),
+    unitVolumeM3: Math.max(0, shipment.unitVolumeM3 || 0),
+    hsCode: shipment.hsCode?.replace(/\D/g, "") || undefined,
+    shipmentsPerYear: shipment.shipmentsPerYear && shipment.shipmentsPerYear > 0
+      ? shipment.shipmentsPerYear
+      : DEFAULT_SHIPMENTS_PER_YEAR,
+  };
+}
+
+export interface LandedCostOptions {
+  originCountry: string;
+  dutyRate: number;
+  dutySource: "tariff" | "default";
+  fxRate: number; // USD into the breakdown's currency
+  aum: number;
+}
+
+/**
+ * Price an Ex-Works breakdown on every Incoterm
+ * A domestic shipment (origin equals destination) carries no main freight,
+ * and neither it nor a shipment inside a customs union pays clearance or duty.
+ */
+export function computeLandedCost(
+  breakdown: ExWorksCostBreakdown,
+  shipmentInput: ShipmentParameters,
+  options: LandedCostOptions
+): LandedCostBreakdown {
+  const shipment = normalizeShipmentParameters(shipmentInput);
+  const originCountry = options.originCountry.toUpperCase();
+  const domestic = originCountry === shipment.destinationCountry;
+  const customsFree = tariffTerritory(originCountry) === tariffTerritory(shipment.destinationCountry);
+  const fx = options.fxRate;
+
+  const freight = FREIGHT_RATES[shipment.mode];
+  const chargeableWeightKg = Math.max(shipment.unitWeightKg, shipment.unitVolumeM3 * freight.kgPerM3);
+  const unitsPerShipment = Math.max(1, options.aum / (shipment.shipmentsPerYear ?? DEFAULT_SHIPMENTS_PER_YEAR));
+  // Without an annual volume there is no shipment size to spread broker fees
+  // over; they are left out of the unit price and flagged instead
+  const clearanceExcluded = !customsFree && !(options.aum > 0);
+  const clearance = (feePerShipment: number) =>
+    customsFree || clearanceExcluded ? 0 : feePerShipment / unitsPerShipment * fx;
+
+  const originInlandFreight = shipment.unitWeightKg * ORIGIN_INLAND_RATE_PER_KG * fx;
+  const exportClearance = clearance(EXPORT_CLEARANCE_PER_SHIPMENT);
+  const mainFreight = domestic ? 0 : chargeableWeightKg * freight.ratePerKg * fx;
+  const destinationInlandFreight = shipment.unitWeightKg * DESTINATION_INLAND_RATE_PER_KG * fx;
+  const importClearance = clearance(IMPORT_CLEARANCE_PER_SHIPMENT);
+
+  const fca = breakdown.totalExWorks + originInlandFreight;
+  const fob = fca + exportClearance;
+  // Premium is on 110% of CIF value, and CIF includes the premium
+  const insurance = domestic
+    ? 0
+    : (fob + mainFreight) * INSURANCE_RATE * INSURED_VALUE_FACTOR / (1 - INSURANCE_RATE * INSURED_VALUE_FACTOR);
+  const cif = fob + mainFreight + insurance;
+  const dap = cif + destinationInlandFreight;
+
+  const dutyRate = customsFree ? 0 : options.dutyRate;
+  const customsValue = FOB_VALUATION_COUNTRIES.has(shipment.destinationCountry) ? fob : cif;
+  const duty = customsValue * dutyRate;
+  const ddp = dap + duty + importClearance;
+
+  const line = (label: string, amount: number): LandedCostLine => ({ label, amount });
+  const incotermStack: IncotermPrice[] = [
+    { incoterm: "EXW", price: breakdown.totalExWorks, added: [] },
+    { incoterm: "FCA", price: fca, added: [line("Inland freight to port", originInlandFreight)] },
+    { incoterm: "FOB", price: fob, added: [line("Export clearance", exportClearance)] },
+    {
+      incoterm: "CIF",
+      price: cif,
+      added: [line(`${shipment.mode[0].toUpperCase()}${shipment.mode.slice(1)} freight`, mainFreight), line("Insurance", insurance)],
+    },
+    { incoterm: "DAP", price: dap, added: [line("Inland freight to door", destinationInlandFreight)] },
+    {
+      incoterm: "DDP",
+      price: ddp,
+      added: [line(`Import duty (${(dutyRate * 100).toFixed(1)}%)`, duty), line("Import clearance", importClearance)],
+    },
+  ];
+
+  return {
+    ...breakdown,
+    originCountry,
+    shipment,
+    chargeableWeightKg,
+    originInlandFreight,
+    exportClearance,
+    mainFreight,
+    insurance,
+    destinationInlandFreight,
+    duty,
+    dutyRate,
+    dutySource: options.dutySource,
+    importClearance,
+    clearanceExcluded,
+    totalLanded: ddp,
+    incotermStack,
+  };
+}
+
+/**
+ * Landed cost for a costed model
+ * Looks up the duty for the lane and the USD rate into the model currency.
+ */
+export async function buildLandedCost(
+  model: CostModelInputs,
+  breakdown: ExWorksCostBreakdown,
+  shipmentInput: ShipmentParameters,
+  asOf: Date = new Date()
+): Promise<LandedCostBreakdown> {
+  const shipment = normalizeShipmentParameters(shipmentInput);
+  const originCountry = (model.country || DEFAULT_COUNTRY).toUpperCase();
+  const currency = model.currency || BASE_CURRENCY;
+
+  const fx = await getFxRate(BASE_CURRENCY, currency, asOf);
+  if (!fx) {
+    throw new Error(`No ${BASE_CURRENCY} to ${currency} exchange rate on or before ${asOf.toISOString().slice(0, 10)}`);
+  }
+
+  const tariff = shipment.hsCode
+    ? await findTariffRate(shipment.hsCode, tariffTerritory(shipment.destinationCountry), originCountry)
+    : undefined;
+
+  return computeLandedCost(breakdown, shipment, {
+    originCountry,
+    dutyRate: tariff?.dutyRate ?? DEFAULT_DUTY_RATE,
+    dutySource: tariff ? "tariff" : "default",
+    fxRate: fx.rate,
+    aum: model.aum,
+  });
+}
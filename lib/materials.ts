@@ -0,0 +1,304 @@
+/**
+ * Material line pricing
+ *
+ * Shared by lib/costing.ts and the agent materials node so both engines
+ * convert BOM quantities into the price unit, and net quantities into the
+ * gross quantity bought, the same way.
+ */
+
+import { convertQuantity, MaterialProperties } from "./units";
+import type { MaterialPriceMatch } from "./db";
+import {
+  CategoryConfig,
+  MaterialCostItem,
+  PriceBreak,
+  PriceConfidence,
+  PriceProvenance,
+  ProductComponent,
+} from "./prompts/types";
+
+export interface UnitPrice {
+  pricePerUnit: number;
+  unit: string;
+  priceBreaks?: PriceBreak[];
+  sourceCurrency?: string; // Set when pricePerUnit was converted from another currency
+  fxRate?: number;
+  indexCode?: string;     // Set when pricePerUnit was computed from a commodity index
+  indexDate?: Date;
+  provenance?: PriceProvenance;
+}
+
+export interface LineYield {
+  yieldFactor: number;          // Net / gross quantity
+  scrapRecoveryRate?: number;   // Share of the price recovered on the lost quantity
+}
+
+// Lowest yield accepted from a config or the LLM; below it the input is a typo
+const MIN_YIELD = 0.05;
+
+// Scrap value of common recyclables, as a share of the virgin price,
+// used when the category config does not list the material
+const DEFAULT_SCRAP_RECOVERY: Record<string, number> = {
+  aluminum: 0.5,
+  aluminium: 0.5,
+  copper: 0.7,
+  brass: 0.6,
+  stainless: 0.35,
+  steel: 0.25,
+};
+
+// Database prices not updated for this long drop one confidence level
+export const STALE_PRICE_DAYS = 365;
+
+// Material price lookups in flight at once (each a database query, possibly
+// followed by an embedding call for the semantic match)
+export const MATERIAL_LOOKUP_CONCURRENCY = 6;
+
+// Semantic matches at or above this similarity are medium confidence, below it low
+const CONFIDENT_SIMILARITY = 0.8;
+
+const CONFIDENCE_LEVELS: PriceConfidence[] = ["high", "medium", "low"];
+
+// LLM price, the placeholder used when the LLM returned none for a line, and a
+// price given by the reviewer when sending an agent analysis back for revision
+export const ESTIMATE_PROVENANCE: PriceProvenance = { source: "estimate", confidence: "low" };
+export const FALLBACK_PROVENANCE: PriceProvenance = { source: "fallback", confidence: "low" };
+export const REVIEWER_PROVENANCE: PriceProvenance = { source: "reviewer", confidence: "high" };
+
+/**
+ * Round a cost to a fixed number of decimal places
+ */
+function roundCost(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Value of the first keyword (longest first) the material name contains
+ */
+function matchKeyword(material: string, table: Record<string, number>): number | undefined {
+  const name = material.toLowerCase();
+  return Object.entries(table)
+    .sort(([a], [b]) => b.length - a.length)
+    .find(([keyword]) => name.includes(keyword.toLowerCase()))?.[1];
+}
+
+/**
+ * Cost of a line bought at its gross quantity, less the recovered scrap
+ */
+function lineCost(
+  pricedQuantity: number,
+  pricePerUnit: number,
+  item: Pick<MaterialCostItem, "yieldFactor" | "scrapRecoveryRate">,
+  decimals: number
+): Pick<MaterialCostItem, "totalCost" | "scrapCredit"> {
+  const gross = pricedQuantity * pricePerUnit;
+  const credit = gross * (1 - (item.yieldFactor ?? 1)) * (item.scrapRecoveryRate ?? 0);
+
+  return {
+    totalCost: roundCost(gross - credit, decimals),
+    scrapCredit: credit > 0 ? roundCost(credit, decimals) : undefined,
+  };
+}
+
+/**
+ * Provenance of a price looked up in MaterialPrice
+ * Exact name matches are high confidence, partial matches medium, and
+ * semantic matches medium or low by similarity; a price not updated within
+ * STALE_PRICE_DAYS of asOf drops one level.
+ */
+export function materialProvenance(match: MaterialPriceMatch, asOf: Date = new Date()): PriceProvenance {
+  const priceDate = match.indexDate ?? match.lastUpdated;
+  const base: PriceConfidence = match.matchType === "exact"
+    ? "high"
+    : match.matchType === "partial" || (match.similarity ?? 0) >= CONFIDENT_SIMILARITY
+      ? "medium"
+      : "low";
+  const stale = asOf.getTime() - new Date(priceDate).getTime() > STALE_PRICE_DAYS * 86400000;
+
+  return {
+    source: match.matchType,
+    confidence: stale
+      ? CONFIDENCE_LEVELS[Math.min(CONFIDENCE_LEVELS.length - 1, CONFIDENCE_LEVELS.indexOf(base) + 1)]
+      : base,
+    matchedMaterial: match.materialName,
+    similarity: match.similarity,
+    supplier: match.supplier,
+    priceDate: new Date(priceDate).toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * True when a line was priced from an LLM estimate or the fallback placeholder
+ */
+export function isEstimatedPrice(item: Pick<MaterialCostItem, "provenance">): boolean {
+  return item.provenance?.source === "estimate" || item.provenance?.source === "fallback";
+}
+
+/**
+ * Share of the priced lines' cost that rests on estimated prices (0-1)
+ */
+export function estimatedCostShare(items: Pick<MaterialCostItem, "provenance" | "totalCost">[]): number {
+  const total = items.reduce((sum, i) => sum + i.totalCost, 0);
+  const estimated = items.filter(isEstimatedPrice).reduce((sum, i) => sum + i.totalCost, 0);
+  return total > 0 ? estimated / total : 0;
+}
+
+/**
+ * Price one BOM line, converting the component quantity into the price unit.
+ * Lines whose units cannot be reconciled are flagged and carry no cost rather
+ * than a number computed in mismatched units.
+ */
+export function priceMaterialLine(
+  component: Pick<ProductComponent, "name" | "material" | "quantity" | "unit" | "id">,
+  price: UnitPrice,
+  properties: MaterialProperties = {},
+  decimals: number = 4
+): MaterialCostItem {
+  const priceUnit = price.unit || component.unit;
+  const conversion = convertQuantity(component.quantity, component.unit, priceUnit, properties);
+
+  if (!conversion.compatible) {
+    console.warn(`Unit mismatch for ${component.name}: ${conversion.note}`);
+  }
+
+  return {
+    component: component.name,
+    material: component.material,
+    quantity: component.quantity,
+    unit: component.unit,
+    pricePerUnit: price.pricePerUnit,
+    totalCost: conversion.compatible ? roundCost(conversion.quantity * price.pricePerUnit, decimals) : 0,
+    priceUnit,
+    pricedQuantity: conversion.compatible ? conversion.quantity : undefined,
+    unitIncompatible: conversion.compatible ? undefined : true,
+    unitNote: conversion.note,
+    priceBreaks: price.priceBreaks,
+    sourceCurrency: price.sourceCurrency,
+    fxRate: price.fxRate,
+    componentId: component.id,
+    indexCode: price.indexCode,
+    indexDate: price.indexDate?.toISOString().slice(0, 10),
+    provenance: price.provenance,
+  };
+}
+
+/**
+ * Yield and scrap recovery of a BOM line
+ * A yield on the component overrides the category; otherwise the material
+ * yield is multiplied by every process loss the material goes through.
+ */
+export function resolveLineYield(
+  component: Pick<ProductComponent, "material" | "yieldFactor">,
+  config?: CategoryConfig | null
+): LineYield {
+  const material = component.material.toLowerCase();
+  const override = Number(component.yieldFactor);
+
+  const yieldFactor = override > 0
+    ? override
+    : (matchKeyword(material, config?.materialYields ?? {}) ?? 1) *
+      (config?.processLosses ?? [])
+        .filter((loss) => !loss.materials || loss.materials.some((m) => material.includes(m.toLowerCase())))
+        .reduce((product, loss) => product * loss.yield, 1);
+
+  return {
+    yieldFactor: Math.min(1, Math.max(MIN_YIELD, yieldFactor)),
+    scrapRecoveryRate: matchKeyword(material, { ...DEFAULT_SCRAP_RECOVERY, ...config?.scrapRecovery }),
+  };
+}
+
+/**
+ * Buy a priced line at its gross quantity
+ * The BOM quantity stays net; the lost quantity is priced, and credited at
+ * the scrap recovery rate. Lines without loss are returned unchanged.
+ */
+export function applyYield(item: MaterialCostItem, lineYield: LineYield, decimals: number = 4): MaterialCostItem {
+  if (lineYield.yieldFactor >= 1) return item;
+
+  const withYield: MaterialCostItem = {
+    ...item,
+    grossQuantity: item.quantity / lineYield.yieldFactor,
+    yieldFactor: lineYield.yieldFactor,
+    scrapRecoveryRate: lineYield.scrapRecoveryRate,
+  };
+  if (item.unitIncompatible || item.pricedQuantity === undefined) return withYield;
+
+  const pricedQuantity = item.pricedQuantity / lineYield.yieldFactor;
+  return {
+    ...withYield,
+    pricedQuantity,
+    ...lineCost(pricedQuantity, item.pricePerUnit, withYield, decimals),
+  };
+}
+
+/**
+ * Read price breaks from a Json column, dropping malformed tiers
+ */
+export function toPriceBreaks(value: unknown): PriceBreak[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const breaks = value
+    .map((b) => ({ minQuantity: Number(b?.minQuantity), pricePerUnit: Number(b?.pricePerUnit) }))
+    .filter((b) => b.minQuantity > 0 && b.pricePerUnit > 0);
+  return breaks.length > 0 ? breaks : undefined;
+}
+
+/**
+ * Unit price for an annual quantity (in the price unit), using the deepest
+ * price break reached; falls back to the list price below the first break
+ */
+export function priceForVolume(listPrice: number, annualQuantity: number, priceBreaks?: PriceBreak[]): number {
+  if (!priceBreaks || priceBreaks.length === 0) return listPrice;
+
+  const reached = priceBreaks
+    .filter((b) => annualQuantity >= b.minQuantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+
+  return reached ? reached.pricePerUnit : listPrice;
+}
+
+/**
+ * Re-price a line for an annual volume of finished units
+ * Breaks are reached on the gross (purchased) quantity. Returns the item
+ * unchanged when it has no breaks or was not priced
+ */
+export function applyPriceBreaks(item: MaterialCostItem, aum: number, decimals: number = 4): MaterialCostItem {
+  if (!item.priceBreaks || item.unitIncompatible || item.pricedQuantity === undefined || aum <= 0) {
+    return item;
+  }
+
+  const pricePerUnit = priceForVolume(item.pricePerUnit, item.pricedQuantity * aum, item.priceBreaks);
+
+  return {
+    ...item,
+    pricePerUnit,
+    ...lineCost(item.pricedQuantity, pricePerUnit, item, decimals),
+  };
+}
+
+/**
+ * Scale the price of a line (and its price breaks) by a multiplier
+ */
+export function scaleLinePrice<T extends MaterialCostItem>(item: T, factor: number): T {
+  return {
+    ...item,
+    pricePerUnit: item.pricePerUnit * factor,
+    totalCost: item.totalCost * factor,
+    scrapCredit: item.scrapCredit !== undefined ? item.scrapCredit * factor : undefined,
+    priceBreaks: item.priceBreaks?.map((b) => ({ ...b, pricePerUnit: b.pricePerUnit * factor })),
+  };
+}
+
+/**
+ * Scale the quantity of a line by a multiplier
+ */
+export function scaleLineQuantity<T extends MaterialCostItem>(item: T, factor: number): T {
+  return {
+    ...item,
+    quantity: item.quantity * factor,
+    grossQuantity: item.grossQuantity !== undefined ? item.grossQuantity * factor : undefined,
+    pricedQuantity: item.pricedQuantity !== undefined ? item.pricedQuantity * factor : undefined,
+    totalCost: item.totalCost * factor,
+    scrapCredit: item.scrapCredit !== undefined ? item.scrapCredit * factor : undefined,
+  };
+}
@@ -79,6 +79,32 @@ Return a SINGLE JSON object with this EXACT structure:
     {"name": "Sugar", "material": "granulated sugar", "quantity": 0.015, "unit": "kg"}
   ],
 
+  "processParameters": {
+    "machineHourRate": 450,
+    "cycleTimeSeconds": 60,
+    "unitsPerCycle": 2400,
+    "setupHours": 4,
+    "runsPerYear": 50,
+    "description": "Continuous baking line, 2,400 units per minute"
+  },
+
+  "labourOperations": [
+    {"name": "Line operation", "processType": "food_processing", "skillLevel": "intermediate", "minutesPerUnit": 0.0025},
+    {"name": "Case packing", "processType": "packaging", "skillLevel": "entry", "minutesPerUnit": 0.0010}
+  ],
+
+  "packagingComponents": [
+    {"name": "Flow wrap", "material": "flexible film", "quantity": 0.002, "unit": "kg", "level": "primary"},
+    {"name": "Shipping case", "material": "corrugated box", "quantity": 0.0042, "unit": "piece", "level": "tertiary"}
+  ],
+
+  "tooling": [
+    {"name": "Cookie rotary moulding die", "cost": 18000, "owner": "supplier", "lifeShots": 40000000, "unitsPerShot": 1},
+    {"name": "Flow wrap print cylinders", "cost": 4500, "owner": "buyer"}
+  ],
+
+  "shipment": {"hsCode": "190531", "unitWeightKg": 0.017, "unitVolumeM3": 0.00011},
+
   "costPercentages": {
     "rawMaterial": 0.45,
     "conversion": 0.15,
@@ -148,6 +174,14 @@ CRITICAL INSTRUCTIONS:
 4. PROVIDE DETAILED BREAKDOWNS for conversion, labour, packing, overhead with sub-components and negotiation points
 5. estimatedUnitCost: Realistic wholesale/manufacturing cost per unit
 5. AUM affects conversion costs (higher volume = lower per-unit conversion)
+6. processParameters: Fully burdened machine/line rate for a US plant ($/hour; regional rates are applied afterwards), machine time per cycle, and good units per cycle. Conversion cost is CALCULATED from these. setupHours (changeover hours per run) and runsPerYear are amortized over AUM
+7. labourOperations: Crew minutes per SINGLE UNIT for each operation (crew size / units per minute). processType must be one of: assembly, welding, machining, woodworking, finishing, upholstery, electronics_assembly, painting, quality_control, packaging, food_processing. Labour cost is CALCULATED from hourly rates
+8. packagingComponents: Packaging materials per SINGLE UNIT with level "primary", "secondary", "tertiary" or "labels" (e.g., one case of 240 units = 0.0042 piece). Packing cost is CALCULATED from these
+9. costPercentages are only used as a fallback when the engineering inputs above cannot be estimated
+10. shipment: HS code (6 digits) of the finished product, and shipped gross weight (kg) and volume (m3) per SINGLE UNIT including packaging (shipping case cube / units per case). Freight, insurance and duty are CALCULATED from these
+11. Multi-level BOM (products with sub-assemblies: electronics, furniture, machinery): give every component an "id". List each sub-assembly as a component with material "assembly" and unit "piece", plus an optional "process" (processParameters for building ONE sub-assembly). Its parts carry "parentId" and "quantityPerParent" (quantity per ONE parent), e.g. {"id": "drawer", "name": "Drawer", "material": "assembly", "quantityPerParent": 3, "unit": "piece"} and {"id": "drawer-front", "parentId": "drawer", "name": "Drawer front", "material": "oak", "quantityPerParent": 0.004, "unit": "m3"}. Omit these fields for flat products
+12. Component quantities are NET (what ends up in the finished product). Add an optional "yieldFactor" (net / gross, e.g. 0.85 for fabric cut with 15% trim scrap, 0.92 for a molded part with sprue and runner) only where this product's loss differs from typical; material and process losses are otherwise applied per category
+13. tooling: One-time, product-specific tooling and NRE (moulds, dies, fixtures, print plates, test programs) in US dollars, with lifeShots (cycles before replacement) and unitsPerShot (cavities or units per cycle) where the tool wears out. owner "supplier" is amortized into the unit price over tool life or annual volume; owner "buyer" is paid up front. Omit tooling shared with other products or already in the machine-hour rate
 
 Return ONLY the JSON object, no other text.`,
 
@@ -167,6 +201,7 @@ Generate a professional Ex-Works Should-Cost Analysis for procurement negotiatio
 
 **Product:** ${data.productDescription}
 ${data.aum ? `**Annual Volume:** ${data.aum.toLocaleString()} units` : ''}
+${data.currency && data.currency !== "USD" ? `**Currency:** all amounts below are in ${data.currency}` : ''}
 
 **Bill of Materials (per unit):**
 ${data.components.map((c) => `- ${c.name}: ${c.quantity} ${c.unit} (${c.material})`).join("\n")}
@@ -183,10 +218,21 @@ ${data.exWorksCostBreakdown ? `
 | Labour | $${data.exWorksCostBreakdown.labour.toFixed(4)} | ${((data.exWorksCostBreakdown.labour / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
 | Packing | $${data.exWorksCostBreakdown.packing.toFixed(4)} | ${((data.exWorksCostBreakdown.packing / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
 | Overhead | $${data.exWorksCostBreakdown.overhead.toFixed(4)} | ${((data.exWorksCostBreakdown.overhead / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
-| Margin | $${data.exWorksCostBreakdown.margin.toFixed(4)} | ${((data.exWorksCostBreakdown.margin / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
+${data.exWorksCostBreakdown.tooling ? `| Tooling (amortized) | $${data.exWorksCostBreakdown.tooling.toFixed(4)} | ${((data.exWorksCostBreakdown.tooling / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
+` : ''}| Margin | $${data.exWorksCostBreakdown.margin.toFixed(4)} | ${((data.exWorksCostBreakdown.margin / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
 | **TOTAL EX-WORKS** | **$${data.exWorksCostBreakdown.totalExWorks.toFixed(4)}** | **100%** |
 ` : `**Total Cost:** $${data.totalCost.toFixed(2)}`}
 
+${data.quoteVariance ? `
+**Supplier Quote vs Should-Cost${data.quoteVariance.supplierName ? ` (${data.quoteVariance.supplierName})` : ''}:**
+| Bucket | Should-Cost (${data.quoteVariance.currency}) | Quoted (${data.quoteVariance.currency}) | Gap (${data.quoteVariance.currency}) | Gap % |
+|--------|-------------|--------|-----|-------|
+${data.quoteVariance.buckets.map((b) => `| ${b.label} | ${b.shouldCost.toFixed(4)} | ${b.quoted.toFixed(4)} | ${b.gap >= 0 ? '+' : ''}${b.gap.toFixed(4)} | ${(b.gapPercent * 100).toFixed(1)}% |`).join("\n")}
+| **TOTAL** | **${data.quoteVariance.totalShouldCost.toFixed(4)}** | **${data.quoteVariance.totalQuoted.toFixed(4)}** | **${data.quoteVariance.totalGap >= 0 ? '+' : ''}${data.quoteVariance.totalGap.toFixed(4)}** | **${(data.quoteVariance.totalGapPercent * 100).toFixed(1)}%** |
+
+**Quote Negotiation Points (address each in the brief):**
+${data.quoteVariance.negotiationPoints.map((p) => `- ${p}`).join("\n")}
+` : ''}
 ${similarProducts.length > 0 ? `
 **Similar Historical Products:**
 ${similarProducts.map((p) => `- ${p.productName}: $${p.totalCost}`).join("\n")}
@@ -198,7 +244,7 @@ Create a procurement-focused markdown report with:
 3. Key Cost Drivers
 4. Negotiation Leverage Points (where supplier has margin to negotiate)
 5. Volume-Based Pricing Recommendations
-
+${data.quoteVariance ? '6. Supplier Quote Gap Analysis (bucket by bucket, using the quote negotiation points above)\n' : ''}
 Also return a JSON object at the end:
 {"costSavingOpportunities": ["suggestion 1", "suggestion 2", "suggestion 3"], "targetPrice": 0.12, "negotiationRange": {"min": 0.10, "max": 0.15}}`,
 };
@@ -27,7 +27,27 @@ export const config: CategoryConfig = {
     typical: 0.10,
   },
 
-  // Food-specific units
+  // Facility and food-safety systems are largely fixed; automated lines learn slowly
+  fixedOverheadShare: 0.65,
+  learningRate: 0.95,
+
+  // Moulding dies and print plates are recovered over a two-year product run
+  toolingAmortizationYears: 2,
+
+  // Ingredient losses: trim, peel and shell waste, then moisture lost in the oven
+  materialYields: {
+    egg: 0.88,
+    vegetable: 0.85,
+    fruit: 0.85,
+    meat: 0.90,
+    flour: 0.98,
+    sugar: 0.99,
+  },
+  processLosses: [
+    { name: "Bake loss", yield: 0.90, materials: ["flour", "dough", "batter", "butter", "egg", "milk", "water"] },
+  ],
+
+    // Food-specific units
   commonUnits: ["g", "kg", "ml", "l", "oz", "lb", "each", "bunch", "cup", "tbsp", "tsp"],
 
   // Industry benchmarks
@@ -83,6 +83,35 @@ Return a SINGLE JSON object with DETAILED breakdowns:
     {"name": "Cocoa Powder", "material": "cocoa", "quantity": 0.002, "unit": "kg"}
   ],
 
+  "processParameters": {
+    "machineHourRate": 450,
+    "cycleTimeSeconds": 60,
+    "unitsPerCycle": 2400,
+    "setupHours": 4,
+    "runsPerYear": 50,
+    "description": "High-speed rotary moulding, tunnel oven and sandwiching line at 2,400 cookies/minute"
+  },
+
+  "labourOperations": [
+    {"name": "Line operators", "processType": "food_processing", "skillLevel": "intermediate", "minutesPerUnit": 0.0025},
+    {"name": "In-line QC sampling", "processType": "quality_control", "skillLevel": "intermediate", "minutesPerUnit": 0.0004},
+    {"name": "Case packing", "processType": "packaging", "skillLevel": "entry", "minutesPerUnit": 0.0008}
+  ],
+
+  "packagingComponents": [
+    {"name": "Cookie tray", "material": "plastic tray", "quantity": 0.0714, "unit": "piece", "level": "primary"},
+    {"name": "Flow wrap", "material": "flexible film", "quantity": 0.0003, "unit": "kg", "level": "primary"},
+    {"name": "Retail carton", "material": "folding carton", "quantity": 0.0714, "unit": "piece", "level": "secondary"},
+    {"name": "Shipping case", "material": "corrugated box", "quantity": 0.0030, "unit": "piece", "level": "tertiary"}
+  ],
+
+  "tooling": [
+    {"name": "Rotary moulding die", "cost": 18000, "owner": "supplier", "lifeShots": 40000000, "unitsPerShot": 1},
+    {"name": "Carton print plates", "cost": 3200, "owner": "buyer"}
+  ],
+
+  "shipment": {"hsCode": "190531", "unitWeightKg": 0.016, "unitVolumeM3": 0.00009},
+
   "costPercentages": {
     "rawMaterial": 0.45,
     "conversion": 0.12,
@@ -172,6 +201,12 @@ CRITICAL FOR FOOD PRODUCTS:
 7. Detailed costs should align with costPercentages (e.g., conversionDetails.total = estimatedUnitCost * costPercentages.conversion)
 8. marginAnalysis.reasoning MUST explain the margin based on brand strength, competition, and volume
 9. Include negotiationPoints for each category - these help procurement teams
+10. processParameters: Line rate for a US plant ($/hour incl. depreciation, energy, maintenance; regional rates are applied afterwards), cycle time and units per cycle - conversion is CALCULATED as machineHourRate x cycleTimeSeconds / 3600 / unitsPerCycle, plus setupHours x runsPerYear x machineHourRate / AUM for changeovers (allergen cleans, flavour changes)
+11. labourOperations: Crew minutes per SINGLE UNIT (e.g., 6 operators on a 2,400/min line = 0.0025 min/unit). Use processType "food_processing", "quality_control" or "packaging"
+12. packagingComponents: Packaging per SINGLE UNIT with level "primary", "secondary", "tertiary" or "labels" (e.g., a 14-cookie carton = 0.0714 carton per cookie)
+13. shipment: HS code (6 digits, e.g. 1905 bakery, 2202 beverages), and shipped gross weight (kg) and volume (m3) per SINGLE UNIT including packaging (shipping case cube / units per case)
+14. components: Quantities are NET, as in the finished product after baking or cooking; bake, trim and peel losses are applied per ingredient afterwards. Add "yieldFactor" (net / gross) only for unusual losses
+15. tooling: One-time tooling and NRE for THIS product (moulding dies, depositor plates, print plates and cylinders) in US dollars; owner "supplier" is amortized into the unit price over tool life (lifeShots x unitsPerShot) or annual volume, owner "buyer" is paid up front. Leave out line equipment already in the line rate
 
 Return ONLY the JSON object.`,
 
@@ -198,6 +233,7 @@ Generate a Food Industry Ex-Works Should-Cost Analysis.
 
 **Product:** ${data.productDescription}
 ${data.aum ? `**Annual Volume:** ${data.aum.toLocaleString()} units` : ''}
+${data.currency && data.currency !== "USD" ? `**Currency:** all amounts below are in ${data.currency}` : ''}
 
 **Recipe (per unit):**
 ${data.components.map((c) => `- ${c.name}: ${c.quantity} ${c.unit}`).join("\n")}
@@ -214,15 +250,26 @@ ${data.exWorksCostBreakdown ? `
 | Labour | $${data.exWorksCostBreakdown.labour.toFixed(4)} | ${((data.exWorksCostBreakdown.labour / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
 | Packing | $${data.exWorksCostBreakdown.packing.toFixed(4)} | ${((data.exWorksCostBreakdown.packing / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
 | Overhead | $${data.exWorksCostBreakdown.overhead.toFixed(4)} | ${((data.exWorksCostBreakdown.overhead / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
-| Margin | $${data.exWorksCostBreakdown.margin.toFixed(4)} | ${((data.exWorksCostBreakdown.margin / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
+${data.exWorksCostBreakdown.tooling ? `| Tooling (amortized) | $${data.exWorksCostBreakdown.tooling.toFixed(4)} | ${((data.exWorksCostBreakdown.tooling / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
+` : ''}| Margin | $${data.exWorksCostBreakdown.margin.toFixed(4)} | ${((data.exWorksCostBreakdown.margin / data.exWorksCostBreakdown.totalExWorks) * 100).toFixed(1)}% |
 | **TOTAL** | **$${data.exWorksCostBreakdown.totalExWorks.toFixed(4)}** | **100%** |
 ` : ''}
 
+${data.quoteVariance ? `
+**Supplier Quote vs Should-Cost${data.quoteVariance.supplierName ? ` (${data.quoteVariance.supplierName})` : ''}:**
+| Bucket | Should-Cost (${data.quoteVariance.currency}) | Quoted (${data.quoteVariance.currency}) | Gap % |
+|--------|-------------|--------|-------|
+${data.quoteVariance.buckets.map((b) => `| ${b.label} | ${b.shouldCost.toFixed(4)} | ${b.quoted.toFixed(4)} | ${(b.gapPercent * 100).toFixed(1)}% |`).join("\n")}
+
+**Quote Negotiation Points:**
+${data.quoteVariance.negotiationPoints.map((p) => `- ${p}`).join("\n")}
+` : ''}
+
 Create a food industry procurement report with:
 1. Executive Summary with target price
 2. Recipe Cost Analysis
 3. Key Cost Drivers (commodity exposure)
-4. Negotiation Points (ingredient substitutions, volume discounts)
+4. Negotiation Points (ingredient substitutions, volume discounts${data.quoteVariance ? ', and each quote negotiation point above' : ''})
 5. Make vs Buy considerations
 
 Return JSON: {"costSavingOpportunities": [...], "targetPrice": 0.08}`,
@@ -35,12 +35,18 @@ export {
 export type {
   CostingPrompts,
   CategoryConfig,
+  ProcessLoss,
   CategoryDefinition,
   SubcategoryDefinition,
   ClassificationResult,
   LaborCategory,
   ProductComponent,
+  SubAssemblyReference,
   MaterialCostItem,
+  PriceSource,
+  PriceConfidence,
+  PriceProvenance,
+  FxConversion,
   CostData,
   ExWorksCostBreakdown,
   CostPercentages,
@@ -55,6 +61,59 @@ export type {
   MarginBreakdown,
   CostSubComponent,
   IndustryType,
+  ProcessParameters,
+  LabourOperation,
+  PackagingLevel,
+  PackagingComponent,
+  PackagingCostItem,
+  CostBasis,
+  SubAssemblyProcess,
+  ToolingOwner,
+  ToolingItem,
+  ToolingLine,
+  ToolingBreakdown,
+  BomNode,
+  CostModelInputs,
+  CostDistribution,
+  CostSimulation,
+  SensitivityDriverType,
+  SensitivityDriver,
+  SensitivityAnalysis,
+  ExWorksBucket,
+  SupplierQuoteLine,
+  SupplierQuote,
+  BucketVariance,
+  QuoteLineVariance,
+  QuoteVarianceReport,
+  Incoterm,
+  FreightMode,
+  ShipmentParameters,
+  LandedCostLine,
+  IncotermPrice,
+  LandedCostBreakdown,
+  DriftBucket,
+  DriftLine,
+  ProductDrift,
+  DriftReport,
+  ComparisonBucket,
+  ComparisonLineKind,
+  ComparedAnalysis,
+  ComparisonBucketRow,
+  ComparisonLine,
+  DeltaDriver,
+  AnalysisComparison,
+  BatchRowStatus,
+  BatchRow,
+  BatchJob,
+  AnalysisWarningCode,
+  AnalysisWarningSeverity,
+  AnalysisWarning,
+  MaterialSubstitute,
+  LineSubstitutes,
+  DesignChangeType,
+  DesignChange,
+  DesignPlanStep,
+  DesignToCostResult,
 } from "./types";
 
 // Re-export constants
@@ -6,15 +6,90 @@ export interface ProductComponent {
     quantity: number;
     unit: string;
     unitCost?: number; // Cost per unit of material
+
+    // Multi-level BOM (absent on flat BOMs)
+    id?: string;
+    parentId?: string;              // Sub-assembly this line goes into; top level when absent
+    quantityPerParent?: number;     // Per ONE parent; `quantity` is the extended quantity per finished unit
+    process?: ProcessParameters;    // Sub-assembly lines: machine time to build one of it
+    subAssembly?: SubAssemblyReference; // Priced from its own should-cost instead of its children
+
+    yieldFactor?: number;           // Net / gross quantity; overrides the category's yield factors
+}
+
+/**
+ * Sub-assembly costed as its own analysis and bought into the parent BOM
+ * at its Ex-Works price
+ */
+export interface SubAssemblyReference {
+    productDescription: string;
+    unitCost: number;           // Ex-Works per sub-assembly, in `currency`
+    currency: string;
+    rawMaterial: number;        // Per sub-assembly, for the roll-up
+    conversion: number;
+    analysisDate?: string;
+}
+
+/**
+ * Volume price break: price applies once annual quantity (in the price unit)
+ * reaches minQuantity
+ */
+export interface PriceBreak {
+    minQuantity: number;
+    pricePerUnit: number;
+}
+
+/**
+ * Exchange rate applied to convert looked-up prices into the reporting currency
+ */
+export interface FxConversion {
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;              // Units of toCurrency per 1 fromCurrency
+    effectiveDate: string;     // ISO date of the rate(s) used
+}
+
+/**
+ * Where a line's price came from
+ * exact, partial and semantic are MaterialPrice matches on the material name;
+ * estimate is an LLM price and fallback the placeholder used when the LLM
+ * returned no price for the line.
+ */
+export type PriceSource = "exact" | "partial" | "semantic" | "estimate" | "fallback" | "sub-assembly" | "reviewer";
+
+export type PriceConfidence = "high" | "medium" | "low";
+
+export interface PriceProvenance {
+    source: PriceSource;
+    confidence: PriceConfidence;
+    matchedMaterial?: string;   // MaterialPrice row the price was taken from
+    similarity?: number;        // Semantic match score (0-1)
+    supplier?: string;
+    priceDate?: string;         // YYYY-MM-DD the price was last updated (index date for index-linked prices)
 }
 
 export interface MaterialCostItem {
     component: string;
     material: string;
-    quantity: number;
-    unit: string;
-    pricePerUnit: number;
+    quantity: number;           // BOM quantity, in `unit`
+    unit: string;               // BOM unit of measure
+    pricePerUnit: number;       // Price per `priceUnit`
     totalCost: number;
+    priceUnit?: string;         // Unit the price is quoted in (defaults to `unit`)
+    pricedQuantity?: number;    // `quantity` converted into `priceUnit`
+    unitIncompatible?: boolean; // BOM unit could not be converted; totalCost is 0, not a guess
+    unitNote?: string;          // Conversion path, or why conversion failed
+    priceBreaks?: PriceBreak[]; // MOQ tiers; pricePerUnit is the list (no-break) price
+    sourceCurrency?: string;    // Currency of the looked-up price; pricePerUnit is already converted
+    fxRate?: number;            // Rate applied from sourceCurrency into the reporting currency
+    componentId?: string;       // BOM line id on multi-level BOMs
+    grossQuantity?: number;     // Quantity bought, in `unit` (`quantity` / yieldFactor); priced as pricedQuantity
+    yieldFactor?: number;       // Net / gross quantity after material and process losses
+    scrapRecoveryRate?: number; // Share of the price recovered on the lost quantity
+    scrapCredit?: number;       // Value of the recovered scrap, already deducted from totalCost
+    indexCode?: string;         // Commodity index the price is linked to
+    indexDate?: string;         // Effective date (YYYY-MM-DD) of the index value behind the price
+    provenance?: PriceProvenance; // Source and confidence of pricePerUnit
 }
 
 // ============================================================================
@@ -135,6 +210,7 @@ export interface ExWorksCostBreakdown {
     packing: number;          // Primary & secondary packaging
     overhead: number;         // All indirect costs
     margin: number;           // Supplier profit
+    tooling: number;          // Supplier-owned tooling and NRE amortized per unit
     totalExWorks: number;     // Sum of all components
 
     // Detailed breakdowns (optional for backward compatibility)
@@ -149,6 +225,150 @@ export interface ExWorksCostBreakdown {
     packingDetails?: PackingBreakdown;
     overheadDetails?: OverheadBreakdown;
     marginAnalysis?: MarginBreakdown;
+    toolingDetails?: ToolingBreakdown;
+    // How each non-material bucket was derived
+    costBasis?: Record<"conversion" | "labour" | "packing" | "overhead" | "margin", CostBasis>;
+}
+
+// ============================================================================
+// ENGINEERED (BOTTOM-UP) COST MODEL
+// ============================================================================
+
+/**
+ * Manufacturing process parameters for conversion costing
+ * Conversion per unit = machineHourRate x cycleTimeSeconds / 3600 / unitsPerCycle
+ */
+export interface ProcessParameters {
+    machineHourRate: number;   // Fully burdened machine/line rate ($/hour): depreciation, energy, maintenance
+    cycleTimeSeconds: number;  // Machine time per cycle
+    unitsPerCycle: number;     // Good units per cycle (cavities, lanes, units per batch)
+    setupHours?: number;       // Changeover/setup machine hours per production run
+    runsPerYear?: number;      // Production runs (campaigns) per year
+    description?: string;
+}
+
+/**
+ * Direct labour operation, priced from LaborRate hourly rates
+ */
+export interface LabourOperation {
+    name: string;
+    processType: string;       // Matches LaborRate.processType (e.g. "assembly", "packaging")
+    skillLevel: "entry" | "intermediate" | "expert";
+    minutesPerUnit: number;    // Crew minutes per unit (crew size / line output per minute)
+    hourlyRate?: number;       // Resolved from LaborRate when the model is built
+}
+
+export type PackagingLevel = "primary" | "secondary" | "tertiary" | "labels";
+
+/**
+ * Packaging BOM line (quantity per single product unit)
+ */
+export interface PackagingComponent extends ProductComponent {
+    level: PackagingLevel;
+}
+
+/**
+ * Priced packaging line
+ */
+export interface PackagingCostItem extends MaterialCostItem {
+    level: PackagingLevel;
+}
+
+/**
+ * How a bucket was costed: from engineering data, or from the LLM's
+ * benchmark percentage when the engineering inputs were missing
+ */
+export type CostBasis = "engineered" | "benchmark";
+
+/**
+ * Machine time of a sub-assembly, added to conversion per finished unit
+ */
+export interface SubAssemblyProcess {
+    componentId: string;
+    name: string;
+    quantity: number;           // Sub-assemblies per finished unit
+    process: ProcessParameters;
+}
+
+export type ToolingOwner = "buyer" | "supplier";
+
+/**
+ * One-time tooling or NRE: molds, dies, fixtures, print plates, stencils
+ * Amortized over the tool's life in units or the amortization period's
+ * volume, whichever is smaller (a tool that wears out first is replaced).
+ */
+export interface ToolingItem {
+    name: string;
+    cost: number;               // One-time cost in the model currency
+    owner: ToolingOwner;        // Supplier-owned tools are recovered in the piece price; buyer-owned are paid up front
+    lifeShots?: number;         // Shots (or uses) before the tool is worn out; unlimited when absent
+    unitsPerShot?: number;      // Units made per shot (cavities, ups); defaults to 1
+}
+
+/**
+ * Tooling item amortized at one annual volume
+ */
+export interface ToolingLine extends ToolingItem {
+    amortizationQuantity: number; // Units the cost is spread over
+    perUnit: number;
+}
+
+export interface ToolingBreakdown {
+    supplierOwned: number;      // Per unit, the `tooling` bucket
+    buyerOwned: number;         // Per-unit equivalent of buyer-paid tools; not in the Ex-Works price
+    oneTimeTotal: number;       // Cost of every tool
+    buyerOneTime: number;       // Paid by the buyer up front
+    amortizationYears: number;
+    lines: ToolingLine[];
+}
+
+/**
+ * Node of the indented BOM with costs rolled up from its children
+ * Costs are per finished unit.
+ */
+export interface BomNode {
+    id: string;
+    name: string;
+    material: string;
+    quantityPerParent: number;
+    quantity: number;           // Extended quantity per finished unit
+    unit: string;
+    materialCost: number;
+    conversionCost: number;
+    totalCost: number;          // materialCost + conversionCost
+    subAssembly?: SubAssemblyReference;
+    item?: MaterialCostItem;    // Priced line (leaves and referenced sub-assemblies)
+    children: BomNode[];
+}
+
+/**
+ * Everything needed to recompute the Ex-Works breakdown without another LLM call.
+ * Returned on the analysis result so scenarios can re-run the model server-side.
+ */
+export interface CostModelInputs {
+    aum: number;
+    materials: MaterialCostItem[];
+    packaging: PackagingCostItem[];
+    process?: ProcessParameters;
+    subAssemblyProcesses?: SubAssemblyProcess[]; // Conversion below the final assembly
+    labourOperations: LabourOperation[];
+    tooling?: ToolingItem[];
+    toolingAmortizationYears?: number; // Years of AUM tooling is recovered over (capped by tool life)
+    overheadRate: number;  // Applied to manufacturing cost (material + conversion + labour + packing)
+    marginRate: number;    // Margin as a share of the Ex-Works price
+    fixedOverheadShare?: number; // Share of the baseline overhead pool that does not scale with volume
+    learningRate?: number;       // Labour learning curve per doubling of volume (0.90 = 90% curve)
+    benchmarkPercentages?: CostPercentages; // LLM ratios, used only for buckets without engineering data
+    currency?: string;           // Currency of every price and rate above (defaults to USD)
+    country?: string;            // Country of manufacture the rates are localized to (defaults to US)
+    // LLM sub-component splits, rescaled to the engineered bucket totals
+    templates?: {
+        conversionDetails?: ConversionBreakdown;
+        labourDetails?: LabourBreakdown;
+        packingDetails?: PackingBreakdown;
+        overheadDetails?: OverheadBreakdown;
+        marginAnalysis?: MarginBreakdown;
+    };
 }
 
 // Percentages for transparency
@@ -159,6 +379,450 @@ export interface CostPercentages {
     packing: number;
     overhead: number;
     margin: number;
+    tooling?: number;      // Absent from LLM benchmark ratios and older analyses
+}
+
+// ============================================================================
+// UNCERTAINTY (MONTE CARLO)
+// ============================================================================
+
+/**
+ * Summary of a simulated cost distribution ($/unit)
+ */
+export interface CostDistribution {
+    p10: number;
+    p50: number;
+    p90: number;
+    mean: number;
+    min: number;
+    max: number;
+}
+
+/**
+ * Monte Carlo result: unit cost and per-bucket distributions
+ */
+export interface CostSimulation {
+    iterations: number;
+    seed: number;
+    unitCost: CostDistribution;
+    buckets: Record<keyof CostPercentages, CostDistribution>;
+}
+
+// ============================================================================
+// SENSITIVITY (TORNADO)
+// ============================================================================
+
+export type SensitivityDriverType =
+    | "materialPrice"
+    | "materialQuantity"
+    | "packagingPrice"
+    | "machineHourRate"
+    | "labourRate"
+    | "overheadRate"
+    | "marginRate"
+    | "toolingCost";
+
+/**
+ * Impact of moving one input by ±delta on totalExWorks
+ */
+export interface SensitivityDriver {
+    id: string;                 // Stable key, e.g. "materialPrice:Wheat Flour"
+    label: string;
+    type: SensitivityDriverType;
+    lowTotal: number;           // totalExWorks with the input at -delta
+    highTotal: number;          // totalExWorks with the input at +delta
+    lowImpact: number;          // lowTotal - baseline
+    highImpact: number;         // highTotal - baseline
+    swing: number;              // |highTotal - lowTotal|, used for ranking
+}
+
+export interface SensitivityAnalysis {
+    delta: number;              // Relative perturbation (0.10 = ±10%)
+    baselineTotal: number;
+    drivers: SensitivityDriver[]; // Sorted by swing, largest first
+}
+
+// ============================================================================
+// SUPPLIER QUOTE VARIANCE
+// ============================================================================
+
+export type ExWorksBucket = keyof CostPercentages;
+
+/**
+ * One line of a supplier's cost breakdown ($/unit in the quote currency)
+ */
+export interface SupplierQuoteLine {
+    description: string;
+    amount: number;
+    bucket?: ExWorksBucket;     // Supplier-provided mapping; inferred when absent
+    quantity?: number;
+    unit?: string;
+}
+
+/**
+ * Supplier cost breakdown as uploaded or pasted by the buyer
+ */
+export interface SupplierQuote {
+    supplierName?: string;
+    currency?: string;
+    lineItems: SupplierQuoteLine[];
+    bucketTotals?: Partial<Record<ExWorksBucket, number>>; // Override line sums where the supplier gave totals
+    totalPrice?: number;
+}
+
+/**
+ * Quote vs should-cost for one Ex-Works bucket
+ */
+export interface BucketVariance {
+    bucket: ExWorksBucket;
+    label: string;
+    shouldCost: number;
+    quoted: number;
+    gap: number;                // quoted - shouldCost
+    gapPercent: number;         // gap / shouldCost (0.25 = quote 25% above)
+}
+
+/**
+ * Quote line mapped onto a bucket and, where possible, a BOM line
+ */
+export interface QuoteLineVariance {
+    description: string;
+    bucket: ExWorksBucket | "unmapped";
+    matchedComponent?: string;  // BOM or packaging line the quote line was matched to
+    quoted: number;
+    shouldCost?: number;
+    gap?: number;
+    gapPercent?: number;
+}
+
+export interface QuoteVarianceReport {
+    supplierName?: string;
+    currency: string;          // Should-cost currency; the quote is converted into it
+    fxRate?: FxConversion;     // Set when the quote was in another currency
+    buckets: BucketVariance[];
+    lines: QuoteLineVariance[];
+    totalShouldCost: number;
+    totalQuoted: number;
+    totalGap: number;
+    totalGapPercent: number;
+    negotiationPoints: string[];
+}
+
+// ============================================================================
+// LANDED COST (INCOTERMS)
+// ============================================================================
+
+export type Incoterm = "EXW" | "FCA" | "FOB" | "CIF" | "DAP" | "DDP";
+
+export type FreightMode = "ocean" | "air" | "road";
+
+/**
+ * Per-unit shipping data and the lane the goods move on
+ */
+export interface ShipmentParameters {
+    destinationCountry: string;
+    mode: FreightMode;
+    unitWeightKg: number;       // Gross shipped weight per unit, incl. packaging
+    unitVolumeM3: number;       // Shipped volume per unit (case cube / units per case)
+    hsCode?: string;            // Harmonized System code for the duty lookup (4-10 digits)
+    shipmentsPerYear?: number;  // Spreads per-shipment broker fees over AUM (default 12)
+}
+
+export interface LandedCostLine {
+    label: string;
+    amount: number;
+}
+
+/**
+ * Price per unit on one Incoterm and what it adds to the previous term
+ */
+export interface IncotermPrice {
+    incoterm: Incoterm;
+    price: number;
+    added: LandedCostLine[];
+}
+
+/**
+ * Ex-Works breakdown extended to the buyer's door
+ * All amounts are per unit in the analysis currency.
+ */
+export interface LandedCostBreakdown extends ExWorksCostBreakdown {
+    originCountry: string;
+    shipment: ShipmentParameters;
+    chargeableWeightKg: number;     // max(actual, volumetric) weight per unit
+    originInlandFreight: number;    // Factory to port of loading
+    exportClearance: number;        // Export broker fee per unit
+    mainFreight: number;            // Ocean, air or road freight to the destination port
+    insurance: number;              // Cargo insurance on 110% of CIF value
+    destinationInlandFreight: number; // Port of discharge to the buyer's door
+    duty: number;
+    dutyRate: number;               // Ad-valorem rate (0.05 = 5%)
+    dutySource: "tariff" | "default";
+    importClearance: number;        // Import broker fee per unit
+    clearanceExcluded?: boolean;    // No annual volume: broker fees per shipment are not in the unit price
+    totalLanded: number;            // DDP price
+    incotermStack: IncotermPrice[]; // EXW -> DDP, each term includes the ones before
+}
+
+// ============================================================================
+// PRICE DRIFT (RE-COSTING SAVED ANALYSES)
+// ============================================================================
+
+export type DriftBucket = "material" | "packaging" | "labour";
+
+/**
+ * One input of a saved analysis re-priced at today's rates
+ * Costs are per finished unit in the saved analysis currency.
+ */
+export interface DriftLine {
+    name: string;
+    material?: string;
+    bucket: DriftBucket;
+    previousRate: number;       // Price per priceUnit, or hourly rate for labour
+    rate: number;
+    rateUnit: string;           // e.g. "kg", "hour"
+    previousCost: number;
+    cost: number;
+    change: number;
+    changePercent: number;
+    repriced: boolean;          // False when no current price is on file; the saved cost is kept
+}
+
+/**
+ * Saved analysis re-costed against current prices
+ */
+export interface ProductDrift {
+    historicalCostId: string;
+    productName: string;
+    productDescription: string;
+    currency: string;
+    costedAt: string;           // When the analysis was approved (ISO)
+    recostedAt: string;
+    originalUnitCost: number;
+    unitCost: number;
+    change: number;
+    changePercent: number;
+    method: "model" | "materials";  // Full Ex-Works rebuild, or material changes grossed up for overhead and margin
+    reopen: boolean;            // |changePercent| reached the report threshold
+    lines: DriftLine[];         // Lines that moved first
+    skipped?: string;           // Why the analysis could not be re-costed
+}
+
+export interface DriftReport {
+    generatedAt: string;
+    threshold: number;          // Share of unit cost that flags a contract for reopening (0.05 = 5%)
+    products: ProductDrift[];   // Largest absolute drift first
+}
+
+// ============================================================================
+// ANALYSIS COMPARISON
+// ============================================================================
+
+export type ComparisonBucket = ExWorksBucket | "totalExWorks";
+
+export type ComparisonLineKind = "material" | "packaging" | "labour";
+
+/**
+ * Saved analysis in a comparison
+ */
+export interface ComparedAnalysis {
+    id: string;
+    productName: string;
+    productDescription: string;
+    costedAt: string;           // When the analysis was approved (ISO)
+    currency: string;           // Saved currency
+    fxRate: number;             // Saved currency -> comparison currency
+    unitCost: number;           // Comparison currency
+    note?: string;              // Detail missing from older saves
+}
+
+/**
+ * One Ex-Works bucket across the compared analyses
+ * Deltas are against the first (baseline) analysis.
+ */
+export interface ComparisonBucketRow {
+    bucket: ComparisonBucket;
+    label: string;
+    costs: number[];
+    deltas: number[];
+}
+
+/**
+ * One BOM, packaging or labour line aligned across the compared analyses
+ * Lines are matched by component name, then by material. Costs are per
+ * finished unit (labour before the learning curve) and null where an
+ * analysis has no such line.
+ */
+export interface ComparisonLine {
+    key: string;
+    kind: ComparisonLineKind;
+    name: string;
+    materials: (string | null)[];   // Material (or process) per analysis
+    costs: (number | null)[];
+    deltas: number[];               // A missing line counts as zero
+}
+
+/**
+ * Where part of an analysis's difference from the baseline comes from
+ */
+export interface DeltaDriver {
+    name: string;
+    kind: ComparisonLineKind | "bucket";
+    bucket: ComparisonBucket;
+    delta: number;
+    share: number;                  // Of the total Ex-Works delta
+    reason: string;                 // e.g. "material changed", "quantity 2 -> 2.5 kg"
+}
+
+export interface AnalysisComparison {
+    currency: string;
+    analyses: ComparedAnalysis[];   // First is the baseline
+    buckets: ComparisonBucketRow[];
+    lines: ComparisonLine[];        // Largest spread first
+    drivers: DeltaDriver[][];       // Per analysis, largest first; empty for the baseline
+}
+
+// ============================================================================
+// BATCH COSTING
+// ============================================================================
+
+export type BatchRowStatus = "queued" | "running" | "done" | "failed";
+
+/**
+ * One SKU of a batch, from one row of the uploaded CSV
+ */
+export interface BatchRow {
+    row: number;                // Line in the uploaded CSV (header is line 1)
+    description: string;
+    aum?: number;
+    category?: string;          // Category id; classified by the LLM when not given
+    country?: string;
+    status: BatchRowStatus;
+    error?: string;
+    // Set once the row is costed
+    categoryName?: string;
+    unitCost?: number;
+    exWorks?: Pick<ExWorksCostBreakdown, "rawMaterial" | "conversion" | "labour" | "packing" | "overhead" | "tooling" | "margin" | "totalExWorks">;
+    warningCount?: number;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+export interface BatchJob {
+    id: string;
+    createdAt: string;
+    finishedAt?: string;
+    currency: string;           // Reporting currency of every row
+    concurrency: number;        // Analyses run at once
+    status: "running" | "done";
+    rows: BatchRow[];
+}
+
+// ============================================================================
+// VALIDATION (GUARDRAILS ON LLM OUTPUT)
+// ============================================================================
+
+export type AnalysisWarningCode =
+    | "percentages_missing"      // No usable cost percentages; benchmark buckets fall back to zero
+    | "percentages_rescaled"     // Percentages did not sum to 1 and were rescaled
+    | "percentage_negative"      // Negative bucket share set to zero
+    | "percentage_clamped"       // LLM share moved into the category benchmark range
+    | "cost_structure_outlier"   // Engineered share outside the category benchmark range
+    | "quantity_negative"        // Negative BOM or packaging quantity, sign flipped
+    | "quantity_missing"         // Zero or unreadable quantity
+    | "quantity_implausible"     // Quantity per finished unit far beyond what the unit suggests
+    | "labour_dropped"           // Operation without usable minutes per unit
+    | "labour_implausible"       // Minutes per unit beyond a full shift
+    | "process_unusable"         // Process parameters present but unusable; conversion uses the benchmark
+    | "process_implausible"      // Machine-hour rate or cycle time out of range
+    | "aum_invalid"              // Volume estimate missing or not positive
+    | "tooling_dropped"          // Tooling item without a usable one-time cost
+    | "estimate_mismatch";       // LLM unit cost estimate far from the engineered Ex-Works price
+
+export type AnalysisWarningSeverity = "info" | "warning" | "error";
+
+/**
+ * Problem found in (and possibly corrected on) the LLM's cost structure
+ * "info" is a minor correction or an outlier worth a look, "warning" a value
+ * that was corrected or falls outside the expected range, "error" a value
+ * that was dropped or is likely to make the cost wrong.
+ */
+export interface AnalysisWarning {
+    code: AnalysisWarningCode;
+    severity: AnalysisWarningSeverity;
+    field: string;              // Path of the offending value, e.g. "components[2].quantity"
+    message: string;
+    value?: number;             // Value as the LLM returned it
+    expected?: { min: number; max: number };
+}
+
+// ============================================================================
+// MATERIAL SUBSTITUTION
+// ============================================================================
+
+/**
+ * Cheaper comparable material for a BOM line, priced at the line's quantity and yield
+ */
+export interface MaterialSubstitute {
+    materialName: string;
+    group?: string;             // Material group shared with the current material, e.g. "metal"
+    line: MaterialCostItem;     // The BOM line re-priced in the substitute
+    saving: number;             // Per unit vs the current line
+    savingPercent: number;      // Saving as a share of the current line cost
+    similarity?: number;        // Semantic similarity to the current material (0-1)
+    riskNotes: string[];        // What to verify before switching
+}
+
+/**
+ * Substitutes found for one BOM line
+ */
+export interface LineSubstitutes {
+    component: string;
+    material: string;
+    currentCost: number;
+    substitutes: MaterialSubstitute[];  // Largest saving first
+}
+
+// ============================================================================
+// DESIGN-TO-COST
+// ============================================================================
+
+export type DesignChangeType = "substitution" | "specReduction" | "packFormat" | "margin";
+
+/**
+ * One proposed change, re-costed on its own against the baseline
+ */
+export interface DesignChange {
+    id: string;
+    type: DesignChangeType;
+    label: string;              // e.g. "Substitute recycled PET for PET in Bottle"
+    detail: string;             // What changes and what to verify before adopting it
+    component?: string;         // BOM or packaging line the change applies to
+    unitCost: number;           // Ex-Works price with only this change
+    saving: number;             // Per unit vs the baseline
+    savingPercent: number;      // Saving as a share of the baseline price
+}
+
+/**
+ * Step of the combined plan: the price after stacking this change on the previous ones
+ */
+export interface DesignPlanStep {
+    changeId: string;
+    unitCost: number;
+}
+
+/**
+ * Ranked changes toward a target unit cost and the cheapest path to it
+ */
+export interface DesignToCostResult {
+    targetPrice: number;
+    currency: string;
+    baselineUnitCost: number;
+    gap: number;                // Baseline minus target; zero or less when already on target
+    changes: DesignChange[];    // Largest saving first
+    plan: DesignPlanStep[];     // Changes stacked in ranked order until the target is met
+    achievedUnitCost: number;
+    meetsTarget: boolean;
 }
 
 // Industry labor benchmarks
@@ -206,6 +870,14 @@ export interface FullAnalysisResult {
         margin: number;
     };
 
+    // Engineering inputs for the bottom-up model
+    processParameters?: ProcessParameters;
+    labourOperations?: LabourOperation[];
+    packagingComponents?: PackagingComponent[];
+    tooling?: ToolingItem[];
+    // Per-unit shipping data for the landed-cost layer
+    shipment?: Pick<ShipmentParameters, "hsCode" | "unitWeightKg" | "unitVolumeM3">;
+
     // Unit cost estimate (before detailed material lookup)
     estimatedUnitCost: number;
     currency: string;
@@ -246,6 +918,9 @@ export interface CostData {
     // New Ex-Works fields
     exWorksCostBreakdown?: ExWorksCostBreakdown;
     aum?: number;
+    currency?: string;
+    // Supplier quote comparison, when the buyer has one
+    quoteVariance?: QuoteVarianceReport;
 }
 
 // Prompt Interface
@@ -304,9 +979,19 @@ export interface CategoryConfig {
         typical: number;
     };
 
+    // Volume behaviour for scenarios
+    fixedOverheadShare?: number;  // Share of overhead that is fixed (e.g., 0.65)
+    learningRate?: number;        // Labour learning curve per doubling of volume (e.g., 0.95)
+    toolingAmortizationYears?: number; // Years of volume tooling is recovered over (e.g., 2)
+
     // Common units for components in this category
     commonUnits?: string[];
 
+    // Material losses; BOM quantities are net (what ends up in the product)
+    materialYields?: Record<string, number>;  // Material keyword -> yield (e.g., { fabric: 0.85 })
+    processLosses?: ProcessLoss[];            // Losses the matching lines go through (e.g., bake loss)
+    scrapRecovery?: Record<string, number>;   // Material keyword -> share of price recovered as scrap
+
     // Industry benchmarks for cost percentages
     industryBenchmarks?: {
         laborPercentage?: { min: number; max: number; typical: number };
@@ -318,6 +1003,15 @@ export interface CategoryConfig {
     metadata?: Record<string, unknown>;
 }
 
+/**
+ * Process loss applied on top of the material yield
+ */
+export interface ProcessLoss {
+    name: string;           // e.g., "Bake loss", "Sprue and runner"
+    yield: number;          // Net / gross through the process (e.g., 0.90)
+    materials?: string[];   // Material keywords it applies to; every line when absent
+}
+
 /**
  * Subcategory definition for hierarchical classification
  */
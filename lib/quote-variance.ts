@@ -0,0 +1,286 @@
+/**
+ * Supplier quote vs should-cost variance
+ *
+ * Maps a supplier's cost breakdown onto the Ex-Works buckets (and, for
+ * material and packaging lines, onto our BOM lines), then reports the gap per
+ * bucket in currency and percent. Buckets where the quote runs above
+ * should-cost become targeted negotiation points for the approval brief.
+ */
+
+import { BASE_CURRENCY, getFxRate } from "./fx";
+import {
+  BucketVariance,
+  ExWorksBucket,
+  ExWorksCostBreakdown,
+  FxConversion,
+  MaterialCostItem,
+  QuoteLineVariance,
+  QuoteVarianceReport,
+  SupplierQuote,
+  SupplierQuoteLine,
+} from "./prompts/types";
+
+// Gaps smaller than this (as a share of should-cost) are not worth raising
+export const VARIANCE_THRESHOLD = 0.05;
+
+const BUCKET_LABELS: Record<ExWorksBucket, string> = {
+  rawMaterial: "Raw Material",
+  conversion: "Conversion",
+  labour: "Labour",
+  packing: "Packing",
+  overhead: "Overhead",
+  margin: "Margin",
+  tooling: "Tooling",
+};
+
+// Keywords used to place unlabelled quote lines; checked in this order
+const BUCKET_KEYWORDS: [ExWorksBucket, RegExp][] = [
+  ["margin", /\b(margin|profit|mark-?up)\b/i],
+  ["tooling", /\b(tool(ing)?|moulds?|molds?|dies?|fixtures?|nre|stencils?|print plates?|cylinders?)\b/i],
+  ["packing", /\b(packag\w*|packing|carton|box(es)?|case|film|wrap|label\w*|pallet\w*|tray|bottle|sleeve)\b/i],
+  ["labour", /\b(labou?r|wages?|operators?|manpower|direct staff|headcount)\b/i],
+  ["conversion", /\b(conversion|machine|processing|process|energy|utilit\w*|electric\w*|gas|depreciation|maintenance|moulding|molding|baking)\b/i],
+  ["overhead", /\b(overhead|sg&a|sga|admin\w*|facility|rent|insurance|quality|qa|qc|compliance|logistics)\b/i],
+  ["rawMaterial", /\b(material\w*|ingredient\w*|raw|resin|steel|fabric|component\w*)\b/i],
+];
+
+// Talking points per bucket when the supplier is above should-cost
+const BUCKET_LEVERS: Record<ExWorksBucket, string> = {
+  rawMaterial: "request material invoices or index-linked pricing and compare against our BOM prices",
+  conversion: "ask for machine-hour rates, cycle times and OEE behind the conversion charge",
+  labour: "ask for crew sizes, line speeds and hourly rates to validate labour minutes per unit",
+  packing: "quote packaging components separately or supply them directly",
+  overhead: "request the overhead allocation basis and challenge allocations not driven by this product",
+  margin: "benchmark margin against category norms and trade volume commitments for a lower rate",
+  tooling: "ask for tool cost, tool life and amortization volume, or buy the tooling outright and drop it from the piece price",
+};
+
+/**
+ * Parse a pasted or uploaded breakdown (CSV or tab separated)
+ * Each row is "description, amount[, bucket]"; header and blank rows are
+ * skipped, and rows named like "Conversion total" set bucket totals.
+ */
+export function parseQuoteText(text: string, supplierName?: string, currency?: string): SupplierQuote {
+  const lineItems: SupplierQuoteLine[] = [];
+  const bucketTotals: Partial<Record<ExWorksBucket, number>> = {};
+  let totalPrice: number | undefined;
+
+  for (const row of text.split(/\r?\n/)) {
+    // Tab-separated rows (pasted from a spreadsheet) may keep thousands separators
+    const cells = row.split(row.includes("\t") ? /\t/ : /,|;/).map((c) => c.trim()).filter(Boolean);
+    if (cells.length < 2) continue;
+
+    const amountIndex = cells.findIndex((c, i) => i > 0 && !isNaN(parseAmount(c)));
+    if (amountIndex < 0) continue; // Header or text-only row
+
+    const description = cells.slice(0, amountIndex).join(" ");
+    const amount = parseAmount(cells[amountIndex]);
+    const bucket = toBucket(cells[amountIndex + 1]);
+
+    if (/\btotal\b/i.test(description)) {
+      const totalBucket = bucket || inferBucket(description);
+      if (totalBucket) {
+        bucketTotals[totalBucket] = amount;
+      } else {
+        totalPrice = amount;
+      }
+      continue;
+    }
+
+    lineItems.push({ description, amount, bucket });
+  }
+
+  return {
+    supplierName,
+    currency,
+    lineItems,
+    bucketTotals: Object.keys(bucketTotals).length > 0 ? bucketTotals : undefined,
+    totalPrice,
+  };
+}
+
+/**
+ * Parse "$1,234.50" or "0.12" into a number (NaN when not numeric)
+ */
+function parseAmount(value: string): number {
+  const cleaned = value.replace(/[$€£¥\s]/g, "").replace(/,(?=\d{3}\b)/g, "");
+  return cleaned === "" ? NaN : Number(cleaned);
+}
+
+/**
+ * Accept a bucket id or label ("rawMaterial", "Raw Material", "labor")
+ */
+function toBucket(value?: string): ExWorksBucket | undefined {
+  if (!value) return undefined;
+  const key = value.toLowerCase().replace(/[^a-z]/g, "");
+  const aliases: Record<string, ExWorksBucket> = {
+    rawmaterial: "rawMaterial", material: "rawMaterial", materials: "rawMaterial",
+    conversion: "conversion",
+    labour: "labour", labor: "labour",
+    packing: "packing", packaging: "packing",
+    overhead: "overhead", overheads: "overhead",
+    margin: "margin", profit: "margin",
+    tooling: "tooling", tool: "tooling", nre: "tooling",
+  };
+  return aliases[key];
+}
+
+/**
+ * Infer the bucket of a quote line from its description
+ */
+function inferBucket(description: string): ExWorksBucket | undefined {
+  return BUCKET_KEYWORDS.find(([, pattern]) => pattern.test(description))?.[0];
+}
+
+/**
+ * Find the BOM or packaging line a quote line refers to
+ */
+function matchLine(description: string, lines: MaterialCostItem[]): MaterialCostItem | undefined {
+  const text = description.toLowerCase();
+  return lines.find((l) =>
+    text.includes(l.component.toLowerCase()) ||
+    text.includes(l.material.toLowerCase()) ||
+    l.component.toLowerCase().includes(text)
+  );
+}
+
+/**
+ * Express a supplier quote in the should-cost currency
+ * Quotes without a currency are taken to be in it already. Returns undefined
+ * when no rate is in effect on `asOf`, so amounts are never compared across
+ * currencies.
+ */
+export async function convertQuote(
+  quote: SupplierQuote,
+  currency: string,
+  asOf: Date = new Date()
+): Promise<{ quote: SupplierQuote; fxRate?: FxConversion } | undefined> {
+  const target = currency.toUpperCase();
+  const source = (quote.currency || target).toUpperCase();
+  if (source === target) {
+    return { quote: { ...quote, currency: target } };
+  }
+
+  const fxRate = await getFxRate(source, target, asOf);
+  if (!fxRate) return undefined;
+
+  const convert = (amount: number) => amount * fxRate.rate;
+  return {
+    quote: {
+      ...quote,
+      currency: target,
+      lineItems: quote.lineItems.map((line) => ({ ...line, amount: convert(line.amount) })),
+      bucketTotals: quote.bucketTotals
+        ? Object.fromEntries(Object.entries(quote.bucketTotals).map(([bucket, amount]) => [bucket, convert(amount)]))
+        : undefined,
+      totalPrice: quote.totalPrice !== undefined ? convert(quote.totalPrice) : undefined,
+    },
+    fxRate,
+  };
+}
+
+/**
+ * Compare a supplier quote with the should-cost breakdown
+ * The quote must already be in the breakdown's currency (see convertQuote)
+ */
+export function compareQuoteToShouldCost(
+  quote: SupplierQuote,
+  breakdown: ExWorksCostBreakdown,
+  materialCosts: MaterialCostItem[] = breakdown.rawMaterialDetails?.components || [],
+  packagingCosts: MaterialCostItem[] = [],
+  currency: string = BASE_CURRENCY,
+  fxRate?: FxConversion
+): QuoteVarianceReport {
+  // Map every quote line onto a bucket (and a BOM line where we can)
+  const lines: QuoteLineVariance[] = quote.lineItems.map((line) => {
+    const material = matchLine(line.description, materialCosts);
+    const pack = material ? undefined : matchLine(line.description, packagingCosts);
+    const bucket = line.bucket
+      || (material ? "rawMaterial" : pack ? "packing" : inferBucket(line.description))
+      || "unmapped";
+    const matched = (bucket === "rawMaterial" && material) || (bucket === "packing" && pack) || undefined;
+    const shouldCost = matched ? matched.totalCost : undefined;
+
+    return {
+      description: line.description,
+      bucket,
+      matchedComponent: matched ? matched.component : undefined,
+      quoted: line.amount,
+      shouldCost,
+      gap: shouldCost !== undefined ? line.amount - shouldCost : undefined,
+      gapPercent: shouldCost ? (line.amount - shouldCost) / shouldCost : undefined,
+    };
+  });
+
+  const buckets: BucketVariance[] = (Object.keys(BUCKET_LABELS) as ExWorksBucket[]).map((bucket) => {
+    const shouldCost = breakdown[bucket] ?? 0;
+    const quoted = quote.bucketTotals?.[bucket]
+      ?? lines.filter((l) => l.bucket === bucket).reduce((sum, l) => sum + l.quoted, 0);
+    const gap = quoted - shouldCost;
+    return {
+      bucket,
+      label: BUCKET_LABELS[bucket],
+      shouldCost,
+      quoted,
+      gap,
+      gapPercent: shouldCost > 0 ? gap / shouldCost : 0,
+    };
+  });
+
+  const totalShouldCost = breakdown.totalExWorks;
+  const totalQuoted = quote.totalPrice ?? buckets.reduce((sum, b) => sum + b.quoted, 0);
+  const totalGap = totalQuoted - totalShouldCost;
+
+  return {
+    supplierName: quote.supplierName,
+    currency,
+    fxRate,
+    buckets,
+    lines,
+    totalShouldCost,
+    totalQuoted,
+    totalGap,
+    totalGapPercent: totalShouldCost > 0 ? totalGap / totalShouldCost : 0,
+    negotiationPoints: buildNegotiationPoints(buckets, lines, currency),
+  };
+}
+
+/**
+ * Turn the largest positive gaps into talking points, biggest first
+ */
+function buildNegotiationPoints(
+  buckets: BucketVariance[],
+  lines: QuoteLineVariance[],
+  currency: string
+): string[] {
+  const format = (value: number) => `${currency} ${value.toFixed(4)}`;
+  const points: string[] = [];
+
+  buckets
+    .filter((b) => b.quoted > 0 && b.gap > 0 && b.gapPercent >= VARIANCE_THRESHOLD)
+    .sort((a, b) => b.gap - a.gap)
+    .forEach((b) => {
+      points.push(
+        `${b.label} is quoted at ${format(b.quoted)} vs should-cost ${format(b.shouldCost)} (+${format(b.gap)}, +${(b.gapPercent * 100).toFixed(0)}%): ${BUCKET_LEVERS[b.bucket]}.`
+      );
+    });
+
+  lines
+    .filter((l) => l.matchedComponent && l.gap !== undefined && l.gap > 0 && (l.gapPercent ?? 0) >= VARIANCE_THRESHOLD)
+    .sort((a, b) => (b.gap ?? 0) - (a.gap ?? 0))
+    .slice(0, 3)
+    .forEach((l) => {
+      points.push(
+        `${l.matchedComponent} is quoted at ${format(l.quoted)} vs ${format(l.shouldCost ?? 0)} in our BOM (+${((l.gapPercent ?? 0) * 100).toFixed(0)}%).`
+      );
+    });
+
+  const unmapped = lines.filter((l) => l.bucket === "unmapped");
+  if (unmapped.length > 0) {
+    points.push(
+      `Ask the supplier to explain ${unmapped.length} unmapped line(s): ${unmapped.map((l) => l.description).join(", ")}.`
+    );
+  }
+
+  return points;
+}
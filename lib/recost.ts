@@ -0,0 +1,279 @@
+/**
+ * Re-costing saved analyses against current prices
+ *
+ * Approved analyses store their priced BOM and, when the cost model was saved
+ * with them, their labour operations. Re-costing keeps the saved quantities,
+ * looks every material up again in MaterialPrice and every operation in
+ * LaborRate, and reports how far each product's unit cost has drifted so
+ * the contracts that moved most can be reopened.
+ */
+
+import { findAllHistoricalCosts, findMaterialPrice, HistoricalCost, saveHistoricalRecost } from "./db";
+import { applyPriceBreaks, applyYield, materialProvenance, priceMaterialLine } from "./materials";
+import { BASE_CURRENCY, createFxConverter, FxConverter, getFxRate, toReportingPrice } from "./fx";
+import { computeExWorks, resolveLabourRates } from "./cost-model";
+import {
+  CostModelInputs,
+  DriftBucket,
+  DriftLine,
+  DriftReport,
+  ExWorksCostBreakdown,
+  LabourOperation,
+  MaterialCostItem,
+  PackagingCostItem,
+  ProductDrift,
+} from "./prompts/types";
+
+// Unit-cost drift that flags a contract for reopening
+export const DEFAULT_REOPEN_THRESHOLD = 0.05;
+
+export interface RecostOptions {
+  asOf?: Date;         // Price date (defaults to now)
+  threshold?: number;  // Reopen threshold as a share of unit cost
+  ids?: string[];      // Limit the job to these saved analyses
+}
+
+/**
+ * Round a cost to 4 decimal places
+ */
+function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Relative change, 0 when there was nothing to compare against
+ */
+function relativeChange(previous: number, current: number): number {
+  return previous !== 0 ? (current - previous) / previous : 0;
+}
+
+/**
+ * Re-price a saved line at today's price, keeping its quantity and yield
+ * Returns undefined when no current price is on file (LLM estimates,
+ * sub-assemblies bought in at their own should-cost).
+ */
+async function repriceLine<T extends MaterialCostItem>(item: T, fx: FxConverter): Promise<T | undefined> {
+  if (item.material === "sub-assembly") return undefined;
+
+  const materialPrice = await findMaterialPrice(item.material);
+  const price = materialPrice && await toReportingPrice(materialPrice, fx);
+  if (!materialPrice || !price) return undefined;
+
+  const line = priceMaterialLine(
+    { name: item.component, material: item.material, quantity: item.quantity, unit: item.unit, id: item.componentId },
+    { ...price, provenance: materialProvenance(materialPrice, fx.asOf) },
+    materialPrice
+  );
+
+  return {
+    ...item,
+    ...applyYield(line, { yieldFactor: item.yieldFactor ?? 1, scrapRecoveryRate: item.scrapRecoveryRate }),
+  };
+}
+
+/**
+ * Drift of one material or packaging line at the saved volume
+ */
+function materialDrift(bucket: DriftBucket, before: MaterialCostItem, after: MaterialCostItem | undefined, aum: number): DriftLine {
+  const previous = applyPriceBreaks(before, aum);
+  const current = after ? applyPriceBreaks(after, aum) : previous;
+
+  return {
+    name: before.component,
+    material: before.material,
+    bucket,
+    previousRate: previous.pricePerUnit,
+    rate: current.pricePerUnit,
+    rateUnit: current.priceUnit || current.unit,
+    previousCost: previous.totalCost,
+    cost: current.totalCost,
+    change: roundCost(current.totalCost - previous.totalCost),
+    changePercent: relativeChange(previous.totalCost, current.totalCost),
+    repriced: after !== undefined,
+  };
+}
+
+/**
+ * Drift of one labour operation (before the learning curve)
+ */
+function labourDrift(before: LabourOperation, after: LabourOperation, repriced: boolean): DriftLine {
+  const previousCost = (before.hourlyRate ?? 0) * before.minutesPerUnit / 60;
+  const cost = (after.hourlyRate ?? 0) * after.minutesPerUnit / 60;
+
+  return {
+    name: before.name,
+    bucket: "labour",
+    previousRate: before.hourlyRate ?? 0,
+    rate: after.hourlyRate ?? 0,
+    rateUnit: "hour",
+    previousCost: roundCost(previousCost),
+    cost: roundCost(cost),
+    change: roundCost(cost - previousCost),
+    changePercent: relativeChange(previousCost, cost),
+    repriced,
+  };
+}
+
+/**
+ * Multiplier from a change in direct cost to a change in Ex-Works price,
+ * using the saved breakdown's overhead rate and margin share
+ */
+function exWorksGrossUp(exWorks?: ExWorksCostBreakdown): number {
+  if (!exWorks || !(exWorks.totalExWorks > 0)) return 1;
+
+  const manufacturing = exWorks.rawMaterial + exWorks.conversion + exWorks.labour + exWorks.packing;
+  const overheadRate = manufacturing > 0 ? exWorks.overhead / manufacturing : 0;
+  const marginShare = Math.min(0.9, exWorks.margin / exWorks.totalExWorks);
+
+  return (1 + overheadRate) / (1 - marginShare);
+}
+
+/**
+ * Re-cost one saved analysis at the prices in effect on a date
+ * With a saved cost model the Ex-Works price is rebuilt; older saves only
+ * carry their priced BOM, so material changes are grossed up for overhead and
+ * margin instead.
+ */
+export async function recostHistoricalCost(
+  cost: HistoricalCost,
+  options: Omit<RecostOptions, "ids"> = {}
+): Promise<ProductDrift> {
+  const asOf = options.asOf || new Date();
+  const threshold = options.threshold ?? DEFAULT_REOPEN_THRESHOLD;
+  const breakdown = cost.breakdown as {
+    materials?: unknown;
+    exWorks?: ExWorksCostBreakdown;
+    costModel?: CostModelInputs;
+    currency?: string;
+  };
+  const model = breakdown.costModel;
+  const currency = (breakdown.currency || model?.currency || BASE_CURRENCY).toUpperCase();
+
+  const base = {
+    historicalCostId: cost.id,
+    productName: cost.productName,
+    productDescription: cost.productDescription,
+    currency,
+    costedAt: new Date(cost.createdAt).toISOString(),
+    recostedAt: asOf.toISOString(),
+    originalUnitCost: cost.totalCost,
+  };
+  const unchanged = (skipped: string): ProductDrift => ({
+    ...base,
+    unitCost: cost.totalCost,
+    change: 0,
+    changePercent: 0,
+    method: "materials",
+    reopen: false,
+    lines: [],
+    skipped,
+  });
+
+  const savedMaterials = model?.materials ?? (Array.isArray(breakdown.materials) ? breakdown.materials as MaterialCostItem[] : undefined);
+  if (!savedMaterials || savedMaterials.some((m) => typeof m?.material !== "string")) {
+    return unchanged("No priced BOM was saved with this analysis");
+  }
+
+  const fx = createFxConverter(currency, asOf);
+  const aum = model?.aum ?? 0;
+  const lines: DriftLine[] = [];
+
+  const materials: MaterialCostItem[] = [];
+  for (const item of savedMaterials) {
+    const repriced = await repriceLine(item, fx);
+    lines.push(materialDrift("material", item, repriced, aum));
+    materials.push(repriced ?? item);
+  }
+
+  let unitCost: number;
+  let method: ProductDrift["method"];
+
+  if (model) {
+    const packaging: PackagingCostItem[] = [];
+    for (const item of model.packaging) {
+      const repriced = await repriceLine(item, fx);
+      lines.push(materialDrift("packaging", item, repriced, aum));
+      packaging.push(repriced ?? item);
+    }
+
+    // Labour rates are stored in USD
+    const usdRate = (await getFxRate(BASE_CURRENCY, currency, asOf))?.rate;
+    const labourOperations = usdRate !== undefined
+      ? await resolveLabourRates(model.labourOperations, model.country, usdRate)
+      : model.labourOperations;
+    model.labourOperations.forEach((op, i) => lines.push(labourDrift(op, labourOperations[i], usdRate !== undefined)));
+
+    unitCost = computeExWorks({ ...model, materials, packaging, labourOperations }).totalExWorks;
+    method = "model";
+  } else {
+    const directChange = lines.reduce((sum, l) => sum + l.change, 0);
+    unitCost = cost.totalCost + directChange * exWorksGrossUp(breakdown.exWorks);
+    method = "materials";
+  }
+
+  const changePercent = relativeChange(cost.totalCost, unitCost);
+
+  return {
+    ...base,
+    unitCost: roundCost(unitCost),
+    change: roundCost(unitCost - cost.totalCost),
+    changePercent,
+    method,
+    reopen: Math.abs(changePercent) >= threshold,
+    lines: lines.sort((a, b) => Math.abs(b.change) - Math.abs(a.change)),
+  };
+}
+
+/**
+ * Largest drift first; analyses that could not be re-costed last
+ */
+function byDrift(a: ProductDrift, b: ProductDrift): number {
+  return Number(!!a.skipped) - Number(!!b.skipped) || Math.abs(b.changePercent) - Math.abs(a.changePercent);
+}
+
+/**
+ * Re-cost every saved analysis and record the new unit cost next to the original
+ */
+export async function runRecostJob(options: RecostOptions = {}): Promise<DriftReport> {
+  const asOf = options.asOf || new Date();
+  const threshold = options.threshold ?? DEFAULT_REOPEN_THRESHOLD;
+  const costs = (await findAllHistoricalCosts()).filter((c) => !options.ids || options.ids.includes(c.id));
+
+  const products: ProductDrift[] = [];
+  for (const cost of costs) {
+    const drift = await recostHistoricalCost(cost, { asOf, threshold });
+
+    if (!drift.skipped) {
+      await saveHistoricalRecost(cost.id, {
+        recostedUnitCost: drift.unitCost,
+        recostedAt: asOf,
+        recostDrift: drift as unknown as Record<string, unknown>,
+      });
+    }
+    products.push(drift);
+  }
+
+  return {
+    generatedAt: asOf.toISOString(),
+    threshold,
+    products: products.sort(byDrift),
+  };
+}
+
+/**
+ * Drift report from the last re-costing of each saved analysis
+ */
+export async function findLatestDriftReport(threshold: number = DEFAULT_REOPEN_THRESHOLD): Promise<DriftReport> {
+  const costs = (await findAllHistoricalCosts()).filter((c) => c.recostDrift && c.recostedAt);
+  const products = costs.map((c) => {
+    const drift = c.recostDrift as unknown as ProductDrift;
+    return { ...drift, reopen: Math.abs(drift.changePercent) >= threshold };
+  });
+  const latest = costs.reduce((max, c) => Math.max(max, new Date(c.recostedAt!).getTime()), 0);
+
+  return {
+    generatedAt: latest > 0 ? new Date(latest).toISOString() : "",
+    threshold,
+    products: products.sort(byDrift),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Manufacturing regions
+ *
+ * Country-of-manufacture profiles that localize the cost model. LaborRate
+ * rows are looked up by region first; the indices below cover process types
+ * without a regional row and scale the LLM's machine and overhead rates,
+ * which are estimated for a US plant. Materials are priced the same in every
+ * region (traded inputs).
+ */
+
+export const DEFAULT_COUNTRY = "US";
+
+// Share of a fully burdened machine-hour rate that is energy and utilities
+export const UTILITY_SHARE_OF_MACHINE_RATE = 0.30;
+
+export interface RegionProfile {
+  code: string;
+  name: string;
+  labourIndex: number;   // Hourly labour cost relative to the US
+  utilityIndex: number;  // Industrial energy/utility cost relative to the US
+  overheadIndex: number; // Plant overhead (indirect staff, facility) relative to the US
+}
+
+export const REGION_PROFILES: Record<string, RegionProfile> = {
+  US: { code: "US", name: "United States", labourIndex: 1, utilityIndex: 1, overheadIndex: 1 },
+  MX: { code: "MX", name: "Mexico", labourIndex: 0.22, utilityIndex: 0.9, overheadIndex: 0.85 },
+  CN: { code: "CN", name: "China", labourIndex: 0.25, utilityIndex: 0.75, overheadIndex: 0.8 },
+  IN: { code: "IN", name: "India", labourIndex: 0.12, utilityIndex: 0.85, overheadIndex: 0.75 },
+  VN: { code: "VN", name: "Vietnam", labourIndex: 0.14, utilityIndex: 0.7, overheadIndex: 0.75 },
+  PL: { code: "PL", name: "Poland", labourIndex: 0.45, utilityIndex: 1.2, overheadIndex: 0.9 },
+  DE: { code: "DE", name: "Germany", labourIndex: 1.25, utilityIndex: 1.6, overheadIndex: 1.15 },
+};
+
+/**
+ * Profile for a country code (case-insensitive), or undefined if unknown
+ */
+export function getRegionProfile(country?: string): RegionProfile | undefined {
+  return REGION_PROFILES[(country || DEFAULT_COUNTRY).toUpperCase()];
+}
+
+/**
+ * Move a machine-hour rate from one country to another
+ * Only the utility share of the rate changes; depreciation and maintenance
+ * of the same equipment are treated as global.
+ */
+export function regionalMachineHourRate(rate: number, fromCountry: string, toCountry: string): number {
+  const from = getRegionProfile(fromCountry) ?? REGION_PROFILES[DEFAULT_COUNTRY];
+  const to = getRegionProfile(toCountry) ?? REGION_PROFILES[DEFAULT_COUNTRY];
+  const utilityFactor = (index: number) => 1 - UTILITY_SHARE_OF_MACHINE_RATE + UTILITY_SHARE_OF_MACHINE_RATE * index;
+
+  return rate * utilityFactor(to.utilityIndex) / utilityFactor(from.utilityIndex);
+}
+
+/**
+ * Move an overhead rate (on manufacturing cost) from one country to another
+ */
+export function regionalOverheadRate(rate: number, fromCountry: string, toCountry: string): number {
+  const from = getRegionProfile(fromCountry) ?? REGION_PROFILES[DEFAULT_COUNTRY];
+  const to = getRegionProfile(toCountry) ?? REGION_PROFILES[DEFAULT_COUNTRY];
+
+  return rate * to.overheadIndex / from.overheadIndex;
+}
@@ -0,0 +1,110 @@
+/**
+ * Volume scenarios
+ *
+ * Re-runs the bottom-up cost model (lib/cost-model.ts) at alternative annual
+ * volumes without another LLM call. Volume effects come from the model itself:
+ * setup amortization, labour learning curve, material price breaks and the
+ * fixed share of overhead.
+ *
+ * Country scenarios re-cost the same BOM with another region's labour,
+ * utility and overhead rates (lib/regions.ts).
+ */
+
+import { computeExWorks, localizeCostModel } from "./cost-model";
+import { BASE_CURRENCY, getFxRate } from "./fx";
+import { DEFAULT_COUNTRY, getRegionProfile } from "./regions";
+import { CostModelInputs, ExWorksCostBreakdown } from "./prompts/types";
+
+// Volume multipliers relative to the baseline AUM for the cost-vs-volume curve
+export const DEFAULT_VOLUME_FACTORS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 5];
+
+export interface VolumeScenario {
+  aum: number;
+  volumeFactor: number;        // aum / baseline aum
+  unitCost: number;
+  changeFromBaseline: number;  // Unit cost change vs baseline as decimal (-0.08 = 8% cheaper)
+  exWorksCostBreakdown: ExWorksCostBreakdown;
+}
+
+/**
+ * Recompute the Ex-Works breakdown at one annual volume
+ */
+export function runVolumeScenario(model: CostModelInputs, aum: number): VolumeScenario {
+  const baseline = computeExWorks(model);
+  const exWorksCostBreakdown = computeExWorks(model, aum);
+
+  return {
+    aum,
+    volumeFactor: model.aum > 0 ? aum / model.aum : 1,
+    unitCost: exWorksCostBreakdown.totalExWorks,
+    changeFromBaseline: baseline.totalExWorks > 0
+      ? exWorksCostBreakdown.totalExWorks / baseline.totalExWorks - 1
+      : 0,
+    exWorksCostBreakdown,
+  };
+}
+
+/**
+ * Build a cost-vs-volume curve around the baseline AUM
+ */
+export function buildVolumeCurve(
+  model: CostModelInputs,
+  volumeFactors: number[] = DEFAULT_VOLUME_FACTORS
+): VolumeScenario[] {
+  if (!(model.aum > 0)) {
+    throw new Error("Cost model has no baseline AUM");
+  }
+
+  return volumeFactors
+    .filter((f) => f > 0)
+    .sort((a, b) => a - b)
+    .map((f) => runVolumeScenario(model, Math.round(model.aum * f)));
+}
+
+export interface CountryScenario {
+  country: string;
+  name: string;
+  unitCost: number;
+  changeFromBaseline: number;  // Unit cost change vs the analysed country as decimal
+  exWorksCostBreakdown: ExWorksCostBreakdown;
+}
+
+/**
+ * Cost the same BOM in several countries side by side
+ * Results are in the model currency, converted at the rates on `asOf`.
+ */
+export async function runCountryComparison(
+  model: CostModelInputs,
+  countries: string[],
+  asOf: Date = new Date()
+): Promise<CountryScenario[]> {
+  const currency = model.currency || BASE_CURRENCY;
+  const fx = await getFxRate(BASE_CURRENCY, currency, asOf);
+  if (!fx) {
+    throw new Error(`No ${BASE_CURRENCY} to ${currency} exchange rate on or before ${asOf.toISOString().slice(0, 10)}`);
+  }
+
+  const baseline = computeExWorks(model);
+  const scenarios: CountryScenario[] = [];
+
+  for (const code of countries) {
+    const profile = getRegionProfile(code);
+    if (!profile) continue;
+
+    const exWorksCostBreakdown = profile.code === (model.country || DEFAULT_COUNTRY)
+      ? baseline
+      : computeExWorks(await localizeCostModel(model, profile.code, fx.rate));
+
+    scenarios.push({
+      country: profile.code,
+      name: profile.name,
+      unitCost: exWorksCostBreakdown.totalExWorks,
+      changeFromBaseline: baseline.totalExWorks > 0
+        ? exWorksCostBreakdown.totalExWorks / baseline.totalExWorks - 1
+        : 0,
+      exWorksCostBreakdown,
+    });
+  }
+
+  return scenarios.sort((a, b) => a.unitCost - b.unitCost);
+}
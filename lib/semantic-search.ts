@@ -5,6 +5,8 @@
 
 import prisma from "./prisma";
 import { generateEmbedding } from "./embeddings";
+import { toPriceBreaks } from "./materials";
+import type { PriceBreak } from "./prompts/types";
 
 // Search options interface
 export interface SemanticSearchOptions {
@@ -27,6 +29,16 @@ export interface MaterialPrice {
   supplier: string | null;
   currency: string;
   lastUpdated: Date;
+  density?: number;
+  thickness?: number;
+  width?: number;
+  unitMass?: number;
+  priceBreaks?: PriceBreak[];
+  indexCode?: string;
+  indexFactor?: number;
+  indexUnit?: string;
+  indexAdder?: number;
+  indexDate?: Date;
 }
 
 export interface LaborRate {
@@ -82,6 +94,16 @@ export async function searchMaterialsBySemantics(
       supplier,
       currency,
       "lastUpdated",
+      density,
+      thickness,
+      width,
+      "unitMass",
+      "priceBreaks",
+      "indexCode",
+      "indexFactor",
+      "indexUnit",
+      "indexAdder"::float as "indexAdder",
+      "indexDate",
       1 - (embedding <=> $1::vector) as similarity
     FROM "MaterialPrice"
     WHERE embedding IS NOT NULL
@@ -103,6 +125,16 @@ export async function searchMaterialsBySemantics(
       supplier: r.supplier,
       currency: r.currency,
       lastUpdated: r.lastUpdated,
+      density: r.density ?? undefined,
+      thickness: r.thickness ?? undefined,
+      width: r.width ?? undefined,
+      unitMass: r.unitMass ?? undefined,
+      priceBreaks: toPriceBreaks(r.priceBreaks),
+      indexCode: r.indexCode ?? undefined,
+      indexFactor: r.indexFactor ?? undefined,
+      indexUnit: r.indexUnit ?? undefined,
+      indexAdder: r.indexAdder ?? undefined,
+      indexDate: r.indexDate ?? undefined,
     },
     score: r.similarity,
   }));
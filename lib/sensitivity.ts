@@ -0,0 +1,154 @@
+/**
+ * Sensitivity (tornado) analysis
+ *
+ * Moves one input of the bottom-up cost model at a time by ±delta and ranks
+ * the inputs by how far they swing totalExWorks. Answers "what moves this
+ * price the most?" at the line-item level rather than by bucket size.
+ */
+
+import { computeExWorks } from "./cost-model";
+import { scaleLinePrice, scaleLineQuantity } from "./materials";
+import {
+  CostModelInputs,
+  SensitivityAnalysis,
+  SensitivityDriver,
+  SensitivityDriverType,
+} from "./prompts/types";
+
+export const DEFAULT_SENSITIVITY_DELTA = 0.10;
+
+interface Perturbation {
+  id: string;
+  label: string;
+  type: SensitivityDriverType;
+  apply: (model: CostModelInputs, factor: number) => CostModelInputs;
+}
+
+/**
+ * List every input the analysis perturbs
+ */
+function buildPerturbations(model: CostModelInputs): Perturbation[] {
+  const perturbations: Perturbation[] = [];
+
+  model.materials.forEach((m, index) => {
+    if (m.unitIncompatible) return;
+    perturbations.push({
+      id: `materialPrice:${m.component}`,
+      label: `${m.component} price`,
+      type: "materialPrice",
+      apply: (model, factor) => ({
+        ...model,
+        materials: model.materials.map((item, i) => (i === index ? scaleLinePrice(item, factor) : item)),
+      }),
+    });
+    perturbations.push({
+      id: `materialQuantity:${m.component}`,
+      label: `${m.component} quantity`,
+      type: "materialQuantity",
+      apply: (model, factor) => ({
+        ...model,
+        materials: model.materials.map((item, i) => (i === index ? scaleLineQuantity(item, factor) : item)),
+      }),
+    });
+  });
+
+  model.packaging.forEach((p, index) => {
+    if (p.unitIncompatible) return;
+    perturbations.push({
+      id: `packagingPrice:${p.component}`,
+      label: `${p.component} price`,
+      type: "packagingPrice",
+      apply: (model, factor) => ({
+        ...model,
+        packaging: model.packaging.map((item, i) => (i === index ? scaleLinePrice(item, factor) : item)),
+      }),
+    });
+  });
+
+  if (model.process) {
+    perturbations.push({
+      id: "machineHourRate",
+      label: "Machine-hour rate",
+      type: "machineHourRate",
+      apply: (model, factor) => ({
+        ...model,
+        process: model.process && { ...model.process, machineHourRate: model.process.machineHourRate * factor },
+      }),
+    });
+  }
+
+  if (model.labourOperations.length > 0) {
+    perturbations.push({
+      id: "labourRate",
+      label: "Labour rates",
+      type: "labourRate",
+      apply: (model, factor) => ({
+        ...model,
+        labourOperations: model.labourOperations.map((op) => ({
+          ...op,
+          hourlyRate: op.hourlyRate !== undefined ? op.hourlyRate * factor : undefined,
+        })),
+      }),
+    });
+  }
+
+  // Buyer-owned tooling is paid up front and does not move the piece price
+  (model.tooling ?? []).forEach((t, index) => {
+    if (t.owner !== "supplier") return;
+    perturbations.push({
+      id: `toolingCost:${t.name}`,
+      label: `${t.name} cost`,
+      type: "toolingCost",
+      apply: (model, factor) => ({
+        ...model,
+        tooling: model.tooling?.map((item, i) => (i === index ? { ...item, cost: item.cost * factor } : item)),
+      }),
+    });
+  });
+
+  perturbations.push({
+    id: "overheadRate",
+    label: "Overhead rate",
+    type: "overheadRate",
+    apply: (model, factor) => ({ ...model, overheadRate: model.overheadRate * factor }),
+  });
+
+  perturbations.push({
+    id: "marginRate",
+    label: "Margin",
+    type: "marginRate",
+    apply: (model, factor) => ({ ...model, marginRate: model.marginRate * factor }),
+  });
+
+  return perturbations;
+}
+
+/**
+ * Rank model inputs by their impact on totalExWorks when moved by ±delta
+ */
+export function runSensitivityAnalysis(
+  model: CostModelInputs,
+  delta: number = DEFAULT_SENSITIVITY_DELTA
+): SensitivityAnalysis {
+  const baselineTotal = computeExWorks(model).totalExWorks;
+
+  const drivers: SensitivityDriver[] = buildPerturbations(model)
+    .map((p) => {
+      const lowTotal = computeExWorks(p.apply(model, 1 - delta)).totalExWorks;
+      const highTotal = computeExWorks(p.apply(model, 1 + delta)).totalExWorks;
+      return {
+        id: p.id,
+        label: p.label,
+        type: p.type,
+        lowTotal,
+        highTotal,
+        lowImpact: lowTotal - baselineTotal,
+        highImpact: highTotal - baselineTotal,
+        swing: Math.abs(highTotal - lowTotal),
+      };
+    })
+    .filter((d) => d.swing > 0)
+    .sort((a, b) => b.swing - a.swing);
+
+  return { delta, baselineTotal, drivers };
+}
@@ -0,0 +1,231 @@
+/**
+ * Monte Carlo uncertainty on the unit cost
+ *
+ * Samples the inputs of the bottom-up cost model (lib/cost-model.ts) and
+ * re-runs it to produce P10/P50/P90 for the unit cost and each Ex-Works bucket:
+ *   - Material and packaging prices: triangular around the quoted price
+ *   - Machine-hour rate, cycle time, labour rates and minutes: triangular spreads
+ *   - Overhead and margin rates: category config ranges (min/typical/max),
+ *     the overhead range localized to the country of manufacture
+ *   - Tooling costs: triangular spread around the quoted tool cost
+ *   - Benchmark percentages (buckets without engineering data): category
+ *     ranges where defined, otherwise a relative spread
+ *   - Sub-component benchmarkRange values: sampled and applied to their bucket
+ *
+ * Sampling uses a seeded PRNG so a stored result can be reproduced.
+ */
+
+import { computeExWorks } from "./cost-model";
+import { scaleLinePrice } from "./materials";
+import { DEFAULT_COUNTRY, regionalOverheadRate } from "./regions";
+import {
+  CategoryConfig,
+  CostDistribution,
+  CostModelInputs,
+  CostPercentages,
+  CostSimulation,
+  CostSubComponent,
+} from "./prompts/types";
+
+export const DEFAULT_ITERATIONS = 1000;
+
+// Relative half-widths of the triangular distributions (0.15 = ±15%)
+export const SIMULATION_SPREADS = {
+  materialPrice: 0.15,
+  machineHourRate: 0.15,
+  cycleTime: 0.10,
+  hourlyRate: 0.10,
+  labourMinutes: 0.20,
+  toolingCost: 0.20,
+  overheadRate: 0.20,   // Only when the category has no overheadRange
+  marginRate: 0.20,     // Only when the category has no margin benchmark
+  percentage: 0.20,     // Benchmark percentages without a category range
+};
+
+const BUCKETS: (keyof CostPercentages)[] = ["rawMaterial", "conversion", "labour", "packing", "overhead", "margin", "tooling"];
+
+export interface SimulationOptions {
+  iterations?: number;
+  seed?: number;
+  config?: CategoryConfig | null;
+}
+
+type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32), uniform on [0, 1)
+ */
+function createRandom(seed: number): Random {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Sample a triangular distribution
+ */
+function triangular(random: Random, min: number, mode: number, max: number): number {
+  if (max <= min) return mode;
+  const m = Math.min(Math.max(mode, min), max);
+  const u = random();
+  const c = (m - min) / (max - min);
+  return u < c
+    ? min + Math.sqrt(u * (max - min) * (m - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - m));
+}
+
+/**
+ * Multiplier around 1 with a relative half-width
+ */
+function spread(random: Random, halfWidth: number): number {
+  return triangular(random, 1 - halfWidth, 1, 1 + halfWidth);
+}
+
+/**
+ * Multiplier on a bucket from its sub-components' benchmark ranges
+ * Returns 1 when no sub-component carries a range
+ */
+function subComponentFactor(random: Random, subComponents?: Record<string, CostSubComponent>): number {
+  if (!subComponents) return 1;
+  const subs = Object.values(subComponents).filter(Boolean);
+  if (!subs.some((s) => s.benchmarkRange)) return 1;
+
+  const nominal = subs.reduce((sum, s) => sum + s.cost, 0);
+  if (nominal <= 0) return 1;
+
+  const sampled = subs.reduce(
+    (sum, s) => sum + (s.benchmarkRange ? triangular(random, s.benchmarkRange.min, s.cost, s.benchmarkRange.max) : s.cost),
+    0
+  );
+  return sampled / nominal;
+}
+
+/**
+ * Sample one set of cost model inputs
+ */
+function sampleInputs(model: CostModelInputs, random: Random, config?: CategoryConfig | null): CostModelInputs {
+  const templates = model.templates;
+  const conversionFactor = subComponentFactor(random, templates?.conversionDetails?.subComponents);
+  const labourFactor = subComponentFactor(random, templates?.labourDetails?.subComponents);
+  const packingFactor = subComponentFactor(random, templates?.packingDetails?.subComponents);
+  const overheadFactor = subComponentFactor(random, templates?.overheadDetails?.subComponents);
+
+  // The category range is for a US plant; move it to the model's country
+  // like the rate itself, so the deterministic rate stays its mode
+  const overheadRange = config?.overheadRange;
+  const localize = (rate: number) => regionalOverheadRate(rate, DEFAULT_COUNTRY, model.country || DEFAULT_COUNTRY);
+  const overheadRate = overheadRange
+    ? triangular(
+      random,
+      Math.min(localize(overheadRange.min), model.overheadRate),
+      model.overheadRate,
+      Math.max(localize(overheadRange.max), model.overheadRate)
+    )
+    : model.overheadRate * spread(random, SIMULATION_SPREADS.overheadRate);
+
+  const marginRange = config?.industryBenchmarks?.marginPercentage;
+  const marginRate = marginRange
+    ? triangular(random, marginRange.min, model.marginRate, marginRange.max)
+    : model.marginRate * spread(random, SIMULATION_SPREADS.marginRate);
+
+  let benchmarkPercentages = model.benchmarkPercentages;
+  if (benchmarkPercentages) {
+    const labourRange = config?.industryBenchmarks?.laborPercentage;
+    const rawMaterialRange = config?.industryBenchmarks?.rawMaterialPercentage;
+    benchmarkPercentages = {
+      ...benchmarkPercentages,
+      rawMaterial: rawMaterialRange
+        ? triangular(random, rawMaterialRange.min, benchmarkPercentages.rawMaterial, rawMaterialRange.max)
+        : benchmarkPercentages.rawMaterial * spread(random, SIMULATION_SPREADS.percentage),
+      conversion: benchmarkPercentages.conversion * spread(random, SIMULATION_SPREADS.percentage) * conversionFactor,
+      labour: (labourRange
+        ? triangular(random, labourRange.min, benchmarkPercentages.labour, labourRange.max)
+        : benchmarkPercentages.labour * spread(random, SIMULATION_SPREADS.percentage)) * labourFactor,
+      packing: benchmarkPercentages.packing * spread(random, SIMULATION_SPREADS.percentage) * packingFactor,
+    };
+  }
+
+  return {
+    ...model,
+    materials: model.materials.map((m) => scaleLinePrice(m, spread(random, SIMULATION_SPREADS.materialPrice))),
+    packaging: model.packaging.map((p) => scaleLinePrice(p, spread(random, SIMULATION_SPREADS.materialPrice) * packingFactor)),
+    process: model.process
+      ? {
+        ...model.process,
+        machineHourRate: model.process.machineHourRate * spread(random, SIMULATION_SPREADS.machineHourRate) * conversionFactor,
+        cycleTimeSeconds: model.process.cycleTimeSeconds * spread(random, SIMULATION_SPREADS.cycleTime),
+      }
+      : undefined,
+    labourOperations: model.labourOperations.map((op) => ({
+      ...op,
+      hourlyRate: op.hourlyRate !== undefined
+        ? op.hourlyRate * spread(random, SIMULATION_SPREADS.hourlyRate) * labourFactor
+        : undefined,
+      minutesPerUnit: op.minutesPerUnit * spread(random, SIMULATION_SPREADS.labourMinutes),
+    })),
+    tooling: model.tooling?.map((t) => ({ ...t, cost: t.cost * spread(random, SIMULATION_SPREADS.toolingCost) })),
+    overheadRate: overheadRate * overheadFactor,
+    marginRate,
+    benchmarkPercentages,
+  };
+}
+
+/**
+ * Percentile of a sorted sample (linear interpolation)
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Summarize samples into a distribution
+ */
+export function summarizeDistribution(samples: number[]): CostDistribution {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+/**
+ * Run the Monte Carlo simulation at the model's baseline volume
+ */
+export function runCostSimulation(model: CostModelInputs, options: SimulationOptions = {}): CostSimulation {
+  const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_ITERATIONS));
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+
+  const totals: number[] = [];
+  const bucketSamples = Object.fromEntries(BUCKETS.map((b) => [b, [] as number[]])) as Record<keyof CostPercentages, number[]>;
+
+  for (let i = 0; i < iterations; i++) {
+    const breakdown = computeExWorks(sampleInputs(model, random, options.config));
+    totals.push(breakdown.totalExWorks);
+    for (const bucket of BUCKETS) {
+      bucketSamples[bucket].push(breakdown[bucket] ?? 0);
+    }
+  }
+
+  return {
+    iterations,
+    seed,
+    unitCost: summarizeDistribution(totals),
+    buckets: Object.fromEntries(
+      BUCKETS.map((b) => [b, summarizeDistribution(bucketSamples[b])])
+    ) as Record<keyof CostPercentages, CostDistribution>,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Material substitution finder
+ *
+ * Looks for cheaper comparable materials for a BOM line among the prices on
+ * file. Candidates are the semantic neighbours of the line's material
+ * (lib/semantic-search.ts) that:
+ *   - belong to the same material group (metal, wood, film, ...), or are a
+ *     close semantic match when the material has no known group
+ *   - have a unit the line's quantity can be converted into
+ * Each substitute is priced at the line's quantity and yield, and carries
+ * risk notes on what to verify before switching.
+ */
+
+import { findMaterialNeighbours, MaterialNeighbour } from "./db";
+import { applyYield, MATERIAL_LOOKUP_CONCURRENCY, materialProvenance, priceMaterialLine, UnitPrice } from "./materials";
+import { mapWithConcurrency } from "./concurrency";
+import { BASE_CURRENCY, createFxConverter, FxConverter, toReportingPrice } from "./fx";
+import { getUnitDimension } from "./units";
+import { LineSubstitutes, MaterialCostItem, MaterialSubstitute } from "./prompts/types";
+
+// Substitutes returned per BOM line
+export const DEFAULT_SUBSTITUTES = 5;
+
+// Neighbours looked at per BOM line
+const NEIGHBOUR_LIMIT = 20;
+
+// Materials without a known group need a close semantic match
+const MIN_UNGROUPED_SIMILARITY = 0.75;
+
+// Below this similarity a grouped substitute is flagged as a loose match
+const LOOSE_MATCH_SIMILARITY = 0.7;
+
+// Density difference worth a note on weight and strength
+const DENSITY_NOTE_THRESHOLD = 0.15;
+
+// Material groups by keyword; checked in this order ("wood glue" is a finish, "glass bottle" a container)
+const MATERIAL_GROUPS: [string, RegExp][] = [
+  ["finish", /\b(stain|finish|paint|lacquer|varnish|glue|adhesive|coating)\b/i],
+  ["label", /\blabels?\b/i],
+  ["container", /\b(bottles?|jars?|trays?|cans?|pouch(es)?|tubs?)\b/i],
+  ["film", /\b(film|wrap|foil)\b/i],
+  ["board packaging", /\b(box(es)?|cartons?|corrugated|paperboard)\b/i],
+  ["fastener", /\b(screws?|bolts?|nails?|rivets?|nuts?|washers?)\b/i],
+  ["hardware", /\b(hinges?|slides?|handles?|knobs?)\b/i],
+  ["electronics", /\b(led|wiring|wire|circuit|pcb|motor|battery)\b/i],
+  ["leather", /\bleather\b/i],
+  ["foam", /\b(foam|rubber|silicone|padding)\b/i],
+  ["textile", /\b(fabric|cotton|polyester|wool|linen|textile|yarn)\b/i],
+  ["wood", /\b(wood|oak|pine|walnut|maple|cherry|plywood|mdf|timber|veneer|particleboard)\b/i],
+  ["metal", /\b(steel|aluminum|aluminium|iron|copper|brass|zinc|titanium|metal)\b/i],
+  ["plastic", /\b(plastic|abs|polycarbonate|acrylic|pvc|hdpe|ldpe|pet|polypropylene|resin)\b/i],
+  ["stone", /\b(glass|ceramic|marble|granite|quartz|concrete|stone)\b/i],
+  ["flour", /\b(flour|starch|meal)\b/i],
+  ["sweetener", /\b(sugar|syrup|sweetener|dextrose|honey)\b/i],
+  ["fat", /\b(butter|oil|shortening|margarine)\b/i],
+];
+
+/**
+ * Material group of a material name, if it has one
+ */
+export function materialGroup(materialName: string): string | undefined {
+  return MATERIAL_GROUPS.find(([, pattern]) => pattern.test(materialName))?.[0];
+}
+
+/**
+ * Price a BOM line in another material, keeping its quantity and yield
+ */
+export function substituteLine(item: MaterialCostItem, material: MaterialNeighbour, price: UnitPrice): MaterialCostItem {
+  const line = priceMaterialLine(
+    { name: item.component, material: material.materialName, quantity: item.quantity, unit: item.unit, id: item.componentId },
+    price,
+    material
+  );
+
+  return {
+    ...item,
+    ...applyYield(line, { yieldFactor: item.yieldFactor ?? 1, scrapRecoveryRate: item.scrapRecoveryRate }),
+  };
+}
+
+/**
+ * What to verify before switching a line to a substitute
+ */
+function riskNotes(item: MaterialCostItem, current: MaterialNeighbour | undefined, candidate: MaterialNeighbour, line: MaterialCostItem): string[] {
+  const notes: string[] = [];
+
+  if (candidate.similarity !== undefined && candidate.similarity < LOOSE_MATCH_SIMILARITY) {
+    notes.push(`Loose match to ${item.material} (${(candidate.similarity * 100).toFixed(0)}% similar): confirm it is a true equivalent`);
+  }
+
+  if (current?.density && candidate.density) {
+    const difference = candidate.density / current.density - 1;
+    if (Math.abs(difference) > DENSITY_NOTE_THRESHOLD) {
+      notes.push(`${(Math.abs(difference) * 100).toFixed(0)}% ${difference > 0 ? "denser" : "less dense"} than ${item.material}: check weight, strength and freight`);
+    }
+  }
+
+  if (line.priceUnit && getUnitDimension(line.priceUnit) !== getUnitDimension(item.unit)) {
+    notes.push(`Priced per ${line.priceUnit}: ${line.unitNote || "quantity converted with the material's physical properties"}`);
+  }
+
+  if (candidate.indexCode) {
+    notes.push(`Index-linked to ${candidate.indexCode}: the saving moves with the index`);
+  }
+
+  if (line.provenance?.priceDate && line.provenance.confidence !== "high") {
+    notes.push(`Price on file dates from ${line.provenance.priceDate}`);
+  }
+
+  return notes;
+}
+
+/**
+ * Cheaper comparable materials for one BOM line, largest saving first
+ * Prices are converted into the FX converter's currency.
+ */
+export async function findMaterialSubstitutes(
+  item: MaterialCostItem,
+  fx: FxConverter,
+  limit: number = DEFAULT_SUBSTITUTES
+): Promise<MaterialSubstitute[]> {
+  if (item.unitIncompatible || item.material === "sub-assembly" || !(item.totalCost > 0)) return [];
+
+  const name = item.material.toLowerCase();
+  const group = materialGroup(item.material);
+  const neighbours = await findMaterialNeighbours(item.material, NEIGHBOUR_LIMIT);
+  const current = neighbours.find((m) => m.materialName.toLowerCase() === name);
+
+  const substitutes: MaterialSubstitute[] = [];
+  for (const candidate of neighbours) {
+    if (candidate.materialName.toLowerCase() === name) continue;
+
+    const comparable = group
+      ? materialGroup(candidate.materialName) === group
+      : (candidate.similarity ?? 0) >= MIN_UNGROUPED_SIMILARITY;
+    if (!comparable) continue;
+
+    const converted = await toReportingPrice(candidate, fx);
+    if (!converted) continue;
+
+    const price = { ...converted, provenance: materialProvenance({ ...candidate, matchType: "exact" }, fx.asOf) };
+    const line = substituteLine(item, candidate, price);
+    const saving = item.totalCost - line.totalCost;
+    if (line.unitIncompatible || !(saving > 0)) continue;
+
+    substitutes.push({
+      materialName: candidate.materialName,
+      group,
+      line,
+      saving,
+      savingPercent: saving / item.totalCost,
+      similarity: candidate.similarity,
+      riskNotes: riskNotes(item, current, candidate, line),
+    });
+  }
+
+  return substitutes.sort((a, b) => b.saving - a.saving).slice(0, limit);
+}
+
+/**
+ * Substitutes for every priced BOM line, in the currency the lines are priced in
+ */
+export async function findBomSubstitutes(
+  items: MaterialCostItem[],
+  currency: string = BASE_CURRENCY,
+  asOf?: Date,
+  limit: number = DEFAULT_SUBSTITUTES
+): Promise<LineSubstitutes[]> {
+  const fx = createFxConverter(currency, asOf);
+
+  return mapWithConcurrency(items, MATERIAL_LOOKUP_CONCURRENCY, async (item) => ({
+    component: item.component,
+    material: item.material,
+    currentCost: item.totalCost,
+    substitutes: await findMaterialSubstitutes(item, fx, limit),
+  }));
+}
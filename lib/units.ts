@@ -0,0 +1,237 @@
+/**
+ * Unit-of-measure conversion engine
+ *
+ * BOM quantities come back from the LLM in whatever unit reads naturally for the
+ * product (kg of flour, m of wire, yards of fabric) while MaterialPrice rows are
+ * quoted in the supplier's unit (lb, board_foot, sq_ft, yard...). Prices can only
+ * be applied after the quantity has been converted into the price unit.
+ *
+ * Units belong to one of five dimension families. Conversion inside a family is a
+ * pure scale factor; conversion across families needs physical data about the
+ * material (density, thickness, width, unit mass) and follows the chain
+ *
+ *   count <-unitMass-> mass <-density-> volume <-thickness-> area <-width-> length
+ */
+
+export type Dimension = "mass" | "length" | "area" | "volume" | "count";
+
+export interface UnitDefinition {
+  symbol: string;        // Canonical symbol, e.g. "kg", "sq_ft"
+  dimension: Dimension;
+  toBase: number;        // Multiplier into the family base unit (kg, m, m2, m3, piece)
+}
+
+/**
+ * Physical properties used for cross-dimension conversions.
+ * All values are SI: kg/m3, m, m, kg per piece.
+ */
+export interface MaterialProperties {
+  density?: number;    // kg per m3 (mass <-> volume)
+  thickness?: number;  // m (volume <-> area), sheet goods, fabrics, glass
+  width?: number;      // m (area <-> length), roll goods sold by the yard/metre
+  unitMass?: number;   // kg per piece (count <-> mass)
+}
+
+export interface ConversionResult {
+  compatible: boolean;
+  quantity: number;    // Converted quantity (0 when incompatible)
+  factor: number;      // Multiplier applied to the input quantity
+  note?: string;       // Human-readable explanation (path taken or why it failed)
+}
+
+const UNITS: UnitDefinition[] = [
+  // Mass (base: kg)
+  { symbol: "kg", dimension: "mass", toBase: 1 },
+  { symbol: "g", dimension: "mass", toBase: 0.001 },
+  { symbol: "mg", dimension: "mass", toBase: 0.000001 },
+  { symbol: "t", dimension: "mass", toBase: 1000 },
+  { symbol: "lb", dimension: "mass", toBase: 0.45359237 },
+  { symbol: "oz", dimension: "mass", toBase: 0.028349523125 },
+  { symbol: "short_ton", dimension: "mass", toBase: 907.18474 },
+  // Length (base: m)
+  { symbol: "m", dimension: "length", toBase: 1 },
+  { symbol: "cm", dimension: "length", toBase: 0.01 },
+  { symbol: "mm", dimension: "length", toBase: 0.001 },
+  { symbol: "km", dimension: "length", toBase: 1000 },
+  { symbol: "in", dimension: "length", toBase: 0.0254 },
+  { symbol: "ft", dimension: "length", toBase: 0.3048 },
+  { symbol: "yard", dimension: "length", toBase: 0.9144 },
+  // Area (base: m2)
+  { symbol: "m2", dimension: "area", toBase: 1 },
+  { symbol: "cm2", dimension: "area", toBase: 0.0001 },
+  { symbol: "mm2", dimension: "area", toBase: 0.000001 },
+  { symbol: "sq_in", dimension: "area", toBase: 0.00064516 },
+  { symbol: "sq_ft", dimension: "area", toBase: 0.09290304 },
+  { symbol: "sq_yd", dimension: "area", toBase: 0.83612736 },
+  // Volume (base: m3)
+  { symbol: "m3", dimension: "volume", toBase: 1 },
+  { symbol: "l", dimension: "volume", toBase: 0.001 },
+  { symbol: "ml", dimension: "volume", toBase: 0.000001 },
+  { symbol: "cl", dimension: "volume", toBase: 0.00001 },
+  { symbol: "gallon", dimension: "volume", toBase: 0.003785411784 },
+  { symbol: "quart", dimension: "volume", toBase: 0.000946352946 },
+  { symbol: "pint", dimension: "volume", toBase: 0.000473176473 },
+  { symbol: "fl_oz", dimension: "volume", toBase: 0.0000295735295625 },
+  { symbol: "cup", dimension: "volume", toBase: 0.0002365882365 },
+  { symbol: "tbsp", dimension: "volume", toBase: 0.00001478676478125 },
+  { symbol: "tsp", dimension: "volume", toBase: 0.00000492892159375 },
+  { symbol: "cubic_ft", dimension: "volume", toBase: 0.028316846592 },
+  { symbol: "cubic_yard", dimension: "volume", toBase: 0.764554857984 },
+  { symbol: "board_foot", dimension: "volume", toBase: 0.002359737216 },
+  // Count (base: piece)
+  { symbol: "piece", dimension: "count", toBase: 1 },
+  { symbol: "pair", dimension: "count", toBase: 2 },
+  { symbol: "dozen", dimension: "count", toBase: 12 },
+];
+
+// Alternative spellings the LLM and seed data use for the canonical symbols above
+const UNIT_ALIASES: Record<string, string> = {
+  kgs: "kg", kilogram: "kg", kilograms: "kg", kilo: "kg", kilos: "kg",
+  gram: "g", grams: "g", gr: "g",
+  milligram: "mg", milligrams: "mg",
+  tonne: "t", tonnes: "t", ton: "t", tons: "t", metric_ton: "t", mt: "t",
+  lbs: "lb", pound: "lb", pounds: "lb",
+  ounce: "oz", ounces: "oz",
+  meter: "m", meters: "m", metre: "m", metres: "m",
+  centimeter: "cm", centimeters: "cm", millimeter: "mm", millimeters: "mm",
+  kilometer: "km", kilometers: "km",
+  inch: "in", inches: "in",
+  foot: "ft", feet: "ft", linear_foot: "ft", linear_feet: "ft",
+  yd: "yard", yards: "yard",
+  sq_m: "m2", sqm: "m2", square_meter: "m2", square_meters: "m2", "m²": "m2",
+  sq_cm: "cm2", sq_mm: "mm2",
+  square_inch: "sq_in", square_inches: "sq_in",
+  sqft: "sq_ft", ft2: "sq_ft", square_foot: "sq_ft", square_feet: "sq_ft", "ft²": "sq_ft",
+  square_yard: "sq_yd", square_yards: "sq_yd",
+  cubic_meter: "m3", cubic_meters: "m3", cbm: "m3", "m³": "m3",
+  liter: "l", liters: "l", litre: "l", litres: "l", ltr: "l",
+  milliliter: "ml", milliliters: "ml", millilitre: "ml", cc: "ml",
+  gal: "gallon", gallons: "gallon",
+  qt: "quart", quarts: "quart", pints: "pint",
+  fluid_ounce: "fl_oz", fluid_ounces: "fl_oz",
+  cups: "cup", tablespoon: "tbsp", tablespoons: "tbsp", teaspoon: "tsp", teaspoons: "tsp",
+  cubic_foot: "cubic_ft", cubic_feet: "cubic_ft", cu_ft: "cubic_ft",
+  cubic_yards: "cubic_yard", cu_yd: "cubic_yard",
+  board_feet: "board_foot", bf: "board_foot", bdft: "board_foot",
+  pieces: "piece", pc: "piece", pcs: "piece", each: "piece", ea: "piece", unit: "piece", units: "piece",
+  pairs: "pair", dozens: "dozen", doz: "dozen",
+};
+
+const UNIT_INDEX = new Map(UNITS.map((u) => [u.symbol, u]));
+
+// Order of the cross-dimension chain; neighbours are linked by one material property
+const DIMENSION_CHAIN: Dimension[] = ["count", "mass", "volume", "area", "length"];
+
+// Property linking DIMENSION_CHAIN[i] to DIMENSION_CHAIN[i + 1], and whether
+// moving forward along the chain multiplies (true) or divides (false) by it
+const CHAIN_LINKS: { property: keyof MaterialProperties; multiplyForward: boolean }[] = [
+  { property: "unitMass", multiplyForward: true },   // pieces -> kg
+  { property: "density", multiplyForward: false },   // kg -> m3
+  { property: "thickness", multiplyForward: false }, // m3 -> m2
+  { property: "width", multiplyForward: false },     // m2 -> m
+];
+
+/**
+ * Normalize a free-text unit into a lookup key
+ * Converts "Sq. Ft", "sq-ft" or "SQ FT" to "sq_ft"
+ */
+export function normalizeUnit(unit: string): string {
+  return unit
+    .toLowerCase()
+    .trim()
+    .replace(/\./g, "")
+    .replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Resolve a unit string to its definition, or undefined for units we
+ * don't know (e.g. "sheet", "bunch"), which only match themselves
+ */
+export function resolveUnit(unit: string): UnitDefinition | undefined {
+  const key = normalizeUnit(unit);
+  return UNIT_INDEX.get(UNIT_ALIASES[key] || key);
+}
+
+/**
+ * Get the dimension family of a unit, if known
+ */
+export function getUnitDimension(unit: string): Dimension | undefined {
+  return resolveUnit(unit)?.dimension;
+}
+
+/**
+ * Check whether two units can be converted without any material data
+ */
+export function areUnitsCompatible(fromUnit: string, toUnit: string): boolean {
+  return convertQuantity(1, fromUnit, toUnit).compatible;
+}
+
+/**
+ * Convert a quantity between units, crossing dimension families when the
+ * material properties needed for the path are available
+ */
+export function convertQuantity(
+  quantity: number,
+  fromUnit: string,
+  toUnit: string,
+  properties: MaterialProperties = {}
+): ConversionResult {
+  const fromKey = normalizeUnit(fromUnit);
+  const toKey = normalizeUnit(toUnit);
+  const from = resolveUnit(fromUnit);
+  const to = resolveUnit(toUnit);
+
+  // Identical units (including units we don't know) need no conversion
+  if (fromKey === toKey || (from && to && from.symbol === to.symbol)) {
+    return { compatible: true, quantity, factor: 1 };
+  }
+
+  if (!from || !to) {
+    return {
+      compatible: false,
+      quantity: 0,
+      factor: 0,
+      note: `Unknown unit "${!from ? fromUnit : toUnit}" cannot be converted to "${!from ? toUnit : fromUnit}"`,
+    };
+  }
+
+  // Same family: pure scale factor
+  if (from.dimension === to.dimension) {
+    const factor = from.toBase / to.toBase;
+    return { compatible: true, quantity: quantity * factor, factor };
+  }
+
+  // Cross-family: walk the chain from the source to the target dimension
+  const start = DIMENSION_CHAIN.indexOf(from.dimension);
+  const end = DIMENSION_CHAIN.indexOf(to.dimension);
+  const step = end > start ? 1 : -1;
+  let factor = from.toBase;
+  const used: string[] = [];
+
+  for (let i = start; i !== end; i += step) {
+    const link = CHAIN_LINKS[step > 0 ? i : i - 1];
+    const value = properties[link.property];
+
+    if (!value || value <= 0) {
+      return {
+        compatible: false,
+        quantity: 0,
+        factor: 0,
+        note: `Converting ${from.symbol} (${from.dimension}) to ${to.symbol} (${to.dimension}) requires material ${link.property}`,
+      };
+    }
+
+    const multiply = step > 0 ? link.multiplyForward : !link.multiplyForward;
+    factor = multiply ? factor * value : factor / value;
+    used.push(link.property);
+  }
+
+  factor = factor / to.toBase;
+
+  return {
+    compatible: true,
+    quantity: quantity * factor,
+    factor,
+    note: `${from.symbol} → ${to.symbol} via ${used.join(", ")}`,
+  };
+}
@@ -0,0 +1,497 @@
+/**
+ * Guardrails on LLM-produced cost structures
+ *
+ * The analysis prompt returns percentages, quantities and rates that the cost
+ * model would otherwise take at face value. Validation runs between the LLM
+ * response and the model:
+ *   - Cost percentages are rescaled to sum to 1 and the benchmarked buckets
+ *     (raw material, labour, margin) are clamped into the category range
+ *   - Negative quantities are flipped, zero quantities reported, and
+ *     quantities far beyond what their unit suggests flagged
+ *   - Labour, process, tooling and volume inputs are checked for unusable or absurd values
+ * Every correction is reported as a structured warning on the analysis result.
+ */
+
+import { bomLeaves, normalizeBomComponents } from "./bom";
+import {
+  normalizeLabourOperations,
+  normalizePackagingComponents,
+  normalizeProcessParameters,
+  normalizeToolingItems,
+} from "./cost-model";
+import { Dimension, resolveUnit } from "./units";
+import {
+  AnalysisWarning,
+  CategoryConfig,
+  CostPercentages,
+  ExWorksCostBreakdown,
+  LabourOperation,
+  PackagingComponent,
+  ProcessParameters,
+  ProductComponent,
+  ToolingItem,
+} from "./prompts/types";
+
+// Percentages may be off by this much before a rescale is reported
+export const PERCENT_SUM_TOLERANCE = 0.02;
+
+// Rescales beyond this are a warning rather than info
+const PERCENT_SUM_WARNING = 0.1;
+
+// Largest plausible quantity of one line per finished unit, in the family base unit
+const MAX_QUANTITY_PER_UNIT: Record<Dimension, number> = {
+  mass: 5000,     // kg
+  length: 10000,  // m
+  area: 1000,     // m2
+  volume: 50,     // m3
+  count: 10000,   // pieces
+};
+
+// Minutes per unit beyond a full shift
+const MAX_LABOUR_MINUTES = 480;
+
+// USD machine-hour rate and cycle time (one day) beyond which process data is suspect
+const MAX_MACHINE_HOUR_RATE = 2000;
+const MAX_CYCLE_TIME_SECONDS = 86400;
+
+// Ratio between the LLM's unit cost estimate and the engineered price that is reported
+const ESTIMATE_MISMATCH_RATIO = 3;
+
+// Tooling is engineered from one-time costs, never estimated as a share
+type ShareBucket = Exclude<keyof CostPercentages, "tooling">;
+
+const BUCKETS: ShareBucket[] = ["rawMaterial", "conversion", "labour", "packing", "overhead", "margin"];
+
+type BenchmarkKey = keyof NonNullable<CategoryConfig["industryBenchmarks"]>;
+
+const BENCHMARKED: [ShareBucket, BenchmarkKey][] = [
+  ["rawMaterial", "rawMaterialPercentage"],
+  ["labour", "laborPercentage"],
+  ["margin", "marginPercentage"],
+];
+
+export interface ValidatedAnalysis {
+  components: ProductComponent[];
+  packagingComponents: PackagingComponent[];
+  labourOperations: LabourOperation[];
+  process?: ProcessParameters;
+  tooling: ToolingItem[];
+  aum: number;                        // LLM estimate, else the requested volume, else 0
+  costPercentages?: CostPercentages;  // Undefined when the LLM returned none usable
+  warnings: AnalysisWarning[];
+}
+
+// Raw LLM output the validation reads; every field may be missing or mistyped
+export interface RawAnalysis {
+  components?: unknown;
+  packagingComponents?: unknown;
+  labourOperations?: unknown;
+  processParameters?: unknown;
+  costPercentages?: unknown;
+  tooling?: unknown;
+  aum?: unknown;
+}
+
+/**
+ * Format a share as a percentage, e.g. "45.0%"
+ */
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Sum of the given buckets' shares
+ */
+function sumShares(shares: CostPercentages, buckets: ShareBucket[] = BUCKETS): number {
+  return buckets.reduce((sum, b) => sum + shares[b], 0);
+}
+
+/**
+ * Normalize the LLM's cost percentages
+ * Negative shares are zeroed, the total is rescaled to 1, and the benchmarked
+ * buckets are clamped into the category range, the other buckets absorbing
+ * the difference. Returns undefined percentages when nothing usable is left.
+ */
+export function validateCostPercentages(
+  raw: unknown,
+  config: CategoryConfig | null
+): { percentages?: CostPercentages; warnings: AnalysisWarning[] } {
+  const warnings: AnalysisWarning[] = [];
+
+  if (!raw || typeof raw !== "object") {
+    warnings.push({
+      code: "percentages_missing",
+      severity: "error",
+      field: "costPercentages",
+      message: "No cost percentages were returned; buckets without engineering data are costed at zero",
+    });
+    return { warnings };
+  }
+
+  const p = raw as Record<string, unknown>;
+  const shares = {} as CostPercentages;
+  for (const bucket of BUCKETS) {
+    const value = Number(p[bucket]) || 0;
+    if (value < 0) {
+      warnings.push({
+        code: "percentage_negative",
+        severity: "warning",
+        field: `costPercentages.${bucket}`,
+        message: `Negative ${bucket} share (${percent(value)}) was set to zero`,
+        value,
+      });
+    }
+    shares[bucket] = Math.max(0, value);
+  }
+
+  const total = sumShares(shares);
+  if (!(total > 0)) {
+    warnings.push({
+      code: "percentages_missing",
+      severity: "error",
+      field: "costPercentages",
+      message: "Cost percentages are all zero; buckets without engineering data are costed at zero",
+    });
+    return { warnings };
+  }
+
+  const deviation = Math.abs(total - 1);
+  if (Math.abs(total / 100 - 1) <= PERCENT_SUM_TOLERANCE) {
+    warnings.push({
+      code: "percentages_rescaled",
+      severity: "info",
+      field: "costPercentages",
+      message: "Cost percentages were given in percent rather than as ratios and were converted",
+      value: total,
+      expected: { min: 1 - PERCENT_SUM_TOLERANCE, max: 1 + PERCENT_SUM_TOLERANCE },
+    });
+  } else if (deviation > PERCENT_SUM_TOLERANCE) {
+    warnings.push({
+      code: "percentages_rescaled",
+      severity: deviation > PERCENT_SUM_WARNING ? "warning" : "info",
+      field: "costPercentages",
+      message: `Cost percentages summed to ${percent(total)} and were rescaled to 100%`,
+      value: total,
+      expected: { min: 1 - PERCENT_SUM_TOLERANCE, max: 1 + PERCENT_SUM_TOLERANCE },
+    });
+  }
+  for (const bucket of BUCKETS) {
+    shares[bucket] /= total;
+  }
+
+  const clamped: ShareBucket[] = [];
+  for (const [bucket, key] of BENCHMARKED) {
+    const range = config?.industryBenchmarks?.[key];
+    const value = shares[bucket];
+    if (!range || (value >= range.min && value <= range.max)) continue;
+
+    shares[bucket] = Math.min(range.max, Math.max(range.min, value));
+    clamped.push(bucket);
+    warnings.push({
+      code: "percentage_clamped",
+      severity: "warning",
+      field: `costPercentages.${bucket}`,
+      message: `${bucket} share of ${percent(value)} is outside the ${config!.name} range and was set to ${percent(shares[bucket])}`,
+      value,
+      expected: { min: range.min, max: range.max },
+    });
+  }
+
+  // Buckets that were not clamped absorb the difference
+  if (clamped.length > 0) {
+    const others = BUCKETS.filter((b) => !clamped.includes(b));
+    const othersTotal = sumShares(shares, others);
+    const remaining = 1 - sumShares(shares, clamped);
+    if (othersTotal > 0 && remaining > 0) {
+      for (const bucket of others) {
+        shares[bucket] *= remaining / othersTotal;
+      }
+    }
+  }
+
+  if (shares.rawMaterial === 0) {
+    warnings.push({
+      code: "percentages_missing",
+      severity: "error",
+      field: "costPercentages.rawMaterial",
+      message: "Raw material share is zero, so buckets without engineering data cannot be scaled from the material cost",
+      value: 0,
+    });
+  }
+
+  return { percentages: shares, warnings };
+}
+
+/**
+ * Flip negative quantities and report missing ones on raw BOM or packaging lines
+ */
+function checkLineQuantities(
+  raw: unknown,
+  field: string,
+  missingNote: string
+): { lines: unknown[]; warnings: AnalysisWarning[] } {
+  const warnings: AnalysisWarning[] = [];
+  if (!Array.isArray(raw)) return { lines: [], warnings };
+
+  const lines = raw.map((line, i) => {
+    const name = String(line?.name || `Line ${i + 1}`);
+    const quantity = Number(line?.quantity);
+    const quantityPerParent = Number(line?.quantityPerParent);
+
+    if (quantity < 0 || quantityPerParent < 0) {
+      const value = quantityPerParent < 0 ? quantityPerParent : quantity;
+      warnings.push({
+        code: "quantity_negative",
+        severity: "error",
+        field: `${field}[${i}].${quantityPerParent < 0 ? "quantityPerParent" : "quantity"}`,
+        message: `${name} has a negative quantity (${value}); its absolute value was used`,
+        value,
+      });
+      return {
+        ...line,
+        quantity: Math.abs(quantity) || line.quantity,
+        quantityPerParent: Math.abs(quantityPerParent) || line.quantityPerParent,
+      };
+    }
+
+    if (!(quantity > 0) && !(quantityPerParent > 0)) {
+      warnings.push({
+        code: "quantity_missing",
+        severity: "error",
+        field: `${field}[${i}].quantity`,
+        message: `${name} has no usable quantity; ${missingNote}`,
+      });
+    }
+
+    return line;
+  });
+
+  return { lines, warnings };
+}
+
+/**
+ * Flag quantities per finished unit far beyond what their unit suggests
+ * (e.g. 20 t of flour in one cookie, usually a unit mix-up). Lines in units
+ * the conversion engine does not know are not checked.
+ */
+export function checkQuantityMagnitudes(
+  lines: (ProductComponent | PackagingComponent)[],
+  field: string
+): AnalysisWarning[] {
+  const warnings: AnalysisWarning[] = [];
+
+  lines.forEach((line, i) => {
+    const unit = resolveUnit(line.unit);
+    if (!unit) return;
+
+    const max = MAX_QUANTITY_PER_UNIT[unit.dimension];
+    if (line.quantity * unit.toBase > max) {
+      warnings.push({
+        code: "quantity_implausible",
+        severity: "error",
+        field: `${field}[${i}].quantity`,
+        message: `${line.name}: ${line.quantity} ${line.unit} per finished unit is implausible; check the unit`,
+        value: line.quantity,
+        expected: { min: 0, max: max / unit.toBase },
+      });
+    }
+  });
+
+  return warnings;
+}
+
+/**
+ * Report labour operations that will be dropped or look implausible
+ */
+function checkLabourOperations(raw: unknown): AnalysisWarning[] {
+  if (!Array.isArray(raw)) return [];
+  const warnings: AnalysisWarning[] = [];
+
+  raw.forEach((op, i) => {
+    const name = String(op?.name || op?.processType || `Operation ${i + 1}`);
+    const minutes = Number(op?.minutesPerUnit);
+
+    if (!(minutes > 0)) {
+      warnings.push({
+        code: "labour_dropped",
+        severity: "warning",
+        field: `labourOperations[${i}].minutesPerUnit`,
+        message: `${name} has no usable minutes per unit and was dropped`,
+        value: isNaN(minutes) ? undefined : minutes,
+      });
+    } else if (minutes > MAX_LABOUR_MINUTES) {
+      warnings.push({
+        code: "labour_implausible",
+        severity: "warning",
+        field: `labourOperations[${i}].minutesPerUnit`,
+        message: `${name} takes ${minutes} minutes per unit, more than a full shift`,
+        value: minutes,
+        expected: { min: 0, max: MAX_LABOUR_MINUTES },
+      });
+    }
+  });
+
+  return warnings;
+}
+
+/**
+ * Report process parameters the model cannot use, or whose rates look absurd
+ */
+function checkProcessParameters(raw: unknown, process?: ProcessParameters): AnalysisWarning[] {
+  if (raw === undefined || raw === null) return [];
+
+  if (!process) {
+    return [{
+      code: "process_unusable",
+      severity: "warning",
+      field: "processParameters",
+      message: "Process parameters need a positive machine-hour rate and cycle time; conversion uses the benchmark share",
+    }];
+  }
+
+  const warnings: AnalysisWarning[] = [];
+  if (process.machineHourRate > MAX_MACHINE_HOUR_RATE) {
+    warnings.push({
+      code: "process_implausible",
+      severity: "warning",
+      field: "processParameters.machineHourRate",
+      message: `Machine-hour rate of ${process.machineHourRate} USD is implausible`,
+      value: process.machineHourRate,
+      expected: { min: 0, max: MAX_MACHINE_HOUR_RATE },
+    });
+  }
+  if (process.cycleTimeSeconds / process.unitsPerCycle > MAX_CYCLE_TIME_SECONDS) {
+    warnings.push({
+      code: "process_implausible",
+      severity: "warning",
+      field: "processParameters.cycleTimeSeconds",
+      message: `Cycle time of ${process.cycleTimeSeconds}s for ${process.unitsPerCycle} unit(s) is more than a day per unit`,
+      value: process.cycleTimeSeconds,
+      expected: { min: 0, max: MAX_CYCLE_TIME_SECONDS * process.unitsPerCycle },
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Report tooling items that are dropped for lack of a one-time cost
+ */
+function checkToolingItems(raw: unknown): AnalysisWarning[] {
+  if (!Array.isArray(raw)) return [];
+  const warnings: AnalysisWarning[] = [];
+
+  raw.forEach((item, i) => {
+    const cost = Number(item?.cost);
+    if (cost > 0) return;
+
+    warnings.push({
+      code: "tooling_dropped",
+      severity: "warning",
+      field: `tooling[${i}].cost`,
+      message: `${String(item?.name || `Tooling item ${i + 1}`)} has no usable one-time cost and was dropped`,
+      value: isNaN(cost) ? undefined : cost,
+    });
+  });
+
+  return warnings;
+}
+
+/**
+ * Validate and normalize the LLM's analysis into cost model inputs
+ * requestedAum is the user's volume, which stands in for a missing estimate.
+ */
+export function validateAnalysis(
+  analysis: RawAnalysis,
+  config: CategoryConfig | null,
+  requestedAum?: number
+): ValidatedAnalysis {
+  const bomLines = checkLineQuantities(analysis.components, "components", "priced at a token quantity");
+  const packagingLines = checkLineQuantities(analysis.packagingComponents, "packagingComponents", "the line was dropped");
+  const { percentages, warnings: percentageWarnings } = validateCostPercentages(analysis.costPercentages, config);
+
+  const components = normalizeBomComponents(bomLines.lines);
+  const packagingComponents = normalizePackagingComponents(packagingLines.lines);
+  const process = normalizeProcessParameters(analysis.processParameters);
+
+  const warnings: AnalysisWarning[] = [
+    ...percentageWarnings,
+    ...bomLines.warnings,
+    ...checkQuantityMagnitudes(bomLeaves(components), "components"),
+    ...packagingLines.warnings,
+    ...checkQuantityMagnitudes(packagingComponents, "packagingComponents"),
+    ...checkLabourOperations(analysis.labourOperations),
+    ...checkProcessParameters(analysis.processParameters, process),
+    ...checkToolingItems(analysis.tooling),
+  ];
+
+  const estimatedAum = Number(analysis.aum);
+  const aum = estimatedAum > 0 ? estimatedAum : Number(requestedAum) > 0 ? Number(requestedAum) : 0;
+  if (aum === 0) {
+    warnings.push({
+      code: "aum_invalid",
+      severity: "warning",
+      field: "aum",
+      message: "No annual volume was estimated; setup and fixed costs are not amortized",
+      value: isNaN(estimatedAum) ? undefined : estimatedAum,
+    });
+  }
+
+  return {
+    components,
+    packagingComponents,
+    labourOperations: normalizeLabourOperations(analysis.labourOperations),
+    process,
+    tooling: normalizeToolingItems(analysis.tooling),
+    aum,
+    costPercentages: percentages,
+    warnings,
+  };
+}
+
+/**
+ * Compare the engineered cost structure with the category benchmarks and
+ * the LLM's own unit cost estimate (converted into the reporting currency)
+ */
+export function checkCostStructure(
+  exWorks: ExWorksCostBreakdown,
+  percentages: CostPercentages,
+  config: CategoryConfig | null,
+  estimatedUnitCost?: number
+): AnalysisWarning[] {
+  const warnings: AnalysisWarning[] = [];
+
+  for (const [bucket, key] of BENCHMARKED) {
+    const range = config?.industryBenchmarks?.[key];
+    const value = percentages[bucket];
+    if (!range || exWorks.totalExWorks <= 0 || (value >= range.min && value <= range.max)) continue;
+
+    warnings.push({
+      code: "cost_structure_outlier",
+      severity: "info",
+      field: `costPercentages.${bucket}`,
+      message: `Engineered ${bucket} share of ${percent(value)} is outside the ${config!.name} range (${percent(range.min)}-${percent(range.max)})`,
+      value,
+      expected: { min: range.min, max: range.max },
+    });
+  }
+
+  if (estimatedUnitCost !== undefined && estimatedUnitCost > 0 && exWorks.totalExWorks > 0) {
+    const ratio = exWorks.totalExWorks / estimatedUnitCost;
+    if (ratio > ESTIMATE_MISMATCH_RATIO || ratio < 1 / ESTIMATE_MISMATCH_RATIO) {
+      warnings.push({
+        code: "estimate_mismatch",
+        severity: "info",
+        field: "estimatedUnitCost",
+        message: `Engineered Ex-Works price is ${ratio.toFixed(1)}x the LLM's unit cost estimate of ${estimatedUnitCost.toFixed(4)}`,
+        value: estimatedUnitCost,
+        expected: {
+          min: exWorks.totalExWorks / ESTIMATE_MISMATCH_RATIO,
+          max: exWorks.totalExWorks * ESTIMATE_MISMATCH_RATIO,
+        },
+      });
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,86 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Script to time the material price lookups of a 30-line BOM one line at a
+ * time and MATERIAL_LOOKUP_CONCURRENCY lines at a time, as the materials pass
+ * of lib/costing.ts and the agent materials node runs them
+ *
+ * Usage:
+ *   npx ts-node scripts/benchmark-material-lookups.ts [--lines=30] [--runs=5] [--latency=0]
+ *
+ * Options:
+ *   --lines     BOM lines, drawn from the seed materials (default: 30)
+ *   --runs      Timed runs of each mode; the median is reported (default: 5)
+ *   --latency   Milliseconds added to each lookup, to model a remote database
+ *               when only the in-memory fallback is available (default: 0)
+ */
+
+import prisma from "../lib/prisma";
+import { findMaterialPrice, SEED_MATERIAL_PRICES } from "../lib/db";
+import { createFxConverter, FxConverter, toReportingPrice } from "../lib/fx";
+import { MATERIAL_LOOKUP_CONCURRENCY } from "../lib/materials";
+import { mapWithConcurrency } from "../lib/concurrency";
+
+function numberArg(args: string[], name: string, fallback: number): number {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  const value = arg ? Number(arg.split("=")[1]) : NaN;
+  return value >= 0 ? value : fallback;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const lines = numberArg(args, "lines", 30);
+  const runs = Math.max(1, numberArg(args, "runs", 5));
+  const latency = numberArg(args, "latency", 0);
+
+  const materials = Array.from({ length: lines }, (_, i) => SEED_MATERIAL_PRICES[i % SEED_MATERIAL_PRICES.length].materialName);
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  // The lookup each BOM line makes: price on file, then into the reporting currency
+  const lookup = async (material: string, fx: FxConverter) => {
+    if (latency > 0) await sleep(latency);
+    const price = await findMaterialPrice(material);
+    return price && toReportingPrice(price, fx);
+  };
+
+  const time = async (limit: number) => {
+    const timings: number[] = [];
+    for (let run = 0; run < runs; run++) {
+      // One converter per run, as per analysis
+      const fx = createFxConverter();
+      const start = performance.now();
+      await mapWithConcurrency(materials, limit, (material) => lookup(material, fx));
+      timings.push(performance.now() - start);
+    }
+    return timings.sort((a, b) => a - b)[Math.floor(timings.length / 2)];
+  };
+
+  console.log("========================================");
+  console.log("  Material Lookup Benchmark");
+  console.log("========================================");
+  console.log(`${lines} BOM lines, median of ${runs} runs${latency > 0 ? `, ${latency} ms added per lookup` : ""}\n`);
+
+  try {
+    // Warm the connection (or the fallback check) before timing
+    await lookup(materials[0], createFxConverter());
+
+    const sequential = await time(1);
+    const concurrent = await time(MATERIAL_LOOKUP_CONCURRENCY);
+
+    console.log(`  ${"One at a time:".padEnd(20)}${sequential.toFixed(0)} ms`);
+    console.log(`  ${`${MATERIAL_LOOKUP_CONCURRENCY} at a time:`.padEnd(20)}${concurrent.toFixed(0)} ms`);
+    console.log(`\nSpeed-up: ${(sequential / Math.max(concurrent, 1e-6)).toFixed(1)}x`);
+  } catch (error) {
+    console.error("\nError during benchmark:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,61 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Script to load commodity index values from a local CSV file and re-price
+ * the index-linked materials
+ *
+ * Usage:
+ *   npx ts-node scripts/import-indices.ts <file.csv>
+ *
+ * CSV columns (header required, any order):
+ *   index,date,value,unit,currency,source
+ *   LME-AL,2026-08-01,2510,t,USD,LME cash settlement
+ */
+
+import { readFileSync } from "fs";
+import prisma from "../lib/prisma";
+import { importIndexCsv } from "../lib/indices";
+
+async function main() {
+  const file = process.argv.slice(2).find((arg) => !arg.startsWith("--"));
+
+  if (!file) {
+    console.error("Usage: npx ts-node scripts/import-indices.ts <file.csv>");
+    process.exit(1);
+  }
+
+  console.log("========================================");
+  console.log("  Commodity Index Import");
+  console.log("========================================");
+
+  try {
+    const result = await importIndexCsv(readFileSync(file, "utf8"));
+
+    for (const error of result.errors) {
+      console.warn(`  Skipped ${error}`);
+    }
+    console.log(`Imported ${result.imported} values for ${result.indexCodes.join(", ") || "no indices"}`);
+
+    console.log(`\nRe-priced ${result.repriced.length} materials:`);
+    for (const r of result.repriced) {
+      console.log(
+        `  ${r.materialName}: ${r.previousPrice.toFixed(4)} -> ${r.pricePerUnit.toFixed(4)} ${r.currency}/${r.unit} (${r.indexCode} @ ${r.indexDate})`
+      );
+    }
+    for (const warning of result.warnings) {
+      console.warn(`  Not re-priced: ${warning}`);
+    }
+  } catch (error) {
+    console.error("\nError during import:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,63 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Script to re-cost saved analyses against current material prices and
+ * labour rates, and print the drift report
+ *
+ * Usage:
+ *   npx ts-node scripts/recost-historical.ts [--threshold=0.05]
+ *
+ * Options:
+ *   --threshold   Unit-cost drift that flags a contract for reopening (default: 0.05)
+ */
+
+import prisma from "../lib/prisma";
+import { DEFAULT_REOPEN_THRESHOLD, runRecostJob } from "../lib/recost";
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  // Parse threshold from args
+  const thresholdArg = args.find((arg) => arg.startsWith("--threshold="));
+  const threshold = thresholdArg
+    ? parseFloat(thresholdArg.split("=")[1])
+    : DEFAULT_REOPEN_THRESHOLD;
+
+  console.log("========================================");
+  console.log("  Re-costing Saved Analyses");
+  console.log("========================================");
+
+  try {
+    const report = await runRecostJob({ threshold });
+
+    for (const product of report.products) {
+      if (product.skipped) {
+        console.log(`  ${product.productName}: skipped (${product.skipped})`);
+        continue;
+      }
+
+      const sign = product.change >= 0 ? "+" : "";
+      console.log(
+        `${product.reopen ? "! " : "  "}${product.productName}: ${product.originalUnitCost.toFixed(4)} -> ${product.unitCost.toFixed(4)} ${product.currency} (${sign}${(product.changePercent * 100).toFixed(1)}%)`
+      );
+      for (const line of product.lines.filter((l) => l.change !== 0).slice(0, 3)) {
+        console.log(`      ${line.name}: ${line.change >= 0 ? "+" : ""}${line.change.toFixed(4)}`);
+      }
+    }
+
+    const reopen = report.products.filter((p) => p.reopen).length;
+    console.log(`\n${reopen} of ${report.products.length} products drifted ${(threshold * 100).toFixed(0)}% or more`);
+  } catch (error) {
+    console.error("\nError during re-costing:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
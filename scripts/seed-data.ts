@@ -14,6 +14,9 @@ import prisma from "../lib/prisma";
 import {
   SEED_MATERIAL_PRICES,
   SEED_LABOR_RATES,
+  SEED_FX_RATES,
+  SEED_COMMODITY_INDICES,
+  SEED_TARIFF_RATES,
   SEED_HISTORICAL_COSTS,
 } from "../lib/db";
 import { Prisma } from "@prisma/client";
@@ -36,6 +39,9 @@ async function main() {
     if (shouldClear) {
       console.log("Clearing existing data...");
       await prisma.historicalCost.deleteMany();
+      await prisma.tariffRate.deleteMany();
+      await prisma.commodityIndex.deleteMany();
+      await prisma.fxRate.deleteMany();
       await prisma.laborRate.deleteMany();
       await prisma.materialPrice.deleteMany();
       console.log("Existing data cleared\n");
@@ -58,6 +64,16 @@ async function main() {
             unit: material.unit,
             currency: material.currency,
             supplier: material.supplier || null,
+            density: material.density ?? null,
+            thickness: material.thickness ?? null,
+            width: material.width ?? null,
+            unitMass: material.unitMass ?? null,
+            priceBreaks: material.priceBreaks ?? undefined,
+            indexCode: material.indexCode ?? null,
+            indexFactor: material.indexFactor ?? null,
+            indexUnit: material.indexUnit ?? null,
+            indexAdder: material.indexAdder ?? null,
+            indexDate: material.indexDate ?? null,
             lastUpdated: new Date(),
           },
         });
@@ -69,6 +85,16 @@ async function main() {
             unit: material.unit,
             currency: material.currency,
             supplier: material.supplier || null,
+            density: material.density ?? null,
+            thickness: material.thickness ?? null,
+            width: material.width ?? null,
+            unitMass: material.unitMass ?? null,
+            priceBreaks: material.priceBreaks ?? undefined,
+            indexCode: material.indexCode ?? null,
+            indexFactor: material.indexFactor ?? null,
+            indexUnit: material.indexUnit ?? null,
+            indexAdder: material.indexAdder ?? null,
+            indexDate: material.indexDate ?? null,
             lastUpdated: new Date(),
           },
         });
@@ -113,6 +139,103 @@ async function main() {
     }
     console.log(`  Seeded ${laborCount} labor rates`);
 
+    // Seed FX Rates
+    console.log("Seeding FX rates...");
+    let fxCount = 0;
+    for (const fx of SEED_FX_RATES) {
+      await prisma.fxRate.upsert({
+        where: {
+          baseCurrency_quoteCurrency_effectiveDate: {
+            baseCurrency: fx.baseCurrency,
+            quoteCurrency: fx.quoteCurrency,
+            effectiveDate: fx.effectiveDate,
+          },
+        },
+        update: {
+          rate: fx.rate,
+          source: fx.source || null,
+          lastUpdated: new Date(),
+        },
+        create: {
+          baseCurrency: fx.baseCurrency,
+          quoteCurrency: fx.quoteCurrency,
+          rate: fx.rate,
+          effectiveDate: fx.effectiveDate,
+          source: fx.source || null,
+        },
+      });
+      fxCount++;
+    }
+    console.log(`  Seeded ${fxCount} FX rates`);
+
+    // Seed Commodity Indices
+    console.log("Seeding commodity indices...");
+    let indexCount = 0;
+    for (const index of SEED_COMMODITY_INDICES) {
+      await prisma.commodityIndex.upsert({
+        where: {
+          indexCode_effectiveDate: {
+            indexCode: index.indexCode,
+            effectiveDate: index.effectiveDate,
+          },
+        },
+        update: {
+          value: index.value,
+          unit: index.unit,
+          currency: index.currency,
+          source: index.source || null,
+          lastUpdated: new Date(),
+        },
+        create: {
+          indexCode: index.indexCode,
+          value: index.value,
+          unit: index.unit,
+          currency: index.currency,
+          effectiveDate: index.effectiveDate,
+          source: index.source || null,
+        },
+      });
+      indexCount++;
+    }
+    console.log(`  Seeded ${indexCount} commodity index values`);
+
+    // Seed Tariff Rates
+    console.log("Seeding tariff rates...");
+    let tariffCount = 0;
+    for (const tariff of SEED_TARIFF_RATES) {
+      // originCountry is nullable, so match on all three keys instead of a compound unique
+      const existingTariff = await prisma.tariffRate.findFirst({
+        where: {
+          hsCode: tariff.hsCode,
+          importCountry: tariff.importCountry,
+          originCountry: tariff.originCountry || null,
+        },
+      });
+
+      if (existingTariff) {
+        await prisma.tariffRate.update({
+          where: { id: existingTariff.id },
+          data: {
+            dutyRate: tariff.dutyRate,
+            description: tariff.description || null,
+            lastUpdated: new Date(),
+          },
+        });
+      } else {
+        await prisma.tariffRate.create({
+          data: {
+            hsCode: tariff.hsCode,
+            importCountry: tariff.importCountry,
+            originCountry: tariff.originCountry || null,
+            dutyRate: tariff.dutyRate,
+            description: tariff.description || null,
+          },
+        });
+      }
+      tariffCount++;
+    }
+    console.log(`  Seeded ${tariffCount} tariff rates`);
+
     // Seed Historical Costs
     console.log("Seeding historical costs...");
     let costCount = 0;
@@ -156,6 +279,9 @@ async function main() {
     console.log("========================================");
     console.log(`Materials: ${materialCount}`);
     console.log(`Labor rates: ${laborCount}`);
+    console.log(`FX rates: ${fxCount}`);
+    console.log(`Commodity index values: ${indexCount}`);
+    console.log(`Tariff rates: ${tariffCount}`);
     console.log(`Historical costs: ${costCount}`);
     console.log(`\nTotal time: ${elapsed}s`);
 
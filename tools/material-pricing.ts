@@ -4,6 +4,11 @@ import {
   searchMaterials as dbSearchMaterials,
   MaterialPrice,
 } from "@/lib/db";
+import { convertQuantity } from "@/lib/units";
+import { createFxConverter } from "@/lib/fx";
+import { materialProvenance, priceMaterialLine } from "@/lib/materials";
+import { DEFAULT_SUBSTITUTES, findMaterialSubstitutes } from "@/lib/substitutes";
+import type { MaterialSubstitute } from "@/lib/prompts/types";
 
 export interface MaterialPriceResult {
   found: boolean;
@@ -13,6 +18,8 @@ export interface MaterialPriceResult {
   currency?: string;
   message: string;
   similarityScore?: number;
+  totalCost?: number;
+  unitIncompatible?: boolean;
 }
 
 /**
@@ -27,13 +34,28 @@ export async function getMaterialPrice(
   const material = await findMaterialPrice(materialName);
 
   if (material) {
-    const totalCost = quantity * material.pricePerUnit;
+    const conversion = convertQuantity(quantity, unit || material.unit, material.unit, material);
+
+    if (!conversion.compatible) {
+      return {
+        found: true,
+        materialName: material.materialName,
+        pricePerUnit: material.pricePerUnit,
+        unit: material.unit,
+        currency: material.currency,
+        unitIncompatible: true,
+        message: `${material.materialName}: $${material.pricePerUnit.toFixed(2)} per ${material.unit}. Cannot price ${quantity} ${unit}: ${conversion.note}`,
+      };
+    }
+
+    const totalCost = conversion.quantity * material.pricePerUnit;
     return {
       found: true,
       materialName: material.materialName,
       pricePerUnit: material.pricePerUnit,
       unit: material.unit,
       currency: material.currency,
+      totalCost,
       message: `${material.materialName}: $${material.pricePerUnit.toFixed(2)} per ${material.unit}. For ${quantity} ${unit || material.unit}: $${totalCost.toFixed(2)}`,
     };
   }
@@ -45,6 +67,73 @@ export async function getMaterialPrice(
   };
 }
 
+export interface MaterialSubstituteResult {
+  found: boolean;
+  materialName: string;
+  currentCost?: number;
+  currency?: string;
+  substitutes: MaterialSubstitute[];
+  message: string;
+}
+
+/**
+ * Find cheaper comparable materials for a quantity of a material
+ * Substitutes are priced at the same quantity, in the material's currency
+ */
+export async function findSubstitutes(
+  materialName: string,
+  quantity: number = 1,
+  unit?: string,
+  limit: number = DEFAULT_SUBSTITUTES
+): Promise<MaterialSubstituteResult> {
+  const material = await findMaterialPrice(materialName);
+
+  if (!material) {
+    return {
+      found: false,
+      materialName,
+      substitutes: [],
+      message: `Material "${materialName}" not found in database. Substitutes can only be compared against a price on file.`,
+    };
+  }
+
+  const fx = createFxConverter(material.currency);
+  const line = priceMaterialLine(
+    { name: materialName, material: material.materialName, quantity, unit: unit || material.unit },
+    { ...material, provenance: materialProvenance(material, fx.asOf) },
+    material
+  );
+
+  if (line.unitIncompatible) {
+    return {
+      found: true,
+      materialName: material.materialName,
+      currency: material.currency,
+      substitutes: [],
+      message: `Cannot price ${quantity} ${unit} of ${material.materialName}: ${line.unitNote}`,
+    };
+  }
+
+  const substitutes = await findMaterialSubstitutes(line, fx, limit);
+  const current = `${material.materialName}: $${line.totalCost.toFixed(2)} for ${quantity} ${line.unit}`;
+
+  return {
+    found: true,
+    materialName: material.materialName,
+    currentCost: line.totalCost,
+    currency: material.currency,
+    substitutes,
+    message: substitutes.length > 0
+      ? [
+        current,
+        ...substitutes.map((s) =>
+          `- ${s.materialName}: $${s.line.totalCost.toFixed(2)} (saves $${s.saving.toFixed(2)}, ${(s.savingPercent * 100).toFixed(0)}%)${s.riskNotes.length > 0 ? `. ${s.riskNotes.join("; ")}` : ""}`
+        ),
+      ].join("\n")
+      : `${current}. No cheaper comparable material on file.`,
+  };
+}
+
 /**
  * List all materials in the database
  */